@@ -0,0 +1,200 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { KnowledgeGraphManager } from '../lib/knowledge-graph-manager.js';
+import { IStorageAdapter } from '../lib/storage-interface.js';
+import { JsonlStorageAdapter } from '../lib/jsonl-storage-adapter.js';
+import { SqliteStorageAdapter } from '../lib/sqlite-storage-adapter.js';
+import { AuditingStorageAdapter } from '../lib/audit/auditing-storage-adapter.js';
+import { withAuditContext } from '../lib/audit/audit-log.js';
+import { AuditEntry } from '../lib/types.js';
+import { InMemoryStorageAdapter, createTestEntity, createTestRelation, createTestObservation } from './storage-test-helpers.js';
+
+const GRAPH = {
+  entities: [createTestEntity('Alice'), createTestEntity('Bob')],
+  relations: [createTestRelation('Alice', 'Bob')]
+};
+
+function auditEntry(id: string, overrides: Partial<AuditEntry> = {}): AuditEntry {
+  return {
+    id,
+    timestamp: '2024-01-20T10:00:00.000Z',
+    tool: 'create_entities',
+    threadId: 'thread-001',
+    operation: 'create_entity',
+    entityName: 'Alice',
+    ...overrides
+  };
+}
+
+/**
+ * Tests for the audit log storage methods of each adapter
+ */
+describe.each([
+  ['JSONL', (dir: string) => new JsonlStorageAdapter(dir)],
+  ['SQLite', (dir: string) => new SqliteStorageAdapter(path.join(dir, 'memory.db'))],
+  ['in-memory', () => new InMemoryStorageAdapter()]
+])('Audit log storage (%s storage)', (_name, createStorage: (dir: string) => IStorageAdapter) => {
+  let testDir: string;
+  let storage: IStorageAdapter;
+
+  beforeEach(async () => {
+    testDir = `/tmp/test-audit-log-${Date.now()}`;
+    await fs.mkdir(testDir, { recursive: true });
+    storage = createStorage(testDir);
+    await storage.initialize();
+    await storage.appendAuditEntries([
+      auditEntry('audit_1'),
+      auditEntry('audit_2', { tool: 'bulk_update', operation: 'update_entity', timestamp: '2024-01-21T10:00:00.000Z' }),
+      auditEntry('audit_3', {
+        threadId: 'thread-002',
+        operation: 'create_relation',
+        entityName: undefined,
+        relation: { from: 'Task', to: 'Alice', relationType: 'assigned_to' },
+        timestamp: '2024-01-22T10:00:00.000Z'
+      })
+    ]);
+    await storage.appendAuditEntries([
+      auditEntry('audit_4', { tool: 'rename_thread', operation: 'rename_thread', entityName: undefined, newThreadId: 'thread-003', timestamp: '2024-01-23T10:00:00.000Z' })
+    ]);
+  });
+
+  afterEach(async () => {
+    if (storage instanceof SqliteStorageAdapter) await storage.close();
+    await fs.rm(testDir, { recursive: true, force: true }).catch(() => {});
+  });
+
+  it('should return entries most recent first', async () => {
+    const entries = await storage.loadAuditLog();
+
+    expect(entries.map(e => e.id)).toEqual(['audit_4', 'audit_3', 'audit_2', 'audit_1']);
+    expect(entries[1]).toEqual(expect.objectContaining({ relation: { from: 'Task', to: 'Alice', relationType: 'assigned_to' } }));
+  });
+
+  it('should filter by thread, tool, entity, time range and limit', async () => {
+    const ids = async (filter: Parameters<IStorageAdapter['loadAuditLog']>[0]) =>
+      (await storage.loadAuditLog(filter)).map(e => e.id);
+
+    expect(await ids({ threadId: 'thread-003' })).toEqual(['audit_4']);
+    expect(await ids({ threadId: 'thread-002' })).toEqual(['audit_3']);
+    expect(await ids({ tool: 'bulk_update' })).toEqual(['audit_2']);
+    expect(await ids({ entityName: 'Alice' })).toEqual(['audit_3', 'audit_2', 'audit_1']);
+    expect(await ids({ since: '2024-01-21T10:00:00Z', until: '2024-01-22T12:00:00+02:00' })).toEqual(['audit_3', 'audit_2']);
+    expect(await ids({ threadId: 'thread-001', limit: 2 })).toEqual(['audit_4', 'audit_2']);
+  });
+});
+
+describe('Audit log in the knowledge graph manager', () => {
+  let storage: InMemoryStorageAdapter;
+  let manager: KnowledgeGraphManager;
+
+  beforeEach(async () => {
+    storage = new InMemoryStorageAdapter();
+    await storage.saveGraph(GRAPH);
+    manager = new KnowledgeGraphManager('', storage);
+  });
+
+  it('should log created entities with the tool of the running call', async () => {
+    await withAuditContext('save_memory', () => manager.createEntities('thread-001', [createTestEntity('Carol')]));
+    await manager.createEntities('thread-001', [createTestEntity('Dave')]);
+
+    const [dave, carol] = await manager.getAuditLog();
+
+    expect(carol).toMatchObject({ tool: 'save_memory', threadId: 'thread-001', operation: 'create_entity', entityName: 'Carol' });
+    expect(carol.before).toBeUndefined();
+    expect(carol.after).toMatchObject({ name: 'Carol' });
+    expect(dave.tool).toBeUndefined();
+  });
+
+  it('should log updates with the state before and after', async () => {
+    await withAuditContext('bulk_update', () =>
+      manager.bulkUpdate('thread-001', [{ entityName: 'Alice', confidence: 0.2, addObservations: ['Leads the team'] }])
+    );
+
+    const entries = await manager.getAuditLog({ tool: 'bulk_update' });
+
+    expect(entries).toHaveLength(1);
+    expect(entries[0].operation).toBe('update_entity');
+    expect(entries[0].changedFields).toEqual(expect.arrayContaining(['observations', 'confidence']));
+    expect(entries[0].before).toMatchObject({ confidence: GRAPH.entities[0].confidence, observations: [] });
+    expect((entries[0].after as any).observations.map((o: any) => o.content)).toEqual(['Leads the team']);
+  });
+
+  it('should log deleted entities with the relations deleted with them', async () => {
+    await withAuditContext('delete_entities', () => manager.deleteEntities('thread-001', ['Bob']));
+
+    const entries = await manager.getAuditLog({ entityName: 'Bob' });
+
+    expect(entries.map(e => e.operation).sort()).toEqual(['delete_entity', 'delete_relation']);
+    expect(entries.every(e => e.tool === 'delete_entities' && e.before !== undefined && e.after === undefined)).toBe(true);
+  });
+
+  it('should log thread changes under both thread IDs', async () => {
+    await withAuditContext('rename_thread', () => manager.renameThread('thread-001', 'thread-renamed'));
+
+    expect(await manager.getAuditLog({ threadId: 'thread-renamed' })).toEqual([
+      expect.objectContaining({ operation: 'rename_thread', threadId: 'thread-001', newThreadId: 'thread-renamed' })
+    ]);
+  });
+});
+
+describe('AuditingStorageAdapter', () => {
+  it('should skip writes that change nothing and diff replaced graphs', async () => {
+    const inner = new InMemoryStorageAdapter();
+    await inner.saveGraph(GRAPH);
+    const storage = new AuditingStorageAdapter(inner);
+
+    await storage.upsertEntity(GRAPH.entities[0]);
+    await storage.upsertRelation(GRAPH.relations[0]);
+    expect(await storage.loadAuditLog()).toEqual([]);
+
+    await storage.saveGraph({ entities: [{ ...GRAPH.entities[0], importance: 0.1 }], relations: [] });
+
+    const entries = await storage.loadAuditLog();
+    expect(entries.map(e => [e.operation, e.entityName ?? e.relation?.to]).sort()).toEqual([
+      ['delete_entity', 'Bob'],
+      ['delete_relation', 'Bob'],
+      ['update_entity', 'Alice']
+    ]);
+    expect(entries.find(e => e.operation === 'update_entity')!.changedFields).toEqual(['importance']);
+  });
+});
+
+describe.each([
+  ['JSONL', (dir: string) => new JsonlStorageAdapter(dir)],
+  ['SQLite', (dir: string) => new SqliteStorageAdapter(path.join(dir, 'memory.db'))]
+])('AuditingStorageAdapter (%s storage)', (_name, createStorage: (dir: string) => IStorageAdapter) => {
+  let testDir: string;
+  let inner: IStorageAdapter;
+
+  beforeEach(async () => {
+    testDir = `/tmp/test-auditing-adapter-${Date.now()}`;
+    await fs.mkdir(testDir, { recursive: true });
+    inner = createStorage(testDir);
+    await inner.initialize();
+  });
+
+  afterEach(async () => {
+    if (inner instanceof SqliteStorageAdapter) await inner.close();
+    await fs.rm(testDir, { recursive: true, force: true }).catch(() => {});
+  });
+
+  it('should have the wrapped storage log the writes made through it, and only those', async () => {
+    await inner.saveGraph(GRAPH);
+    const storage = new AuditingStorageAdapter(inner);
+
+    await withAuditContext('add_observations', () =>
+      storage.appendObservation('thread-001', 'Alice', createTestObservation({ content: 'Leads the team' }))
+    );
+    await storage.deleteEntity('thread-001', 'Bob');
+
+    const entries = await inner.loadAuditLog();
+    expect(entries.map(e => [e.operation, e.entityName ?? e.relation?.to])).toEqual([
+      ['delete_relation', 'Bob'],
+      ['delete_entity', 'Bob'],
+      ['update_entity', 'Alice']
+    ]);
+    expect(entries[2]).toMatchObject({ tool: 'add_observations', changedFields: expect.arrayContaining(['observations']) });
+    expect((entries[2].after as any).observations.map((o: any) => o.content)).toEqual(['Leads the team']);
+  });
+});
@@ -0,0 +1,109 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { KnowledgeGraphManager } from '../lib/knowledge-graph-manager.js';
+import { handleSaveMemory } from '../lib/save-memory-handler.js';
+import { validateSaveMemoryRequest } from '../lib/validation.js';
+import { SaveMemoryEntitySchema } from '../lib/schemas.js';
+import { SaveMemoryEntity } from '../lib/types.js';
+import { InMemoryStorageAdapter, createTestEntity, createTestRelation, createTestObservation } from './storage-test-helpers.js';
+
+const THREAD_ID = 'thread-001';
+
+const entity = (name: string, targetEntity: string, aliases?: string[]): SaveMemoryEntity => ({
+  name,
+  entityType: 'Technology',
+  observations: [`${name} is part of the platform`],
+  relations: [{ targetEntity, relationType: 'runs on' }],
+  ...(aliases && { aliases })
+});
+
+/**
+ * Tests for resolving entity aliases to their entities
+ */
+describe('Entity aliases', () => {
+  let manager: KnowledgeGraphManager;
+
+  beforeEach(async () => {
+    const storage = new InMemoryStorageAdapter();
+    await storage.saveGraph({
+      entities: [
+        createTestEntity('Kubernetes', {
+          aliases: ['K8s', 'kube'],
+          observations: [createTestObservation({ id: 'obs_1', content: 'Container orchestration platform' })]
+        }),
+        createTestEntity('Docker'),
+        createTestEntity('Helm')
+      ],
+      relations: [
+        createTestRelation('Kubernetes', 'Docker', { relationType: 'runs' }),
+        createTestRelation('Helm', 'Kubernetes', { relationType: 'deploys to' })
+      ]
+    });
+    manager = new KnowledgeGraphManager('', storage);
+  });
+
+  const save = (entities: SaveMemoryEntity[]) => handleSaveMemory(
+    { threadId: THREAD_ID, entities },
+    (threadId, created) => manager.createEntities(threadId, created),
+    (threadId, relations) => manager.createRelations(threadId, relations),
+    threadId => manager.getEntityNamesInThread(threadId),
+    threadId => manager.getEntityAliasesInThread(threadId)
+  );
+
+  it('should save relations to an alias as relations to its entity', async () => {
+    const result = await save([entity('ArgoCD', 'K8s')]);
+
+    expect(result.success).toBe(true);
+    const graph = await manager.readGraph(THREAD_ID);
+    expect(graph.relations.filter(r => r.from === 'ArgoCD' || r.to === 'ArgoCD').map(r => [r.from, r.to])).toEqual([
+      ['ArgoCD', 'Kubernetes'],
+      ['Kubernetes', 'ArgoCD']
+    ]);
+  });
+
+  it('should save the aliases of new entities and accept them as targets in the same request', async () => {
+    const result = await save([entity('PostgreSQL', 'pg-bouncer', ['Postgres']), entity('PgBouncer', 'Postgres', ['pg-bouncer'])]);
+
+    expect(result.success).toBe(true);
+    const graph = await manager.openNodes(THREAD_ID, ['Postgres', 'pg-bouncer']);
+    expect(graph.entities.map(e => [e.name, e.aliases])).toEqual([['PostgreSQL', ['Postgres']], ['PgBouncer', ['pg-bouncer']]]);
+    expect(graph.relations.map(r => [r.from, r.to])).toContainEqual(['PostgreSQL', 'PgBouncer']);
+  });
+
+  it('should reject aliases that name another entity', () => {
+    const existingNames = new Set(['Kubernetes', 'Docker', 'Helm']);
+    const existingAliases = new Map([['K8s', 'Kubernetes'], ['kube', 'Kubernetes']]);
+
+    const result = validateSaveMemoryRequest([
+      entity('Podman', 'Docker', ['Docker']),
+      entity('Nomad', 'Docker', ['K8s']),
+      entity('OpenShift', 'Docker', ['Nomad'])
+    ], existingNames, existingAliases);
+
+    expect(result.errors.map(e => [e.entity, e.error])).toEqual([
+      ['Podman', "Alias 'Docker' is the name of another entity"],
+      ['Nomad', "Alias 'K8s' already refers to entity 'Kubernetes'"],
+      ['OpenShift', "Alias 'Nomad' is the name of another entity"]
+    ]);
+  });
+
+  it('should reject duplicate aliases and the entity name as an alias in the schema', () => {
+    expect(SaveMemoryEntitySchema.safeParse(entity('Kubernetes', 'Docker', ['K8s'])).success).toBe(true);
+    expect(SaveMemoryEntitySchema.safeParse(entity('Kubernetes', 'Docker', ['K8s', 'K8s'])).success).toBe(false);
+    expect(SaveMemoryEntitySchema.safeParse(entity('Kubernetes', 'Docker', ['Kubernetes'])).success).toBe(false);
+  });
+
+  it('should resolve aliases in open_nodes, get_context and find_relation_path', async () => {
+    expect((await manager.openNodes(THREAD_ID, ['K8s', 'Docker'])).entities.map(e => e.name)).toEqual(['Kubernetes', 'Docker']);
+    expect((await manager.getContext(THREAD_ID, ['kube'])).entities.map(e => e.name).sort()).toEqual(['Docker', 'Helm', 'Kubernetes']);
+
+    const path = await manager.findRelationPath(THREAD_ID, 'Helm', 'K8s');
+    expect(path.found).toBe(true);
+    expect(path.path).toEqual(['Helm', 'Kubernetes']);
+  });
+
+  it('should find entities by alias in search', async () => {
+    const result = await manager.searchNodes(THREAD_ID, 'k8s');
+
+    expect(result.entities.map(e => e.name)).toEqual(['Kubernetes']);
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { KnowledgeGraphManager } from '../lib/knowledge-graph-manager.js';
+import { withAuditContext } from '../lib/audit/audit-log.js';
+import { InMemoryStorageAdapter, createTestEntity, createTestRelation, createTestObservation } from './storage-test-helpers.js';
+
+const THREAD_ID = 'thread-001';
+
+/**
+ * Tests for the get_entity_history timeline
+ */
+describe('Entity history', () => {
+  let manager: KnowledgeGraphManager;
+
+  beforeEach(async () => {
+    manager = new KnowledgeGraphManager('', new InMemoryStorageAdapter());
+    await manager.createEntities(THREAD_ID, [
+      createTestEntity('Alice', { observations: [createTestObservation({ id: 'obs_1', content: 'Works on the API' })] }),
+      createTestEntity('Bob')
+    ]);
+  });
+
+  it('should list every change to the entity and its relations in order', async () => {
+    await manager.createRelations(THREAD_ID, [createTestRelation('Alice', 'Bob')]);
+    await withAuditContext('update_observation', () => manager.updateObservation({
+      entityName: 'Alice',
+      observationId: 'obs_1',
+      newContent: 'Works on billing',
+      agentThreadId: THREAD_ID,
+      timestamp: '2024-02-01T00:00:00Z'
+    }));
+    await withAuditContext('bulk_update', () => manager.bulkUpdate(THREAD_ID, [{ entityName: 'Alice', confidence: 0.3 }]));
+    await manager.deleteObservations(THREAD_ID, [{ entityName: 'Alice', observations: ['obs_1'] }]);
+    await manager.deleteRelations(THREAD_ID, [createTestRelation('Alice', 'Bob')]);
+
+    const history = await manager.getEntityHistory(THREAD_ID, 'Alice');
+
+    expect(history.map(e => [e.change, e.version])).toEqual([
+      ['entity_created', 1],
+      ['relation_created', 1],
+      ['observation_updated', 2],
+      ['entity_updated', 3],
+      ['observation_deleted', 4],
+      ['relation_removed', 2]
+    ]);
+    expect(history[0].entity!.observations.map(o => o.content)).toEqual(['Works on the API']);
+    expect(history[2]).toMatchObject({
+      tool: 'update_observation',
+      observation: { content: 'Works on billing', supersedes: 'obs_1' },
+      previousObservation: { id: 'obs_1', content: 'Works on the API' }
+    });
+    expect(history[3]).toMatchObject({
+      tool: 'bulk_update',
+      fieldChanges: [{ field: 'confidence', before: 0.9, after: 0.3 }]
+    });
+    expect(history[4].observation!.id).toBe('obs_1');
+    expect(history[5].relation).toMatchObject({ from: 'Alice', to: 'Bob', relationType: 'knows' });
+  });
+
+  it('should keep the history of deleted entities and follow thread renames', async () => {
+    await manager.addObservations(THREAD_ID, [{
+      entityName: 'Bob',
+      contents: ['Leads the team'],
+      agentThreadId: THREAD_ID,
+      timestamp: '2024-02-01T00:00:00Z',
+      confidence: 0.9,
+      importance: 0.5
+    }]);
+    await manager.deleteEntities(THREAD_ID, ['Bob']);
+    await manager.renameThread(THREAD_ID, 'thread-renamed');
+
+    const history = await manager.getEntityHistory('thread-renamed', 'Bob');
+
+    expect(history.map(e => e.change)).toEqual(['entity_created', 'observation_added', 'entity_deleted']);
+    expect(history[1].observation!.content).toBe('Leads the team');
+    expect(history[2].entity!.name).toBe('Bob');
+  });
+
+  it('should return an empty history for entities stored before the audit log', async () => {
+    const storage = new InMemoryStorageAdapter();
+    await storage.saveGraph({ entities: [createTestEntity('Carol')], relations: [] });
+    const legacyManager = new KnowledgeGraphManager('', storage);
+
+    expect(await legacyManager.getEntityHistory(THREAD_ID, 'Carol')).toEqual([]);
+    await expect(legacyManager.getEntityHistory(THREAD_ID, 'Dave')).rejects.toThrow(`Entity 'Dave' not found in thread '${THREAD_ID}'`);
+  });
+});
@@ -0,0 +1,196 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { promises as fs } from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { KnowledgeGraphManager } from '../lib/knowledge-graph-manager.js';
+import { IStorageAdapter } from '../lib/storage-interface.js';
+import { JsonlStorageAdapter } from '../lib/jsonl-storage-adapter.js';
+import { SqliteStorageAdapter } from '../lib/sqlite-storage-adapter.js';
+import { nameSimilarity } from '../lib/analysis/duplicate-detector.js';
+import { InMemoryStorageAdapter, createTestEntity, createTestRelation, createTestObservation } from './storage-test-helpers.js';
+
+const THREAD_ID = 'thread-001';
+
+const observation = (id: string, content: string) => createTestObservation({ id, content });
+
+describe('nameSimilarity', () => {
+  it('should score spelling variants and reordered names as similar', () => {
+    expect(nameSimilarity('PostgreSQL', 'Postgres')).toBeGreaterThanOrEqual(0.8);
+    expect(nameSimilarity('Postgres', 'postgres db')).toBeGreaterThanOrEqual(0.8);
+    expect(nameSimilarity('Smith, John', 'John Smith')).toBe(1);
+    expect(nameSimilarity('Alice', 'Kubernetes')).toBeLessThan(0.5);
+  });
+});
+
+/**
+ * Tests for find_duplicate_entities and merge_entities
+ */
+describe('Duplicate entities', () => {
+  let storage: InMemoryStorageAdapter;
+  let manager: KnowledgeGraphManager;
+
+  beforeEach(async () => {
+    storage = new InMemoryStorageAdapter();
+    await storage.saveGraph({
+      entities: [
+        createTestEntity('PostgreSQL', {
+          observations: [observation('obs_1', 'Primary database for billing'), observation('obs_2', 'Runs version 16')],
+          importance: 0.6
+        }),
+        createTestEntity('Postgres', {
+          observations: [observation('obs_3', 'Primary database for billing'), observation('obs_4', 'Hosted on RDS')],
+          confidence: 0.95,
+          importance: 0.9
+        }),
+        createTestEntity('postgres db', { observations: [observation('obs_5', 'Billing database is hosted on RDS')], aliases: ['pg'] }),
+        createTestEntity('Alice'),
+        createTestEntity('Billing')
+      ],
+      relations: [
+        createTestRelation('Alice', 'Postgres', { relationType: 'administers' }),
+        createTestRelation('Postgres', 'Alice', { relationType: 'administered_by' }),
+        createTestRelation('Billing', 'PostgreSQL', { relationType: 'uses' }),
+        createTestRelation('Billing', 'postgres db', { relationType: 'uses' }),
+        createTestRelation('Postgres', 'PostgreSQL', { relationType: 'same_as' })
+      ]
+    });
+    manager = new KnowledgeGraphManager('', storage);
+  });
+
+  it('should group near-duplicate names with the best-described entity first', async () => {
+    const groups = await manager.findDuplicateEntities(THREAD_ID);
+
+    expect(groups).toHaveLength(1);
+    expect(groups[0].entityNames).toEqual(['Postgres', 'PostgreSQL', 'postgres db']);
+    const observed = groups[0].pairs.find(p => p.entityNames.includes('Postgres') && p.entityNames.includes('postgres db'))!;
+    expect(observed.observationOverlap).toBeGreaterThan(0);
+    expect(observed.score).toBeGreaterThan(observed.nameSimilarity);
+    expect((await manager.findDuplicateEntities(THREAD_ID, 0.99)).map(g => g.entityNames)).toEqual([['Postgres', 'PostgreSQL']]);
+  });
+
+  it('should move observations, rewire relations and keep the old names as aliases', async () => {
+    const result = await manager.mergeEntities(THREAD_ID, 'PostgreSQL', ['Postgres', 'postgres db']);
+
+    expect(result).toMatchObject({ mergedEntities: ['Postgres', 'postgres db'], movedObservations: 2, rewiredRelations: 2, droppedRelations: 2 });
+    expect(result.entity.aliases).toEqual(['Postgres', 'postgres db', 'pg']);
+    expect(result.entity).toMatchObject({ confidence: 0.95, importance: 0.9 });
+
+    const graph = await manager.readGraph(THREAD_ID);
+    expect(graph.entities.map(e => e.name).sort()).toEqual(['Alice', 'Billing', 'PostgreSQL']);
+    expect(graph.entities.find(e => e.name === 'PostgreSQL')!.observations.map(o => o.content)).toEqual([
+      'Primary database for billing',
+      'Runs version 16',
+      'Hosted on RDS',
+      'Billing database is hosted on RDS'
+    ]);
+    expect(graph.relations.map(r => `${r.from} ${r.relationType} ${r.to}`).sort()).toEqual([
+      'Alice administers PostgreSQL',
+      'Billing uses PostgreSQL',
+      'PostgreSQL administered_by Alice'
+    ]);
+  });
+
+  it('should merge in a single write and keep version chains that end in a skipped observation', async () => {
+    await storage.upsertEntity(createTestEntity('Postgres', {
+      observations: [
+        createTestObservation({ id: 'obs_3a', content: 'Main billing database', superseded_by: 'obs_3' }),
+        createTestObservation({ id: 'obs_3', content: 'Primary database for billing', version: 2, supersedes: 'obs_3a' })
+      ]
+    }));
+    const writes = vi.spyOn(storage, 'saveThreadGraph');
+    const relationWrites = vi.spyOn(storage, 'upsertRelation');
+
+    await manager.mergeEntities(THREAD_ID, 'PostgreSQL', ['Postgres']);
+
+    expect(writes).toHaveBeenCalledTimes(1);
+    expect(relationWrites).not.toHaveBeenCalled();
+    const merged = (await manager.readGraph(THREAD_ID)).entities.find(e => e.name === 'PostgreSQL')!;
+    expect(merged.observations.find(o => o.id === 'obs_3a')!.superseded_by).toBe('obs_1');
+    expect(merged.observations.some(o => o.id === 'obs_3')).toBe(false);
+  });
+
+  it('should reject unknown entities and merging an entity into itself', async () => {
+    await expect(manager.mergeEntities(THREAD_ID, 'PostgreSQL', ['MySQL'])).rejects.toThrow("Entity 'MySQL' not found");
+    await expect(manager.mergeEntities(THREAD_ID, 'PostgreSQL', ['PostgreSQL'])).rejects.toThrow('cannot be merged into itself');
+  });
+});
+
+describe.each([
+  ['JSONL', (dir: string) => new JsonlStorageAdapter(dir)],
+  ['SQLite', (dir: string) => new SqliteStorageAdapter(path.join(dir, 'memory.db'))]
+])('Entity aliases (%s storage)', (_name, createStorage: (dir: string) => IStorageAdapter) => {
+  let testDir: string;
+  let storages: IStorageAdapter[];
+
+  const open = async () => {
+    const storage = createStorage(testDir);
+    await storage.initialize();
+    storages.push(storage);
+    return storage;
+  };
+
+  beforeEach(async () => {
+    testDir = `/tmp/test-entity-aliases-${Date.now()}`;
+    await fs.mkdir(testDir, { recursive: true });
+    storages = [];
+  });
+
+  afterEach(async () => {
+    for (const storage of storages) {
+      if (storage instanceof SqliteStorageAdapter) await storage.close();
+    }
+    await fs.rm(testDir, { recursive: true, force: true }).catch(() => {});
+  });
+
+  it('should persist aliases and leave them out for entities without any', async () => {
+    const storage = await open();
+    await storage.upsertEntity(createTestEntity('Kubernetes', { aliases: ['K8s', 'kube'] }));
+    await storage.upsertEntity(createTestEntity('Docker'));
+
+    const { entities } = await (await open()).loadThreadGraph(THREAD_ID);
+
+    expect(entities.find(e => e.name === 'Kubernetes')!.aliases).toEqual(['K8s', 'kube']);
+    expect(entities.find(e => e.name === 'Docker')).not.toHaveProperty('aliases');
+  });
+});
+
+describe('SQLite schema migration', () => {
+  let testDir: string;
+
+  beforeEach(async () => {
+    testDir = `/tmp/test-sqlite-migration-${Date.now()}`;
+    await fs.mkdir(testDir, { recursive: true });
+  });
+
+  afterEach(async () => {
+    await fs.rm(testDir, { recursive: true, force: true }).catch(() => {});
+  });
+
+  it('should add the aliases column to databases created before it existed', async () => {
+    const dbPath = path.join(testDir, 'memory.db');
+    const legacy = new Database(dbPath);
+    legacy.exec(`
+      CREATE TABLE entities (
+        agent_thread_id TEXT NOT NULL, name TEXT NOT NULL, entity_type TEXT NOT NULL,
+        timestamp TEXT NOT NULL, confidence REAL NOT NULL, importance REAL NOT NULL,
+        PRIMARY KEY (agent_thread_id, name)
+      );
+      CREATE TABLE archived_entities AS SELECT * FROM entities WHERE 0;
+      INSERT INTO entities VALUES ('${THREAD_ID}', 'Kubernetes', 'test', '2024-01-20T10:00:00Z', 0.9, 0.8);
+    `);
+    legacy.close();
+
+    const storage = new SqliteStorageAdapter(dbPath);
+    await storage.initialize();
+    try {
+      await storage.upsertEntity(createTestEntity('Docker', { aliases: ['moby'] }));
+      await storage.archiveThread(THREAD_ID);
+      await storage.restoreThread(THREAD_ID);
+
+      const { entities } = await storage.loadThreadGraph(THREAD_ID);
+      expect(entities.map(e => [e.name, e.aliases])).toEqual([['Kubernetes', undefined], ['Docker', ['moby']]]);
+    } finally {
+      await storage.close();
+    }
+  });
+});
@@ -0,0 +1,113 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { KnowledgeGraphManager } from '../lib/knowledge-graph-manager.js';
+import { IStorageAdapter } from '../lib/storage-interface.js';
+import { JsonlStorageAdapter } from '../lib/jsonl-storage-adapter.js';
+import { SqliteStorageAdapter } from '../lib/sqlite-storage-adapter.js';
+import { InMemoryStorageAdapter, createTestEntity, createTestRelation, createTestObservation } from './storage-test-helpers.js';
+
+const THREAD_ID = 'thread-001';
+
+/**
+ * Tests for rename_entity
+ */
+describe.each([
+  ['in-memory', () => new InMemoryStorageAdapter()],
+  ['JSONL', (dir: string) => new JsonlStorageAdapter(dir)],
+  ['SQLite', (dir: string) => new SqliteStorageAdapter(path.join(dir, 'memory.db'))]
+])('Entity rename (%s storage)', (_name, createStorage: (dir: string) => IStorageAdapter) => {
+  let testDir: string;
+  let storage: IStorageAdapter;
+  let manager: KnowledgeGraphManager;
+
+  beforeEach(async () => {
+    testDir = `/tmp/test-entity-rename-${Date.now()}`;
+    await fs.mkdir(testDir, { recursive: true });
+    storage = createStorage(testDir);
+    await storage.initialize();
+    await storage.saveGraph({
+      entities: [
+        createTestEntity('K8s cluster', {
+          aliases: ['Kubernetes'],
+          observations: [
+            createTestObservation({ id: 'obs_1', content: 'Runs version 1.28', superseded_by: 'obs_2' }),
+            createTestObservation({ id: 'obs_2', content: 'Runs version 1.29', version: 2, supersedes: 'obs_1' })
+          ]
+        }),
+        createTestEntity('Helm'),
+        createTestEntity('Docker', { aliases: ['moby'] })
+      ],
+      relations: [
+        createTestRelation('Helm', 'K8s cluster', { relationType: 'deploys to' }),
+        createTestRelation('K8s cluster', 'Helm', { relationType: 'deployed by' }),
+        createTestRelation('Helm', 'Docker', { relationType: 'uses' })
+      ]
+    });
+    manager = new KnowledgeGraphManager('', storage);
+  });
+
+  afterEach(async () => {
+    if (storage instanceof SqliteStorageAdapter) await storage.close();
+    await fs.rm(testDir, { recursive: true, force: true }).catch(() => {});
+  });
+
+  it('should rename the entity, move its relations and keep its observation history', async () => {
+    const result = await manager.renameEntity(THREAD_ID, 'K8s cluster', 'Kubernetes');
+
+    expect(result).toMatchObject({ previousName: 'K8s cluster', updatedRelations: 2 });
+    expect(result.entity).not.toHaveProperty('aliases');
+
+    const graph = await manager.readGraph(THREAD_ID);
+    expect(graph.entities.map(e => e.name).sort()).toEqual(['Docker', 'Helm', 'Kubernetes']);
+    expect(graph.relations.map(r => `${r.from} ${r.relationType} ${r.to}`).sort()).toEqual([
+      'Helm deploys to Kubernetes',
+      'Helm uses Docker',
+      'Kubernetes deployed by Helm'
+    ]);
+    const history = await manager.getObservationHistory(THREAD_ID, 'Kubernetes', 'obs_2');
+    expect(history.map(o => o.content)).toEqual(['Runs version 1.28', 'Runs version 1.29']);
+  });
+
+  it('should keep the old name as an alias when asked', async () => {
+    const result = await manager.renameEntity(THREAD_ID, 'K8s cluster', 'Kubernetes', true);
+
+    expect(result.entity.aliases).toEqual(['K8s cluster']);
+    expect((await manager.openNodes(THREAD_ID, ['K8s cluster'])).entities.map(e => e.name)).toEqual(['Kubernetes']);
+  });
+
+  it('should rename in one logged write that history and earlier reads follow', async () => {
+    await manager.addObservations(THREAD_ID, [{
+      entityName: 'K8s cluster',
+      contents: ['Hosts the billing service'],
+      agentThreadId: THREAD_ID,
+      timestamp: '2024-02-01T00:00:00Z',
+      confidence: 0.9,
+      importance: 0.5
+    }]);
+    const logged = (await manager.getAuditLog()).length;
+
+    await manager.renameEntity(THREAD_ID, 'K8s cluster', 'Kubernetes', true);
+
+    expect(await manager.getAuditLog()).toHaveLength(logged + 1);
+    expect((await manager.getAuditLog({ entityName: 'Kubernetes' }))[0])
+      .toMatchObject({ operation: 'rename_entity', entityName: 'K8s cluster', newEntityName: 'Kubernetes' });
+
+    const history = await manager.getEntityHistory(THREAD_ID, 'Kubernetes');
+    expect(history.map(e => [e.change, e.version])).toEqual([['observation_added', 1], ['entity_renamed', 2]]);
+    expect(history[1].fieldChanges).toEqual([
+      { field: 'name', before: 'K8s cluster', after: 'Kubernetes' },
+      { field: 'aliases', before: ['Kubernetes'], after: ['K8s cluster'] }
+    ]);
+
+    const earlier = await manager.readGraph(THREAD_ID, undefined, '2024-03-01T00:00:00Z');
+    expect(earlier.entities.find(e => e.name === 'K8s cluster')?.aliases).toEqual(['Kubernetes']);
+    expect(earlier.relations.map(r => `${r.from} ${r.relationType} ${r.to}`)).toContain('Helm deploys to K8s cluster');
+  });
+
+    it('should refuse names of other entities and aliases they have', async () => {
+    await expect(manager.renameEntity(THREAD_ID, 'K8s cluster', 'Helm')).rejects.toThrow(`Entity 'Helm' already exists in thread '${THREAD_ID}'`);
+    await expect(manager.renameEntity(THREAD_ID, 'K8s cluster', 'moby')).rejects.toThrow("Name 'moby' is an alias of entity 'Docker'");
+    await expect(manager.renameEntity(THREAD_ID, 'Minikube', 'Kubernetes')).rejects.toThrow("Entity 'Minikube' not found");
+  });
+});
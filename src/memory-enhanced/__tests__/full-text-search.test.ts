@@ -0,0 +1,263 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { stem } from '../lib/search/stemmer.js';
+import { analyze } from '../lib/search/tokenizer.js';
+import { parseQuery } from '../lib/search/query-parser.js';
+import { toLuceneQuery } from '../lib/search/lucene-query.js';
+import { buildSnippet, SNIPPET_LENGTH } from '../lib/search/inverted-index.js';
+import { SearchIndex } from '../lib/search/search-index.js';
+import { CACHE_DEFAULTS } from '../lib/storage-config.js';
+import { KnowledgeGraphManager } from '../lib/knowledge-graph-manager.js';
+import { JsonlStorageAdapter } from '../lib/jsonl-storage-adapter.js';
+import { SqliteStorageAdapter } from '../lib/sqlite-storage-adapter.js';
+import { InMemoryStorageAdapter, createTestEntity, createTestObservation } from './storage-test-helpers.js';
+
+/**
+ * Tests for the full-text search subsystem behind search_nodes
+ */
+describe('Full-text search', () => {
+  describe('stemmer', () => {
+    it.each([
+      ['deploying', 'deploy'],
+      ['deployed', 'deploy'],
+      ['deploys', 'deploy'],
+      ['happy', 'happi'],
+      ['ponies', 'poni'],
+      ['relational', 'relat'],
+      ['hopeful', 'hope']
+    ])('should stem %s to %s', (word, expected) => {
+      expect(stem(word)).toBe(expected);
+    });
+
+    it('should leave short words and words with digits unchanged', () => {
+      expect(stem('is')).toBe('is');
+      expect(stem('v2ing')).toBe('v2ing');
+    });
+  });
+
+  describe('tokenizer', () => {
+    it('should lowercase, drop stop words and split camelCase and digits', () => {
+      expect(analyze('The UserService2 of API-Gateway')).toEqual(['user', 'servic', '2', 'api', 'gateway']);
+    });
+  });
+
+  describe('query parser', () => {
+    it('should parse terms, phrases, OR and exclusions', () => {
+      const query = parseQuery('docker "blue green" -legacy OR podman');
+
+      expect(query.groups).toEqual([
+        { required: [{ terms: ['docker'] }, { terms: ['blue', 'green'] }], excluded: [{ terms: ['legaci'] }] },
+        { required: [{ terms: ['podman'] }], excluded: [] }
+      ]);
+    });
+
+    it('should ignore explicit AND and drop groups with only exclusions', () => {
+      expect(parseQuery('docker AND compose').groups[0].required).toHaveLength(2);
+      expect(parseQuery('-legacy').groups).toHaveLength(0);
+    });
+
+    it('should translate queries to Lucene without stemming', () => {
+      expect(toLuceneQuery('deploying "blue green" -legacy OR podman'))
+        .toBe('(+deploying +"blue green" -legacy) OR (+podman)');
+      expect(toLuceneQuery('user-service AND "C++"')).toBe('(+"user service" +c)');
+      expect(toLuceneQuery('-legacy')).toBeNull();
+    });
+  });
+
+  describe('snippets', () => {
+    it('should return short observations unchanged', () => {
+      expect(buildSnippet('short text', 0, 5)).toBe('short text');
+    });
+
+    it('should cut a window around the match in long observations', () => {
+      const text = `${'a'.repeat(150)} needle ${'b'.repeat(150)}`;
+
+      const snippet = buildSnippet(text, 151, 157);
+
+      expect(snippet).toContain('needle');
+      expect(snippet.startsWith('…')).toBe(true);
+      expect(snippet.endsWith('…')).toBe(true);
+      expect(snippet.length).toBeLessThanOrEqual(SNIPPET_LENGTH + 2);
+    });
+  });
+
+  describe('ranking through KnowledgeGraphManager', () => {
+    let manager: KnowledgeGraphManager;
+
+    const observation = (id: string, content: string) => createTestObservation({ id, content });
+
+    beforeEach(async () => {
+      manager = new KnowledgeGraphManager('', new InMemoryStorageAdapter());
+      await manager.createEntities('thread-001', [
+        createTestEntity('Deployment Pipeline', {
+          observations: [observation('o1', 'Runs on every merge to main')]
+        }),
+        createTestEntity('Release Notes', {
+          observations: [
+            observation('o2', 'Written after deploying to production'),
+            observation('o3', 'Mentions the blue green rollout')
+          ]
+        }),
+        createTestEntity('Legacy Scripts', {
+          observations: [observation('o4', 'Old deployment scripts kept for reference')]
+        })
+      ]);
+    });
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it('should rank name matches above observation matches', async () => {
+      const result = await manager.searchNodes('thread-001', 'deployments');
+
+      expect(result.entities.map(e => e.name)).toEqual(['Deployment Pipeline', 'Legacy Scripts', 'Release Notes']);
+      expect(result.entities[0].score).toBeGreaterThan(result.entities[1].score);
+    });
+
+    it('should return matched observation snippets', async () => {
+      const result = await manager.searchNodes('thread-001', 'production');
+
+      expect(result.entities).toHaveLength(1);
+      expect(result.entities[0].matches).toEqual([
+        { observationId: 'o2', snippet: 'Written after deploying to production' }
+      ]);
+    });
+
+    it('should match phrases only when the terms are adjacent', async () => {
+      const adjacent = await manager.searchNodes('thread-001', '"blue green"');
+      const reversed = await manager.searchNodes('thread-001', '"green blue"');
+
+      expect(adjacent.entities.map(e => e.name)).toEqual(['Release Notes']);
+      expect(reversed.entities).toHaveLength(0);
+    });
+
+    it('should support OR and exclusions', async () => {
+      const either = await manager.searchNodes('thread-001', 'merge OR rollout');
+      const excluded = await manager.searchNodes('thread-001', 'deploy -legacy');
+
+      expect(either.entities.map(e => e.name).sort()).toEqual(['Deployment Pipeline', 'Release Notes']);
+      expect(excluded.entities.map(e => e.name)).not.toContain('Legacy Scripts');
+    });
+
+    it('should match prefixes of longer terms', async () => {
+      const result = await manager.searchNodes('thread-001', 'pipe');
+
+      expect(result.entities.map(e => e.name)).toEqual(['Deployment Pipeline']);
+    });
+
+    it('should update the index on writes instead of rebuilding it', async () => {
+      await manager.searchNodes('thread-001', 'merge');
+      const indexThreadSpy = vi.spyOn(SearchIndex.prototype, 'indexThread');
+
+      await manager.addObservations('thread-001', [{
+        entityName: 'Legacy Scripts',
+        contents: ['Scheduled for removal in Q3'],
+        agentThreadId: 'thread-001',
+        timestamp: '2024-02-01T00:00:00Z',
+        confidence: 0.9,
+        importance: 0.8
+      }]);
+      await manager.deleteEntities('thread-001', ['Release Notes']);
+      const added = await manager.searchNodes('thread-001', 'removal');
+      const deleted = await manager.searchNodes('thread-001', 'production');
+
+      expect(indexThreadSpy).not.toHaveBeenCalled();
+      expect(added.entities.map(e => e.name)).toEqual(['Legacy Scripts']);
+      expect(deleted.entities).toHaveLength(0);
+    });
+  });
+
+  describe('index over JSONL storage shared with another process', () => {
+    let testDir: string;
+    let manager: KnowledgeGraphManager;
+    let other: KnowledgeGraphManager;
+
+    const createManager = async () => {
+      const storage = new JsonlStorageAdapter(testDir);
+      await storage.initialize();
+      return new KnowledgeGraphManager(testDir, storage);
+    };
+
+    beforeEach(async () => {
+      testDir = `/tmp/test-full-text-search-${Date.now()}`;
+      await fs.mkdir(testDir, { recursive: true });
+      manager = await createManager();
+      other = await createManager();
+      await manager.createEntities('thread-001', [
+        createTestEntity('Deployment Pipeline', {
+          observations: [createTestObservation({ id: 'o1', content: 'Runs on every merge to main' })]
+        })
+      ]);
+    });
+
+    afterEach(async () => {
+      vi.restoreAllMocks();
+      await fs.rm(testDir, { recursive: true, force: true }).catch(() => {});
+    });
+
+    it('should rebuild the index only after writes by the other process', async () => {
+      await manager.searchNodes('thread-001', 'merge');
+      const indexThreadSpy = vi.spyOn(SearchIndex.prototype, 'indexThread');
+
+      await manager.createEntities('thread-001', [
+        createTestEntity('Release Notes', {
+          observations: [createTestObservation({ id: 'o2', content: 'Written after deploying to production' })]
+        })
+      ]);
+      expect((await manager.searchNodes('thread-001', 'production')).entities.map(e => e.name)).toEqual(['Release Notes']);
+      expect(indexThreadSpy).not.toHaveBeenCalled();
+
+      await other.createEntities('thread-001', [
+        createTestEntity('Legacy Scripts', {
+          observations: [createTestObservation({ id: 'o3', content: 'Old scripts kept for reference' })]
+        })
+      ]);
+      expect((await manager.searchNodes('thread-001', 'reference')).entities.map(e => e.name)).toEqual(['Legacy Scripts']);
+      expect(indexThreadSpy).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('index over SQLite storage shared with another process', () => {
+    let testDir: string;
+    let storages: SqliteStorageAdapter[];
+    let manager: KnowledgeGraphManager;
+    let other: KnowledgeGraphManager;
+
+    beforeEach(async () => {
+      testDir = `/tmp/test-full-text-search-sqlite-${Date.now()}`;
+      await fs.mkdir(testDir, { recursive: true });
+      storages = [0, 1].map(() => new SqliteStorageAdapter(path.join(testDir, 'memory.db')));
+      [manager, other] = storages.map(storage => new KnowledgeGraphManager(testDir, storage));
+      await manager.createEntities('thread-001', [
+        createTestEntity('Deployment Pipeline', {
+          observations: [createTestObservation({ id: 'o1', content: 'Runs on every merge to main' })]
+        })
+      ]);
+    });
+
+    afterEach(async () => {
+      vi.useRealTimers();
+      for (const storage of storages) await storage.close();
+      await fs.rm(testDir, { recursive: true, force: true }).catch(() => {});
+    });
+
+    it('should see writes by the other process once the index expires', async () => {
+      vi.useFakeTimers();
+      await manager.searchNodes('thread-001', 'merge');
+      await other.createEntities('thread-001', [
+        createTestEntity('Legacy Scripts', {
+          observations: [createTestObservation({ id: 'o2', content: 'Old scripts kept for reference' })]
+        })
+      ]);
+
+      const beforeExpiry = await manager.searchNodes('thread-001', 'reference');
+      vi.advanceTimersByTime(CACHE_DEFAULTS.TTL_MS + 1);
+      const afterExpiry = await manager.searchNodes('thread-001', 'reference');
+
+      expect(beforeExpiry.entities).toHaveLength(0);
+      expect(afterExpiry.entities.map(e => e.name)).toEqual(['Legacy Scripts']);
+    });
+  });
+});
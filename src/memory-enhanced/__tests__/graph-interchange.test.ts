@@ -0,0 +1,197 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { KnowledgeGraph } from '../lib/types.js';
+import { GRAPH_FORMATS } from '../lib/interchange/graph-format.js';
+import { parseTurtle } from '../lib/interchange/turtle-parser.js';
+import { KnowledgeGraphManager } from '../lib/knowledge-graph-manager.js';
+import { InMemoryStorageAdapter, createTestEntity, createTestRelation, createTestObservation } from './storage-test-helpers.js';
+
+/**
+ * Tests for export_graph / import_graph and their file formats
+ */
+describe('Graph export and import', () => {
+  let source: InMemoryStorageAdapter;
+  let manager: KnowledgeGraphManager;
+
+  const sortGraph = (graph: KnowledgeGraph): KnowledgeGraph => ({
+    entities: [...graph.entities].sort((a, b) => a.name.localeCompare(b.name)),
+    relations: [...graph.relations].sort((a, b) => `${a.from}${a.to}`.localeCompare(`${b.from}${b.to}`))
+  });
+
+  beforeEach(async () => {
+    source = new InMemoryStorageAdapter();
+    await source.saveGraph({
+      entities: [
+        createTestEntity('Alice "Al" <admin> & co', {
+          entityType: 'Person',
+          confidence: 0.95,
+          importance: 0.05,
+          observations: [
+            createTestObservation({ id: 'obs_1', content: 'Works on the API\nsince 2021', superseded_by: 'obs_2' }),
+            createTestObservation({
+              id: 'obs_2',
+              content: "Leads the API team — it's \"great\" \\o/ ✓",
+              version: 2,
+              supersedes: 'obs_1',
+              confidence: 0.7,
+              importance: 0.9
+            })
+          ]
+        }),
+        createTestEntity('Bob', { observations: [] }),
+        createTestEntity('Carol', {
+          entityType: 'Person',
+          agentThreadId: 'thread-002',
+          observations: [createTestObservation({ id: 'obs_3', agentThreadId: 'thread-002' })]
+        })
+      ],
+      relations: [
+        createTestRelation('Alice "Al" <admin> & co', 'Bob', { relationType: 'works with', confidence: 0.6 }),
+        createTestRelation('Bob', 'Elsewhere', { relationType: 'depends on' }),
+        createTestRelation('Carol', 'Carol', { agentThreadId: 'thread-002' })
+      ]
+    });
+    manager = new KnowledgeGraphManager('', source);
+  });
+
+  describe.each(GRAPH_FORMATS)('%s round trip', (format) => {
+    it('should preserve every field, version chains and dangling relations', async () => {
+      const exported = await manager.exportGraph(format);
+      const target = new InMemoryStorageAdapter();
+
+      const result = await new KnowledgeGraphManager('', target).importGraph(format, exported.data);
+
+      expect(result.importedEntities).toBe(3);
+      expect(result.importedRelations).toBe(3);
+      expect(result.threadIds.sort()).toEqual(['thread-001', 'thread-002']);
+      expect(sortGraph(await target.loadGraph())).toEqual(sortGraph(await source.loadGraph()));
+    });
+  });
+
+  it('should export a single thread', async () => {
+    const exported = await manager.exportGraph('jsonl', 'thread-002');
+
+    expect(exported.entityCount).toBe(1);
+    expect(exported.relationCount).toBe(1);
+    expect(exported.data.split('\n')).toHaveLength(2);
+  });
+
+  it('should strip computed status values from exports', async () => {
+    await manager.readGraph('thread-001', 0);
+
+    const exported = await manager.exportGraph('jsonl', 'thread-001');
+
+    expect(exported.data).not.toContain('ARCHIVED');
+  });
+
+  it('should import thread files copied from a memory directory', async () => {
+    const exported = await manager.exportGraph('jsonl', 'thread-002');
+
+    const result = await manager.importGraph('jsonl', `{"type":"meta","revision":7}\n${exported.data}`, 'thread-003');
+
+    expect(result.importedEntities).toBe(1);
+  });
+
+  it('should move imported data into the given thread', async () => {
+    const exported = await manager.exportGraph('graphml', 'thread-002');
+
+    const result = await manager.importGraph('graphml', exported.data, 'thread-003');
+
+    const graph = await manager.readGraph('thread-003');
+    expect(result.threadIds).toEqual(['thread-003']);
+    expect(graph.entities.map(e => e.name)).toEqual(['Carol']);
+    expect(graph.relations).toHaveLength(1);
+    expect(graph.entities[0].observations[0].agentThreadId).toBe('thread-002');
+  });
+
+  it('should replace existing entities with the same identity', async () => {
+    const exported = await manager.exportGraph('cypher', 'thread-001');
+    await manager.addObservations('thread-001', [{
+      entityName: 'Bob',
+      contents: ['Added after the export'],
+      agentThreadId: 'thread-001',
+      timestamp: '2024-03-01T00:00:00Z',
+      confidence: 0.9,
+      importance: 0.8
+    }]);
+
+    await manager.importGraph('cypher', exported.data);
+
+    const graph = await manager.readGraph('thread-001', 0);
+    expect(graph.entities.find(e => e.name === 'Bob')!.observations).toEqual([]);
+    expect(graph.entities).toHaveLength(2);
+  });
+
+  it('should write a Neo4j-compatible Cypher script', async () => {
+    const { data } = await manager.exportGraph('cypher', 'thread-002');
+
+    expect(data).toContain("MERGE (e:Entity {name: 'Carol', agentThreadId: 'thread-002'}) SET e.entityType = 'Person'");
+    expect(data).toContain("MERGE (from)-[r:RELATES_TO {relationType: 'knows', agentThreadId: 'thread-002'}]->(to)");
+    expect(data).toContain("MERGE (e)-[:HAS_OBSERVATION]->(o:Observation {id: 'obs_3'}) SET o.content = ");
+  });
+
+  it('should link superseding observations and read scripts with JSON observations', async () => {
+    const { data } = await manager.exportGraph('cypher', 'thread-001');
+    const legacy = "MERGE (e:Entity {name: 'Dave', agentThreadId: 'thread-004'}) SET e.entityType = 'Person', " +
+      `e.observations = '[{"id":"obs_9","content":"Old layout","timestamp":"2024-01-01T00:00:00Z","version":1,"agentThreadId":"thread-004"}]', ` +
+      "e.timestamp = '2024-01-01T00:00:00Z', e.confidence = 1, e.importance = 0.5;";
+
+    await manager.importGraph('cypher', legacy);
+
+    expect(data).toContain("(newer:Observation {id: 'obs_2'}) MATCH (e)-[:HAS_OBSERVATION]->(older:Observation {id: 'obs_1'}) MERGE (newer)-[:SUPERSEDES]->(older)");
+    const [dave] = (await manager.readGraph('thread-004')).entities;
+    expect(dave.observations.map(o => o.content)).toEqual(['Old layout']);
+  });
+
+  it('should write Turtle readable as plain triples', async () => {
+    const { data } = await manager.exportGraph('turtle', 'thread-002');
+    const { data: nTriples } = await manager.exportGraph('ntriples', 'thread-002');
+
+    expect(data).toContain('@prefix mem:');
+    expect(parseTurtle(data)).toEqual(parseTurtle(nTriples));
+  });
+
+  describe('Turtle parser', () => {
+    it('should read prefixes, lists, blank nodes and literal forms', () => {
+      const triples = parseTurtle(`
+        PREFIX ex: <http://example.org/>
+        # comment
+        ex:a a ex:Thing ; ex:p "x"@en , 'y', """multi
+line""" ; ex:q 42 , 1.5 , true ;
+          ex:r [ ex:s ex:b ] .
+      `);
+
+      expect(triples).toHaveLength(9);
+      expect(triples[1].object).toEqual({ kind: 'literal', value: 'x', language: 'en' });
+      expect(triples[3].object).toEqual({ kind: 'literal', value: 'multi\nline' });
+      expect(triples[4].object).toMatchObject({ value: '42', datatype: 'http://www.w3.org/2001/XMLSchema#integer' });
+      expect(triples[8].object).toEqual({ kind: 'blank', value: 'b0' });
+    });
+
+    it('should report the line of a syntax error', () => {
+      expect(() => parseTurtle('<a> <b> "c" .\n<a> <b> .')).toThrow('line 2');
+    });
+  });
+
+  describe('invalid data', () => {
+    it.each([
+      ['jsonl', '{"type":"entity"'],
+      ['graphml', '<nodes/>'],
+      ['cypher', 'CREATE (n);'],
+      ['turtle', 'ex:a ex:b ex:c .'],
+      ['ntriples', '<a> <b>']
+    ] as const)('should reject malformed %s', async (format, data) => {
+      await expect(manager.importGraph(format, data)).rejects.toThrow(`Invalid ${format} data`);
+    });
+
+    it('should validate the whole file before writing anything', async () => {
+      const lines = [
+        JSON.stringify({ type: 'entity', ...createTestEntity('Dave', { agentThreadId: 'thread-009' }) }),
+        JSON.stringify({ type: 'entity', ...createTestEntity('Eve', { agentThreadId: 'thread-009', importance: 2 }) })
+      ];
+
+      await expect(manager.importGraph('jsonl', lines.join('\n')))
+        .rejects.toThrow("Invalid jsonl data: entity 'Eve' has an invalid importance");
+      expect((await manager.readGraph('thread-009', 0)).entities).toHaveLength(0);
+    });
+  });
+});
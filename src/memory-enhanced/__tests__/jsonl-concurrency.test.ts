@@ -0,0 +1,218 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { FileLock } from '../lib/jsonl/file-lock.js';
+import { JsonlStorageAdapter } from '../lib/jsonl-storage-adapter.js';
+import { MAX_CONFLICT_RETRIES, withRevisionCheck } from '../lib/utils/optimistic-concurrency.js';
+import { createTestEntity, createTestObservation } from './storage-test-helpers.js';
+
+// Above the Linux pid_max limit, so never a running process
+const DEAD_PID = 4194304 + 1;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Prepare a write by another process
+ * It is scheduled outside any revision scope, so the operation that triggers it
+ * does not treat it as its own write
+ */
+function prepareWrite(write: () => Promise<void>): () => Promise<void> {
+  let start!: () => void;
+  const done = new Promise<void>(resolve => { start = resolve; }).then(write);
+  return () => {
+    start();
+    return done;
+  };
+}
+
+/**
+ * Tests for sharing a JSONL memory directory between processes
+ * Separate FileLock and adapter instances stand in for separate processes
+ */
+describe('JSONL multi-process concurrency', () => {
+  let testDir: string;
+  let lockPath: string;
+
+  beforeEach(async () => {
+    testDir = `/tmp/test-jsonl-concurrency-${Date.now()}`;
+    lockPath = path.join(testDir, 'memory.lock');
+    await fs.mkdir(testDir, { recursive: true });
+  });
+
+  afterEach(async () => {
+    await fs.rm(testDir, { recursive: true, force: true }).catch(() => {});
+  });
+
+  const writeLock = (owner: object) => fs.writeFile(lockPath, JSON.stringify({
+    pid: process.pid,
+    hostname: os.hostname(),
+    token: 'other',
+    acquiredAt: new Date().toISOString(),
+    ...owner
+  }));
+
+  describe('FileLock', () => {
+    it('should not let two holders overlap', async () => {
+      const events: string[] = [];
+      const hold = (lock: FileLock, name: string) => lock.withLock(async () => {
+        events.push(`${name} start`);
+        await sleep(30);
+        events.push(`${name} end`);
+      });
+
+      await Promise.all([
+        hold(new FileLock(lockPath, { retryMs: 5 }), 'a'),
+        hold(new FileLock(lockPath, { retryMs: 5 }), 'b')
+      ]);
+
+      expect(events.map(e => e.split(' ')[1])).toEqual(['start', 'end', 'start', 'end']);
+      await expect(fs.access(lockPath)).rejects.toThrow();
+    });
+
+    it('should break a lock held by a process that no longer exists', async () => {
+      await writeLock({ pid: DEAD_PID });
+
+      const broke = await new FileLock(lockPath).withLock(async brokeStaleLock => brokeStaleLock);
+
+      expect(broke).toBe(true);
+    });
+
+    it('should break a lock older than the stale timeout', async () => {
+      await writeLock({ hostname: 'other-host' });
+      const past = new Date(Date.now() - 60_000);
+      await fs.utimes(lockPath, past, past);
+
+      const broke = await new FileLock(lockPath, { staleMs: 1000 }).withLock(async brokeStaleLock => brokeStaleLock);
+
+      expect(broke).toBe(true);
+    });
+
+    it('should wait for a live holder on this host that keeps the lock past the stale timeout', async () => {
+      const events: string[] = [];
+      let acquired!: () => void;
+      const held = new Promise<void>(resolve => { acquired = resolve; });
+      const slow = new FileLock(lockPath, { staleMs: 50, retryMs: 5 }).withLock(async () => {
+        events.push('slow start');
+        acquired();
+        await sleep(200);
+        events.push('slow end');
+      });
+      await held;
+
+      const broke = await new FileLock(lockPath, { staleMs: 50, retryMs: 5 }).withLock(async brokeStaleLock => {
+        events.push('second start');
+        return brokeStaleLock;
+      });
+      await slow;
+
+      expect(broke).toBe(false);
+      expect(events).toEqual(['slow start', 'slow end', 'second start']);
+    });
+
+    it('should time out while a live process holds the lock', async () => {
+      await writeLock({});
+
+      await expect(new FileLock(lockPath, { timeoutMs: 50, retryMs: 5 }).withLock(async () => {}))
+        .rejects.toThrow('Timed out waiting for the memory directory lock');
+      expect(JSON.parse(await fs.readFile(lockPath, 'utf-8')).token).toBe('other');
+    });
+  });
+
+  describe('JsonlStorageAdapter', () => {
+    let first: JsonlStorageAdapter;
+    let second: JsonlStorageAdapter;
+
+    beforeEach(async () => {
+      first = new JsonlStorageAdapter(testDir);
+      second = new JsonlStorageAdapter(testDir);
+      await first.initialize();
+      await second.initialize();
+      await first.upsertEntity(createTestEntity('Alice'));
+    });
+
+    it('should bump the thread revision on every write', async () => {
+      await second.upsertEntity(createTestEntity('Bob'));
+
+      const lines = (await fs.readFile(path.join(testDir, 'thread-thread-001.jsonl'), 'utf-8')).split('\n');
+
+      expect(JSON.parse(lines[0])).toEqual({ type: 'meta', revision: 2 });
+      expect((await first.loadThreadGraph('thread-001')).entities.map(e => e.name)).toEqual(['Alice', 'Bob']);
+    });
+
+    it('should re-run an operation whose thread was changed by another process', async () => {
+      let attempts = 0;
+      const writeBob = prepareWrite(() => second.upsertEntity(createTestEntity('Bob')));
+
+      await withRevisionCheck(async () => {
+        attempts++;
+        const [alice] = (await first.loadThreadGraph('thread-001')).entities;
+        if (attempts === 1) {
+          await writeBob();
+        }
+        alice.observations.push(createTestObservation());
+        await first.upsertEntity(alice);
+      });
+
+      const graph = await first.loadThreadGraph('thread-001');
+      expect(attempts).toBe(2);
+      expect(graph.entities.map(e => e.name)).toEqual(['Alice', 'Bob']);
+      expect(graph.entities[0].observations).toHaveLength(1);
+    });
+
+    it('should allow several writes to a thread within one operation', async () => {
+      await withRevisionCheck(async () => {
+        await first.loadThreadGraph('thread-001');
+        await first.upsertEntity(createTestEntity('Bob'));
+        await first.upsertEntity(createTestEntity('Carol'));
+      });
+
+      expect((await second.loadThreadGraph('thread-001')).entities).toHaveLength(3);
+    });
+
+    it('should not re-run an operation after it has written', async () => {
+      let attempts = 0;
+      const writeBob = prepareWrite(() => second.upsertEntity(createTestEntity('Bob')));
+
+      await expect(withRevisionCheck(async () => {
+        attempts++;
+        const [alice] = (await first.loadThreadGraph('thread-001')).entities;
+        await first.upsertEntity(createTestEntity('Carol'));
+        await writeBob();
+        await first.upsertEntity(alice);
+      })).rejects.toThrow(/Stopped by a concurrent modification after some of the changes were written: Thread thread-001/);
+
+      expect(attempts).toBe(1);
+      expect((await first.loadThreadGraph('thread-001')).entities.map(e => e.name)).toEqual(['Alice', 'Carol', 'Bob']);
+    });
+
+    it('should report a clear error when conflicts keep happening', async () => {
+      let attempts = 0;
+      const intruderWrites = Array.from({ length: MAX_CONFLICT_RETRIES + 1 }, (_, i) =>
+        prepareWrite(() => second.upsertEntity(createTestEntity(`Intruder ${i}`)))
+      );
+
+      await expect(withRevisionCheck(async () => {
+        const [alice] = (await first.loadThreadGraph('thread-001')).entities;
+        await intruderWrites[attempts++]();
+        await first.upsertEntity(alice);
+      })).rejects.toThrow(/Giving up after repeated concurrent modifications: Thread thread-001 was modified by another process/);
+
+      expect(attempts).toBe(MAX_CONFLICT_RETRIES + 1);
+    });
+
+    it('should replay unfinished writes of a process that died holding the lock', async () => {
+      const bob = createTestEntity('Bob', { agentThreadId: 'thread-002' });
+      await fs.writeFile(path.join(testDir, 'write-ahead-log.jsonl'), JSON.stringify({
+        seq: 1,
+        ops: [{ op: 'write', file: 'thread-thread-002.jsonl', data: JSON.stringify({ type: 'entity', ...bob }) }]
+      }) + '\n');
+      await writeLock({ pid: DEAD_PID });
+
+      await first.upsertEntity(createTestEntity('Carol'));
+
+      expect(first.getRecoveryReport().walBatchesReplayed).toBe(1);
+      expect((await first.loadThreadGraph('thread-002')).entities).toEqual([bob]);
+    });
+  });
+});
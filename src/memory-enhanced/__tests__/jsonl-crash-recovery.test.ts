@@ -0,0 +1,176 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { JsonlStorageAdapter } from '../lib/jsonl-storage-adapter.js';
+import { WriteAheadLog } from '../lib/jsonl/write-ahead-log.js';
+import { writeFileAtomic } from '../lib/jsonl/atomic-file.js';
+import { createTestEntity, createTestRelation } from './storage-test-helpers.js';
+
+const serialize = (entity: ReturnType<typeof createTestEntity>) => JSON.stringify({ type: 'entity', ...entity });
+
+/**
+ * Tests for crash safety of the JSONL storage adapter:
+ * atomic writes, write-ahead log replay and quarantine of corrupt lines
+ */
+describe('JSONL crash recovery', () => {
+  let testDir: string;
+  let walPath: string;
+
+  beforeEach(async () => {
+    testDir = `/tmp/test-jsonl-recovery-${Date.now()}`;
+    walPath = path.join(testDir, 'write-ahead-log.jsonl');
+    await fs.mkdir(testDir, { recursive: true });
+  });
+
+  afterEach(async () => {
+    await fs.rm(testDir, { recursive: true, force: true }).catch(() => {});
+  });
+
+  describe('WriteAheadLog', () => {
+    it('should log a batch before applying it and empty the log afterwards', async () => {
+      const wal = new WriteAheadLog(walPath);
+      let loggedDuringApply = '';
+
+      await wal.commit([{ op: 'delete', file: 'thread-a.jsonl' }], async () => {
+        loggedDuringApply = await fs.readFile(walPath, 'utf-8');
+      });
+
+      expect(JSON.parse(loggedDuringApply)).toEqual({ seq: 1, ops: [{ op: 'delete', file: 'thread-a.jsonl' }] });
+      expect(await fs.readFile(walPath, 'utf-8')).toBe('');
+    });
+
+    it('should not replay batches that failed with an error', async () => {
+      const wal = new WriteAheadLog(walPath);
+
+      await expect(wal.commit([{ op: 'delete', file: 'thread-a.jsonl' }], async () => {
+        throw new Error('disk full');
+      })).rejects.toThrow('disk full');
+
+      const replayed: unknown[] = [];
+      expect(await new WriteAheadLog(walPath).replay(async ops => { replayed.push(ops); }))
+        .toEqual({ replayed: 0, discarded: 0 });
+      expect(replayed).toHaveLength(0);
+    });
+
+    it('should replay unfinished batches in order and discard torn records', async () => {
+      await fs.writeFile(walPath, [
+        JSON.stringify({ seq: 1, ops: [{ op: 'delete', file: 'one' }] }),
+        JSON.stringify({ seq: 2, ops: [{ op: 'delete', file: 'two' }] }),
+        JSON.stringify({ seq: 1, done: true }),
+        JSON.stringify({ seq: 3, ops: [{ op: 'delete', file: 'three' }] }),
+        '{"seq":4,"ops":[{"op":"wri'
+      ].join('\n'));
+      const replayed: string[] = [];
+
+      const result = await new WriteAheadLog(walPath).replay(async ops => {
+        replayed.push(...ops.map(op => op.file));
+      });
+
+      expect(result).toEqual({ replayed: 2, discarded: 1 });
+      expect(replayed).toEqual(['two', 'three']);
+      expect(await fs.readFile(walPath, 'utf-8')).toBe('');
+    });
+  });
+
+  describe('writeFileAtomic', () => {
+    it('should replace the file without leaving temp files behind', async () => {
+      const filePath = path.join(testDir, 'thread-a.jsonl');
+      await fs.writeFile(filePath, 'old');
+
+      await writeFileAtomic(filePath, 'new');
+
+      expect(await fs.readFile(filePath, 'utf-8')).toBe('new');
+      expect(await fs.readdir(testDir)).toEqual(['thread-a.jsonl']);
+    });
+  });
+
+  describe('JsonlStorageAdapter', () => {
+    it('should complete a saveGraph interrupted by a crash on initialize', async () => {
+      const alice = createTestEntity('Alice');
+      await fs.writeFile(path.join(testDir, 'thread-stale.jsonl'), serialize(createTestEntity('Old', { agentThreadId: 'stale' })));
+      await fs.writeFile(walPath, JSON.stringify({
+        seq: 1,
+        ops: [
+          { op: 'write', file: 'thread-thread-001.jsonl', data: serialize(alice) },
+          { op: 'delete', file: 'thread-stale.jsonl' }
+        ]
+      }) + '\n');
+      const adapter = new JsonlStorageAdapter(testDir);
+
+      await adapter.initialize();
+
+      expect(adapter.getRecoveryReport().walBatchesReplayed).toBe(1);
+      expect(await adapter.listThreadIds()).toEqual(['thread-001']);
+      expect((await adapter.loadThreadGraph('thread-001')).entities).toEqual([alice]);
+    });
+
+    it('should append the audit entries of replayed batches once', async () => {
+      const line = (id: string) => JSON.stringify({ id, timestamp: '2024-01-20T10:00:00.000Z', threadId: 'thread-001', operation: 'create_entity' }) + '\n';
+      // The first batch was appended before the crash, the second one was torn while appending
+      await fs.writeFile(path.join(testDir, 'audit-log.jsonl'), line('audit_1') + line('audit_2').slice(0, 20));
+      await fs.writeFile(walPath, [
+        JSON.stringify({ seq: 1, ops: [{ op: 'append', file: 'audit-log.jsonl', data: line('audit_1') }] }),
+        JSON.stringify({ seq: 2, ops: [{ op: 'append', file: 'audit-log.jsonl', data: line('audit_2') }] })
+      ].join('\n') + '\n');
+      const adapter = new JsonlStorageAdapter(testDir);
+
+      await adapter.initialize();
+
+      expect(adapter.getRecoveryReport().walBatchesReplayed).toBe(2);
+      expect((await adapter.loadAuditLog()).map(entry => entry.id)).toEqual(['audit_2', 'audit_1']);
+    });
+
+    it('should remove temp files left by interrupted writes', async () => {
+      await fs.writeFile(path.join(testDir, 'thread-a.jsonl.123-1.tmp'), 'partial');
+      await fs.mkdir(path.join(testDir, 'embeddings'));
+      await fs.writeFile(path.join(testDir, 'embeddings', 'thread-a.jsonl.123-2.tmp'), 'partial');
+      const adapter = new JsonlStorageAdapter(testDir);
+
+      await adapter.initialize();
+
+      expect(adapter.getRecoveryReport().tempFilesRemoved).toBe(2);
+      expect(await fs.readdir(path.join(testDir, 'embeddings'))).toEqual([]);
+    });
+
+    it('should leave only thread files and an empty log after writes', async () => {
+      const adapter = new JsonlStorageAdapter(testDir);
+      await adapter.initialize();
+
+      await adapter.saveGraph({
+        entities: [createTestEntity('Alice'), createTestEntity('Bob', { agentThreadId: 'thread-002' })],
+        relations: [createTestRelation('Alice', 'Bob')]
+      });
+      await adapter.upsertEntity(createTestEntity('Carol'));
+
+      expect((await fs.readdir(testDir)).sort()).toEqual([
+        'thread-thread-001.jsonl',
+        'thread-thread-002.jsonl',
+        'write-ahead-log.jsonl'
+      ]);
+      expect(await fs.readFile(walPath, 'utf-8')).toBe('');
+    });
+
+    it('should report and quarantine corrupt lines so later writes do not lose them', async () => {
+      const threadFile = path.join(testDir, 'thread-thread-001.jsonl');
+      const missingFields = JSON.stringify({ type: 'entity', name: 'NoType' });
+      await fs.writeFile(threadFile, [serialize(createTestEntity('Alice')), '{"type":"entity","na', missingFields].join('\n'));
+      const adapter = new JsonlStorageAdapter(testDir);
+
+      await adapter.initialize();
+
+      expect(adapter.getRecoveryReport().corruptLines).toEqual([
+        { file: 'thread-thread-001.jsonl', line: 2, reason: 'malformed-json', content: '{"type":"entity","na' },
+        { file: 'thread-thread-001.jsonl', line: 3, reason: 'missing-fields', content: missingFields }
+      ]);
+      expect(await fs.readFile(threadFile, 'utf-8')).toBe(serialize(createTestEntity('Alice')));
+
+      const quarantined = (await fs.readFile(path.join(testDir, 'recovery', 'thread-thread-001.jsonl'), 'utf-8'))
+        .trim().split('\n').map(line => JSON.parse(line));
+      expect(quarantined.map(record => record.content)).toEqual(['{"type":"entity","na', missingFields]);
+
+      const restarted = new JsonlStorageAdapter(testDir);
+      await restarted.initialize();
+      expect(restarted.getRecoveryReport().corruptLines).toHaveLength(0);
+    });
+  });
+});
@@ -4,34 +4,15 @@
 
 import { describe, it, expect, beforeEach } from 'vitest';
 import { readGraph } from '../lib/queries/graph-reader.js';
-import { IStorageAdapter } from '../lib/storage-interface.js';
 import { KnowledgeGraph } from '../lib/types.js';
-
-// Mock storage adapter
-class MockStorageAdapter implements IStorageAdapter {
-  private graph: KnowledgeGraph = { entities: [], relations: [] };
-
-  async initialize(): Promise<void> {}
-  
-  async loadGraph(): Promise<KnowledgeGraph> {
-    return this.graph;
-  }
-  
-  async saveGraph(graph: KnowledgeGraph): Promise<void> {
-    this.graph = graph;
-  }
-  
-  setGraph(graph: KnowledgeGraph): void {
-    this.graph = graph;
-  }
-}
+import { InMemoryStorageAdapter } from './storage-test-helpers.js';
 
 describe('minImportance filtering in readGraph', () => {
-  let storage: MockStorageAdapter;
+  let storage: InMemoryStorageAdapter;
   const threadId = 'test-thread-1';
 
   beforeEach(() => {
-    storage = new MockStorageAdapter();
+    storage = new InMemoryStorageAdapter();
   });
 
   it('should filter out entities with importance below minImportance threshold', async () => {
@@ -68,7 +49,7 @@ describe('minImportance filtering in readGraph', () => {
       relations: []
     };
 
-    storage.setGraph(testGraph);
+    await storage.saveGraph(testGraph);
     
     // With default minImportance of 0.1, low importance entity should be filtered out
     const result = await readGraph(storage, threadId, 0.1);
@@ -104,7 +85,7 @@ describe('minImportance filtering in readGraph', () => {
       relations: []
     };
 
-    storage.setGraph(testGraph);
+    await storage.saveGraph(testGraph);
     
     // With minImportance of 0.05, both should be included
     const result = await readGraph(storage, threadId, 0.05);
@@ -162,7 +143,7 @@ describe('minImportance filtering in readGraph', () => {
       ]
     };
 
-    storage.setGraph(testGraph);
+    await storage.saveGraph(testGraph);
     
     const result = await readGraph(storage, threadId, 0.1);
     
@@ -214,7 +195,7 @@ describe('minImportance filtering in readGraph', () => {
       ]
     };
 
-    storage.setGraph(testGraph);
+    await storage.saveGraph(testGraph);
     
     const result = await readGraph(storage, threadId, 0.05);
     
@@ -268,7 +249,7 @@ describe('minImportance filtering in readGraph', () => {
       relations: []
     };
 
-    storage.setGraph(testGraph);
+    await storage.saveGraph(testGraph);
     
     const result = await readGraph(storage, threadId, 0.1);
     
@@ -312,7 +293,7 @@ describe('minImportance filtering in readGraph', () => {
       relations: []
     };
 
-    storage.setGraph(testGraph);
+    await storage.saveGraph(testGraph);
     
     const result = await readGraph(storage, threadId, 0.05);
     
@@ -359,7 +340,7 @@ describe('minImportance filtering in readGraph', () => {
       relations: []
     };
 
-    storage.setGraph(testGraph);
+    await storage.saveGraph(testGraph);
     
     // Test with minImportance = 0.4
     const result = await readGraph(storage, threadId, 0.4);
@@ -393,7 +374,7 @@ describe('minImportance filtering in readGraph', () => {
       relations: []
     };
 
-    storage.setGraph(testGraph);
+    await storage.saveGraph(testGraph);
     
     const result = await readGraph(storage, threadId, 0.1);
     
@@ -426,7 +407,7 @@ describe('minImportance filtering in readGraph', () => {
       relations: []
     };
 
-    storage.setGraph(testGraph);
+    await storage.saveGraph(testGraph);
     
     // Call without specifying minImportance (should default to 0.1)
     const result = await readGraph(storage, threadId);
@@ -486,7 +467,7 @@ describe('minImportance filtering in readGraph', () => {
       ]
     };
 
-    storage.setGraph(testGraph);
+    await storage.saveGraph(testGraph);
     
     // Read with minImportance = 0.05
     const result = await readGraph(storage, threadId, 0.05);
@@ -1,8 +1,11 @@
 import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
 import { KnowledgeGraphManager } from '../lib/knowledge-graph-manager.js';
 import { Entity, Relation } from '../lib/types.js';
-import { createTestEntity, createTestRelation } from './storage-test-helpers.js';
-import { Neo4jTestFixture, skipIfNeo4jUnavailable } from './neo4j-test-helpers.js';
+import { createTestEntity, createTestRelation, createTestObservation } from './storage-test-helpers.js';
+import neo4j from 'neo4j-driver';
+import { Neo4jStorageAdapter } from '../lib/neo4j-storage-adapter.js';
+import { withAuditContext } from '../lib/audit/audit-log.js';
+import { Neo4jTestFixture, getNeo4jTestConfig, skipIfNeo4jUnavailable } from './neo4j-test-helpers.js';
 
 /**
  * E2E tests for Neo4j storage adapter.
@@ -125,6 +128,132 @@ describe('Neo4j Storage Adapter E2E', () => {
     });
   });
 
+  describe('Per-Thread Entity Identity', () => {
+    it('should keep entities with the same name in different threads apart', async () => {
+      if (!fixture.isAvailable) return;
+
+      // Arrange
+      await manager.createEntities('thread-a', [
+        createTestEntity('ProjectX', { agentThreadId: 'thread-a', entityType: 'Project' }),
+        createTestEntity('Alice', { agentThreadId: 'thread-a' })
+      ]);
+      await manager.createEntities('thread-b', [
+        createTestEntity('ProjectX', { agentThreadId: 'thread-b', entityType: 'Codename' }),
+        createTestEntity('Alice', { agentThreadId: 'thread-b' })
+      ]);
+
+      // Act
+      await manager.createRelations('thread-a', [createTestRelation('Alice', 'ProjectX', { agentThreadId: 'thread-a' })]);
+      await manager.deleteEntities('thread-b', ['ProjectX']);
+      const threadA = await manager.readGraph('thread-a');
+      const threadB = await manager.readGraph('thread-b');
+
+      // Assert
+      expect(threadA.entities.find(e => e.name === 'ProjectX')!.entityType).toBe('Project');
+      expect(threadA.relations).toHaveLength(1);
+      expect(threadB.entities.map(e => e.name)).toEqual(['Alice']);
+      expect(threadB.relations).toHaveLength(0);
+    });
+
+    it('should find paths between the entities of the requested thread only', async () => {
+      if (!fixture.isAvailable) return;
+
+      // Arrange
+      for (const thread of ['thread-a', 'thread-b']) {
+        await manager.createEntities(thread, ['Alice', 'Bob', 'Carol'].map(name => createTestEntity(name, { agentThreadId: thread })));
+      }
+      await manager.createRelations('thread-a', [createTestRelation('Alice', 'Bob', { agentThreadId: 'thread-a' })]);
+      await manager.createRelations('thread-b', [createTestRelation('Bob', 'Carol', { agentThreadId: 'thread-b' })]);
+
+      // Act
+      const result = await manager.findRelationPath('thread-a', 'Alice', 'Carol');
+
+      // Assert
+      expect(result.found).toBe(false);
+      expect((await manager.findRelationPath('thread-b', 'Bob', 'Carol')).found).toBe(true);
+    });
+  });
+
+  describe('Thread Lifecycle', () => {
+    it('should archive, restore and rename a thread with its observations and relations', async () => {
+      if (!fixture.isAvailable) return;
+
+      // Arrange
+      const storage = fixture.getStorage();
+      await manager.createEntities('thread-a', [
+        createTestEntity('Alice', { agentThreadId: 'thread-a', observations: [createTestObservation({ id: 'obs_1', agentThreadId: 'thread-a' })] }),
+        createTestEntity('Bob', { agentThreadId: 'thread-a' })
+      ]);
+      await manager.createRelations('thread-a', [createTestRelation('Alice', 'Bob', { agentThreadId: 'thread-a' })]);
+
+      // Act
+      await storage.archiveThread('thread-a');
+      const activeWhileArchived = await storage.listThreadIds();
+      await storage.restoreThread('thread-a');
+      await storage.renameThread('thread-a', 'thread-b');
+      const renamed = await storage.loadThreadGraph('thread-b');
+
+      // Assert
+      expect(activeWhileArchived).not.toContain('thread-a');
+      expect(renamed.entities.find(e => e.name === 'Alice')!.observations.map(o => o.agentThreadId)).toEqual(['thread-b']);
+      expect(renamed.relations).toEqual([expect.objectContaining({ from: 'Alice', to: 'Bob', agentThreadId: 'thread-b' })]);
+      expect(await storage.listThreadIds()).toEqual(['thread-b']);
+    });
+  });
+
+  describe('Trash', () => {
+    it('should move a deleted entity with its relations to the trash and restore it', async () => {
+      if (!fixture.isAvailable) return;
+
+      // Arrange
+      // Trash items are not graph data, so clearing the database between tests keeps them
+      await manager.emptyTrash('thread-001');
+      await manager.createEntities('thread-001', [
+        createTestEntity('Alice', { observations: [createTestObservation({ id: 'obs_1' })] }),
+        createTestEntity('Bob')
+      ]);
+      await manager.createRelations('thread-001', [createTestRelation('Alice', 'Bob')]);
+
+      // Act
+      await manager.deleteEntities('thread-001', ['Alice'], 'Mistake');
+      const [item] = await manager.listTrash('thread-001');
+      const whileDeleted = await manager.readGraph('thread-001');
+      await manager.restoreFromTrash('thread-001', [item.id]);
+      const restored = await manager.readGraph('thread-001');
+
+      // Assert
+      expect(item).toMatchObject({ kind: 'entity', reason: 'Mistake', entity: { name: 'Alice' } });
+      expect(whileDeleted.entities.map(e => e.name)).toEqual(['Bob']);
+      expect(restored.entities.find(e => e.name === 'Alice')!.observations.map(o => o.id)).toEqual(['obs_1']);
+      expect(restored.relations).toHaveLength(1);
+      expect(await manager.listTrash('thread-001')).toEqual([]);
+    });
+  });
+
+  describe('Audit Log', () => {
+    it('should record changes with the tool that made them, most recent first', async () => {
+      if (!fixture.isAvailable) return;
+
+      // Arrange
+      // Audit entries are not graph data, so earlier tests' entries are filtered out by thread
+      const threadId = `thread-audit-${Date.now()}`;
+      const entity = createTestEntity('Alice', { agentThreadId: threadId });
+
+      // Act
+      await withAuditContext('create_entities', () => manager.createEntities(threadId, [entity]));
+      await withAuditContext('delete_entities', () => manager.deleteEntities(threadId, ['Alice']));
+      const entries = await manager.getAuditLog({ threadId });
+
+      // Assert
+      expect(entries.map(e => [e.operation, e.tool])).toEqual([
+        ['delete_entity', 'delete_entities'],
+        ['create_entity', 'create_entities']
+      ]);
+      expect(entries[0].before).toMatchObject({ name: 'Alice' });
+      expect(await manager.getAuditLog({ threadId, tool: 'delete_entities', limit: 5 })).toHaveLength(1);
+    });
+  });
+
   describe('Relation CRUD Operations', () => {
     it('should create and read relations', async () => {
       if (!fixture.isAvailable) return;
@@ -147,6 +276,103 @@ describe('Neo4j Storage Adapter E2E', () => {
     });
   });
 
+  describe('Incremental Mutations', () => {
+    it('should load only the requested thread', async () => {
+      if (!fixture.isAvailable) return;
+      
+      // Arrange
+      const storage = fixture.getStorage();
+      await storage.upsertEntity(createTestEntity('Alice', { agentThreadId: 'thread-a' }));
+      await storage.upsertEntity(createTestEntity('Bob', { agentThreadId: 'thread-b' }));
+      
+      // Act
+      const graph = await storage.loadThreadGraph('thread-a');
+      
+      // Assert
+      expect(graph.entities.map(e => e.name)).toEqual(['Alice']);
+    });
+
+    it('should list the threads that hold data', async () => {
+      if (!fixture.isAvailable) return;
+      
+      // Arrange
+      const storage = fixture.getStorage();
+      await storage.upsertEntity(createTestEntity('Alice', { agentThreadId: 'thread-a' }));
+      await storage.upsertEntity(createTestEntity('Bob', { agentThreadId: 'thread-b' }));
+      
+      // Act
+      const threadIds = await storage.listThreadIds();
+      
+      // Assert
+      expect(threadIds.sort()).toEqual(['thread-a', 'thread-b']);
+    });
+
+    it('should append observations without rewriting other entities', async () => {
+      if (!fixture.isAvailable) return;
+      
+      // Arrange
+      const storage = fixture.getStorage();
+      await storage.upsertEntity(createTestEntity('Alice'));
+      await storage.upsertEntity(createTestEntity('Bob'));
+      
+      // Act
+      await storage.appendObservation('thread-001', 'Alice', {
+        id: 'obs_new',
+        content: 'Joined the team',
+        timestamp: '2024-02-01T00:00:00Z',
+        version: 1,
+        agentThreadId: 'thread-001'
+      });
+      const graph = await storage.loadThreadGraph('thread-001');
+      
+      // Assert
+      const alice = graph.entities.find(e => e.name === 'Alice')!;
+      expect(alice.observations.map(o => o.id)).toEqual(['obs_new']);
+      expect(alice.timestamp).toBe('2024-02-01T00:00:00Z');
+      expect(graph.entities).toHaveLength(2);
+    });
+
+    it('should upsert and delete relations', async () => {
+      if (!fixture.isAvailable) return;
+      
+      // Arrange
+      const storage = fixture.getStorage();
+      await storage.upsertEntity(createTestEntity('Alice'));
+      await storage.upsertEntity(createTestEntity('Bob'));
+      
+      // Act
+      await storage.upsertRelation(createTestRelation('Alice', 'Bob', { confidence: 0.1 }));
+      await storage.upsertRelation(createTestRelation('Alice', 'Bob', { confidence: 0.7 }));
+      const afterUpsert = await storage.loadThreadGraph('thread-001');
+      await storage.deleteRelation(createTestRelation('Alice', 'Bob'));
+      const afterDelete = await storage.loadThreadGraph('thread-001');
+      
+      // Assert
+      expect(afterUpsert.relations).toHaveLength(1);
+      expect(afterUpsert.relations[0].confidence).toBe(0.7);
+      expect(afterDelete.relations).toHaveLength(0);
+    });
+
+    it('should replace the embedding vectors of a thread', async () => {
+      if (!fixture.isAvailable) return;
+      
+      // Arrange
+      const storage = fixture.getStorage();
+      const header = { entityName: 'Alice', model: 'test', contentHash: 'h1', vector: [0.6, 0.8] };
+      const observation = { ...header, observationId: 'obs_1', contentHash: 'h2', vector: [1, 0] };
+      
+      // Act
+      await storage.saveEmbeddings('thread-embeddings', [header, observation]);
+      await storage.saveEmbeddings('thread-embeddings', [observation]);
+      const loaded = await storage.loadEmbeddings('thread-embeddings');
+      await storage.saveEmbeddings('thread-embeddings', []);
+      
+      // Assert
+      expect(loaded).toEqual([observation]);
+      expect(await storage.loadEmbeddings('thread-embeddings')).toEqual([]);
+    });
+  });
+
   describe('Data Persistence', () => {
     it('should persist data across multiple operations', async () => {
       if (!fixture.isAvailable) return;
@@ -262,6 +488,132 @@ describe('Neo4j Storage Adapter E2E', () => {
     });
   });
 
+  describe('Observation Nodes', () => {
+    const countObservationEdges = async (type: string): Promise<number> => {
+      const config = getNeo4jTestConfig();
+      const driver = neo4j.driver(config.uri, neo4j.auth.basic(config.username, config.password));
+      try {
+        const { records } = await driver.executeQuery(`MATCH (:Observation)-[r:${type}]->() RETURN count(r) as count`, {}, { database: config.database });
+        return neo4j.integer.toNumber(records[0].get('count'));
+      } finally {
+        await driver.close();
+      }
+    };
+
+    it('should store observations as nodes linked by HAS_OBSERVATION and SUPERSEDES', async () => {
+      if (!fixture.isAvailable) return;
+
+      // Arrange
+      const storage = fixture.getStorage();
+      await storage.upsertEntity(createTestEntity('Alice', {
+        observations: [createTestObservation({ id: 'obs_1', content: 'Uses Postgres' })]
+      }));
+
+      // Act
+      await storage.appendObservation('thread-001', 'Alice', createTestObservation({
+        id: 'obs_2', content: 'Uses MySQL', version: 2, supersedes: 'obs_1'
+      }));
+      await storage.appendObservation('thread-001', 'Alice', createTestObservation({ id: 'obs_3', content: 'Owns the schema' }));
+      const graph = await storage.loadThreadGraph('thread-001');
+
+      // Assert
+      expect(graph.entities[0].observations.map(o => o.id)).toEqual(['obs_1', 'obs_2', 'obs_3']);
+      expect(graph.entities[0].observations[1].supersedes).toBe('obs_1');
+      expect(await countObservationEdges('SUPERSEDES')).toBe(1);
+    });
+
+    it('should migrate observations stored as a JSON property on initialize', async () => {
+      if (!fixture.isAvailable) return;
+
+      // Arrange
+      const config = getNeo4jTestConfig();
+      const driver = neo4j.driver(config.uri, neo4j.auth.basic(config.username, config.password));
+      const observations = [
+        createTestObservation({ id: 'obs_1', content: 'Uses Postgres' }),
+        createTestObservation({ id: 'obs_2', content: 'Uses MySQL', version: 2, supersedes: 'obs_1' })
+      ];
+      try {
+        await driver.executeQuery(
+          `CREATE (:Entity {name: 'Legacy', entityType: 'test', agentThreadId: 'thread-001', observations: $observations,
+             timestamp: '2024-01-01T00:00:00Z', confidence: 1.0, importance: 0.5})`,
+          { observations: JSON.stringify(observations) },
+          { database: config.database }
+        );
+      } finally {
+        await driver.close();
+      }
+
+      // Act
+      const restarted = new Neo4jStorageAdapter(config);
+      await restarted.initialize();
+      const graph = await restarted.loadThreadGraph('thread-001');
+      await restarted.close();
+
+      // Assert
+      expect(graph.entities[0].observations.map(o => o.content)).toEqual(['Uses Postgres', 'Uses MySQL']);
+      expect(await countObservationEdges('SUPERSEDES')).toBe(1);
+    });
+  });
+
+  describe('Native Graph Queries', () => {
+    beforeEach(async () => {
+      if (!fixture.isAvailable) return;
+      await manager.createEntities('thread-001', [
+        createTestEntity('Alice', { observations: [createTestObservation({ id: 'obs_1', content: 'Deploys the blue green pipeline' })] }),
+        createTestEntity('Bob', { importance: 0.9 }),
+        createTestEntity('Carol'),
+        createTestEntity('Dave')
+      ]);
+      await manager.createRelations('thread-001', [
+        createTestRelation('Alice', 'Bob'),
+        createTestRelation('Carol', 'Bob')
+      ]);
+    });
+
+    it('should find the shortest path with relations in either direction', async () => {
+      if (!fixture.isAvailable) return;
+
+      const result = await manager.findRelationPath('thread-001', 'Alice', 'Carol');
+
+      expect(result.found).toBe(true);
+      expect(result.path).toEqual(['Alice', 'Bob', 'Carol']);
+      expect(result.relations.map(r => [r.from, r.to])).toEqual([['Alice', 'Bob'], ['Carol', 'Bob']]);
+      expect((await manager.findRelationPath('thread-001', 'Alice', 'Carol', 1)).found).toBe(false);
+    });
+
+    it('should expand context by relation depth', async () => {
+      if (!fixture.isAvailable) return;
+
+      const depth1 = await manager.getContext('thread-001', ['Alice'], 1);
+      const depth2 = await manager.getContext('thread-001', ['Alice'], 2);
+
+      expect(depth1.entities.map(e => e.name).sort()).toEqual(['Alice', 'Bob']);
+      expect(depth2.entities.map(e => e.name).sort()).toEqual(['Alice', 'Bob', 'Carol']);
+      expect(depth2.relations).toHaveLength(2);
+    });
+
+    it('should compute degree centrality and orphaned entities', async () => {
+      if (!fixture.isAvailable) return;
+
+      const analytics = await manager.getAnalytics('thread-001');
+
+      expect(analytics.most_connected[0]).toMatchObject({ entityName: 'Bob', relationCount: 2 });
+      expect(analytics.top_important[0].entityName).toBe('Bob');
+      expect(analytics.orphaned_entities).toEqual([{ entityName: 'Dave', entityType: 'test', reason: 'no_relations' }]);
+    });
+
+    it('should search with the full-text index', async () => {
+      if (!fixture.isAvailable) return;
+
+      const phrase = await manager.searchNodes('thread-001', '"blue green"');
+      const excluded = await manager.searchNodes('thread-001', 'pipeline -Alice');
+
+      expect(phrase.entities.map(e => e.name)).toEqual(['Alice']);
+      expect(phrase.entities[0].matches[0].observationId).toBe('obs_1');
+      expect(excluded.entities).toHaveLength(0);
+    });
+  });
+
   describe('Integration with save_memory', () => {
     it('should support save_memory operations', async () => {
       if (!fixture.isAvailable) return;
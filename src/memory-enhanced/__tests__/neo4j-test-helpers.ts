@@ -89,6 +89,10 @@ export class Neo4jTestFixture {
   async clearDatabase(): Promise<void> {
     if (this.isAvailable && this.storage) {
       await this.storage.saveGraph({ entities: [], relations: [] });
+      // saveGraph keeps archived threads
+      for (const threadId of await this.storage.listArchivedThreadIds()) {
+        await this.storage.deleteThread(threadId);
+      }
     }
   }
 
@@ -99,7 +103,7 @@ export class Neo4jTestFixture {
   async teardown(): Promise<void> {
     if (this.isAvailable && this.storage) {
       try {
-        await this.storage.saveGraph({ entities: [], relations: [] });
+        await this.clearDatabase();
         await this.storage.close();
       } catch (error) {
         console.warn('Error during cleanup:', error);
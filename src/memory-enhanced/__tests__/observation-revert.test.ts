@@ -0,0 +1,116 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { KnowledgeGraphManager } from '../lib/knowledge-graph-manager.js';
+import { diffWords } from '../lib/utils/word-diff.js';
+import { InMemoryStorageAdapter, createTestEntity, createTestObservation } from './storage-test-helpers.js';
+
+const THREAD_ID = 'thread-001';
+
+describe('diffWords', () => {
+  it('should mark removed and added words around the common ones', () => {
+    expect(diffWords('Alice works on the API team', 'Alice now works on the billing team')).toEqual([
+      { type: 'equal', text: 'Alice' },
+      { type: 'added', text: 'now' },
+      { type: 'equal', text: 'works on the' },
+      { type: 'removed', text: 'API' },
+      { type: 'added', text: 'billing' },
+      { type: 'equal', text: 'team' }
+    ]);
+  });
+
+  it('should ignore whitespace differences and handle empty texts', () => {
+    expect(diffWords('a  b\nc', 'a b c')).toEqual([{ type: 'equal', text: 'a b c' }]);
+    expect(diffWords('', 'new text')).toEqual([{ type: 'added', text: 'new text' }]);
+  });
+});
+
+/**
+ * Tests for diff_observation_versions and revert_observation
+ */
+describe('Observation diff and revert', () => {
+  let manager: KnowledgeGraphManager;
+
+  beforeEach(async () => {
+    const storage = new InMemoryStorageAdapter();
+    await storage.saveGraph({
+      entities: [
+        createTestEntity('Alice', {
+          observations: [createTestObservation({ id: 'obs_1', content: 'Alice works on the API', confidence: 0.9, importance: 0.7 })]
+        })
+      ],
+      relations: []
+    });
+    manager = new KnowledgeGraphManager('', storage);
+  });
+
+  const update = (observationId: string, newContent: string) => manager.updateObservation({
+    entityName: 'Alice',
+    observationId,
+    newContent,
+    agentThreadId: THREAD_ID,
+    timestamp: '2024-02-01T00:00:00Z',
+    confidence: 0.4
+  });
+
+  it('should diff any two versions of a chain in either direction', async () => {
+    const v2 = await update('obs_1', 'Alice works on billing');
+    const v3 = await update(v2.id, 'Alice leads billing');
+
+    const diff = await manager.diffObservationVersions(THREAD_ID, 'Alice', v3.id, 'obs_1');
+
+    expect(diff.from.id).toBe(v3.id);
+    expect(diff.to.id).toBe('obs_1');
+    expect(diff.changes).toEqual([
+      { type: 'equal', text: 'Alice' },
+      { type: 'removed', text: 'leads billing' },
+      { type: 'added', text: 'works on the API' }
+    ]);
+  });
+
+  it('should reject observations from different chains', async () => {
+    await manager.addObservations(THREAD_ID, [{
+      entityName: 'Alice',
+      contents: ['Prefers TypeScript'],
+      agentThreadId: THREAD_ID,
+      timestamp: '2024-02-01T00:00:00Z',
+      confidence: 0.9,
+      importance: 0.5
+    }]);
+    const graph = await manager.readGraph(THREAD_ID);
+    const other = graph.entities[0].observations.find(o => o.content === 'Prefers TypeScript')!;
+
+    await expect(manager.diffObservationVersions(THREAD_ID, 'Alice', 'obs_1', other.id))
+      .rejects.toThrow('are not versions of the same observation');
+  });
+
+  it('should revert by adding a version with the old content on top of the chain', async () => {
+    const v2 = await update('obs_1', 'Alice works on billing');
+
+    const reverted = await manager.revertObservation({
+      entityName: 'Alice',
+      observationId: 'obs_1',
+      agentThreadId: THREAD_ID,
+      timestamp: '2024-03-01T00:00:00Z'
+    });
+
+    expect(reverted).toMatchObject({
+      content: 'Alice works on the API',
+      version: 3,
+      supersedes: v2.id,
+      confidence: 0.9,
+      importance: 0.7,
+      timestamp: '2024-03-01T00:00:00Z'
+    });
+    const history = await manager.getObservationHistory(THREAD_ID, 'Alice', 'obs_1');
+    expect(history.map(o => o.content)).toEqual(['Alice works on the API', 'Alice works on billing', 'Alice works on the API']);
+    expect(history[1].superseded_by).toBe(reverted.id);
+  });
+
+  it('should refuse to revert to the latest version', async () => {
+    await expect(manager.revertObservation({
+      entityName: 'Alice',
+      observationId: 'obs_1',
+      agentThreadId: THREAD_ID,
+      timestamp: '2024-03-01T00:00:00Z'
+    })).rejects.toThrow("Observation 'obs_1' is already the latest version");
+  });
+});
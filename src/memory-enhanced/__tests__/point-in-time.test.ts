@@ -0,0 +1,117 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { KnowledgeGraphManager } from '../lib/knowledge-graph-manager.js';
+import { withAuditRecording } from '../lib/audit/audit-log.js';
+import { InMemoryStorageAdapter, createTestEntity, createTestRelation, createTestObservation } from './storage-test-helpers.js';
+
+const GRAPH = {
+  entities: [
+    createTestEntity('Alice', {
+      observations: [
+        createTestObservation({ id: 'obs_1', content: 'Works on the API' }),
+        createTestObservation({ id: 'obs_2', content: 'Prefers TypeScript', timestamp: '2024-01-22T10:00:00Z' })
+      ],
+      timestamp: '2024-01-22T10:00:00Z'
+    }),
+    createTestEntity('Bob'),
+    createTestEntity('Carol', {
+      observations: [createTestObservation({ id: 'obs_3', content: 'Joined in March', timestamp: '2024-03-01T00:00:00Z' })],
+      timestamp: '2024-03-01T00:00:00Z'
+    })
+  ],
+  relations: [
+    createTestRelation('Alice', 'Bob'),
+    createTestRelation('Alice', 'Carol', { timestamp: '2024-03-01T00:00:00Z' })
+  ]
+};
+
+const BEFORE_UPDATE = '2024-01-25T00:00:00Z';
+
+/**
+ * Tests for asOf reads of read_graph, search_nodes, open_nodes and get_context
+ */
+describe('Point-in-time reads', () => {
+  let storage: InMemoryStorageAdapter;
+  let manager: KnowledgeGraphManager;
+
+  beforeEach(async () => {
+    storage = new InMemoryStorageAdapter();
+    await storage.saveGraph(GRAPH);
+    manager = new KnowledgeGraphManager('', storage);
+    await manager.updateObservation({
+      entityName: 'Alice',
+      observationId: 'obs_1',
+      newContent: 'Works on billing',
+      agentThreadId: 'thread-001',
+      timestamp: '2024-02-01T00:00:00Z'
+    });
+  });
+
+  it('should return the observation versions current at the time', async () => {
+    const graph = await manager.readGraph('thread-001', undefined, BEFORE_UPDATE);
+
+    const alice = graph.entities.find(e => e.name === 'Alice')!;
+    expect(alice.observations.map(o => [o.id, o.content])).toEqual([
+      ['obs_1', 'Works on the API'],
+      ['obs_2', 'Prefers TypeScript']
+    ]);
+    expect(alice.observations[0].superseded_by).toBeUndefined();
+    expect(alice.timestamp).toBe('2024-01-22T10:00:00Z');
+
+    const current = (await manager.readGraph('thread-001')).entities.find(e => e.name === 'Alice')!;
+    expect(current.observations).toHaveLength(3);
+  });
+
+  it('should leave out entities, observations and relations created after the time', async () => {
+    const graph = await manager.readGraph('thread-001', undefined, '2024-01-21T00:00:00Z');
+
+    expect(graph.entities.map(e => e.name).sort()).toEqual(['Alice', 'Bob']);
+    expect(graph.entities.find(e => e.name === 'Alice')!.observations.map(o => o.id)).toEqual(['obs_1']);
+    expect(graph.relations).toEqual([GRAPH.relations[0]]);
+  });
+
+  it('should bring back items deleted since the time from the trash', async () => {
+    await manager.deleteEntities('thread-001', ['Bob']);
+    await manager.deleteObservations('thread-001', [{ entityName: 'Alice', observations: ['obs_2'] }]);
+    await manager.deleteRelations('thread-001', [GRAPH.relations[1]]);
+
+    const asOf = '2024-06-01T00:00:00Z';
+    const graph = await manager.openNodes('thread-001', ['Alice', 'Bob', 'Carol'], asOf);
+
+    expect(graph.entities.map(e => e.name).sort()).toEqual(['Alice', 'Bob', 'Carol']);
+    expect(graph.entities.find(e => e.name === 'Alice')!.observations.map(o => o.content).sort()).toEqual([
+      'Prefers TypeScript',
+      'Works on billing',
+      'Works on the API'
+    ]);
+    expect(graph.relations).toHaveLength(2);
+
+    const context = await manager.getContext('thread-001', ['Alice'], 1, asOf);
+    expect(context.entities.map(e => e.name).sort()).toEqual(['Alice', 'Bob', 'Carol']);
+    expect((await manager.getContext('thread-001', ['Alice'])).entities.map(e => e.name)).toEqual(['Alice']);
+  });
+
+  it('should return relations and metadata as they were before later updates', async () => {
+    const [, bob] = GRAPH.entities;
+    await withAuditRecording(async () => {
+      await storage.upsertRelation({ ...GRAPH.relations[0], confidence: 0.5, timestamp: '2024-07-01T00:00:00Z' });
+      await storage.upsertEntity({ ...bob, importance: 0.1, timestamp: '2024-07-01T00:00:00Z' });
+    });
+
+    const graph = await manager.readGraph('thread-001', undefined, '2024-06-01T00:00:00Z');
+
+    expect(graph.relations).toContainEqual(GRAPH.relations[0]);
+    expect(graph.entities.find(e => e.name === 'Bob')).toMatchObject({ importance: bob.importance, timestamp: bob.timestamp });
+  });
+
+  it('should search the graph as it was without changing current results', async () => {
+    expect((await manager.searchNodes('thread-001', 'billing', BEFORE_UPDATE)).entities).toEqual([]);
+    expect((await manager.searchNodes('thread-001', 'march', BEFORE_UPDATE)).entities).toEqual([]);
+
+    expect((await manager.searchNodes('thread-001', 'billing')).entities.map(e => e.name)).toEqual(['Alice']);
+    expect((await manager.searchNodes('thread-001', 'march')).entities.map(e => e.name)).toEqual(['Carol']);
+  });
+
+  it('should reject invalid timestamps', async () => {
+    await expect(manager.readGraph('thread-001', undefined, 'last week')).rejects.toThrow('Invalid asOf timestamp: last week');
+  });
+});
@@ -4,34 +4,15 @@
 
 import { describe, it, expect, beforeEach } from 'vitest';
 import { searchNodes, openNodes, queryNodes } from '../lib/queries/search-service.js';
-import { IStorageAdapter } from '../lib/storage-interface.js';
 import { KnowledgeGraph } from '../lib/types.js';
-
-// Mock storage adapter
-class MockStorageAdapter implements IStorageAdapter {
-  private graph: KnowledgeGraph = { entities: [], relations: [] };
-
-  async initialize(): Promise<void> {}
-  
-  async loadGraph(): Promise<KnowledgeGraph> {
-    return this.graph;
-  }
-  
-  async saveGraph(graph: KnowledgeGraph): Promise<void> {
-    this.graph = graph;
-  }
-  
-  setGraph(graph: KnowledgeGraph): void {
-    this.graph = graph;
-  }
-}
+import { InMemoryStorageAdapter } from './storage-test-helpers.js';
 
 describe('Status stripping in search/open/query tools', () => {
-  let storage: MockStorageAdapter;
+  let storage: InMemoryStorageAdapter;
   const threadId = 'test-thread';
 
   beforeEach(() => {
-    storage = new MockStorageAdapter();
+    storage = new InMemoryStorageAdapter();
   });
 
   it('should strip persisted status from searchNodes results', async () => {
@@ -80,7 +61,7 @@ describe('Status stripping in search/open/query tools', () => {
       ]
     };
 
-    storage.setGraph(testGraph);
+    await storage.saveGraph(testGraph);
     
     const result = await searchNodes(storage, threadId, 'Entity');
     
@@ -136,7 +117,7 @@ describe('Status stripping in search/open/query tools', () => {
       ]
     };
 
-    storage.setGraph(testGraph);
+    await storage.saveGraph(testGraph);
     
     const result = await openNodes(storage, threadId, ['Entity A', 'Entity B']);
     
@@ -184,7 +165,7 @@ describe('Status stripping in search/open/query tools', () => {
       ]
     };
 
-    storage.setGraph(testGraph);
+    await storage.saveGraph(testGraph);
     
     const result = await queryNodes(storage, threadId, { confidenceMin: 0.8 });
     
@@ -240,7 +221,7 @@ describe('Status stripping in search/open/query tools', () => {
       ]
     };
 
-    storage.setGraph(testGraph);
+    await storage.saveGraph(testGraph);
     
     const result = await searchNodes(storage, threadId, 'Clean');
     
@@ -0,0 +1,183 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { promises as fs } from 'fs';
+import { HashedEmbeddingProvider } from '../lib/embeddings/hashed-embedding-provider.js';
+import { cosineSimilarity } from '../lib/embeddings/embedding-provider.js';
+import { JsonlStorageAdapter } from '../lib/jsonl-storage-adapter.js';
+import { KnowledgeGraphManager } from '../lib/knowledge-graph-manager.js';
+import { InMemoryStorageAdapter, createTestEntity, createTestObservation } from './storage-test-helpers.js';
+
+/**
+ * Tests for semantic_search and the offline embedding provider
+ */
+describe('Semantic search', () => {
+  const observation = (id: string, content: string, importance?: number) =>
+    createTestObservation({ id, content, ...(importance !== undefined ? { importance } : {}) });
+
+  describe('HashedEmbeddingProvider', () => {
+    const provider = new HashedEmbeddingProvider();
+
+    it('should return deterministic unit vectors', async () => {
+      const [first, second] = await provider.embed(['Deploys run nightly', 'Deploys run nightly']);
+
+      expect(first).toHaveLength(provider.dimensions);
+      expect(first).toEqual(second);
+      expect(cosineSimilarity(first, first)).toBeCloseTo(1, 5);
+    });
+
+    it('should rank related wording above unrelated text', async () => {
+      const [query, related, unrelated] = await provider.embed([
+        'when do we deploy',
+        'Deployment happens every night',
+        'Alice prefers green tea'
+      ]);
+
+      expect(cosineSimilarity(query, related)).toBeGreaterThan(cosineSimilarity(query, unrelated));
+    });
+
+    it('should return a zero vector for text with no terms', async () => {
+      const [vector] = await provider.embed(['the of and']);
+
+      expect(vector.every(value => value === 0)).toBe(true);
+      expect(cosineSimilarity(vector, vector)).toBe(0);
+    });
+  });
+
+  describe('through KnowledgeGraphManager', () => {
+    let storage: InMemoryStorageAdapter;
+    let manager: KnowledgeGraphManager;
+
+    beforeEach(async () => {
+      storage = new InMemoryStorageAdapter();
+      manager = new KnowledgeGraphManager('', storage);
+      await manager.createEntities('thread-001', [
+        createTestEntity('Release Process', {
+          entityType: 'Process',
+          observations: [
+            observation('o1', 'Deployments to production happen every Friday'),
+            observation('o2', 'Rollbacks need approval from the on-call engineer')
+          ]
+        }),
+        createTestEntity('Alice', {
+          entityType: 'Person',
+          observations: [observation('o3', 'Prefers green tea in the morning')]
+        }),
+        createTestEntity('Old Runbook', {
+          importance: 0.05,
+          observations: [observation('o4', 'Deploying used to be manual', 0.05)]
+        })
+      ]);
+      await manager.createEntities('thread-002', [
+        createTestEntity('Other Deploy Notes', {
+          agentThreadId: 'thread-002',
+          observations: [observation('o5', 'Deployment schedule for another project')]
+        })
+      ]);
+    });
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it('should rank entities by their closest observation', async () => {
+      const result = await manager.semanticSearch('thread-001', 'when do we deploy to prod');
+
+      expect(result.entities[0].name).toBe('Release Process');
+      expect(result.entities[0].observations[0].id).toBe('o1');
+      expect(result.entities[0].similarity).toBe(result.entities[0].observations[0].similarity);
+      expect(result.entities.map(e => e.name)).not.toContain('Alice');
+    });
+
+    it('should only return entities of the requested thread', async () => {
+      const result = await manager.semanticSearch('thread-001', 'deployment schedule');
+
+      expect(result.entities.map(e => e.name)).not.toContain('Other Deploy Notes');
+    });
+
+    it('should respect minImportance and mark low-importance matches as ARCHIVED', async () => {
+      const defaults = await manager.semanticSearch('thread-001', 'deploying manually');
+      const strict = await manager.semanticSearch('thread-001', 'deploying manually', 10, 0.5);
+      const all = await manager.semanticSearch('thread-001', 'deploying manually', 10, 0);
+
+      expect(defaults.entities.map(e => e.name)).not.toContain('Old Runbook');
+      expect(strict.entities.map(e => e.name)).not.toContain('Old Runbook');
+      const archived = all.entities.find(e => e.name === 'Old Runbook')!;
+      expect(archived.status).toBe('ARCHIVED');
+      expect(archived.observations[0].status).toBe('ARCHIVED');
+    });
+
+    it('should apply the limit', async () => {
+      const result = await manager.semanticSearch('thread-001', 'deploy tea', 1);
+
+      expect(result.entities).toHaveLength(1);
+    });
+
+    it('should persist vectors and only embed new or changed text', async () => {
+      await manager.semanticSearch('thread-001', 'deploy');
+      const stored = await storage.loadEmbeddings('thread-001');
+      const embedSpy = vi.spyOn(HashedEmbeddingProvider.prototype, 'embed');
+
+      await manager.addObservations('thread-001', [{
+        entityName: 'Alice',
+        contents: ['Owns the deployment dashboard'],
+        agentThreadId: 'thread-001',
+        timestamp: '2024-02-01T00:00:00Z',
+        confidence: 0.9,
+        importance: 0.8
+      }]);
+      await manager.deleteEntities('thread-001', ['Old Runbook']);
+      const result = await manager.semanticSearch('thread-001', 'deployment dashboard');
+
+      // 4 observations and 3 entity headers
+      expect(stored).toHaveLength(7);
+      // One call for the new observation, one for the query
+      expect(embedSpy).toHaveBeenCalledTimes(2);
+      expect(embedSpy.mock.calls[0][0]).toEqual(['Owns the deployment dashboard']);
+      expect(await storage.loadEmbeddings('thread-001')).toHaveLength(6);
+      expect(result.entities[0].name).toBe('Alice');
+    });
+
+    it('should re-embed vectors produced by a different provider', async () => {
+      await manager.semanticSearch('thread-001', 'deploy');
+      const other = new KnowledgeGraphManager('', storage, new HashedEmbeddingProvider(64));
+
+      const result = await other.semanticSearch('thread-001', 'deploy to production');
+
+      const stored = await storage.loadEmbeddings('thread-001');
+      expect(stored.every(record => record.model === 'hashed-bow-64' && record.vector.length === 64)).toBe(true);
+      expect(result.entities[0].name).toBe('Release Process');
+    });
+
+    it('should return no results for an empty thread', async () => {
+      const result = await manager.semanticSearch('thread-empty', 'anything');
+
+      expect(result.entities).toEqual([]);
+    });
+  });
+
+  describe('JSONL storage', () => {
+    let testDir: string;
+
+    beforeEach(() => {
+      testDir = `/tmp/test-semantic-search-${Date.now()}`;
+    });
+
+    afterEach(async () => {
+      await fs.rm(testDir, { recursive: true, force: true }).catch(() => {});
+    });
+
+    it('should store vectors beside the thread files without adding a thread', async () => {
+      const storage = new JsonlStorageAdapter(testDir);
+      const manager = new KnowledgeGraphManager(testDir, storage);
+      await manager.createEntities('thread-001', [
+        createTestEntity('Release Process', { observations: [observation('o1', 'Deploys happen on Friday')] })
+      ]);
+
+      await manager.semanticSearch('thread-001', 'deploy');
+
+      expect(await storage.loadEmbeddings('thread-001')).toHaveLength(2);
+      expect(await storage.listThreadIds()).toEqual(['thread-001']);
+      await storage.saveEmbeddings('thread-001', []);
+      expect(await storage.loadEmbeddings('thread-001')).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,144 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { KnowledgeGraphManager } from '../lib/knowledge-graph-manager.js';
+import { SaveMemoryInputSchema, ForkThreadInputSchema } from '../lib/schemas.js';
+import { InMemoryStorageAdapter, createTestEntity, createTestRelation, createTestObservation } from './storage-test-helpers.js';
+
+/**
+ * Tests for shared workspaces (publish_memory, subscribe_workspace and merged reads)
+ */
+describe('Shared workspaces', () => {
+  let storage: InMemoryStorageAdapter;
+  let manager: KnowledgeGraphManager;
+
+  beforeEach(async () => {
+    storage = new InMemoryStorageAdapter();
+    await storage.saveGraph({
+      entities: [
+        createTestEntity('User', {
+          entityType: 'Person',
+          observations: [createTestObservation({ id: 'obs_1', content: 'Prefers dark mode in every editor' })]
+        }),
+        createTestEntity('TechStack', {
+          entityType: 'Stack',
+          observations: [createTestObservation({ id: 'obs_2', content: 'Backend runs on Postgres' })]
+        }),
+        createTestEntity('Scratch'),
+        createTestEntity('Task', { agentThreadId: 'thread-002' })
+      ],
+      relations: [
+        createTestRelation('User', 'TechStack', { relationType: 'maintains' }),
+        createTestRelation('User', 'Scratch')
+      ]
+    });
+    manager = new KnowledgeGraphManager('', storage);
+  });
+
+  it('should publish entities with their observations and the relations between them', async () => {
+    const result = await manager.publishMemory('thread-001', 'team', ['User', 'TechStack']);
+
+    const workspace = await storage.loadThreadGraph('@team');
+    expect(result).toEqual({ workspace: 'team', publishedEntities: 2, publishedRelations: 1 });
+    expect(workspace.entities.map(e => e.name).sort()).toEqual(['TechStack', 'User']);
+    expect(workspace.entities[0].observations[0].agentThreadId).toBe('thread-001');
+    expect(workspace.relations).toEqual([expect.objectContaining({ from: 'User', to: 'TechStack', agentThreadId: '@team' })]);
+  });
+
+  it('should publish in a single write that keeps what the workspace already holds', async () => {
+    await manager.publishMemory('thread-001', 'team', ['Scratch']);
+    const writes = vi.spyOn(storage, 'saveThreadGraph');
+    const entityWrites = vi.spyOn(storage, 'upsertEntity');
+
+    await manager.publishMemory('thread-001', 'team', ['User', 'TechStack']);
+
+    expect(writes).toHaveBeenCalledTimes(1);
+    expect(entityWrites).not.toHaveBeenCalled();
+    expect((await storage.loadThreadGraph('@team')).entities.map(e => e.name).sort()).toEqual(['Scratch', 'TechStack', 'User']);
+  });
+
+  it('should reject unknown entities without publishing anything', async () => {
+    await expect(manager.publishMemory('thread-001', 'team', ['User', 'Missing']))
+      .rejects.toThrow('Entity with name Missing not found in thread thread-001');
+    await expect(manager.publishMemory('thread-001', '../team', ['User'])).rejects.toThrow('Invalid workspace name');
+
+    expect((await storage.loadThreadGraph('@team')).entities).toHaveLength(0);
+  });
+
+  it('should leave reads unchanged until a thread subscribes', async () => {
+    await manager.publishMemory('thread-001', 'team', ['User', 'TechStack']);
+
+    const graph = await manager.readGraph('thread-002');
+
+    expect(graph.entities.map(e => e.name)).toEqual(['Task']);
+  });
+
+  it('should merge subscribed workspaces into read_graph with provenance', async () => {
+    await manager.publishMemory('thread-001', 'team', ['User', 'TechStack']);
+
+    await manager.subscribeWorkspace('thread-002', 'team');
+    const graph = await manager.readGraph('thread-002');
+
+    expect(graph.entities.map(e => [e.name, e.workspace])).toEqual([
+      ['Task', undefined],
+      ['User', 'team'],
+      ['TechStack', 'team']
+    ]);
+    expect(graph.relations).toEqual([expect.objectContaining({ from: 'User', workspace: 'team' })]);
+  });
+
+  it('should merge subscribed workspaces into search_nodes and get_context', async () => {
+    await manager.publishMemory('thread-001', 'team', ['User', 'TechStack']);
+    await manager.subscribeWorkspace('thread-002', 'team');
+
+    const search = await manager.searchNodes('thread-002', 'postgres');
+    const context = await manager.getContext('thread-002', ['User']);
+
+    expect(search.entities.map(e => [e.name, e.workspace])).toEqual([['TechStack', 'team']]);
+    expect(search.entities[0].matches[0].observationId).toBe('obs_2');
+    expect(context.entities.map(e => e.name).sort()).toEqual(['TechStack', 'User']);
+    expect(context.entities.every(e => e.workspace === 'team')).toBe(true);
+  });
+
+  it('should show updates published after subscribing', async () => {
+    await manager.subscribeWorkspace('thread-002', 'team');
+    await manager.publishMemory('thread-001', 'team', ['User']);
+
+    const graph = await manager.readGraph('thread-002');
+
+    expect(graph.entities.map(e => e.name)).toEqual(['Task', 'User']);
+  });
+
+  it('should track subscriptions and stop merging after unsubscribing', async () => {
+    await manager.publishMemory('thread-001', 'team', ['User']);
+    await manager.subscribeWorkspace('thread-002', 'team');
+    await manager.subscribeWorkspace('thread-002', 'company');
+
+    const workspaces = await manager.listWorkspaces();
+    const remaining = await manager.unsubscribeWorkspace('thread-002', 'team');
+
+    expect(workspaces).toEqual([
+      { name: 'company', entityCount: 0, relationCount: 0, subscribers: ['thread-002'] },
+      { name: 'team', entityCount: 1, relationCount: 0, subscribers: ['thread-002'] }
+    ]);
+    expect(remaining).toEqual(['company']);
+    expect(await manager.unsubscribeWorkspace('thread-002', 'company')).toEqual([]);
+    expect((await manager.readGraph('thread-002')).entities.map(e => e.name)).toEqual(['Task']);
+  });
+
+  it('should refuse workspace and registry threads as thread IDs of the other tools', async () => {
+    await manager.publishMemory('thread-001', 'team', ['User', 'TechStack']);
+    await manager.subscribeWorkspace('thread-002', 'team');
+
+    expect(SaveMemoryInputSchema.safeParse({ threadId: '@team', entities: [] }).error?.issues[0].message)
+      .toBe("Thread IDs starting with '@' are reserved for shared workspaces");
+    expect(ForkThreadInputSchema.safeParse({ sourceThreadId: 'thread-001', targetThreadId: '@@subscriptions' }).success).toBe(false);
+    await expect(manager.createEntities('@team', [createTestEntity('Intruder', { agentThreadId: '@team' })]))
+      .rejects.toThrow('Thread @team is a shared workspace');
+    await expect(manager.deleteEntities('@@subscriptions', ['thread-002'])).rejects.toThrow('is a shared workspace');
+    await expect(manager.renameEntity('@team', 'User', 'Owner')).rejects.toThrow('is a shared workspace');
+    await expect(manager.forkThread('thread-001', '@copy')).rejects.toThrow('is a shared workspace');
+    await expect(manager.mergeThreads('@team', 'thread-002')).rejects.toThrow('is a shared workspace');
+
+    expect((await manager.listConversations()).conversations.map(c => c.agentThreadId).sort()).toEqual(['thread-001', 'thread-002']);
+    expect(await manager.listSubscriptions('thread-002')).toEqual(['team']);
+  });
+});
@@ -0,0 +1,152 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { KnowledgeGraphManager } from '../lib/knowledge-graph-manager.js';
+import { JsonlStorageAdapter } from '../lib/jsonl-storage-adapter.js';
+import { InMemoryStorageAdapter, createTestEntity, createTestRelation, createTestObservation } from './storage-test-helpers.js';
+
+const GRAPH = {
+  entities: [
+    createTestEntity('Alice', {
+      observations: [
+        createTestObservation({ id: 'obs_1', content: 'Works on the API' }),
+        createTestObservation({ id: 'obs_2', content: 'Prefers TypeScript' })
+      ]
+    }),
+    createTestEntity('Bob'),
+    createTestEntity('Task', { agentThreadId: 'thread-002' })
+  ],
+  relations: [
+    createTestRelation('Alice', 'Bob'),
+    createTestRelation('Task', 'Task', { agentThreadId: 'thread-002', relationType: 'blocks' })
+  ]
+};
+
+/**
+ * Tests for create_snapshot, list_snapshots, diff_snapshot, restore_snapshot and delete_snapshot
+ */
+describe('Snapshots', () => {
+  let testDir: string;
+  let storage: InMemoryStorageAdapter;
+  let manager: KnowledgeGraphManager;
+
+  beforeEach(async () => {
+    testDir = `/tmp/test-snapshots-${Date.now()}`;
+    await fs.mkdir(testDir, { recursive: true });
+    storage = new InMemoryStorageAdapter();
+    await storage.saveGraph(GRAPH);
+    manager = new KnowledgeGraphManager(testDir, storage);
+  });
+
+  afterEach(async () => {
+    await fs.rm(testDir, { recursive: true, force: true }).catch(() => {});
+  });
+
+  it('should list snapshots most recent first, optionally by thread', async () => {
+    const full = await manager.createSnapshot('before prune_memory');
+    const thread = await manager.createSnapshot('before bulk_update', 'thread-002');
+
+    expect(full).toMatchObject({ label: 'before prune_memory', entityCount: 3, relationCount: 2 });
+    expect(full.threadId).toBeUndefined();
+    expect(thread).toMatchObject({ threadId: 'thread-002', entityCount: 1, relationCount: 1 });
+
+    const snapshots = await manager.listSnapshots();
+    expect(snapshots.map(s => s.id).sort()).toEqual([full.id, thread.id].sort());
+    expect(new Date(snapshots[0].createdAt).getTime()).toBeGreaterThanOrEqual(new Date(snapshots[1].createdAt).getTime());
+    expect(await manager.listSnapshots('thread-002')).toEqual([thread]);
+  });
+
+  it('should report what changed since a snapshot', async () => {
+    const snapshot = await manager.createSnapshot('checkpoint', 'thread-001');
+    await manager.deleteEntities('thread-001', ['Bob']);
+    await manager.createEntities('thread-001', [createTestEntity('Carol')]);
+    await manager.deleteObservations('thread-001', [{ entityName: 'Alice', observations: ['obs_2'] }]);
+    await manager.bulkUpdate('thread-001', [{ entityName: 'Alice', importance: 0.1 }]);
+
+    const diff = await manager.diffSnapshot(snapshot.id);
+
+    expect(diff.snapshot).toEqual(snapshot);
+    expect(diff.addedEntities).toEqual([{ name: 'Carol', agentThreadId: 'thread-001' }]);
+    expect(diff.removedEntities).toEqual([{ name: 'Bob', agentThreadId: 'thread-001' }]);
+    expect(diff.changedEntities).toEqual([{
+      name: 'Alice',
+      agentThreadId: 'thread-001',
+      changedFields: ['importance'],
+      addedObservations: [],
+      removedObservations: ['obs_2'],
+      changedObservations: []
+    }]);
+    expect(diff.addedRelations).toEqual([]);
+    expect(diff.removedRelations).toEqual([GRAPH.relations[0]]);
+  });
+
+  it('should restore a thread snapshot without touching other threads', async () => {
+    const snapshot = await manager.createSnapshot('checkpoint', 'thread-001');
+    await manager.pruneMemory('thread-001', { importanceLessThan: 1, keepMinEntities: 0 });
+    await manager.createEntities('thread-001', [createTestEntity('Carol')]);
+    await manager.deleteEntities('thread-002', ['Task']);
+
+    const rolledBack = await manager.restoreSnapshot(snapshot.id);
+
+    expect(rolledBack.addedEntities.map(e => e.name)).toEqual(['Carol']);
+    expect(rolledBack.removedEntities.map(e => e.name).sort()).toEqual(['Alice', 'Bob']);
+    expect(await storage.loadThreadGraph('thread-001')).toEqual({ entities: GRAPH.entities.slice(0, 2), relations: [GRAPH.relations[0]] });
+    expect((await storage.loadThreadGraph('thread-002')).entities).toEqual([]);
+    expect((await manager.diffSnapshot(snapshot.id)).changedEntities).toEqual([]);
+  });
+
+  it('should restore a full snapshot and keep it until deleted', async () => {
+    const snapshot = await manager.createSnapshot('checkpoint');
+    await manager.deleteEntities('thread-002', ['Task']);
+    await manager.createEntities('thread-003', [createTestEntity('Other', { agentThreadId: 'thread-003' })]);
+
+    await manager.restoreSnapshot(snapshot.id);
+
+    const graph = await storage.loadGraph();
+    expect(graph.entities.map(e => e.name).sort()).toEqual(['Alice', 'Bob', 'Task']);
+    expect(graph.relations).toHaveLength(2);
+
+    await manager.deleteSnapshot(snapshot.id);
+    expect(await manager.listSnapshots()).toEqual([]);
+    expect(await fs.readdir(path.join(testDir, 'snapshots'))).toEqual([]);
+  });
+
+  it('should reject unknown snapshot IDs', async () => {
+    await expect(manager.diffSnapshot('snapshot_00000000-0000-0000-0000-000000000000')).rejects.toThrow('not found');
+    await expect(manager.restoreSnapshot('../thread-thread-001')).rejects.toThrow('Snapshot ../thread-thread-001 not found');
+    await expect(manager.deleteSnapshot('snapshot_x')).rejects.toThrow('Snapshot snapshot_x not found');
+    expect(await manager.listSnapshots()).toEqual([]);
+  });
+
+  it('should keep snapshots next to the thread files of JSONL storage', async () => {
+    const jsonl = new JsonlStorageAdapter(testDir);
+    await jsonl.initialize();
+    await jsonl.saveGraph(GRAPH);
+    const jsonlManager = new KnowledgeGraphManager(testDir, jsonl);
+
+    const snapshot = await jsonlManager.createSnapshot('checkpoint');
+    await jsonlManager.deleteEntities('thread-001', ['Alice']);
+    await jsonlManager.restoreSnapshot(snapshot.id);
+
+    expect((await jsonl.listThreadIds()).sort()).toEqual(['thread-001', 'thread-002']);
+    expect((await jsonl.loadThreadGraph('thread-001')).entities.map(e => e.name).sort()).toEqual(['Alice', 'Bob']);
+  });
+
+  it('should restore a thread snapshot in a single write', async () => {
+    const jsonl = new JsonlStorageAdapter(testDir);
+    await jsonl.initialize();
+    await jsonl.saveGraph(GRAPH);
+    const jsonlManager = new KnowledgeGraphManager(testDir, jsonl);
+    const revision = async () =>
+      JSON.parse((await fs.readFile(path.join(testDir, 'thread-thread-001.jsonl'), 'utf-8')).split('\n')[0]).revision;
+
+    const snapshot = await jsonlManager.createSnapshot('checkpoint', 'thread-001');
+    await jsonlManager.deleteEntities('thread-001', ['Alice']);
+    await jsonlManager.createEntities('thread-001', [createTestEntity('Carol')]);
+    const before = await revision();
+    await jsonlManager.restoreSnapshot(snapshot.id);
+
+    expect(await revision()).toBe(before + 1);
+    expect((await jsonl.loadThreadGraph('thread-001')).entities.map(e => e.name)).toEqual(['Alice', 'Bob']);
+  });
+});
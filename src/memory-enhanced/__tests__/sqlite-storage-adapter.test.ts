@@ -0,0 +1,221 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { SqliteStorageAdapter } from '../lib/sqlite-storage-adapter.js';
+import { KnowledgeGraphManager } from '../lib/knowledge-graph-manager.js';
+import { createTestEntity, createTestRelation, createTestObservation } from './storage-test-helpers.js';
+
+/**
+ * Tests for the SQLite storage adapter
+ * Each test uses its own database file in a temporary directory
+ */
+describe('SQLite Storage Adapter', () => {
+  let adapter: SqliteStorageAdapter;
+  let testDir: string;
+  let dbPath: string;
+
+  beforeEach(async () => {
+    testDir = `/tmp/test-sqlite-storage-${Date.now()}`;
+    dbPath = path.join(testDir, 'memory.db');
+    adapter = new SqliteStorageAdapter(dbPath);
+    await adapter.initialize();
+  });
+
+  afterEach(async () => {
+    await adapter.close();
+    await fs.rm(testDir, { recursive: true, force: true }).catch(() => {});
+  });
+
+  describe('initialize', () => {
+    it('should create the database file and its directory', async () => {
+      await expect(fs.access(dbPath)).resolves.toBeUndefined();
+    });
+
+    it('should throw when used before initialization', async () => {
+      const uninitialized = new SqliteStorageAdapter(dbPath);
+
+      await expect(uninitialized.loadGraph()).rejects.toThrow('SQLite database not initialized');
+    });
+  });
+
+  describe('saveGraph and loadGraph', () => {
+    it('should round-trip entities, observations and relations', async () => {
+      const entity = createTestEntity('A', {
+        observations: [
+          createTestObservation({ id: 'obs-1', superseded_by: 'obs-2' }),
+          createTestObservation({ id: 'obs-2', version: 2, supersedes: 'obs-1', confidence: undefined })
+        ]
+      });
+      const graph = {
+        entities: [entity, createTestEntity('B')],
+        relations: [createTestRelation('A', 'B')]
+      };
+
+      await adapter.saveGraph(graph);
+      const loaded = await adapter.loadGraph();
+
+      expect(loaded.entities[0].observations).toEqual(entity.observations);
+      expect(loaded.entities[0].observations[1]).not.toHaveProperty('confidence');
+      expect(loaded.entities.map(e => e.name)).toEqual(['A', 'B']);
+      expect(loaded.relations).toEqual(graph.relations);
+    });
+
+    it('should replace the previous graph', async () => {
+      await adapter.saveGraph({ entities: [createTestEntity('Old')], relations: [] });
+
+      await adapter.saveGraph({ entities: [createTestEntity('New')], relations: [] });
+
+      const loaded = await adapter.loadGraph();
+      expect(loaded.entities.map(e => e.name)).toEqual(['New']);
+    });
+
+    it('should persist data across connections', async () => {
+      await adapter.upsertEntity(createTestEntity('A'));
+      await adapter.close();
+
+      adapter = new SqliteStorageAdapter(dbPath);
+      await adapter.initialize();
+
+      const loaded = await adapter.loadGraph();
+      expect(loaded.entities.map(e => e.name)).toEqual(['A']);
+    });
+  });
+
+  describe('thread-scoped reads', () => {
+    it('should load only the requested thread', async () => {
+      await adapter.upsertEntity(createTestEntity('A', { agentThreadId: 't1' }));
+      await adapter.upsertEntity(createTestEntity('B', { agentThreadId: 't2' }));
+
+      const graph = await adapter.loadThreadGraph('t1');
+
+      expect(graph.entities.map(e => e.name)).toEqual(['A']);
+    });
+
+    it('should list every thread that holds entities or relations', async () => {
+      await adapter.upsertEntity(createTestEntity('A', { agentThreadId: 't1' }));
+      await adapter.upsertRelation(createTestRelation('X', 'Y', { agentThreadId: 't2' }));
+
+      const threadIds = await adapter.listThreadIds();
+
+      expect(threadIds.sort()).toEqual(['t1', 't2']);
+    });
+  });
+
+  describe('incremental mutations', () => {
+    it('should allow the same entity name in different threads', async () => {
+      await adapter.upsertEntity(createTestEntity('Shared', { agentThreadId: 't1' }));
+      await adapter.upsertEntity(createTestEntity('Shared', { agentThreadId: 't2' }));
+
+      const loaded = await adapter.loadGraph();
+
+      expect(loaded.entities).toHaveLength(2);
+    });
+
+    it('should replace an entity and its observations on upsert', async () => {
+      await adapter.upsertEntity(createTestEntity('A', { observations: [createTestObservation({ id: 'obs-old' })] }));
+
+      await adapter.upsertEntity(createTestEntity('A', {
+        importance: 0.1,
+        observations: [createTestObservation({ id: 'obs-new' })]
+      }));
+
+      const [entity] = (await adapter.loadGraph()).entities;
+      expect(entity.importance).toBe(0.1);
+      expect(entity.observations.map(o => o.id)).toEqual(['obs-new']);
+    });
+
+    it('should delete the entity, its observations and the relations of its thread', async () => {
+      await adapter.upsertEntity(createTestEntity('A', { observations: [createTestObservation()] }));
+      await adapter.upsertEntity(createTestEntity('B'));
+      await adapter.upsertRelation(createTestRelation('A', 'B'));
+
+      await adapter.deleteEntity('thread-001', 'A');
+      await adapter.upsertEntity(createTestEntity('A'));
+
+      const loaded = await adapter.loadGraph();
+      expect(loaded.entities.find(e => e.name === 'A')!.observations).toHaveLength(0);
+      expect(loaded.relations).toHaveLength(0);
+    });
+
+    it('should append observations in order and bump the entity timestamp', async () => {
+      await adapter.upsertEntity(createTestEntity('A', { observations: [createTestObservation({ id: 'obs-1' })] }));
+
+      await adapter.appendObservation('thread-001', 'A', createTestObservation({ id: 'obs-2', timestamp: '2024-02-01T00:00:00Z' }));
+
+      const [entity] = (await adapter.loadGraph()).entities;
+      expect(entity.observations.map(o => o.id)).toEqual(['obs-1', 'obs-2']);
+      expect(entity.timestamp).toBe('2024-02-01T00:00:00Z');
+    });
+
+    it('should throw when appending to a missing entity', async () => {
+      await expect(
+        adapter.appendObservation('thread-001', 'Missing', createTestObservation())
+      ).rejects.toThrow('Entity with name Missing not found in thread thread-001');
+    });
+
+    it('should upsert and delete relations by identity', async () => {
+      await adapter.upsertRelation(createTestRelation('A', 'B', { confidence: 0.1 }));
+      await adapter.upsertRelation(createTestRelation('A', 'B', { confidence: 0.7 }));
+      await adapter.upsertRelation(createTestRelation('A', 'B', { relationType: 'uses' }));
+
+      await adapter.deleteRelation(createTestRelation('A', 'B', { relationType: 'uses' }));
+
+      const { relations } = await adapter.loadGraph();
+      expect(relations).toHaveLength(1);
+      expect(relations[0].confidence).toBe(0.7);
+    });
+  });
+
+  describe('embeddings', () => {
+    it('should replace and load the vectors of one thread', async () => {
+      const header = { entityName: 'A', model: 'test', contentHash: 'h1', vector: [0.6, 0.8] };
+      const observation = { ...header, observationId: 'obs_1', contentHash: 'h2', vector: [1, 0] };
+
+      await adapter.saveEmbeddings('thread-001', [header, observation]);
+      await adapter.saveEmbeddings('thread-002', [header]);
+      await adapter.saveEmbeddings('thread-001', [observation, header]);
+
+      expect((await adapter.loadEmbeddings('thread-001')).sort((a, b) => a.contentHash.localeCompare(b.contentHash)))
+        .toEqual([header, observation]);
+      expect(await adapter.loadEmbeddings('thread-002')).toEqual([header]);
+    });
+  });
+
+  describe('shared database file', () => {
+    it('should make writes from one connection visible to another', async () => {
+      const other = new SqliteStorageAdapter(dbPath);
+      await other.initialize();
+
+      try {
+        await adapter.upsertEntity(createTestEntity('A'));
+        await other.upsertEntity(createTestEntity('B'));
+
+        const loaded = await adapter.loadGraph();
+        expect(loaded.entities.map(e => e.name).sort()).toEqual(['A', 'B']);
+      } finally {
+        await other.close();
+      }
+    });
+  });
+
+  describe('KnowledgeGraphManager integration', () => {
+    it('should keep the observation version chain', async () => {
+      const manager = new KnowledgeGraphManager('', adapter);
+      await manager.createEntities('thread-001', [
+        createTestEntity('A', { observations: [createTestObservation({ id: 'obs-1', content: 'v1' })] })
+      ]);
+
+      const updated = await manager.updateObservation({
+        entityName: 'A',
+        observationId: 'obs-1',
+        newContent: 'v2',
+        agentThreadId: 'thread-001',
+        timestamp: '2024-02-01T00:00:00Z'
+      });
+
+      const history = await manager.getObservationHistory('thread-001', 'A', updated.id);
+      expect(history.map(o => o.content)).toEqual(['v1', 'v2']);
+      expect(history[0].superseded_by).toBe(updated.id);
+    });
+  });
+});
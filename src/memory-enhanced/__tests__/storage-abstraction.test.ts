@@ -1,42 +1,18 @@
-import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { promises as fs } from 'fs';
 import path from 'path';
 import { fileURLToPath } from 'url';
-import { KnowledgeGraphManager, KnowledgeGraph, IStorageAdapter, JsonlStorageAdapter } from '../index.js';
+import { KnowledgeGraphManager, KnowledgeGraph, JsonlStorageAdapter } from '../index.js';
+import { IGraphQueryStorage, findGraphQueryStorage } from '../lib/storage-interface.js';
+import { CachingStorageAdapter } from '../lib/cache/caching-storage-adapter.js';
 import {
   createTestEntity,
   createTestRelation,
   createPersonEntity,
-  createEntityWithObservation
+  createEntityWithObservation,
+  InMemoryStorageAdapter
 } from './storage-test-helpers.js';
 
-/**
- * Mock in-memory storage adapter for testing the abstraction
- * Demonstrates the Liskov Substitution Principle (LSP) - can be used anywhere IStorageAdapter is expected
- */
-class InMemoryStorageAdapter implements IStorageAdapter {
-  private graph: KnowledgeGraph = { entities: [], relations: [] };
-
-  async loadGraph(): Promise<KnowledgeGraph> {
-    return this.deepCopy(this.graph);
-  }
-
-  async saveGraph(graph: KnowledgeGraph): Promise<void> {
-    this.graph = this.deepCopy(graph);
-  }
-
-  async initialize(): Promise<void> {
-    // No initialization needed for in-memory storage
-  }
-
-  private deepCopy(graph: KnowledgeGraph): KnowledgeGraph {
-    return {
-      entities: JSON.parse(JSON.stringify(graph.entities)),
-      relations: JSON.parse(JSON.stringify(graph.relations))
-    };
-  }
-}
-
 /**
  * Test fixture for managing temporary directories
  */
@@ -183,4 +159,50 @@ describe('Storage Abstraction', () => {
       expect(loadedGraph.relations).toHaveLength(0);
     });
   });
+
+  describe('Graph query capability', () => {
+    class QueryingStorageAdapter extends InMemoryStorageAdapter implements IGraphQueryStorage {
+      findRelationPath = vi.fn(async () => ({ found: true, path: ['Alice', 'Bob'], relations: [] }));
+      getContext = vi.fn(async () => ({ entities: [], relations: [] }));
+      getAnalytics = vi.fn(async () => ({ recent_changes: [], top_important: [], most_connected: [], orphaned_entities: [] }));
+      searchNodes = vi.fn(async () => ({
+        entities: [{ ...createTestEntity('Alice'), status: 'ARCHIVED' as const, score: 2, matches: [] }],
+        relations: []
+      }));
+    }
+
+    let storage: QueryingStorageAdapter;
+    let manager: KnowledgeGraphManager;
+
+    beforeEach(() => {
+      storage = new QueryingStorageAdapter();
+      manager = new KnowledgeGraphManager('', new CachingStorageAdapter(storage));
+    });
+
+    it('should find the capability through storage decorators', () => {
+      expect(findGraphQueryStorage(new CachingStorageAdapter(storage))).toBe(storage);
+      expect(findGraphQueryStorage(new InMemoryStorageAdapter())).toBeNull();
+    });
+
+    it('should let the storage answer analysis queries', async () => {
+      const loadThreadGraph = vi.spyOn(storage, 'loadThreadGraph');
+
+      const path = await manager.findRelationPath('thread-001', 'Alice', 'Bob', 3);
+      await manager.getContext('thread-001', ['Alice'], 2);
+      await manager.getAnalytics('thread-001');
+
+      expect(path.path).toEqual(['Alice', 'Bob']);
+      expect(storage.findRelationPath).toHaveBeenCalledWith('thread-001', 'Alice', 'Bob', 3);
+      expect(storage.getContext).toHaveBeenCalledWith('thread-001', ['Alice'], 2);
+      expect(storage.getAnalytics).toHaveBeenCalledWith('thread-001');
+      expect(loadThreadGraph).not.toHaveBeenCalled();
+    });
+
+    it('should strip persisted status values from native search results', async () => {
+      const result = await manager.searchNodes('thread-001', 'alice');
+
+      expect(result.entities[0]).not.toHaveProperty('status');
+      expect(result.entities[0].score).toBe(2);
+    });
+  });
 });
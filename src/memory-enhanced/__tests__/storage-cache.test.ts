@@ -0,0 +1,153 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { promises as fs } from 'fs';
+import { CachingStorageAdapter } from '../lib/cache/caching-storage-adapter.js';
+import { JsonlStorageAdapter } from '../lib/jsonl-storage-adapter.js';
+import { KnowledgeGraphManager } from '../lib/knowledge-graph-manager.js';
+import { withRevisionCheck } from '../lib/utils/optimistic-concurrency.js';
+import { InMemoryStorageAdapter, createTestEntity, createTestRelation, createTestObservation } from './storage-test-helpers.js';
+
+/**
+ * Tests for the in-memory storage cache
+ */
+describe('CachingStorageAdapter', () => {
+  describe('with a TTL (storage without change tracking)', () => {
+    let storage: InMemoryStorageAdapter;
+    let cache: CachingStorageAdapter;
+
+    beforeEach(async () => {
+      storage = new InMemoryStorageAdapter();
+      await storage.saveGraph({
+        entities: [createTestEntity('Alice'), createTestEntity('Bob', { agentThreadId: 'thread-002' })],
+        relations: [createTestRelation('Alice', 'Alice')]
+      });
+      cache = new CachingStorageAdapter(storage, { ttlMs: 1000 });
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should serve repeated reads from memory', async () => {
+      const loadThreadGraph = vi.spyOn(storage, 'loadThreadGraph');
+
+      const first = await cache.loadThreadGraph('thread-001');
+      const second = await cache.loadThreadGraph('thread-001');
+
+      expect(second).toEqual(first);
+      expect(loadThreadGraph).toHaveBeenCalledTimes(1);
+      expect(cache.getStats()).toMatchObject({ hits: 1, misses: 1, hitRate: 0.5, cachedThreads: 1 });
+    });
+
+    it('should fill thread entries from a full graph load', async () => {
+      const full = await cache.loadGraph();
+
+      const thread = await cache.loadThreadGraph('thread-002');
+      const again = await cache.loadGraph();
+
+      expect(thread.entities.map(e => e.name)).toEqual(['Bob']);
+      expect(again).toEqual(full);
+      expect(cache.getStats()).toMatchObject({ hits: 2, misses: 1, cachedThreads: 2 });
+    });
+
+    it('should not let callers modify cached data', async () => {
+      const graph = await cache.loadThreadGraph('thread-001');
+      graph.entities[0].observations.push(createTestObservation());
+
+      const again = await cache.loadThreadGraph('thread-001');
+
+      expect(again.entities[0].observations).toHaveLength(0);
+    });
+
+    it('should drop a thread when it is written', async () => {
+      await cache.loadThreadGraph('thread-001');
+
+      await cache.upsertEntity(createTestEntity('Carol'));
+
+      expect((await cache.loadThreadGraph('thread-001')).entities.map(e => e.name)).toEqual(['Alice', 'Carol']);
+      expect(await cache.listThreadIds()).toEqual(['thread-001', 'thread-002']);
+      expect(cache.getStats()).toMatchObject({ misses: 2, invalidations: 1 });
+    });
+
+    it('should reload after the TTL expires', async () => {
+      vi.useFakeTimers();
+      await cache.loadThreadGraph('thread-001');
+      await storage.upsertEntity(createTestEntity('Written elsewhere'));
+
+      const beforeExpiry = await cache.loadThreadGraph('thread-001');
+      vi.advanceTimersByTime(1001);
+      const afterExpiry = await cache.loadThreadGraph('thread-001');
+
+      expect(beforeExpiry.entities).toHaveLength(1);
+      expect(afterExpiry.entities).toHaveLength(2);
+      expect(cache.getStats().invalidations).toBe(1);
+    });
+
+    it('should read through inside a write operation', async () => {
+      await cache.loadThreadGraph('thread-001');
+      await storage.upsertEntity(createTestEntity('Written elsewhere'));
+
+      const graph = await withRevisionCheck(() => cache.loadThreadGraph('thread-001'));
+
+      expect(graph.entities).toHaveLength(2);
+    });
+
+    it('should keep manager reads consistent with manager writes', async () => {
+      const manager = new KnowledgeGraphManager('', cache);
+      await manager.openNodes('thread-001', ['Alice']);
+
+      await manager.createEntities('thread-001', [createTestEntity('Dave')]);
+
+      expect((await manager.openNodes('thread-001', ['Dave'])).entities).toHaveLength(1);
+    });
+  });
+
+  describe('with JSONL change tracking', () => {
+    let testDir: string;
+    let cache: CachingStorageAdapter;
+    let otherProcess: JsonlStorageAdapter;
+
+    beforeEach(async () => {
+      testDir = `/tmp/test-storage-cache-${Date.now()}`;
+      await fs.mkdir(testDir, { recursive: true });
+      const storage = new JsonlStorageAdapter(testDir);
+      otherProcess = new JsonlStorageAdapter(testDir);
+      cache = new CachingStorageAdapter(storage, { ttlMs: 60_000 });
+      await cache.initialize();
+      await otherProcess.initialize();
+      await cache.upsertEntity(createTestEntity('Alice'));
+    });
+
+    afterEach(async () => {
+      await fs.rm(testDir, { recursive: true, force: true }).catch(() => {});
+    });
+
+    it('should serve unchanged files from memory', async () => {
+      await cache.loadGraph();
+      await cache.loadGraph();
+
+      expect(cache.getStats()).toMatchObject({ hits: 1, misses: 1 });
+    });
+
+    it('should see writes by another process before the TTL expires', async () => {
+      await cache.loadThreadGraph('thread-001');
+
+      await otherProcess.upsertEntity(createTestEntity('Bob'));
+
+      expect((await cache.loadThreadGraph('thread-001')).entities.map(e => e.name)).toEqual(['Alice', 'Bob']);
+      expect(cache.getStats().invalidations).toBe(1);
+    });
+
+    it('should see threads created and removed by another process', async () => {
+      await cache.loadGraph();
+
+      await otherProcess.upsertEntity(createTestEntity('Bob', { agentThreadId: 'thread-002' }));
+      const afterCreate = await cache.loadGraph();
+      await otherProcess.saveGraph({ entities: [createTestEntity('Bob', { agentThreadId: 'thread-002' })], relations: [] });
+      const afterRemove = await cache.loadGraph();
+
+      expect(afterCreate.entities.map(e => e.name)).toEqual(['Alice', 'Bob']);
+      expect(afterRemove.entities.map(e => e.name)).toEqual(['Bob']);
+      expect(cache.getStats().cachedThreads).toBe(1);
+    });
+  });
+});
@@ -0,0 +1,182 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { migrateStorage } from '../lib/migration/storage-migrator.js';
+import { describeStorageBackend, openStorageBackend, storageBackendOf } from '../lib/migration/storage-backends.js';
+import { JsonlStorageAdapter } from '../lib/jsonl-storage-adapter.js';
+import { SqliteStorageAdapter } from '../lib/sqlite-storage-adapter.js';
+import { KnowledgeGraphManager } from '../lib/knowledge-graph-manager.js';
+import { Relation } from '../lib/types.js';
+import {
+  InMemoryStorageAdapter,
+  createTestEntity,
+  createTestRelation,
+  createTestObservation
+} from './storage-test-helpers.js';
+
+/**
+ * Target that silently drops relations, to exercise verification failures
+ */
+class LossyStorageAdapter extends InMemoryStorageAdapter {
+  async upsertRelation(_relation: Relation): Promise<void> {}
+}
+
+/**
+ * Tests for copying a graph between storage adapters
+ */
+describe('Storage migration', () => {
+  let testDir: string;
+  let checkpointPath: string;
+  let source: InMemoryStorageAdapter;
+
+  beforeEach(async () => {
+    testDir = `/tmp/test-storage-migration-${Date.now()}`;
+    checkpointPath = path.join(testDir, 'migration-checkpoint.json');
+
+    source = new InMemoryStorageAdapter();
+    await source.upsertEntity(createTestEntity('Alice', {
+      observations: [createTestObservation({ id: 'obs-1' }), createTestObservation({ id: 'obs-2', content: 'Likes tea' })]
+    }));
+    await source.upsertEntity(createTestEntity('Bob'));
+    await source.upsertRelation(createTestRelation('Alice', 'Bob'));
+    await source.upsertEntity(createTestEntity('Carol', { agentThreadId: 'thread-002' }));
+  });
+
+  afterEach(async () => {
+    await fs.rm(testDir, { recursive: true, force: true }).catch(() => {});
+  });
+
+  it('should copy every thread and verify the counts', async () => {
+    const target = new InMemoryStorageAdapter();
+
+    const report = await migrateStorage(source, target, { checkpointPath });
+
+    expect(report.verified).toBe(true);
+    expect(report.totals).toEqual({ entities: 3, relations: 1, observations: 2 });
+    expect(report.threads.map(t => [t.threadId, t.status])).toEqual([
+      ['thread-001', 'migrated'],
+      ['thread-002', 'migrated']
+    ]);
+    expect(report.threads[0].target).toEqual({ entities: 2, relations: 1, observations: 2 });
+    expect(await target.loadGraph()).toEqual(await source.loadGraph());
+  });
+
+  it('should delete the checkpoint after a verified run', async () => {
+    await migrateStorage(source, new InMemoryStorageAdapter(), { checkpointPath });
+
+    await expect(fs.access(checkpointPath)).rejects.toThrow();
+  });
+
+  it('should write nothing on a dry run and report entities already in the target', async () => {
+    const target = new InMemoryStorageAdapter();
+    await target.upsertEntity(createTestEntity('Alice'));
+
+    const report = await migrateStorage(source, target, { dryRun: true, checkpointPath });
+
+    expect(report.dryRun).toBe(true);
+    expect(report.threads.every(t => t.status === 'planned')).toBe(true);
+    expect(report.threads[0].existingEntities).toBe(1);
+    expect((await target.loadGraph()).entities).toHaveLength(1);
+    await expect(fs.access(checkpointPath)).rejects.toThrow();
+  });
+
+  it('should report threads that fail verification and keep them out of the checkpoint', async () => {
+    const report = await migrateStorage(source, new LossyStorageAdapter(), { checkpointPath, migrationId: 'm1' });
+
+    expect(report.verified).toBe(false);
+    expect(report.threads[0]).toMatchObject({
+      threadId: 'thread-001',
+      status: 'failed',
+      target: { entities: 2, relations: 0, observations: 2 }
+    });
+    expect(report.threads[1].status).toBe('migrated');
+
+    const checkpoint = JSON.parse(await fs.readFile(checkpointPath, 'utf-8'));
+    expect(checkpoint).toMatchObject({ migrationId: 'm1', completedThreads: ['thread-002'] });
+  });
+
+  it('should skip threads completed by an earlier run', async () => {
+    await fs.mkdir(testDir, { recursive: true });
+    await fs.writeFile(checkpointPath, JSON.stringify({
+      migrationId: 'm1',
+      completedThreads: ['thread-002'],
+      updatedAt: '2024-01-20T10:00:00Z'
+    }));
+    const target = new InMemoryStorageAdapter();
+
+    const report = await migrateStorage(source, target, { checkpointPath, migrationId: 'm1' });
+
+    expect(report.resumed).toBe(true);
+    expect(report.verified).toBe(true);
+    expect(report.threads.map(t => t.status)).toEqual(['migrated', 'skipped']);
+    expect(await target.listThreadIds()).toEqual(['thread-001']);
+  });
+
+  it('should refuse a checkpoint written by another migration', async () => {
+    await fs.mkdir(testDir, { recursive: true });
+    await fs.writeFile(checkpointPath, JSON.stringify({ migrationId: 'other', completedThreads: [], updatedAt: '' }));
+
+    await expect(migrateStorage(source, new InMemoryStorageAdapter(), { checkpointPath, migrationId: 'm1' }))
+      .rejects.toThrow('Checkpoint belongs to a different migration');
+  });
+
+  it('should copy from JSONL files into SQLite', async () => {
+    const jsonl = new JsonlStorageAdapter(path.join(testDir, 'memory'));
+    await jsonl.initialize();
+    await jsonl.saveGraph(await source.loadGraph());
+    const sqlite = new SqliteStorageAdapter(path.join(testDir, 'memory.db'));
+    await sqlite.initialize();
+
+    try {
+      const report = await migrateStorage(jsonl, sqlite, { checkpointPath });
+
+      expect(report.verified).toBe(true);
+      expect((await sqlite.loadThreadGraph('thread-001')).entities.map(e => e.name).sort()).toEqual(['Alice', 'Bob']);
+      expect((await sqlite.loadThreadGraph('thread-002')).entities).toHaveLength(1);
+    } finally {
+      await sqlite.close();
+    }
+  });
+
+  it('should keep the search index current when migrating through the manager', async () => {
+    const manager = new KnowledgeGraphManager('', new InMemoryStorageAdapter());
+    expect((await manager.searchNodes('thread-001', 'tea')).entities).toHaveLength(0);
+
+    await manager.migrateFrom(source);
+
+    expect((await manager.searchNodes('thread-001', 'tea')).entities.map(e => e.name)).toEqual(['Alice']);
+  });
+
+  describe('storage backends', () => {
+    const savedEnv = { ...process.env };
+
+    afterEach(() => {
+      process.env = { ...savedEnv };
+    });
+
+    it('should describe backends by location', () => {
+      process.env.SQLITE_DB_PATH = '/data/memory.db';
+      process.env.NEO4J_URI = 'neo4j://localhost:7687';
+      process.env.NEO4J_USERNAME = 'neo4j';
+      process.env.NEO4J_PASSWORD = 'secret';
+      process.env.NEO4J_DATABASE = 'memory';
+
+      expect(describeStorageBackend('jsonl', '/data/memory')).toBe('jsonl:/data/memory');
+      expect(describeStorageBackend('sqlite', '/data/memory')).toBe('sqlite:/data/memory.db');
+      expect(describeStorageBackend('neo4j', '/data/memory')).toBe('neo4j:neo4j://localhost:7687/memory');
+    });
+
+    it('should refuse backends that are not configured', async () => {
+      delete process.env.SQLITE_DB_PATH;
+      delete process.env.NEO4J_URI;
+
+      await expect(openStorageBackend('sqlite', testDir)).rejects.toThrow('SQLite is not configured');
+      await expect(openStorageBackend('neo4j', testDir)).rejects.toThrow('Neo4j is not configured');
+    });
+
+    it('should identify the backend of an adapter', () => {
+      expect(storageBackendOf(new JsonlStorageAdapter(testDir))).toBe('jsonl');
+      expect(storageBackendOf(new InMemoryStorageAdapter())).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,203 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { JsonlStorageAdapter } from '../lib/jsonl-storage-adapter.js';
+import { KnowledgeGraphManager } from '../lib/knowledge-graph-manager.js';
+import { createTestEntity, createTestRelation, createTestObservation } from './storage-test-helpers.js';
+
+/**
+ * Tests for the thread-scoped read and incremental mutation API of IStorageAdapter
+ * Verifies that single-thread reads and single-item writes only touch the affected thread
+ */
+describe('Incremental storage mutations (JSONL)', () => {
+  let adapter: JsonlStorageAdapter;
+  let testDir: string;
+
+  beforeEach(async () => {
+    testDir = `/tmp/test-storage-mutations-${Date.now()}`;
+    adapter = new JsonlStorageAdapter(testDir);
+    await adapter.initialize();
+  });
+
+  afterEach(async () => {
+    await fs.rm(testDir, { recursive: true, force: true }).catch(() => {});
+  });
+
+  const threadFile = (threadId: string) => path.join(testDir, `thread-${threadId}.jsonl`);
+
+  describe('loadThreadGraph', () => {
+    it('should load only the requested thread', async () => {
+      await adapter.saveGraph({
+        entities: [
+          createTestEntity('A', { agentThreadId: 't1' }),
+          createTestEntity('B', { agentThreadId: 't2' })
+        ],
+        relations: []
+      });
+
+      const graph = await adapter.loadThreadGraph('t1');
+
+      expect(graph.entities.map(e => e.name)).toEqual(['A']);
+    });
+
+    it('should return an empty graph for an unknown thread', async () => {
+      const graph = await adapter.loadThreadGraph('missing');
+
+      expect(graph.entities).toHaveLength(0);
+      expect(graph.relations).toHaveLength(0);
+    });
+  });
+
+  describe('listThreadIds', () => {
+    it('should list every thread that holds entities or relations', async () => {
+      await adapter.upsertEntity(createTestEntity('A', { agentThreadId: 't1' }));
+      await adapter.upsertRelation(createTestRelation('X', 'Y', { agentThreadId: 't2' }));
+
+      const threadIds = await adapter.listThreadIds();
+
+      expect(threadIds.sort()).toEqual(['t1', 't2']);
+    });
+  });
+
+  describe('upsertEntity', () => {
+    it('should insert a new entity', async () => {
+      await adapter.upsertEntity(createTestEntity('A', { agentThreadId: 't1' }));
+
+      const graph = await adapter.loadThreadGraph('t1');
+      expect(graph.entities).toHaveLength(1);
+    });
+
+    it('should replace an existing entity with the same name', async () => {
+      await adapter.upsertEntity(createTestEntity('A', { agentThreadId: 't1', importance: 0.2 }));
+      await adapter.upsertEntity(createTestEntity('A', { agentThreadId: 't1', importance: 0.9 }));
+
+      const graph = await adapter.loadThreadGraph('t1');
+      expect(graph.entities).toHaveLength(1);
+      expect(graph.entities[0].importance).toBe(0.9);
+    });
+
+    it('should not rewrite other thread files', async () => {
+      await adapter.upsertEntity(createTestEntity('B', { agentThreadId: 't2' }));
+      const before = await fs.stat(threadFile('t2'));
+
+      await new Promise(resolve => setTimeout(resolve, 20));
+      await adapter.upsertEntity(createTestEntity('A', { agentThreadId: 't1' }));
+
+      const after = await fs.stat(threadFile('t2'));
+      expect(after.mtimeMs).toBe(before.mtimeMs);
+    });
+  });
+
+  describe('deleteEntity', () => {
+    it('should delete the entity and relations of its thread that reference it', async () => {
+      await adapter.upsertEntity(createTestEntity('A', { agentThreadId: 't1' }));
+      await adapter.upsertEntity(createTestEntity('B', { agentThreadId: 't1' }));
+      await adapter.upsertRelation(createTestRelation('A', 'B', { agentThreadId: 't1' }));
+
+      await adapter.deleteEntity('t1', 'A');
+
+      const graph = await adapter.loadThreadGraph('t1');
+      expect(graph.entities.map(e => e.name)).toEqual(['B']);
+      expect(graph.relations).toHaveLength(0);
+    });
+
+    it('should remove the thread file when the thread becomes empty', async () => {
+      await adapter.upsertEntity(createTestEntity('A', { agentThreadId: 't1' }));
+
+      await adapter.deleteEntity('t1', 'A');
+
+      await expect(fs.access(threadFile('t1'))).rejects.toThrow();
+    });
+  });
+
+  describe('appendObservation', () => {
+    it('should append the observation and bump the entity timestamp', async () => {
+      await adapter.upsertEntity(createTestEntity('A', { agentThreadId: 't1' }));
+      const observation = createTestObservation({ id: 'obs-new', timestamp: '2024-02-01T00:00:00Z' });
+
+      await adapter.appendObservation('t1', 'A', observation);
+
+      const graph = await adapter.loadThreadGraph('t1');
+      expect(graph.entities[0].observations.map(o => o.id)).toEqual(['obs-new']);
+      expect(graph.entities[0].timestamp).toBe('2024-02-01T00:00:00Z');
+    });
+
+    it('should throw when the entity does not exist in the thread', async () => {
+      await expect(
+        adapter.appendObservation('t1', 'Missing', createTestObservation())
+      ).rejects.toThrow('Entity with name Missing not found in thread t1');
+    });
+  });
+
+  describe('upsertRelation and deleteRelation', () => {
+    it('should replace a relation with the same identity', async () => {
+      await adapter.upsertRelation(createTestRelation('A', 'B', { agentThreadId: 't1', confidence: 0.1 }));
+      await adapter.upsertRelation(createTestRelation('A', 'B', { agentThreadId: 't1', confidence: 0.7 }));
+
+      const graph = await adapter.loadThreadGraph('t1');
+      expect(graph.relations).toHaveLength(1);
+      expect(graph.relations[0].confidence).toBe(0.7);
+    });
+
+    it('should delete only the matching relation', async () => {
+      await adapter.upsertEntity(createTestEntity('A', { agentThreadId: 't1' }));
+      await adapter.upsertRelation(createTestRelation('A', 'B', { agentThreadId: 't1' }));
+      await adapter.upsertRelation(createTestRelation('A', 'B', { agentThreadId: 't1', relationType: 'uses' }));
+
+      await adapter.deleteRelation(createTestRelation('A', 'B', { agentThreadId: 't1' }));
+
+      const graph = await adapter.loadThreadGraph('t1');
+      expect(graph.relations.map(r => r.relationType)).toEqual(['uses']);
+    });
+  });
+
+  describe('KnowledgeGraphManager routing', () => {
+    it('should leave other threads untouched when adding observations', async () => {
+      const manager = new KnowledgeGraphManager(testDir, adapter);
+      await manager.createEntities('t1', [createTestEntity('A', { agentThreadId: 't1' })]);
+      await manager.createEntities('t2', [createTestEntity('B', { agentThreadId: 't2' })]);
+      const before = await fs.readFile(threadFile('t2'), 'utf-8');
+
+      await manager.addObservations('t1', [{
+        entityName: 'A',
+        contents: ['new fact'],
+        agentThreadId: 't1',
+        timestamp: '2024-02-01T00:00:00Z',
+        confidence: 0.9,
+        importance: 0.8
+      }]);
+
+      expect(await fs.readFile(threadFile('t2'), 'utf-8')).toBe(before);
+      const graph = await adapter.loadThreadGraph('t1');
+      expect(graph.entities[0].observations.map(o => o.content)).toEqual(['new fact']);
+    });
+
+    it('should serve thread-isolated queries without loading the full graph', async () => {
+      const manager = new KnowledgeGraphManager(testDir, adapter);
+      await manager.createEntities('t1', [createTestEntity('A', { agentThreadId: 't1' })]);
+      await manager.createEntities('t2', [createTestEntity('B', { agentThreadId: 't2' })]);
+      const loadGraphSpy = vi.spyOn(adapter, 'loadGraph');
+
+      const graph = await manager.readGraph('t1');
+      const search = await manager.searchNodes('t1', 'B');
+      const stats = await manager.getMemoryStats('t1');
+
+      expect(loadGraphSpy).not.toHaveBeenCalled();
+      expect(graph.entities.map(e => e.name)).toEqual(['A']);
+      expect(search.entities).toHaveLength(0);
+      expect(stats.entityCount).toBe(1);
+      expect(stats.threadCount).toBe(2);
+    });
+
+    it('should allow the same entity name in different threads', async () => {
+      const manager = new KnowledgeGraphManager(testDir, adapter);
+
+      await manager.createEntities('t1', [createTestEntity('Shared', { agentThreadId: 't1' })]);
+      const created = await manager.createEntities('t2', [createTestEntity('Shared', { agentThreadId: 't2' })]);
+
+      expect(created).toHaveLength(1);
+      expect((await adapter.loadThreadGraph('t1')).entities).toHaveLength(1);
+      expect((await adapter.loadThreadGraph('t2')).entities).toHaveLength(1);
+    });
+  });
+});
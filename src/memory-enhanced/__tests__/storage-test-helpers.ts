@@ -3,7 +3,25 @@
  * Provides factory methods and utilities to reduce test code duplication
  */
 
-import { Entity, Relation, Observation } from '../lib/types.js';
+import { Entity, Relation, Observation, KnowledgeGraph, EmbeddingRecord, TrashItem, AuditEntry, AuditLogFilter } from '../lib/types.js';
+import { applyAuditFilter } from '../lib/audit/audit-log.js';
+import {
+  entityAuditEntries,
+  entityRenameAuditEntries,
+  relationAuditEntries,
+  graphAuditEntries,
+  threadAuditEntries
+} from '../lib/audit/audit-entries.js';
+import { IStorageAdapter } from '../lib/storage-interface.js';
+import {
+  checkCanRename,
+  checkCanArchive,
+  checkCanRestore,
+  checkCanDelete,
+  checkCanReplace,
+  renameThreadGraph
+} from '../lib/utils/thread-lifecycle.js';
+import { checkCanRenameEntity } from '../lib/utils/entity-finder.js';
 
 /**
  * Default test values
@@ -93,3 +111,226 @@ export function createEntityWithObservation(
     observations: [createTestObservation({ content: observationContent })]
   });
 }
+
+/**
+ * Mock in-memory storage adapter for testing the abstraction
+ * Demonstrates the Liskov Substitution Principle (LSP) - can be used anywhere IStorageAdapter is expected
+ */
+export class InMemoryStorageAdapter implements IStorageAdapter {
+  private graph: KnowledgeGraph = { entities: [], relations: [] };
+  private embeddings = new Map<string, EmbeddingRecord[]>();
+  private archive = new Map<string, KnowledgeGraph>();
+  private trash = new Map<string, TrashItem[]>();
+  private auditLog: AuditEntry[] = [];
+
+  async loadGraph(): Promise<KnowledgeGraph> {
+    return this.deepCopy(this.graph);
+  }
+
+  async saveGraph(graph: KnowledgeGraph): Promise<void> {
+    const entries = graphAuditEntries(this.graph, graph);
+    this.graph = this.deepCopy(graph);
+    await this.appendAuditEntries(entries);
+  }
+
+  async loadThreadGraph(threadId: string): Promise<KnowledgeGraph> {
+    return this.deepCopy({
+      entities: this.graph.entities.filter(e => e.agentThreadId === threadId),
+      relations: this.graph.relations.filter(r => r.agentThreadId === threadId)
+    });
+  }
+
+  async saveThreadGraph(threadId: string, graph: KnowledgeGraph): Promise<void> {
+    checkCanReplace(threadId, await this.presence(threadId), graph);
+    const entries = graphAuditEntries(this.takeThread(threadId), graph);
+    const copy = this.deepCopy(graph);
+    this.graph.entities.push(...copy.entities);
+    this.graph.relations.push(...copy.relations);
+    await this.appendAuditEntries(entries);
+  }
+
+  async listThreadIds(): Promise<string[]> {
+    const threadIds = new Set<string>();
+    this.graph.entities.forEach(e => threadIds.add(e.agentThreadId));
+    this.graph.relations.forEach(r => threadIds.add(r.agentThreadId));
+    return Array.from(threadIds);
+  }
+
+  async upsertEntity(entity: Entity): Promise<void> {
+    const entries = entityAuditEntries(entity.agentThreadId, entity.name, this.findEntity(entity.agentThreadId, entity.name), entity);
+    this.removeEntity(entity.agentThreadId, entity.name);
+    this.graph.entities.push(JSON.parse(JSON.stringify(entity)));
+    await this.appendAuditEntries(entries);
+  }
+
+  async deleteEntity(threadId: string, entityName: string): Promise<void> {
+    const references = (r: Relation) => r.agentThreadId === threadId && (r.from === entityName || r.to === entityName);
+    const entries = entityAuditEntries(
+      threadId, entityName, this.findEntity(threadId, entityName), undefined, this.graph.relations.filter(references)
+    );
+    this.removeEntity(threadId, entityName);
+    this.graph.relations = this.graph.relations.filter(r => !references(r));
+    await this.appendAuditEntries(entries);
+  }
+
+  async renameEntity(threadId: string, entityName: string, renamed: Entity): Promise<void> {
+    const before = this.findEntity(threadId, entityName);
+    checkCanRenameEntity(threadId, entityName, renamed.name, before, this.findEntity(threadId, renamed.name) !== undefined);
+    const rename = (name: string) => (name === entityName ? renamed.name : name);
+    this.removeEntity(threadId, entityName);
+    this.graph.entities.push(JSON.parse(JSON.stringify(renamed)));
+    this.graph.relations = this.graph.relations.map(r =>
+      r.agentThreadId === threadId ? { ...r, from: rename(r.from), to: rename(r.to) } : r
+    );
+    await this.appendAuditEntries(entityRenameAuditEntries(threadId, before, renamed));
+  }
+
+  async appendObservation(threadId: string, entityName: string, observation: Observation): Promise<void> {
+    const entity = this.findEntity(threadId, entityName);
+    if (!entity) {
+      throw new Error(`Entity with name ${entityName} not found in thread ${threadId}`);
+    }
+    const updated = { ...entity, observations: [...entity.observations, { ...observation }], timestamp: observation.timestamp };
+    this.removeEntity(threadId, entityName);
+    this.graph.entities.push(updated);
+    await this.appendAuditEntries(entityAuditEntries(threadId, entityName, entity, updated));
+  }
+
+  async upsertRelation(relation: Relation): Promise<void> {
+    const entries = relationAuditEntries(this.findRelation(relation), relation);
+    this.removeRelation(relation);
+    this.graph.relations.push({ ...relation });
+    await this.appendAuditEntries(entries);
+  }
+
+  async deleteRelation(relation: Relation): Promise<void> {
+    const entries = relationAuditEntries(this.findRelation(relation));
+    this.removeRelation(relation);
+    await this.appendAuditEntries(entries);
+  }
+
+  async loadEmbeddings(threadId: string): Promise<EmbeddingRecord[]> {
+    return JSON.parse(JSON.stringify(this.embeddings.get(threadId) ?? []));
+  }
+
+  async saveEmbeddings(threadId: string, records: EmbeddingRecord[]): Promise<void> {
+    this.embeddings.set(threadId, JSON.parse(JSON.stringify(records)));
+  }
+
+  async loadTrash(threadId: string): Promise<TrashItem[]> {
+    return JSON.parse(JSON.stringify(this.trash.get(threadId) ?? []));
+  }
+
+  async addToTrash(threadId: string, items: TrashItem[]): Promise<void> {
+    const ids = new Set(items.map(item => item.id));
+    const trash = (this.trash.get(threadId) ?? []).filter(item => !ids.has(item.id));
+    this.trash.set(threadId, [...trash, ...JSON.parse(JSON.stringify(items))]);
+  }
+
+  async removeFromTrash(threadId: string, itemIds: string[]): Promise<void> {
+    const ids = new Set(itemIds);
+    this.trash.set(threadId, (this.trash.get(threadId) ?? []).filter(item => !ids.has(item.id)));
+  }
+
+  async appendAuditEntries(entries: AuditEntry[]): Promise<void> {
+    this.auditLog.push(...JSON.parse(JSON.stringify(entries)));
+  }
+
+  async loadAuditLog(filter?: AuditLogFilter): Promise<AuditEntry[]> {
+    return applyAuditFilter(JSON.parse(JSON.stringify(this.auditLog)), filter);
+  }
+
+  async listArchivedThreadIds(): Promise<string[]> {
+    return Array.from(this.archive.keys());
+  }
+
+  async renameThread(threadId: string, newThreadId: string): Promise<void> {
+    checkCanRename(threadId, await this.presence(threadId), newThreadId, await this.presence(newThreadId));
+    const renamed = renameThreadGraph(this.takeThread(threadId), threadId, newThreadId);
+    this.graph.entities.push(...renamed.entities);
+    this.graph.relations.push(...renamed.relations);
+    if (this.embeddings.has(threadId)) {
+      this.embeddings.set(newThreadId, this.embeddings.get(threadId)!);
+      this.embeddings.delete(threadId);
+    }
+    if (this.trash.has(threadId)) {
+      await this.addToTrash(newThreadId, this.trash.get(threadId)!);
+      this.trash.delete(threadId);
+    }
+    await this.appendAuditEntries(threadAuditEntries(threadId, 'rename_thread', { newThreadId }));
+  }
+
+  async archiveThread(threadId: string): Promise<void> {
+    checkCanArchive(threadId, await this.presence(threadId));
+    this.archive.set(threadId, this.takeThread(threadId));
+    this.embeddings.delete(threadId);
+    await this.appendAuditEntries(threadAuditEntries(threadId, 'archive_thread'));
+  }
+
+  async restoreThread(threadId: string): Promise<void> {
+    checkCanRestore(threadId, await this.presence(threadId));
+    const archived = this.archive.get(threadId)!;
+    this.archive.delete(threadId);
+    this.graph.entities.push(...archived.entities);
+    this.graph.relations.push(...archived.relations);
+    await this.appendAuditEntries(threadAuditEntries(threadId, 'restore_thread'));
+  }
+
+  async deleteThread(threadId: string): Promise<void> {
+    checkCanDelete(threadId, await this.presence(threadId));
+    this.takeThread(threadId);
+    this.archive.delete(threadId);
+    this.embeddings.delete(threadId);
+    this.trash.delete(threadId);
+    await this.appendAuditEntries(threadAuditEntries(threadId, 'delete_thread'));
+  }
+
+  async initialize(): Promise<void> {
+    // No initialization needed for in-memory storage
+  }
+
+  private async presence(threadId: string): Promise<{ active: boolean; archived: boolean }> {
+    return { active: (await this.listThreadIds()).includes(threadId), archived: this.archive.has(threadId) };
+  }
+
+  /**
+   * Remove a thread's entities and relations from the graph and return them
+   */
+  private takeThread(threadId: string): KnowledgeGraph {
+    const taken = {
+      entities: this.graph.entities.filter(e => e.agentThreadId === threadId),
+      relations: this.graph.relations.filter(r => r.agentThreadId === threadId)
+    };
+    this.graph.entities = this.graph.entities.filter(e => e.agentThreadId !== threadId);
+    this.graph.relations = this.graph.relations.filter(r => r.agentThreadId !== threadId);
+    return taken;
+  }
+
+  private findEntity(threadId: string, entityName: string): Entity | undefined {
+    return this.graph.entities.find(e => e.name === entityName && e.agentThreadId === threadId);
+  }
+
+  private removeEntity(threadId: string, entityName: string): void {
+    this.graph.entities = this.graph.entities.filter(e => !(e.name === entityName && e.agentThreadId === threadId));
+  }
+
+  private isSameRelation(r: Relation, relation: Relation): boolean {
+    return r.from === relation.from && r.to === relation.to &&
+      r.relationType === relation.relationType && r.agentThreadId === relation.agentThreadId;
+  }
+
+  private findRelation(relation: Relation): Relation | undefined {
+    return this.graph.relations.find(r => this.isSameRelation(r, relation));
+  }
+
+  private removeRelation(relation: Relation): void {
+    this.graph.relations = this.graph.relations.filter(r => !this.isSameRelation(r, relation));
+  }
+
+  private deepCopy(graph: KnowledgeGraph): KnowledgeGraph {
+    return {
+      entities: JSON.parse(JSON.stringify(graph.entities)),
+      relations: JSON.parse(JSON.stringify(graph.relations))
+    };
+  }
+}
@@ -1,4 +1,4 @@
-import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { promises as fs } from 'fs';
 import path from 'path';
 import { fileURLToPath } from 'url';
@@ -161,6 +161,28 @@ describe('Thread Isolation', () => {
     });
   });
 
+  describe('createRelations', () => {
+    it('should skip and report relations to entities of another thread', async () => {
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const relation = (to: string): Relation => ({
+        from: 'User2',
+        to,
+        relationType: 'knows',
+        agentThreadId: THREAD_2,
+        timestamp: '2026-01-01T12:00:00Z',
+        confidence: 0.9,
+        importance: 0.5
+      });
+
+      const created = await manager.createRelations(THREAD_2, [relation('User1'), relation('Project2')]);
+
+      expect(created.map(r => r.to)).toEqual(['Project2']);
+      expect(warn).toHaveBeenCalledWith(`Skipping relation User2 -> User1: entity User1 is not in thread ${THREAD_2}`);
+      expect((await manager.readGraph(THREAD_2)).relations.map(r => r.to)).not.toContain('User1');
+      warn.mockRestore();
+    });
+  });
+
   describe('searchNodes', () => {
     it('should only search within the specified thread', async () => {
       const results1 = await manager.searchNodes(THREAD_1, 'User');
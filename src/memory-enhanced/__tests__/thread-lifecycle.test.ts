@@ -0,0 +1,201 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { KnowledgeGraphManager } from '../lib/knowledge-graph-manager.js';
+import { IStorageAdapter } from '../lib/storage-interface.js';
+import { JsonlStorageAdapter } from '../lib/jsonl-storage-adapter.js';
+import { SqliteStorageAdapter } from '../lib/sqlite-storage-adapter.js';
+import { CachingStorageAdapter } from '../lib/cache/caching-storage-adapter.js';
+import { InMemoryStorageAdapter, createTestEntity, createTestRelation, createTestObservation } from './storage-test-helpers.js';
+
+const GRAPH = {
+  entities: [
+    createTestEntity('Alice', {
+      observations: [
+        createTestObservation({ id: 'obs_1', content: 'Works on the API' }),
+        createTestObservation({ id: 'obs_2', content: 'Noted by a reviewer', agentThreadId: 'thread-002' })
+      ]
+    }),
+    createTestEntity('Bob'),
+    createTestEntity('Task', { agentThreadId: 'thread-002', timestamp: '2024-03-01T00:00:00Z' })
+  ],
+  relations: [createTestRelation('Alice', 'Bob')]
+};
+
+/**
+ * Tests for rename_thread, archive_thread, restore_thread, delete_thread and apply_retention_policy
+ */
+describe.each([
+  ['JSONL', (dir: string) => new JsonlStorageAdapter(dir)],
+  ['SQLite', (dir: string) => new SqliteStorageAdapter(path.join(dir, 'memory.db'))],
+  ['in-memory', () => new InMemoryStorageAdapter()]
+])('Thread lifecycle (%s storage)', (_name, createStorage: (dir: string) => IStorageAdapter) => {
+  let testDir: string;
+  let storage: IStorageAdapter;
+
+  beforeEach(async () => {
+    testDir = `/tmp/test-thread-lifecycle-${Date.now()}`;
+    await fs.mkdir(testDir, { recursive: true });
+    storage = createStorage(testDir);
+    await storage.initialize();
+    await storage.saveGraph(GRAPH);
+  });
+
+  afterEach(async () => {
+    if (storage instanceof SqliteStorageAdapter) await storage.close();
+    await fs.rm(testDir, { recursive: true, force: true }).catch(() => {});
+  });
+
+  it('should rename a thread, keeping observations written by other threads', async () => {
+    await storage.renameThread('thread-001', 'thread-renamed');
+
+    const renamed = await storage.loadThreadGraph('thread-renamed');
+    expect((await storage.listThreadIds()).sort()).toEqual(['thread-002', 'thread-renamed']);
+    expect(renamed.relations).toEqual([expect.objectContaining({ from: 'Alice', agentThreadId: 'thread-renamed' })]);
+    expect(renamed.entities[0].observations.map(o => o.agentThreadId)).toEqual(['thread-renamed', 'thread-002']);
+  });
+
+  it('should hide archived threads from reads until restored', async () => {
+    await storage.archiveThread('thread-001');
+
+    expect(await storage.listThreadIds()).toEqual(['thread-002']);
+    expect(await storage.listArchivedThreadIds()).toEqual(['thread-001']);
+    expect((await storage.loadGraph()).entities.map(e => e.name)).toEqual(['Task']);
+
+    await storage.restoreThread('thread-001');
+
+    expect(await storage.listArchivedThreadIds()).toEqual([]);
+    expect(await storage.loadThreadGraph('thread-001')).toEqual({ entities: GRAPH.entities.slice(0, 2), relations: GRAPH.relations });
+  });
+
+  it('should delete active and archived threads', async () => {
+    await storage.archiveThread('thread-002');
+
+    await storage.deleteThread('thread-001');
+    await storage.deleteThread('thread-002');
+
+    expect(await storage.loadGraph()).toEqual({ entities: [], relations: [] });
+    expect(await storage.listArchivedThreadIds()).toEqual([]);
+  });
+
+  it('should refuse changes that would lose or overwrite data', async () => {
+    await storage.archiveThread('thread-002');
+
+    await expect(storage.renameThread('thread-009', 'thread-new')).rejects.toThrow('Thread thread-009 not found');
+    await expect(storage.renameThread('thread-001', 'thread-002')).rejects.toThrow('Thread thread-002 is already archived');
+    await expect(storage.archiveThread('thread-009')).rejects.toThrow('Thread thread-009 not found');
+    await expect(storage.restoreThread('thread-001')).rejects.toThrow('Thread thread-001 is not archived');
+    await expect(storage.deleteThread('thread-009')).rejects.toThrow('Thread thread-009 not found');
+
+    await storage.upsertEntity(createTestEntity('Other', { agentThreadId: 'thread-002' }));
+    await expect(storage.restoreThread('thread-002')).rejects.toThrow('Thread thread-002 already exists');
+  });
+
+  it('should move embeddings on rename and drop them on archive', async () => {
+    const record = { entityName: 'Alice', model: 'test', contentHash: 'abc', vector: [1, 0] };
+    await storage.saveEmbeddings('thread-001', [record]);
+
+    await storage.renameThread('thread-001', 'thread-renamed');
+    expect(await storage.loadEmbeddings('thread-renamed')).toEqual([record]);
+    expect(await storage.loadEmbeddings('thread-001')).toEqual([]);
+
+    await storage.archiveThread('thread-renamed');
+    expect(await storage.loadEmbeddings('thread-renamed')).toEqual([]);
+  });
+});
+
+describe('Thread lifecycle in the knowledge graph manager', () => {
+  let storage: InMemoryStorageAdapter;
+  let manager: KnowledgeGraphManager;
+
+  beforeEach(async () => {
+    storage = new InMemoryStorageAdapter();
+    await storage.saveGraph(GRAPH);
+    manager = new KnowledgeGraphManager('', storage);
+  });
+
+  it('should move workspace subscriptions with a renamed thread and drop them with a deleted one', async () => {
+    await manager.subscribeWorkspace('thread-001', 'team');
+
+    await manager.renameThread('thread-001', 'thread-renamed');
+    expect(await manager.listSubscriptions('thread-001')).toEqual([]);
+    expect(await manager.listSubscriptions('thread-renamed')).toEqual(['team']);
+
+    await manager.deleteThread('thread-renamed');
+    expect(await manager.listWorkspaces()).toEqual([{ name: 'team', entityCount: 0, relationCount: 0, subscribers: [] }]);
+  });
+
+  it('should leave workspace threads to the workspace tools', async () => {
+    await manager.publishMemory('thread-001', 'team', ['Alice']);
+
+    await expect(manager.archiveThread('@team')).rejects.toThrow('is a shared workspace');
+    await expect(manager.renameThread('thread-001', '@other')).rejects.toThrow('is a shared workspace');
+  });
+
+  it('should leave archived threads out of list_conversations', async () => {
+    await manager.archiveThread('thread-002');
+
+    const { conversations } = await manager.listConversations();
+
+    expect(conversations.map(c => c.agentThreadId)).toEqual(['thread-001']);
+    expect(await manager.listArchivedThreads()).toEqual(['thread-002']);
+  });
+
+  describe('apply_retention_policy', () => {
+    it('should only report inactive threads on a dry run', async () => {
+      const report = await manager.applyRetentionPolicy(30, true);
+
+      expect(report.dryRun).toBe(true);
+      expect(report.archivedThreads).toEqual([
+        { threadId: 'thread-001', lastUpdated: '2024-01-20T10:00:00Z' },
+        { threadId: 'thread-002', lastUpdated: '2024-03-01T00:00:00Z' }
+      ]);
+      expect(await manager.listArchivedThreads()).toEqual([]);
+    });
+
+    it('should archive threads with no writes since the cutoff and keep workspaces', async () => {
+      await manager.publishMemory('thread-001', 'team', ['Alice']);
+      await manager.addObservations('thread-002', [{
+        entityName: 'Task',
+        contents: ['Still in progress'],
+        agentThreadId: 'thread-002',
+        timestamp: new Date().toISOString(),
+        confidence: 1,
+        importance: 1
+      }]);
+
+      const report = await manager.applyRetentionPolicy(30);
+
+      expect(report.archivedThreads.map(t => t.threadId)).toEqual(['thread-001']);
+      expect(await manager.listArchivedThreads()).toEqual(['thread-001']);
+      expect((await storage.listThreadIds()).sort()).toEqual(['@team', 'thread-002']);
+    });
+  });
+});
+
+describe('Thread lifecycle with the storage cache', () => {
+  let testDir: string;
+
+  beforeEach(async () => {
+    testDir = `/tmp/test-thread-lifecycle-cache-${Date.now()}`;
+    await fs.mkdir(testDir, { recursive: true });
+  });
+
+  afterEach(async () => {
+    await fs.rm(testDir, { recursive: true, force: true }).catch(() => {});
+  });
+
+  it('should move JSONL thread files into the archive directory and drop cached reads', async () => {
+    const storage = new CachingStorageAdapter(new JsonlStorageAdapter(testDir), { ttlMs: 60_000 });
+    await storage.initialize();
+    await storage.saveGraph(GRAPH);
+    const manager = new KnowledgeGraphManager(testDir, storage);
+    expect((await manager.readGraph('thread-001')).entities).toHaveLength(2);
+
+    await manager.archiveThread('thread-001');
+
+    expect((await manager.readGraph('thread-001')).entities).toHaveLength(0);
+    expect(await fs.readdir(path.join(testDir, 'archive'))).toEqual(['thread-thread-001.jsonl']);
+    await expect(fs.access(path.join(testDir, 'thread-thread-001.jsonl'))).rejects.toThrow();
+  });
+});
@@ -0,0 +1,148 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { KnowledgeGraphManager } from '../lib/knowledge-graph-manager.js';
+import { InMemoryStorageAdapter, createTestEntity, createTestRelation, createTestObservation } from './storage-test-helpers.js';
+
+/**
+ * Tests for fork_thread, merge_threads and copy_entities_to_thread
+ */
+describe('Thread fork, merge and copy', () => {
+  let storage: InMemoryStorageAdapter;
+  let manager: KnowledgeGraphManager;
+
+  beforeEach(async () => {
+    storage = new InMemoryStorageAdapter();
+    await storage.saveGraph({
+      entities: [
+        createTestEntity('Alice', {
+          entityType: 'Person',
+          observations: [
+            createTestObservation({ id: 'obs_1', content: 'Works on the API', superseded_by: 'obs_2' }),
+            createTestObservation({ id: 'obs_2', content: 'Leads the API team', version: 2, supersedes: 'obs_1' })
+          ]
+        }),
+        createTestEntity('Bob'),
+        createTestEntity('Carol'),
+        createTestEntity('Alice', {
+          entityType: 'Person',
+          agentThreadId: 'thread-002',
+          timestamp: '2024-06-01T00:00:00Z',
+          observations: [
+            createTestObservation({ id: 'obs_1', content: 'Works on the API', agentThreadId: 'thread-002' }),
+            createTestObservation({ id: 'obs_2', content: 'Likes tea', agentThreadId: 'thread-002' })
+          ]
+        }),
+        createTestEntity('Bob', { entityType: 'Robot', agentThreadId: 'thread-002' })
+      ],
+      relations: [
+        createTestRelation('Alice', 'Bob'),
+        createTestRelation('Bob', 'Carol'),
+        createTestRelation('Alice', 'Bob', { agentThreadId: 'thread-002' })
+      ]
+    });
+    manager = new KnowledgeGraphManager('', storage);
+  });
+
+  describe('fork_thread', () => {
+    it('should copy the whole thread with version chains intact', async () => {
+      const report = await manager.forkThread('thread-001', 'thread-new');
+
+      const fork = await storage.loadThreadGraph('thread-new');
+      expect(report.createdEntities).toEqual(['Alice', 'Bob', 'Carol']);
+      expect(report.addedRelations).toBe(2);
+      expect(fork.entities.every(e => e.agentThreadId === 'thread-new')).toBe(true);
+      expect(fork.entities[0].observations).toEqual((await storage.loadThreadGraph('thread-001')).entities[0].observations);
+    });
+
+    it('should refuse to fork into a thread that holds data', async () => {
+      await expect(manager.forkThread('thread-001', 'thread-002')).rejects.toThrow('already exists');
+      await expect(manager.forkThread('thread-009', 'thread-new')).rejects.toThrow('has no entities or relations');
+    });
+
+    it('should refuse to fork into an archived thread', async () => {
+      await storage.archiveThread('thread-002');
+
+      await expect(manager.forkThread('thread-001', 'thread-002')).rejects.toThrow('Thread thread-002 is archived');
+      expect(await storage.listArchivedThreadIds()).toEqual(['thread-002']);
+    });
+  });
+
+  describe('merge_threads', () => {
+    it('should report name clashes and merge observations without duplicates', async () => {
+      const report = await manager.mergeThreads('thread-002', 'thread-001');
+
+      const alice = (await storage.loadThreadGraph('thread-001')).entities.find(e => e.name === 'Alice')!;
+      expect(report.createdEntities).toEqual([]);
+      expect(report.clashes).toEqual([
+        { entityName: 'Alice', targetEntityType: 'Person', sourceEntityType: 'Person', addedObservations: 1, skippedObservations: 1 },
+        { entityName: 'Bob', targetEntityType: 'test', sourceEntityType: 'Robot', addedObservations: 0, skippedObservations: 0 }
+      ]);
+      expect(alice.observations.map(o => o.content)).toEqual(['Works on the API', 'Leads the API team', 'Likes tea']);
+      expect(alice.observations[2].id).not.toBe('obs_2');
+      expect(alice.timestamp).toBe('2024-06-01T00:00:00Z');
+    });
+
+    it('should de-duplicate relations', async () => {
+      const report = await manager.mergeThreads('thread-002', 'thread-001');
+
+      expect(report.addedRelations).toBe(0);
+      expect(report.duplicateRelations).toBe(1);
+      expect((await storage.loadThreadGraph('thread-001')).relations).toHaveLength(2);
+    });
+
+    it('should reconnect version chains that continue an existing observation', async () => {
+      await storage.upsertEntity(createTestEntity('Alice', {
+        agentThreadId: 'thread-003',
+        observations: [createTestObservation({ id: 'obs_a', content: 'Works on the API', agentThreadId: 'thread-003' })]
+      }));
+
+      await manager.mergeThreads('thread-001', 'thread-003');
+
+      const [alice] = (await storage.loadThreadGraph('thread-003')).entities;
+      expect(alice.observations.map(o => [o.id, o.supersedes, o.superseded_by])).toEqual([
+        ['obs_a', undefined, 'obs_2'],
+        ['obs_2', 'obs_a', undefined]
+      ]);
+    });
+
+    it('should empty the source thread when asked to', async () => {
+      const report = await manager.mergeThreads('thread-002', 'thread-001', true);
+
+      expect(report.sourceDeleted).toBe(true);
+      expect(await storage.loadThreadGraph('thread-002')).toEqual({ entities: [], relations: [] });
+    });
+
+    it('should refuse to merge or copy into an archived thread and leave it restorable', async () => {
+      await storage.archiveThread('thread-002');
+
+      await expect(manager.mergeThreads('thread-001', 'thread-002')).rejects.toThrow('Thread thread-002 is archived');
+      await expect(manager.copyEntitiesToThread('thread-001', 'thread-002', ['Bob'])).rejects.toThrow('Thread thread-002 is archived');
+      await storage.restoreThread('thread-002');
+      expect(await storage.listThreadIds()).toContain('thread-002');
+    });
+
+    it('should store the merged target in a single write', async () => {
+      const writes = vi.spyOn(storage, 'saveThreadGraph');
+      const entityWrites = vi.spyOn(storage, 'upsertEntity');
+
+      await manager.mergeThreads('thread-002', 'thread-001', true);
+
+      expect(writes.mock.calls.map(([threadId]) => threadId)).toEqual(['thread-001', 'thread-002']);
+      expect(entityWrites).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('copy_entities_to_thread', () => {
+    it('should copy the selected entities and the relations between them', async () => {
+      const report = await manager.copyEntitiesToThread('thread-001', 'thread-004', ['Bob', 'Carol']);
+
+      const copy = await storage.loadThreadGraph('thread-004');
+      expect(report.createdEntities).toEqual(['Bob', 'Carol']);
+      expect(copy.relations.map(r => [r.from, r.to, r.agentThreadId])).toEqual([['Bob', 'Carol', 'thread-004']]);
+    });
+
+    it('should reject entities missing from the source thread', async () => {
+      await expect(manager.copyEntitiesToThread('thread-001', 'thread-004', ['Dave']))
+        .rejects.toThrow('Entity with name Dave not found in thread thread-001');
+    });
+  });
+});
@@ -0,0 +1,195 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { KnowledgeGraphManager } from '../lib/knowledge-graph-manager.js';
+import { IStorageAdapter } from '../lib/storage-interface.js';
+import { JsonlStorageAdapter } from '../lib/jsonl-storage-adapter.js';
+import { SqliteStorageAdapter } from '../lib/sqlite-storage-adapter.js';
+import { TrashItem } from '../lib/types.js';
+import { InMemoryStorageAdapter, createTestEntity, createTestRelation, createTestObservation } from './storage-test-helpers.js';
+
+const GRAPH = {
+  entities: [
+    createTestEntity('Alice', {
+      observations: [
+        createTestObservation({ id: 'obs_1', content: 'Works on the API' }),
+        createTestObservation({ id: 'obs_2', content: 'Prefers TypeScript' })
+      ]
+    }),
+    createTestEntity('Bob'),
+    createTestEntity('Carol')
+  ],
+  relations: [
+    createTestRelation('Alice', 'Bob'),
+    createTestRelation('Bob', 'Carol')
+  ]
+};
+
+function trashItem(id: string, overrides: Partial<TrashItem> = {}): TrashItem {
+  return {
+    id,
+    kind: 'relation',
+    deletedAt: '2024-01-21T10:00:00Z',
+    reason: 'delete_relations',
+    relation: createTestRelation('Alice', 'Bob'),
+    ...overrides
+  };
+}
+
+/**
+ * Tests for the trash storage methods of each adapter
+ */
+describe.each([
+  ['JSONL', (dir: string) => new JsonlStorageAdapter(dir)],
+  ['SQLite', (dir: string) => new SqliteStorageAdapter(path.join(dir, 'memory.db'))],
+  ['in-memory', () => new InMemoryStorageAdapter()]
+])('Trash storage (%s storage)', (_name, createStorage: (dir: string) => IStorageAdapter) => {
+  let testDir: string;
+  let storage: IStorageAdapter;
+
+  beforeEach(async () => {
+    testDir = `/tmp/test-trash-${Date.now()}`;
+    await fs.mkdir(testDir, { recursive: true });
+    storage = createStorage(testDir);
+    await storage.initialize();
+    await storage.saveGraph(GRAPH);
+  });
+
+  afterEach(async () => {
+    if (storage instanceof SqliteStorageAdapter) await storage.close();
+    await fs.rm(testDir, { recursive: true, force: true }).catch(() => {});
+  });
+
+  it('should keep items in order, replace items with the same ID and remove items', async () => {
+    await storage.addToTrash('thread-001', [trashItem('trash_a'), trashItem('trash_b')]);
+    await storage.addToTrash('thread-001', [trashItem('trash_a', { reason: 'again' })]);
+
+    expect((await storage.loadTrash('thread-001')).map(item => [item.id, item.reason])).toEqual([
+      ['trash_b', 'delete_relations'],
+      ['trash_a', 'again']
+    ]);
+    expect(await storage.loadTrash('thread-002')).toEqual([]);
+
+    await storage.removeFromTrash('thread-001', ['trash_b', 'trash_unknown']);
+
+    expect((await storage.loadTrash('thread-001')).map(item => item.id)).toEqual(['trash_a']);
+  });
+
+  it('should move the trash with a renamed thread and drop it with a deleted one', async () => {
+    await storage.addToTrash('thread-001', [trashItem('trash_a')]);
+
+    await storage.renameThread('thread-001', 'thread-renamed');
+    expect(await storage.loadTrash('thread-001')).toEqual([]);
+    expect(await storage.loadTrash('thread-renamed')).toEqual([trashItem('trash_a')]);
+
+    await storage.archiveThread('thread-renamed');
+    expect(await storage.loadTrash('thread-renamed')).toEqual([trashItem('trash_a')]);
+
+    await storage.deleteThread('thread-renamed');
+    expect(await storage.loadTrash('thread-renamed')).toEqual([]);
+  });
+});
+
+describe('Trash in the knowledge graph manager', () => {
+  let storage: InMemoryStorageAdapter;
+  let manager: KnowledgeGraphManager;
+
+  beforeEach(async () => {
+    storage = new InMemoryStorageAdapter();
+    await storage.saveGraph(GRAPH);
+    manager = new KnowledgeGraphManager('', storage);
+  });
+
+  it('should move deleted entities to the trash with their relations and restore them', async () => {
+    await manager.deleteEntities('thread-001', ['Bob'], 'Duplicate of Robert');
+
+    const [item] = await manager.listTrash('thread-001');
+    expect(item).toMatchObject({ kind: 'entity', reason: 'Duplicate of Robert', entity: { name: 'Bob' } });
+    expect(item.relations).toEqual(GRAPH.relations);
+    expect((await storage.loadThreadGraph('thread-001')).relations).toEqual([]);
+
+    const result = await manager.restoreFromTrash('thread-001', [item.id]);
+
+    expect(result).toEqual({ restoredItems: [item.id], restoredEntities: 1, restoredRelations: 2, restoredObservations: 0 });
+    expect(await manager.listTrash('thread-001')).toEqual([]);
+    const restored = await storage.loadThreadGraph('thread-001');
+    expect(restored.entities.map(e => e.name).sort()).toEqual(['Alice', 'Bob', 'Carol']);
+    expect(restored.relations).toHaveLength(2);
+  });
+
+  it('should put each relation into one entity item when related entities are deleted together', async () => {
+    await manager.deleteEntities('thread-001', ['Alice', 'Bob']);
+
+    const items = await manager.listTrash('thread-001');
+
+    expect(items.map(item => [item.entity!.name, item.relations!.length, item.reason])).toEqual([
+      ['Alice', 1, 'delete_entities'],
+      ['Bob', 1, 'delete_entities']
+    ]);
+  });
+
+  it('should move deleted observations and relations to the trash and restore them', async () => {
+    await manager.deleteObservations('thread-001', [{ entityName: 'Alice', observations: ['obs_1'] }]);
+    await manager.deleteRelations('thread-001', [createTestRelation('Bob', 'Carol')]);
+
+    const items = await manager.listTrash('thread-001');
+    expect(items.map(item => [item.kind, item.reason]).sort()).toEqual([
+      ['observation', 'delete_observations'],
+      ['relation', 'delete_relations']
+    ]);
+    expect(items.find(item => item.kind === 'observation')).toMatchObject({ entityName: 'Alice', observation: { id: 'obs_1' } });
+
+    await manager.restoreFromTrash('thread-001', items.map(item => item.id));
+
+    const graph = await storage.loadThreadGraph('thread-001');
+    const alice = graph.entities.find(e => e.name === 'Alice')!;
+    expect(alice.observations.map(o => o.id)).toEqual(['obs_2', 'obs_1']);
+    expect(alice.timestamp).toBe('2024-01-20T10:00:00Z');
+    expect(graph.relations).toHaveLength(2);
+  });
+
+  it('should move pruned entities to the trash', async () => {
+    await manager.pruneMemory('thread-001', { importanceLessThan: 1, keepMinEntities: 2, reason: 'Cleanup' });
+
+    const items = await manager.listTrash('thread-001');
+
+    expect(items).toHaveLength(1);
+    expect(items[0]).toMatchObject({ kind: 'entity', reason: 'Cleanup' });
+  });
+
+  it('should restore nothing when an item cannot be restored', async () => {
+    await manager.deleteEntities('thread-001', ['Carol']);
+    await manager.deleteObservations('thread-001', [{ entityName: 'Alice', observations: ['obs_2'] }]);
+    await manager.createEntities('thread-001', [createTestEntity('Carol')]);
+    const ids = (await manager.listTrash('thread-001')).map(item => item.id);
+
+    await expect(manager.restoreFromTrash('thread-001', ids))
+      .rejects.toThrow('Cannot restore entity Carol: thread thread-001 already has an entity with that name');
+    await expect(manager.restoreFromTrash('thread-001', ['trash_unknown']))
+      .rejects.toThrow('Trash item trash_unknown not found in thread thread-001');
+
+    expect(await manager.listTrash('thread-001')).toHaveLength(2);
+    const alice = (await storage.loadThreadGraph('thread-001')).entities.find(e => e.name === 'Alice')!;
+    expect(alice.observations.map(o => o.id)).toEqual(['obs_1']);
+  });
+
+  it('should permanently delete selected items or the whole trash', async () => {
+    await manager.deleteEntities('thread-001', ['Alice']);
+    await manager.deleteEntities('thread-001', ['Carol']);
+    const [newest] = await manager.listTrash('thread-001');
+
+    expect(await manager.emptyTrash('thread-001', [newest.id])).toBe(1);
+    expect(await manager.listTrash('thread-001')).toHaveLength(1);
+    expect(await manager.emptyTrash('thread-001')).toBe(1);
+    expect(await manager.listTrash('thread-001')).toEqual([]);
+  });
+
+  it('should purge items older than the retention period', async () => {
+    const deletedAt = new Date(Date.now() - 31 * 24 * 60 * 60 * 1000).toISOString();
+    await storage.addToTrash('thread-001', [trashItem('trash_old', { deletedAt })]);
+
+    expect(await new KnowledgeGraphManager('', storage, undefined, null).listTrash('thread-001')).toHaveLength(1);
+    expect(await manager.listTrash('thread-001')).toEqual([]);
+    expect(await storage.loadTrash('thread-001')).toEqual([]);
+  });
+});
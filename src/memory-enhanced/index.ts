@@ -1,6 +1,8 @@
 #!/usr/bin/env node
 
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { McpServer, RegisteredTool, ToolCallback } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { AnySchema, ZodRawShapeCompat } from "@modelcontextprotocol/sdk/server/zod-compat.js";
+import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import { z } from "zod";
 import { promises as fs } from 'fs';
@@ -19,30 +21,79 @@ import {
   GetAnalyticsOutputSchema,
   GetObservationHistoryInputSchema,
   GetObservationHistoryOutputSchema,
+  GetEntityHistoryInputSchema,
+  GetEntityHistoryOutputSchema,
+  DiffObservationVersionsInputSchema,
+  DiffObservationVersionsOutputSchema,
   ListEntitiesInputSchema,
   ListEntitiesOutputSchema,
   ValidateMemoryInputSchema,
   ValidateMemoryOutputSchema,
   UpdateObservationInputSchema,
   UpdateObservationOutputSchema,
+  RevertObservationInputSchema,
+  RevertObservationOutputSchema,
   ReadGraphInputSchema,
   SearchNodesInputSchema,
+  SearchHitSchema,
+  SemanticSearchInputSchema,
+  SemanticSearchOutputSchema,
+  ExportGraphInputSchema,
+  ExportGraphOutputSchema,
+  ImportGraphInputSchema,
+  ImportGraphOutputSchema,
+  MigrateStorageInputSchema,
+  MigrateStorageOutputSchema,
+  GetCacheStatsOutputSchema,
+  PublishMemoryInputSchema,
+  PublishMemoryOutputSchema,
+  WorkspaceSubscriptionInputSchema,
+  WorkspaceSubscriptionOutputSchema,
+  ListWorkspacesOutputSchema,
+  ForkThreadInputSchema,
+  MergeThreadsInputSchema,
+  CopyEntitiesToThreadInputSchema,
+  ThreadMergeReportSchema,
+  RenameThreadInputSchema,
+  ThreadLifecycleInputSchema,
+  ApplyRetentionPolicyInputSchema,
+  RetentionReportSchema,
+  ListTrashInputSchema,
+  ListTrashOutputSchema,
+  RestoreFromTrashInputSchema,
+  RestoreFromTrashOutputSchema,
+  EmptyTrashInputSchema,
+  EmptyTrashOutputSchema,
+  CreateSnapshotInputSchema,
+  SnapshotInfoSchema,
+  ListSnapshotsInputSchema,
+  ListSnapshotsOutputSchema,
+  SnapshotIdInputSchema,
+  SnapshotDiffSchema,
+  GetAuditLogInputSchema,
+  GetAuditLogOutputSchema,
   OpenNodesInputSchema,
   QueryNodesInputSchema,
   GetMemoryStatsInputSchema,
   GetRecentChangesInputSchema,
   FindRelationPathInputSchema,
   DetectConflictsInputSchema,
+  FindDuplicateEntitiesInputSchema,
+  FindDuplicateEntitiesOutputSchema,
   GetFlaggedEntitiesInputSchema,
   GetContextInputSchema,
   CreateEntitiesInputSchema,
   CreateRelationsInputSchema,
   AddObservationsInputSchema,
   DeleteEntitiesInputSchema,
+  RenameEntityInputSchema,
+  RenameEntityOutputSchema,
   DeleteObservationsInputSchema,
   DeleteRelationsInputSchema,
   PruneMemoryInputSchema,
   BulkUpdateInputSchema,
+  MergeEntitiesInputSchema,
+  MergeEntitiesOutputSchema,
   FlagForReviewInputSchema
 } from './lib/schemas.js';
 import { handleSaveMemory } from './lib/save-memory-handler.js';
@@ -50,17 +101,25 @@ import { validateSaveMemoryRequest } from './lib/validation.js';
 import { IStorageAdapter } from './lib/storage-interface.js';
 import { JsonlStorageAdapter } from './lib/jsonl-storage-adapter.js';
 import { Neo4jStorageAdapter } from './lib/neo4j-storage-adapter.js';
-import { NEO4J_ENV_VARS, STORAGE_LOG_MESSAGES, NEO4J_ERROR_MESSAGES } from './lib/storage-config.js';
+import { SqliteStorageAdapter } from './lib/sqlite-storage-adapter.js';
+import { STORAGE_LOG_MESSAGES, NEO4J_ERROR_MESSAGES, MIGRATION_ERROR_MESSAGES } from './lib/storage-config.js';
+import { resolveMemoryDir, getNeo4jConfig, getSqlitePath, getCacheTtlMs, getArchiveAfterDays, getTrashRetentionDays } from './lib/storage-env.js';
+import { CachingStorageAdapter } from './lib/cache/caching-storage-adapter.js';
+import { CHECKPOINT_FILE_NAME } from './lib/migration/storage-migrator.js';
+import { withAuditContext } from './lib/audit/audit-log.js';
+import {
+  StorageBackend,
+  describeStorageBackend,
+  openStorageBackend,
+  storageBackendOf,
+  closeStorage
+} from './lib/migration/storage-backends.js';
 
 // Define memory directory path using environment variable with fallback
 export const defaultMemoryDir = path.join(path.dirname(fileURLToPath(import.meta.url)), 'memory-data');
 
 export async function ensureMemoryDirectory(): Promise<string> {
-  const memoryDir = process.env.MEMORY_DIR_PATH 
-    ? (path.isAbsolute(process.env.MEMORY_DIR_PATH)
-        ? process.env.MEMORY_DIR_PATH
-        : path.join(path.dirname(fileURLToPath(import.meta.url)), process.env.MEMORY_DIR_PATH))
-    : defaultMemoryDir;
+  const memoryDir = resolveMemoryDir(path.dirname(fileURLToPath(import.meta.url)));
   
   // Ensure directory exists
   try {
@@ -72,23 +131,6 @@ export async function ensureMemoryDirectory(): Promise<string> {
   return memoryDir;
 }
 
-/**
- * Get Neo4j configuration from environment variables.
- * Extracted for testability and Single Responsibility Principle.
- */
-function getNeo4jConfig(): { uri: string; username: string; password: string; database?: string } | null {
-  const uri = process.env[NEO4J_ENV_VARS.URI];
-  const username = process.env[NEO4J_ENV_VARS.USERNAME];
-  const password = process.env[NEO4J_ENV_VARS.PASSWORD];
-  const database = process.env[NEO4J_ENV_VARS.DATABASE];
-
-  if (!uri || !username || !password) {
-    return null;
-  }
-
-  return { uri, username, password, database };
-}
-
 /**
  * Create Neo4j storage adapter if configured.
  * Extracted for Single Responsibility Principle and testability.
@@ -108,6 +150,23 @@ async function createNeo4jAdapter(config: { uri: string; username: string; passw
   }
 }
 
+/**
+ * Create SQLite storage adapter if configured.
+ * Extracted for Single Responsibility Principle and testability.
+ */
+async function createSqliteAdapter(dbPath: string): Promise<IStorageAdapter | null> {
+  try {
+    console.error(STORAGE_LOG_MESSAGES.ATTEMPTING_SQLITE, dbPath);
+    const sqliteAdapter = new SqliteStorageAdapter(dbPath);
+    await sqliteAdapter.initialize();
+    console.error(STORAGE_LOG_MESSAGES.SQLITE_SUCCESS);
+    return sqliteAdapter;
+  } catch (error) {
+    console.error(STORAGE_LOG_MESSAGES.SQLITE_FALLBACK, error instanceof Error ? error.message : String(error));
+    return null;
+  }
+}
+
 /**
  * Create JSONL storage adapter.
  * Extracted for DRY and testability.
@@ -116,12 +175,17 @@ async function createJsonlAdapter(memoryDirPath: string): Promise<IStorageAdapte
   const jsonlAdapter = new JsonlStorageAdapter(memoryDirPath);
   await jsonlAdapter.initialize();
   console.error(STORAGE_LOG_MESSAGES.USING_JSONL, memoryDirPath);
+
+  const recovery = jsonlAdapter.getRecoveryReport();
+  if (recovery.walBatchesReplayed > 0 || recovery.tempFilesRemoved > 0 || recovery.corruptLines.length > 0) {
+    console.error(STORAGE_LOG_MESSAGES.JSONL_RECOVERED, JSON.stringify(recovery, null, 2));
+  }
   return jsonlAdapter;
 }
 
 /**
  * Create storage adapter based on environment variables.
- * Falls back to JSONL storage if Neo4j is not configured or connection fails.
+ * Tries Neo4j, then SQLite, and falls back to JSONL storage if neither is configured or available.
  * 
  * Follows Open/Closed Principle: Open for extension (add new storage types)
  * without modifying existing code.
@@ -135,7 +199,17 @@ async function createStorageAdapter(memoryDirPath: string): Promise<IStorageAdap
     if (neo4jAdapter) {
       return neo4jAdapter;
     }
-  } else {
+  }
+
+  // Try SQLite if configured
+  const sqlitePath = getSqlitePath(memoryDirPath);
+
+  if (sqlitePath) {
+    const sqliteAdapter = await createSqliteAdapter(sqlitePath);
+    if (sqliteAdapter) {
+      return sqliteAdapter;
+    }
+  } else if (!neo4jConfig) {
     console.error(NEO4J_ERROR_MESSAGES.NOT_CONFIGURED);
   }
 
@@ -153,9 +227,16 @@ export type { IStorageAdapter } from './lib/storage-interface.js';
 export { JsonlStorageAdapter } from './lib/jsonl-storage-adapter.js';
 export { Neo4jStorageAdapter } from './lib/neo4j-storage-adapter.js';
 export type { Neo4jConfig } from './lib/neo4j-storage-adapter.js';
+export { SqliteStorageAdapter } from './lib/sqlite-storage-adapter.js';
 
 let knowledgeGraphManager: KnowledgeGraphManager;
 
+// Backend selected at startup (null for custom adapters); the target of migrate_storage
+let activeBackend: StorageBackend | null = null;
+
+// In-memory cache in front of the storage adapter (null when MEMORY_CACHE_TTL_MS=0)
+let storageCache: CachingStorageAdapter | null = null;
+
 // Zod schemas for enhanced entities and relations
 const EntitySchemaCompat = EntitySchema;
 const RelationSchemaCompat = RelationSchema;
@@ -166,8 +247,30 @@ const server = new McpServer({
   version: "0.2.0",
 });
 
+/**
+ * Register a tool whose calls run in an audit context, so the changes they make are
+ * logged under the tool's name
+ */
+function registerAuditedTool<OutputArgs extends ZodRawShapeCompat | AnySchema, InputArgs extends ZodRawShapeCompat | AnySchema>(
+  server: McpServer,
+  name: string,
+  config: {
+    title?: string;
+    description?: string;
+    inputSchema?: InputArgs;
+    outputSchema?: OutputArgs;
+  },
+  handler: ToolCallback<InputArgs>
+): RegisteredTool {
+  // The handler's parameters depend on InputArgs; it gets the arguments the server passes unchanged
+  const run = handler as (...args: unknown[]) => CallToolResult | Promise<CallToolResult>;
+  const audited = (...args: unknown[]) => withAuditContext(name, async () => run(...args));
+  return server.registerTool(name, config, audited as ToolCallback<InputArgs>);
+}
+
 // Register NEW save_memory tool (Section 1 of spec - Unified Tool)
-server.registerTool(
+registerAuditedTool(
+  server,
   "save_memory",
   {
     title: "Save Memory",
@@ -180,7 +283,8 @@ server.registerTool(
       input as SaveMemoryInput,
       (threadId, entities) => knowledgeGraphManager.createEntities(threadId, entities),
       (threadId, relations) => knowledgeGraphManager.createRelations(threadId, relations),
-      (threadId) => knowledgeGraphManager.getEntityNamesInThread(threadId)
+      (threadId) => knowledgeGraphManager.getEntityNamesInThread(threadId),
+      (threadId) => knowledgeGraphManager.getEntityAliasesInThread(threadId)
     );
     
     if (result.success) {
@@ -241,7 +345,8 @@ server.registerTool(
   }
 );
 
-server.registerTool(
+registerAuditedTool(
+  server,
   "create_entities",
   {
     title: "Create Entities",
@@ -262,7 +367,8 @@ server.registerTool(
 );
 
 // Register create_relations tool
-server.registerTool(
+registerAuditedTool(
+  server,
   "create_relations",
   {
     title: "Create Relations",
@@ -283,7 +389,8 @@ server.registerTool(
 );
 
 // Register add_observations tool
-server.registerTool(
+registerAuditedTool(
+  server,
   "add_observations",
   {
     title: "Add Observations",
@@ -307,11 +414,12 @@ server.registerTool(
 );
 
 // Register delete_entities tool
-server.registerTool(
+registerAuditedTool(
+  server,
   "delete_entities",
   {
     title: "Delete Entities",
-    description: "Delete multiple entities and their associated relations from the knowledge graph",
+    description: "Delete multiple entities and their associated relations from the knowledge graph. They are moved to the thread's trash and can be restored with restore_from_trash",
     inputSchema: DeleteEntitiesInputSchema,
     outputSchema: {
       success: z.boolean(),
@@ -319,8 +427,8 @@ server.registerTool(
     }
   },
   async (input: any) => {
-    const { threadId, entityNames } = input;
-    await knowledgeGraphManager.deleteEntities(threadId, entityNames);
+    const { threadId, entityNames, reason } = input;
+    await knowledgeGraphManager.deleteEntities(threadId, entityNames, reason);
     return {
       content: [{ type: "text" as const, text: "Entities deleted successfully" }],
       structuredContent: { success: true, message: "Entities deleted successfully" }
@@ -328,12 +436,32 @@ server.registerTool(
   }
 );
 
+// Register rename_entity tool
+registerAuditedTool(
+  server,
+  "rename_entity",
+  {
+    title: "Rename Entity",
+    description: "Rename an entity within its thread. Every relation from or to it is updated to the new name and its observations keep their version history. Set keepOldNameAsAlias to keep resolving the old name to the entity",
+    inputSchema: RenameEntityInputSchema,
+    outputSchema: RenameEntityOutputSchema
+  },
+  async (input: any) => {
+    const result = await knowledgeGraphManager.renameEntity(input.threadId, input.entityName, input.newName, input.keepOldNameAsAlias);
+    return {
+      content: [{ type: "text" as const, text: JSON.stringify(result, null, 2) }],
+      structuredContent: result as any
+    };
+  }
+);
+
 // Register delete_observations tool
-server.registerTool(
+registerAuditedTool(
+  server,
   "delete_observations",
   {
     title: "Delete Observations",
-    description: "Delete specific observations from entities in the knowledge graph",
+    description: "Delete specific observations from entities in the knowledge graph. They are moved to the thread's trash and can be restored with restore_from_trash",
     inputSchema: DeleteObservationsInputSchema,
     outputSchema: {
       success: z.boolean(),
@@ -341,8 +469,8 @@ server.registerTool(
     }
   },
   async (input: any) => {
-    const { threadId, deletions } = input;
-    await knowledgeGraphManager.deleteObservations(threadId, deletions);
+    const { threadId, deletions, reason } = input;
+    await knowledgeGraphManager.deleteObservations(threadId, deletions, reason);
     return {
       content: [{ type: "text" as const, text: "Observations deleted successfully" }],
       structuredContent: { success: true, message: "Observations deleted successfully" }
@@ -351,7 +479,8 @@ server.registerTool(
 );
 
 // Register update_observation tool
-server.registerTool(
+registerAuditedTool(
+  server,
   "update_observation",
   {
     title: "Update Observation",
@@ -382,12 +511,43 @@ server.registerTool(
   }
 );
 
+// Register revert_observation tool
+registerAuditedTool(
+  server,
+  "revert_observation",
+  {
+    title: "Revert Observation",
+    description: "Restore the content of an earlier version of an observation by creating a new version that supersedes the latest one. The version chain is kept intact, so the reverted versions remain in the history.",
+    inputSchema: RevertObservationInputSchema.shape,
+    outputSchema: RevertObservationOutputSchema.shape
+  },
+  async (input: any) => {
+    const { entityName, observationId, agentThreadId, timestamp } = input;
+    const revertedObservation = await knowledgeGraphManager.revertObservation({
+      entityName,
+      observationId,
+      agentThreadId,
+      timestamp
+    });
+    const message = `Observation reverted to ${observationId}. New version: ${revertedObservation.id} (v${revertedObservation.version})`;
+    return {
+      content: [{ type: "text" as const, text: message }],
+      structuredContent: {
+        success: true,
+        revertedObservation,
+        message
+      }
+    };
+  }
+);
+
 // Register delete_relations tool
-server.registerTool(
+registerAuditedTool(
+  server,
   "delete_relations",
   {
     title: "Delete Relations",
-    description: "Delete multiple relations from the knowledge graph",
+    description: "Delete multiple relations from the knowledge graph. They are moved to the thread's trash and can be restored with restore_from_trash",
     inputSchema: DeleteRelationsInputSchema,
     outputSchema: {
       success: z.boolean(),
@@ -395,8 +555,8 @@ server.registerTool(
     }
   },
   async (input: any) => {
-    const { threadId, relations } = input;
-    await knowledgeGraphManager.deleteRelations(threadId, relations);
+    const { threadId, relations, reason } = input;
+    await knowledgeGraphManager.deleteRelations(threadId, relations, reason);
     return {
       content: [{ type: "text" as const, text: "Relations deleted successfully" }],
       structuredContent: { success: true, message: "Relations deleted successfully" }
@@ -405,11 +565,12 @@ server.registerTool(
 );
 
 // Register read_graph tool
-server.registerTool(
+registerAuditedTool(
+  server,
   "read_graph",
   {
     title: "Read Graph",
-    description: "Read the knowledge graph for a specific thread (thread isolation enforced). Supports filtering by minimum importance threshold.",
+    description: "Read the knowledge graph for a specific thread (thread isolation enforced), plus the shared workspaces it subscribes to; shared items carry a workspace field. Supports filtering by minimum importance threshold, and asOf to read the graph as it was at an earlier time.",
     inputSchema: ReadGraphInputSchema,
     outputSchema: {
       entities: z.array(EntitySchemaCompat),
@@ -417,8 +578,8 @@ server.registerTool(
     }
   },
   async (input: any) => {
-    const { threadId, minImportance } = input;
-    const graph = await knowledgeGraphManager.readGraph(threadId, minImportance);
+    const { threadId, minImportance, asOf } = input;
+    const graph = await knowledgeGraphManager.readGraph(threadId, minImportance, asOf);
     return {
       content: [{ type: "text" as const, text: JSON.stringify(graph, null, 2) }],
       structuredContent: { ...graph }
@@ -427,19 +588,20 @@ server.registerTool(
 );
 
 // Register search_nodes tool
-server.registerTool(
+registerAuditedTool(
+  server,
   "search_nodes",
   {
     title: "Search Nodes",
-    description: "Search for nodes in the knowledge graph based on a query (thread isolation enforced)",
+    description: "Ranked full-text search over entity names, types and observations (thread isolation enforced). Supports stemming, \"phrases\", OR and -term exclusion. Results are ordered by relevance and include matched observation snippets. Also searches subscribed workspaces; their hits carry a workspace field. Pass asOf to search the graph as it was at an earlier time",
     inputSchema: SearchNodesInputSchema,
     outputSchema: {
-      entities: z.array(EntitySchemaCompat),
+      entities: z.array(SearchHitSchema),
       relations: z.array(RelationSchemaCompat)
     }
   },
   async (input: any) => {
-    const graph = await knowledgeGraphManager.searchNodes(input.threadId, input.query);
+    const graph = await knowledgeGraphManager.searchNodes(input.threadId, input.query, input.asOf);
     return {
       content: [{ type: "text" as const, text: JSON.stringify(graph, null, 2) }],
       structuredContent: { ...graph }
@@ -447,12 +609,32 @@ server.registerTool(
   }
 );
 
+// Register semantic_search tool
+registerAuditedTool(
+  server,
+  "semantic_search",
+  {
+    title: "Semantic Search",
+    description: "Find the entities and observations closest in meaning to a query using vector embeddings (thread isolation enforced). Use when the wording of the query may differ from how the fact was saved. Respects minImportance like read_graph",
+    inputSchema: SemanticSearchInputSchema,
+    outputSchema: SemanticSearchOutputSchema.shape
+  },
+  async (input: any) => {
+    const result = await knowledgeGraphManager.semanticSearch(input.threadId, input.query, input.limit, input.minImportance);
+    return {
+      content: [{ type: "text" as const, text: JSON.stringify(result, null, 2) }],
+      structuredContent: { ...result }
+    };
+  }
+);
+
 // Register open_nodes tool
-server.registerTool(
+registerAuditedTool(
+  server,
   "open_nodes",
   {
     title: "Open Nodes",
-    description: "Open specific nodes in the knowledge graph by their names (thread isolation enforced)",
+    description: "Open specific nodes in the knowledge graph by their names (thread isolation enforced). Pass asOf to open them as they were at an earlier time",
     inputSchema: OpenNodesInputSchema,
     outputSchema: {
       entities: z.array(EntitySchemaCompat),
@@ -460,7 +642,7 @@ server.registerTool(
     }
   },
   async (input: any) => {
-    const graph = await knowledgeGraphManager.openNodes(input.threadId, input.names);
+    const graph = await knowledgeGraphManager.openNodes(input.threadId, input.names, input.asOf);
     return {
       content: [{ type: "text" as const, text: JSON.stringify(graph, null, 2) }],
       structuredContent: { ...graph }
@@ -469,7 +651,8 @@ server.registerTool(
 );
 
 // Register query_nodes tool for advanced filtering
-server.registerTool(
+registerAuditedTool(
+  server,
   "query_nodes",
   {
     title: "Query Nodes",
@@ -491,7 +674,8 @@ server.registerTool(
 );
 
 // Register list_entities tool for simple entity lookup
-server.registerTool(
+registerAuditedTool(
+  server,
   "list_entities",
   {
     title: "List Entities",
@@ -514,7 +698,8 @@ server.registerTool(
 );
 
 // Register validate_memory tool for pre-validation (dry-run)
-server.registerTool(
+registerAuditedTool(
+  server,
   "validate_memory",
   {
     title: "Validate Memory",
@@ -527,8 +712,10 @@ server.registerTool(
     
     // Get existing entity names for cross-thread reference validation
     let existingEntityNames: Set<string> | undefined;
+    let existingAliases: Map<string, string> | undefined;
     try {
       existingEntityNames = await knowledgeGraphManager.getEntityNamesInThread(threadId);
+      existingAliases = await knowledgeGraphManager.getEntityAliasesInThread(threadId);
     } catch (error) {
       // If we can't get existing entities, proceed without cross-thread validation
     }
@@ -538,7 +725,7 @@ server.registerTool(
     const originalEntityTypes = entities.map((e: any) => e.entityType);
     
     // Run validation (same logic as save_memory but without saving)
-    const validationResult = validateSaveMemoryRequest(entities, existingEntityNames);
+    const validationResult = validateSaveMemoryRequest(entities, existingEntityNames, existingAliases);
     
     // Transform validation result into per-entity format
     const results = new Map<number, {
@@ -653,7 +840,8 @@ server.registerTool(
 );
 
 // Register get_memory_stats tool
-server.registerTool(
+registerAuditedTool(
+  server,
   "get_memory_stats",
   {
     title: "Get Memory Statistics",
@@ -682,7 +870,8 @@ server.registerTool(
 );
 
 // Register get_recent_changes tool
-server.registerTool(
+registerAuditedTool(
+  server,
   "get_recent_changes",
   {
     title: "Get Recent Changes",
@@ -703,7 +892,8 @@ server.registerTool(
 );
 
 // Register find_relation_path tool
-server.registerTool(
+registerAuditedTool(
+  server,
   "find_relation_path",
   {
     title: "Find Relationship Path",
@@ -725,7 +915,8 @@ server.registerTool(
 );
 
 // Register detect_conflicts tool
-server.registerTool(
+registerAuditedTool(
+  server,
   "detect_conflicts",
   {
     title: "Detect Conflicts",
@@ -751,12 +942,32 @@ server.registerTool(
   }
 );
 
+// Register find_duplicate_entities tool
+registerAuditedTool(
+  server,
+  "find_duplicate_entities",
+  {
+    title: "Find Duplicate Entities",
+    description: "Find groups of entities that are likely the same thing saved under different names (e.g. 'PostgreSQL', 'Postgres', 'postgres db'), scored by name similarity (edit distance and matching name tokens, including aliases) and observation overlap. Resolve them with merge_entities (thread isolation enforced)",
+    inputSchema: FindDuplicateEntitiesInputSchema,
+    outputSchema: FindDuplicateEntitiesOutputSchema
+  },
+  async (input: any) => {
+    const result = { groups: await knowledgeGraphManager.findDuplicateEntities(input.threadId, input.minScore) };
+    return {
+      content: [{ type: "text" as const, text: JSON.stringify(result, null, 2) }],
+      structuredContent: result as any
+    };
+  }
+);
+
 // Register prune_memory tool
-server.registerTool(
+registerAuditedTool(
+  server,
   "prune_memory",
   {
     title: "Prune Memory",
-    description: "Remove old or low-importance entities to manage memory size, with option to keep minimum number of entities",
+    description: "Remove old or low-importance entities to manage memory size, with option to keep minimum number of entities. Removed entities are moved to the thread's trash. Take a create_snapshot checkpoint first to be able to roll the whole run back",
     inputSchema: PruneMemoryInputSchema,
     outputSchema: {
       removedEntities: z.number(),
@@ -774,11 +985,12 @@ server.registerTool(
 );
 
 // Register bulk_update tool
-server.registerTool(
+registerAuditedTool(
+  server,
   "bulk_update",
   {
     title: "Bulk Update",
-    description: "Efficiently update multiple entities at once with new confidence, importance, or observations",
+    description: "Efficiently update multiple entities at once with new confidence, importance, or observations. Take a create_snapshot checkpoint first to be able to roll the update back",
     inputSchema: BulkUpdateInputSchema,
     outputSchema: {
       updated: z.number(),
@@ -795,8 +1007,204 @@ server.registerTool(
   }
 );
 
+// Register merge_entities tool
+registerAuditedTool(
+  server,
+  "merge_entities",
+  {
+    title: "Merge Entities",
+    description: "Merge duplicate entities into a canonical entity: their observations move to it with their version history, every relation from or to them (including inverse relations) is rewired to it, and their names are kept as its aliases. Take a create_snapshot checkpoint first to be able to roll the merge back",
+    inputSchema: MergeEntitiesInputSchema,
+    outputSchema: MergeEntitiesOutputSchema
+  },
+  async (input: any) => {
+    const result = await knowledgeGraphManager.mergeEntities(input.threadId, input.canonicalName, input.duplicateNames);
+    return {
+      content: [{ type: "text" as const, text: JSON.stringify(result, null, 2) }],
+      structuredContent: result as any
+    };
+  }
+);
+
+// Register list_trash tool
+registerAuditedTool(
+  server,
+  "list_trash",
+  {
+    title: "List Trash",
+    description: "List the entities, relations and observations a thread deleted, most recent first, with when and why they were deleted. Items are purged after MEMORY_TRASH_RETENTION_DAYS days (30 by default)",
+    inputSchema: ListTrashInputSchema,
+    outputSchema: ListTrashOutputSchema
+  },
+  async (input: any) => {
+    const result = { items: await knowledgeGraphManager.listTrash(input.threadId) };
+    return {
+      content: [{ type: "text" as const, text: JSON.stringify(result, null, 2) }],
+      structuredContent: result as any
+    };
+  }
+);
+
+// Register restore_from_trash tool
+registerAuditedTool(
+  server,
+  "restore_from_trash",
+  {
+    title: "Restore From Trash",
+    description: "Undo deletions: put trash items back into the thread. Entities come back with their observations and the relations deleted with them. Fails without changes if an entity name is in use again",
+    inputSchema: RestoreFromTrashInputSchema,
+    outputSchema: RestoreFromTrashOutputSchema
+  },
+  async (input: any) => {
+    const result = await knowledgeGraphManager.restoreFromTrash(input.threadId, input.itemIds);
+    return {
+      content: [{ type: "text" as const, text: JSON.stringify(result, null, 2) }],
+      structuredContent: result as any
+    };
+  }
+);
+
+// Register empty_trash tool
+registerAuditedTool(
+  server,
+  "empty_trash",
+  {
+    title: "Empty Trash",
+    description: "Permanently delete trash items of a thread, or its whole trash when no item IDs are given. This cannot be undone",
+    inputSchema: EmptyTrashInputSchema,
+    outputSchema: EmptyTrashOutputSchema
+  },
+  async (input: any) => {
+    const result = { removedItems: await knowledgeGraphManager.emptyTrash(input.threadId, input.itemIds) };
+    return {
+      content: [{ type: "text" as const, text: JSON.stringify(result, null, 2) }],
+      structuredContent: result
+    };
+  }
+);
+
+// Register create_snapshot tool
+registerAuditedTool(
+  server,
+  "create_snapshot",
+  {
+    title: "Create Snapshot",
+    description: "Admin tool: capture the full graph, or one thread, as a labelled point-in-time snapshot. Take one before prune_memory or bulk_update to have a checkpoint to roll back to",
+    inputSchema: CreateSnapshotInputSchema,
+    outputSchema: SnapshotInfoSchema
+  },
+  async (input: any) => {
+    const result = await knowledgeGraphManager.createSnapshot(input.label, input.threadId);
+    return {
+      content: [{ type: "text" as const, text: JSON.stringify(result, null, 2) }],
+      structuredContent: result as any
+    };
+  }
+);
+
+// Register list_snapshots tool
+registerAuditedTool(
+  server,
+  "list_snapshots",
+  {
+    title: "List Snapshots",
+    description: "Admin tool: list snapshots with their label, time, scope and size, most recent first",
+    inputSchema: ListSnapshotsInputSchema,
+    outputSchema: ListSnapshotsOutputSchema
+  },
+  async (input: any) => {
+    const result = { snapshots: await knowledgeGraphManager.listSnapshots(input.threadId) };
+    return {
+      content: [{ type: "text" as const, text: JSON.stringify(result, null, 2) }],
+      structuredContent: result as any
+    };
+  }
+);
+
+// Register diff_snapshot tool
+registerAuditedTool(
+  server,
+  "diff_snapshot",
+  {
+    title: "Diff Snapshot",
+    description: "Admin tool: show the entities, observations and relations added, removed or changed since a snapshot was taken",
+    inputSchema: SnapshotIdInputSchema,
+    outputSchema: SnapshotDiffSchema
+  },
+  async (input: any) => {
+    const result = await knowledgeGraphManager.diffSnapshot(input.snapshotId);
+    return {
+      content: [{ type: "text" as const, text: JSON.stringify(result, null, 2) }],
+      structuredContent: result as any
+    };
+  }
+);
+
+// Register restore_snapshot tool
+registerAuditedTool(
+  server,
+  "restore_snapshot",
+  {
+    title: "Restore Snapshot",
+    description: "Admin tool: roll the graph, or the snapshot's thread, back to a snapshot. Everything written since the snapshot is lost; returns the changes that were rolled back",
+    inputSchema: SnapshotIdInputSchema,
+    outputSchema: SnapshotDiffSchema
+  },
+  async (input: any) => {
+    const result = await knowledgeGraphManager.restoreSnapshot(input.snapshotId);
+    return {
+      content: [{ type: "text" as const, text: JSON.stringify(result, null, 2) }],
+      structuredContent: result as any
+    };
+  }
+);
+
+// Register delete_snapshot tool
+registerAuditedTool(
+  server,
+  "delete_snapshot",
+  {
+    title: "Delete Snapshot",
+    description: "Admin tool: delete a snapshot that is no longer needed",
+    inputSchema: SnapshotIdInputSchema,
+    outputSchema: {
+      success: z.boolean(),
+      message: z.string()
+    }
+  },
+  async (input: any) => {
+    await knowledgeGraphManager.deleteSnapshot(input.snapshotId);
+    const message = `Snapshot ${input.snapshotId} deleted`;
+    return {
+      content: [{ type: "text" as const, text: message }],
+      structuredContent: { success: true, message }
+    };
+  }
+);
+
+// Register get_audit_log tool
+registerAuditedTool(
+  server,
+  "get_audit_log",
+  {
+    title: "Get Audit Log",
+    description: "Admin tool: list recorded changes to memory, most recent first. Every change made by any tool is logged with the tool name, thread, time and the stored state before and after. Filter by thread, tool, entity and time range",
+    inputSchema: GetAuditLogInputSchema,
+    outputSchema: GetAuditLogOutputSchema
+  },
+  async (input: any) => {
+    const { threadId, tool, entityName, since, until, limit } = input;
+    const result = { entries: await knowledgeGraphManager.getAuditLog({ threadId, tool, entityName, since, until, limit }) };
+    return {
+      content: [{ type: "text" as const, text: JSON.stringify(result, null, 2) }],
+      structuredContent: result as any
+    };
+  }
+);
+
 // Register flag_for_review tool
-server.registerTool(
+registerAuditedTool(
+  server,
   "flag_for_review",
   {
     title: "Flag Entity for Review",
@@ -818,7 +1226,8 @@ server.registerTool(
 );
 
 // Register get_flagged_entities tool
-server.registerTool(
+registerAuditedTool(
+  server,
   "get_flagged_entities",
   {
     title: "Get Flagged Entities",
@@ -838,11 +1247,12 @@ server.registerTool(
 );
 
 // Register get_context tool
-server.registerTool(
+registerAuditedTool(
+  server,
   "get_context",
   {
     title: "Get Context",
-    description: "Retrieve entities and relations related to specified entities up to a certain depth, useful for understanding context around specific topics (thread isolation enforced)",
+    description: "Retrieve entities and relations related to specified entities up to a certain depth, useful for understanding context around specific topics (thread isolation enforced). Subscribed workspaces are expanded too; their items carry a workspace field. Pass asOf to get the context as it was at an earlier time",
     inputSchema: GetContextInputSchema,
     outputSchema: {
       entities: z.array(EntitySchemaCompat),
@@ -850,7 +1260,7 @@ server.registerTool(
     }
   },
   async (input: any) => {
-    const context = await knowledgeGraphManager.getContext(input.threadId, input.entityNames, input.depth || 1);
+    const context = await knowledgeGraphManager.getContext(input.threadId, input.entityNames, input.depth || 1, input.asOf);
     return {
       content: [{ type: "text" as const, text: JSON.stringify(context, null, 2) }],
       structuredContent: { ...context }
@@ -859,7 +1269,8 @@ server.registerTool(
 );
 
 // Register list_conversations tool
-server.registerTool(
+registerAuditedTool(
+  server,
   "list_conversations",
   {
     title: "List Conversations",
@@ -884,8 +1295,276 @@ server.registerTool(
   }
 );
 
+// Register fork_thread tool
+registerAuditedTool(
+  server,
+  "fork_thread",
+  {
+    title: "Fork Thread",
+    description: "Start a new thread with a copy of another thread's entities, observations (with their versions) and relations, e.g. when a new conversation should inherit an earlier one's memory",
+    inputSchema: ForkThreadInputSchema,
+    outputSchema: ThreadMergeReportSchema
+  },
+  async (input: any) => {
+    const result = await knowledgeGraphManager.forkThread(input.sourceThreadId, input.targetThreadId);
+    return {
+      content: [{ type: "text" as const, text: JSON.stringify(result, null, 2) }],
+      structuredContent: result as any
+    };
+  }
+);
+
+// Register merge_threads tool
+registerAuditedTool(
+  server,
+  "merge_threads",
+  {
+    title: "Merge Threads",
+    description: "Merge one thread's memory into another. Entities with the same name are combined (observations merged with their versions kept) and reported as clashes; duplicate relations are skipped",
+    inputSchema: MergeThreadsInputSchema,
+    outputSchema: ThreadMergeReportSchema
+  },
+  async (input: any) => {
+    const result = await knowledgeGraphManager.mergeThreads(input.sourceThreadId, input.targetThreadId, input.deleteSource);
+    return {
+      content: [{ type: "text" as const, text: JSON.stringify(result, null, 2) }],
+      structuredContent: result as any
+    };
+  }
+);
+
+// Register copy_entities_to_thread tool
+registerAuditedTool(
+  server,
+  "copy_entities_to_thread",
+  {
+    title: "Copy Entities To Thread",
+    description: "Copy selected entities, with their observations and the relations between them, into another thread. Entities that already exist there are combined as in merge_threads",
+    inputSchema: CopyEntitiesToThreadInputSchema,
+    outputSchema: ThreadMergeReportSchema
+  },
+  async (input: any) => {
+    const result = await knowledgeGraphManager.copyEntitiesToThread(input.sourceThreadId, input.targetThreadId, input.entityNames);
+    return {
+      content: [{ type: "text" as const, text: JSON.stringify(result, null, 2) }],
+      structuredContent: result as any
+    };
+  }
+);
+
+// Register rename_thread tool
+registerAuditedTool(
+  server,
+  "rename_thread",
+  {
+    title: "Rename Thread",
+    description: "Admin tool: move a thread's entities, observations, relations and workspace subscriptions to a new thread ID",
+    inputSchema: RenameThreadInputSchema,
+    outputSchema: {
+      success: z.boolean(),
+      message: z.string()
+    }
+  },
+  async (input: any) => {
+    await knowledgeGraphManager.renameThread(input.threadId, input.newThreadId);
+    const message = `Thread ${input.threadId} renamed to ${input.newThreadId}`;
+    return {
+      content: [{ type: "text" as const, text: message }],
+      structuredContent: { success: true, message }
+    };
+  }
+);
+
+// Register archive_thread tool
+registerAuditedTool(
+  server,
+  "archive_thread",
+  {
+    title: "Archive Thread",
+    description: "Admin tool: move a thread to archive storage. Archived threads are kept but are left out of every read and of list_conversations until restored",
+    inputSchema: ThreadLifecycleInputSchema,
+    outputSchema: {
+      success: z.boolean(),
+      message: z.string()
+    }
+  },
+  async (input: any) => {
+    await knowledgeGraphManager.archiveThread(input.threadId);
+    const message = `Thread ${input.threadId} archived`;
+    return {
+      content: [{ type: "text" as const, text: message }],
+      structuredContent: { success: true, message }
+    };
+  }
+);
+
+// Register restore_thread tool
+registerAuditedTool(
+  server,
+  "restore_thread",
+  {
+    title: "Restore Thread",
+    description: "Admin tool: move an archived thread back to active storage",
+    inputSchema: ThreadLifecycleInputSchema,
+    outputSchema: {
+      success: z.boolean(),
+      message: z.string()
+    }
+  },
+  async (input: any) => {
+    await knowledgeGraphManager.restoreThread(input.threadId);
+    const message = `Thread ${input.threadId} restored`;
+    return {
+      content: [{ type: "text" as const, text: message }],
+      structuredContent: { success: true, message }
+    };
+  }
+);
+
+// Register delete_thread tool
+registerAuditedTool(
+  server,
+  "delete_thread",
+  {
+    title: "Delete Thread",
+    description: "Admin tool: permanently delete a thread, active or archived, with all its entities, observations, relations and workspace subscriptions",
+    inputSchema: ThreadLifecycleInputSchema,
+    outputSchema: {
+      success: z.boolean(),
+      message: z.string()
+    }
+  },
+  async (input: any) => {
+    await knowledgeGraphManager.deleteThread(input.threadId);
+    const message = `Thread ${input.threadId} deleted`;
+    return {
+      content: [{ type: "text" as const, text: message }],
+      structuredContent: { success: true, message }
+    };
+  }
+);
+
+// Register list_archived_threads tool
+registerAuditedTool(
+  server,
+  "list_archived_threads",
+  {
+    title: "List Archived Threads",
+    description: "Admin tool: list the IDs of archived threads",
+    inputSchema: {},
+    outputSchema: {
+      threadIds: z.array(z.string())
+    }
+  },
+  async () => {
+    const result = { threadIds: await knowledgeGraphManager.listArchivedThreads() };
+    return {
+      content: [{ type: "text" as const, text: JSON.stringify(result, null, 2) }],
+      structuredContent: result
+    };
+  }
+);
+
+// Register apply_retention_policy tool
+registerAuditedTool(
+  server,
+  "apply_retention_policy",
+  {
+    title: "Apply Retention Policy",
+    description: "Admin tool: archive every thread with no writes for the given number of days (workspaces are never archived). Use dryRun to only list them. Set MEMORY_ARCHIVE_AFTER_DAYS to apply the policy on every server start",
+    inputSchema: ApplyRetentionPolicyInputSchema,
+    outputSchema: RetentionReportSchema
+  },
+  async (input: any) => {
+    const result = await knowledgeGraphManager.applyRetentionPolicy(input.archiveAfterDays, input.dryRun);
+    return {
+      content: [{ type: "text" as const, text: JSON.stringify(result, null, 2) }],
+      structuredContent: result as any
+    };
+  }
+);
+
+// Register publish_memory tool
+registerAuditedTool(
+  server,
+  "publish_memory",
+  {
+    title: "Publish Memory",
+    description: "Copy entities of a thread, with their observations and the relations between them, into a shared workspace that other threads can subscribe to. Replaces entities of the same name in the workspace. This is the only way to write to a workspace",
+    inputSchema: PublishMemoryInputSchema,
+    outputSchema: PublishMemoryOutputSchema
+  },
+  async (input: any) => {
+    const result = await knowledgeGraphManager.publishMemory(input.threadId, input.workspace, input.entityNames);
+    return {
+      content: [{ type: "text" as const, text: JSON.stringify(result, null, 2) }],
+      structuredContent: result as any
+    };
+  }
+);
+
+// Register subscribe_workspace tool
+registerAuditedTool(
+  server,
+  "subscribe_workspace",
+  {
+    title: "Subscribe Workspace",
+    description: "Let a thread read a shared workspace: read_graph, search_nodes and get_context then include the workspace's memories, marked with the workspace name",
+    inputSchema: WorkspaceSubscriptionInputSchema,
+    outputSchema: WorkspaceSubscriptionOutputSchema
+  },
+  async (input: any) => {
+    const subscriptions = await knowledgeGraphManager.subscribeWorkspace(input.threadId, input.workspace);
+    const result = { threadId: input.threadId, subscriptions };
+    return {
+      content: [{ type: "text" as const, text: JSON.stringify(result, null, 2) }],
+      structuredContent: result
+    };
+  }
+);
+
+// Register unsubscribe_workspace tool
+registerAuditedTool(
+  server,
+  "unsubscribe_workspace",
+  {
+    title: "Unsubscribe Workspace",
+    description: "Stop a thread from reading a shared workspace. The workspace's memories are kept",
+    inputSchema: WorkspaceSubscriptionInputSchema,
+    outputSchema: WorkspaceSubscriptionOutputSchema
+  },
+  async (input: any) => {
+    const subscriptions = await knowledgeGraphManager.unsubscribeWorkspace(input.threadId, input.workspace);
+    const result = { threadId: input.threadId, subscriptions };
+    return {
+      content: [{ type: "text" as const, text: JSON.stringify(result, null, 2) }],
+      structuredContent: result
+    };
+  }
+);
+
+// Register list_workspaces tool
+registerAuditedTool(
+  server,
+  "list_workspaces",
+  {
+    title: "List Workspaces",
+    description: "List the shared workspaces with their entity and relation counts and subscribed threads",
+    inputSchema: {},
+    outputSchema: ListWorkspacesOutputSchema
+  },
+  async () => {
+    const result = { workspaces: await knowledgeGraphManager.listWorkspaces() };
+    return {
+      content: [{ type: "text" as const, text: JSON.stringify(result, null, 2) }],
+      structuredContent: result
+    };
+  }
+);
+
 // Register get_analytics tool
-server.registerTool(
+registerAuditedTool(
+  server,
   "get_analytics",
   {
     title: "Get Analytics",
@@ -903,7 +1582,8 @@ server.registerTool(
 );
 
 // Register get_observation_history tool
-server.registerTool(
+registerAuditedTool(
+  server,
   "get_observation_history",
   {
     title: "Get Observation History",
@@ -920,16 +1600,171 @@ server.registerTool(
   }
 );
 
+// Register diff_observation_versions tool
+registerAuditedTool(
+  server,
+  "diff_observation_versions",
+  {
+    title: "Diff Observation Versions",
+    description: "Compare any two versions in an observation's version chain, returning a word-level diff of their content (thread isolation enforced)",
+    inputSchema: DiffObservationVersionsInputSchema,
+    outputSchema: DiffObservationVersionsOutputSchema
+  },
+  async (input: any) => {
+    const result = await knowledgeGraphManager.diffObservationVersions(
+      input.threadId,
+      input.entityName,
+      input.fromObservationId,
+      input.toObservationId
+    );
+    return {
+      content: [{ type: "text" as const, text: JSON.stringify(result, null, 2) }],
+      structuredContent: result as any
+    };
+  }
+);
+
+// Register get_entity_history tool
+registerAuditedTool(
+  server,
+  "get_entity_history",
+  {
+    title: "Get Entity History",
+    description: "Retrieve a chronological timeline of every change to an entity: creation and deletion, entityType/confidence/importance changes, observations added, updated and deleted, and relations created, updated and removed. Each entry carries the tool that made the change and the version of the entity or relation after it (thread isolation enforced)",
+    inputSchema: GetEntityHistoryInputSchema,
+    outputSchema: GetEntityHistoryOutputSchema
+  },
+  async (input: any) => {
+    const result = await knowledgeGraphManager.getEntityHistory(input.threadId, input.entityName);
+    return {
+      content: [{ type: "text" as const, text: JSON.stringify({ history: result }, null, 2) }],
+      structuredContent: { history: result } as any
+    };
+  }
+);
+
+// Register export_graph tool
+registerAuditedTool(
+  server,
+  "export_graph",
+  {
+    title: "Export Graph",
+    description: "Serialize a thread, or all threads, to JSONL, GraphML, a Cypher script, Turtle or N-Triples. Observation version chains and confidence/importance metadata are preserved, so the output can be read back with import_graph",
+    inputSchema: ExportGraphInputSchema,
+    outputSchema: ExportGraphOutputSchema
+  },
+  async (input: any) => {
+    const result = await knowledgeGraphManager.exportGraph(input.format, input.threadId);
+    return {
+      content: [{ type: "text" as const, text: result.data }],
+      structuredContent: result as any
+    };
+  }
+);
+
+// Register import_graph tool
+registerAuditedTool(
+  server,
+  "import_graph",
+  {
+    title: "Import Graph",
+    description: "Read a graph produced by export_graph (JSONL, GraphML, Cypher, Turtle or N-Triples) into memory. Entities and relations replace existing ones with the same identity; the whole file is validated before anything is written",
+    inputSchema: ImportGraphInputSchema,
+    outputSchema: ImportGraphOutputSchema
+  },
+  async (input: any) => {
+    const result = await knowledgeGraphManager.importGraph(input.format, input.data, input.threadId);
+    return {
+      content: [{ type: "text" as const, text: JSON.stringify(result, null, 2) }],
+      structuredContent: result as any
+    };
+  }
+);
+
+// Register migrate_storage tool
+registerAuditedTool(
+  server,
+  "migrate_storage",
+  {
+    title: "Migrate Storage",
+    description: "Admin tool: copy every thread from another storage backend (jsonl, sqlite or neo4j) into the server's active backend, then verify entity, relation and observation counts per thread. Use dryRun to preview. Progress is checkpointed, so calling it again after a failure resumes with the unfinished threads",
+    inputSchema: MigrateStorageInputSchema,
+    outputSchema: MigrateStorageOutputSchema
+  },
+  async (input: any) => {
+    if (!activeBackend) {
+      throw new Error(MIGRATION_ERROR_MESSAGES.UNSUPPORTED_TARGET);
+    }
+    const source = describeStorageBackend(input.from, MEMORY_DIR_PATH);
+    const target = describeStorageBackend(activeBackend, MEMORY_DIR_PATH);
+    if (source === target) {
+      throw new Error(`${MIGRATION_ERROR_MESSAGES.SAME_BACKEND}: ${source}`);
+    }
+
+    const sourceStorage = await openStorageBackend(input.from, MEMORY_DIR_PATH);
+    try {
+      const report = await knowledgeGraphManager.migrateFrom(sourceStorage, {
+        dryRun: input.dryRun,
+        checkpointPath: path.join(MEMORY_DIR_PATH, CHECKPOINT_FILE_NAME),
+        migrationId: `${source} -> ${target}`
+      });
+      const result = { source, target, ...report };
+      return {
+        content: [{ type: "text" as const, text: JSON.stringify(result, null, 2) }],
+        structuredContent: result as any
+      };
+    } finally {
+      await closeStorage(sourceStorage);
+    }
+  }
+);
+
+// Register get_cache_stats tool
+registerAuditedTool(
+  server,
+  "get_cache_stats",
+  {
+    title: "Get Cache Stats",
+    description: "Admin tool: report hit/miss statistics of the in-memory storage cache since the server started",
+    inputSchema: {},
+    outputSchema: GetCacheStatsOutputSchema
+  },
+  async () => {
+    const stats = storageCache?.getStats() ?? { hits: 0, misses: 0, hitRate: 0, invalidations: 0, cachedThreads: 0 };
+    const result = { enabled: storageCache !== null, ...stats };
+    return {
+      content: [{ type: "text" as const, text: JSON.stringify(result, null, 2) }],
+      structuredContent: result
+    };
+  }
+);
+
 async function main() {
   // Initialize memory directory path
   MEMORY_DIR_PATH = await ensureMemoryDirectory();
 
   // Create storage adapter based on environment variables
-  // Falls back to JSONL if Neo4j is not configured or connection fails
+  // Falls back to JSONL if neither Neo4j nor SQLite is configured or available
   const storageAdapter = await createStorageAdapter(MEMORY_DIR_PATH);
+  activeBackend = storageBackendOf(storageAdapter);
+
+  // Keep parsed threads in memory, so reads do not re-parse or re-query the whole graph
+  const cacheTtlMs = getCacheTtlMs();
+  storageCache = cacheTtlMs > 0 ? new CachingStorageAdapter(storageAdapter, { ttlMs: cacheTtlMs }) : null;
 
   // Initialize knowledge graph manager with the storage adapter
-  knowledgeGraphManager = new KnowledgeGraphManager(MEMORY_DIR_PATH, storageAdapter);
+  knowledgeGraphManager = new KnowledgeGraphManager(MEMORY_DIR_PATH, storageCache ?? storageAdapter, undefined, getTrashRetentionDays());
+
+  // Archive threads nobody has written to for a while, if a retention policy is configured
+  const archiveAfterDays = getArchiveAfterDays();
+  if (archiveAfterDays !== null) {
+    const retention = await withAuditContext('apply_retention_policy', () =>
+      knowledgeGraphManager.applyRetentionPolicy(archiveAfterDays)
+    );
+    if (retention.archivedThreads.length > 0) {
+      console.error(STORAGE_LOG_MESSAGES.RETENTION_APPLIED, retention.archivedThreads.map(t => t.threadId).join(', '));
+    }
+  }
 
   // Register graceful shutdown handlers to ensure storage adapter is closed
   let isShuttingDown = false;
@@ -940,7 +1775,7 @@ async function main() {
     isShuttingDown = true;
     console.error(`Received ${signal}, shutting down gracefully...`);
     try {
-      // Close storage adapter (including Neo4j connections) before exiting
+      // Close storage adapter (including Neo4j connections and SQLite files) before exiting
       if (storageAdapter && 'close' in storageAdapter && typeof storageAdapter.close === 'function') {
         await storageAdapter.close();
       }
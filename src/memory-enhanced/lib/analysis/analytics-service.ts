@@ -2,8 +2,8 @@
  * Analytics service for thread-specific metrics
  */
 
-import { Entity, Relation } from '../types.js';
-import { IStorageAdapter } from '../storage-interface.js';
+import { Entity, Relation, GetAnalyticsOutput } from '../types.js';
+import { IStorageAdapter, findGraphQueryStorage } from '../storage-interface.js';
 
 /**
  * Calculate recent changes for a thread
@@ -122,40 +122,20 @@ function calculateOrphanedEntities(
 
 /**
  * Get analytics for a specific thread (limited to 4 core metrics)
+ * Computed by the storage's own queries when it has them
  */
 export async function getAnalytics(
   storage: IStorageAdapter,
   threadId: string
-): Promise<{
-  recent_changes: Array<{
-    entityName: string;
-    entityType: string;
-    lastModified: string;
-    changeType: 'created' | 'updated';
-  }>;
-  top_important: Array<{
-    entityName: string;
-    entityType: string;
-    importance: number;
-    observationCount: number;
-  }>;
-  most_connected: Array<{
-    entityName: string;
-    entityType: string;
-    relationCount: number;
-    connectedTo: string[];
-  }>;
-  orphaned_entities: Array<{
-    entityName: string;
-    entityType: string;
-    reason: 'no_relations' | 'broken_relation';
-  }>;
-}> {
-  const graph = await storage.loadGraph();
-  
-  // Filter to thread-specific data
-  const threadEntities = graph.entities.filter(e => e.agentThreadId === threadId);
-  const threadRelations = graph.relations.filter(r => r.agentThreadId === threadId);
+): Promise<GetAnalyticsOutput> {
+  const graphQueries = findGraphQueryStorage(storage);
+  if (graphQueries) {
+    return graphQueries.getAnalytics(threadId);
+  }
+
+  const graph = await storage.loadThreadGraph(threadId);
+  const threadEntities = graph.entities;
+  const threadRelations = graph.relations;
   
   // Calculate all metrics
   const recent_changes = calculateRecentChanges(threadEntities);
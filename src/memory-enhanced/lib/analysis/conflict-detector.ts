@@ -14,11 +14,11 @@ export async function detectConflicts(storage: IStorageAdapter, threadId: string
   entityName: string;
   conflicts: { obs1: string; obs2: string; reason: string }[];
 }[]> {
-  const graph = await storage.loadGraph();
+  const graph = await storage.loadThreadGraph(threadId);
   const conflicts: { entityName: string; conflicts: { obs1: string; obs2: string; reason: string }[] }[] = [];
   
-  // Only analyze entities in the specified thread
-  for (const entity of graph.entities.filter(e => e.agentThreadId === threadId)) {
+  // Only entities in the specified thread are loaded
+  for (const entity of graph.entities) {
     const entityConflicts: { obs1: string; obs2: string; reason: string }[] = [];
     
     for (let i = 0; i < entity.observations.length; i++) {
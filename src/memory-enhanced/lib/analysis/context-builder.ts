@@ -3,21 +3,32 @@
  */
 
 import { KnowledgeGraph } from '../types.js';
-import { IStorageAdapter } from '../storage-interface.js';
+import { IStorageAdapter, findGraphQueryStorage } from '../storage-interface.js';
+import { loadThreadGraphAsOf } from '../versioning/point-in-time.js';
+import { resolveEntityNames } from '../utils/entity-finder.js';
 
 /**
  * Get context (entities related to specified entities up to a certain depth)
- * Expands to include related entities up to specified depth
- * Filtered by threadId for thread isolation
+ * Expands to include related entities up to specified depth, in the storage's own query when it has one
+ * Entities may be given by alias
+ * Filtered by threadId for thread isolation; with asOf, as the thread was at that time
  */
 export async function getContext(
   storage: IStorageAdapter,
   threadId: string,
   entityNames: string[],
-  depth: number = 1
+  depth: number = 1,
+  asOf?: string
 ): Promise<KnowledgeGraph> {
-  const graph = await storage.loadGraph();
-  const contextEntityNames = new Set<string>(entityNames);
+  const graphQueries = asOf === undefined ? findGraphQueryStorage(storage) : null;
+  if (graphQueries) {
+    return graphQueries.getContext(threadId, entityNames, depth);
+  }
+
+  const graph = asOf !== undefined
+    ? await loadThreadGraphAsOf(storage, threadId, asOf)
+    : await storage.loadThreadGraph(threadId);
+  const contextEntityNames = new Set<string>(resolveEntityNames(graph.entities, entityNames));
   
   // Expand to include related entities up to specified depth - only within this thread
   for (let d = 0; d < depth; d++) {
@@ -25,8 +36,7 @@ export async function getContext(
     for (const entityName of currentEntities) {
       // Find all relations involving this entity - only from this thread
       const relatedRelations = graph.relations.filter(r => 
-        r.agentThreadId === threadId &&
-        (r.from === entityName || r.to === entityName)
+        r.from === entityName || r.to === entityName
       );
       
       // Add related entities
@@ -38,11 +48,8 @@ export async function getContext(
   }
   
   // Get all entities and relations in context - only from this thread
-  const contextEntities = graph.entities.filter(e => 
-    e.agentThreadId === threadId && contextEntityNames.has(e.name)
-  );
+  const contextEntities = graph.entities.filter(e => contextEntityNames.has(e.name));
   const contextRelations = graph.relations.filter(r => 
-    r.agentThreadId === threadId &&
     contextEntityNames.has(r.from) && contextEntityNames.has(r.to)
   );
   
@@ -0,0 +1,151 @@
+/**
+ * Duplicate entity detection
+ *
+ * Agents often save the same thing under near-identical names ("PostgreSQL", "Postgres",
+ * "postgres db"). Each pair of entities in a thread is scored by how similar their names
+ * and aliases are, raised by how much their observations overlap; pairs at or above the
+ * minimum score are grouped into candidate sets for merge_entities.
+ */
+
+import { Entity, KnowledgeGraph, DuplicateGroup, DuplicatePair } from '../types.js';
+import { IStorageAdapter } from '../storage-interface.js';
+
+export const DEFAULT_DUPLICATE_MIN_SCORE = 0.75;
+
+// Shorter tokens only match exactly, so "db" is not a prefix match for "dba"
+const MIN_PREFIX_TOKEN_LENGTH = 4;
+// Shorter observation words ("the", "and", "is") say nothing about the entity
+const MIN_OBSERVATION_WORD_LENGTH = 4;
+
+function nameTokens(name: string): string[] {
+  return name.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(token => token.length > 0);
+}
+
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+function tokensMatch(a: string, b: string): boolean {
+  if (a === b) return true;
+  const [shorter, longer] = a.length <= b.length ? [a, b] : [b, a];
+  return shorter.length >= MIN_PREFIX_TOKEN_LENGTH && longer.startsWith(shorter);
+}
+
+/**
+ * Similarity of two names from 0 to 1: the better of the edit distance between the names
+ * with separators removed, and the share of tokens matching in any order
+ */
+export function nameSimilarity(a: string, b: string): number {
+  const tokensA = nameTokens(a);
+  const tokensB = nameTokens(b);
+  const compactA = tokensA.join('');
+  const compactB = tokensB.join('');
+  if (compactA.length === 0 || compactB.length === 0) return 0;
+
+  const editSimilarity = 1 - levenshtein(compactA, compactB) / Math.max(compactA.length, compactB.length);
+  const matchedTokens = tokensA.filter(token => tokensB.some(other => tokensMatch(token, other))).length;
+  const tokenSimilarity = matchedTokens / Math.max(tokensA.length, tokensB.length);
+  return Math.max(editSimilarity, tokenSimilarity);
+}
+
+function observationWords(entity: Entity): Set<string> {
+  return new Set(
+    entity.observations
+      .filter(o => !o.superseded_by)
+      .flatMap(o => o.content.toLowerCase().split(/[^\p{L}\p{N}]+/u))
+      .filter(word => word.length >= MIN_OBSERVATION_WORD_LENGTH)
+  );
+}
+
+/**
+ * Share of the observation words two entities have in common (Jaccard index), 0 when either has none
+ */
+function observationOverlap(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  const shared = [...a].filter(word => b.has(word)).length;
+  return shared / (a.size + b.size - shared);
+}
+
+function scorePair(a: Entity, b: Entity, wordsA: Set<string>, wordsB: Set<string>): DuplicatePair {
+  const names = (entity: Entity) => [entity.name, ...(entity.aliases ?? [])];
+  const similarity = Math.max(...names(a).flatMap(nameA => names(b).map(nameB => nameSimilarity(nameA, nameB))));
+  const overlap = observationOverlap(wordsA, wordsB);
+  // Overlapping observations raise the score of similar names, but never lower it
+  return {
+    entityNames: [a.name, b.name],
+    score: similarity + (1 - similarity) * overlap / 2,
+    nameSimilarity: similarity,
+    observationOverlap: overlap
+  };
+}
+
+/**
+ * Order the entities of a group with the suggested canonical entity first:
+ * the one with the most current observations, then the most relations
+ */
+function orderByWeight(names: string[], graph: KnowledgeGraph): string[] {
+  const weight = (name: string) => {
+    const entity = graph.entities.find(e => e.name === name)!;
+    const relations = graph.relations.filter(r => r.from === name || r.to === name).length;
+    return [entity.observations.filter(o => !o.superseded_by).length, relations];
+  };
+  return [...names].sort((a, b) => {
+    const [obsA, relA] = weight(a);
+    const [obsB, relB] = weight(b);
+    return obsB - obsA || relB - relA;
+  });
+}
+
+/**
+ * Find groups of entities in a thread that are likely duplicates of each other
+ * Pairs scoring at least minScore are linked; linked entities form one group.
+ * Groups are returned by their best pair score, highest first.
+ */
+export async function findDuplicateEntities(
+  storage: IStorageAdapter,
+  threadId: string,
+  minScore: number = DEFAULT_DUPLICATE_MIN_SCORE
+): Promise<DuplicateGroup[]> {
+  const graph = await storage.loadThreadGraph(threadId);
+  const words = graph.entities.map(observationWords);
+
+  const pairs: DuplicatePair[] = [];
+  for (let i = 0; i < graph.entities.length; i++) {
+    for (let j = i + 1; j < graph.entities.length; j++) {
+      const pair = scorePair(graph.entities[i], graph.entities[j], words[i], words[j]);
+      if (pair.score >= minScore) {
+        pairs.push(pair);
+      }
+    }
+  }
+
+  // Union the linked entities into groups
+  const groupOf = new Map<string, string[]>();
+  for (const { entityNames: [a, b] } of pairs) {
+    const groupA = groupOf.get(a) ?? [a];
+    const groupB = groupOf.get(b) ?? [b];
+    if (groupA === groupB) continue;
+    const merged = [...groupA, ...groupB];
+    merged.forEach(name => groupOf.set(name, merged));
+  }
+
+  const groups = [...new Set(groupOf.values())].map(names => ({
+    entityNames: orderByWeight(names, graph),
+    pairs: pairs
+      .filter(pair => names.includes(pair.entityNames[0]))
+      .sort((a, b) => b.score - a.score)
+  }));
+  return groups.sort((a, b) => b.pairs[0].score - a.pairs[0].score);
+}
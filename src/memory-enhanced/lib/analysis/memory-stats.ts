@@ -17,11 +17,9 @@ export async function getMemoryStats(storage: IStorageAdapter, threadId: string)
   avgImportance: number;
   recentActivity: { timestamp: string; entityCount: number }[];
 }> {
-  const graph = await storage.loadGraph();
-  
-  // Filter entities and relations by threadId
-  const threadEntities = graph.entities.filter(e => e.agentThreadId === threadId);
-  const threadRelations = graph.relations.filter(r => r.agentThreadId === threadId);
+  const graph = await storage.loadThreadGraph(threadId);
+  const threadEntities = graph.entities;
+  const threadRelations = graph.relations;
   
   // Count entity types
   const entityTypes: { [type: string]: number } = {};
@@ -37,12 +35,8 @@ export async function getMemoryStats(storage: IStorageAdapter, threadId: string)
     ? threadEntities.reduce((sum, e) => sum + e.importance, 0) / threadEntities.length
     : 0;
   
-  // Count unique threads in the system (across all entities in the graph)
-  const threads = new Set<string>(
-    graph.entities
-      .map(e => e.agentThreadId)
-      .filter((id): id is string => !!id)
-  );
+  // Count threads in the system without loading their contents
+  const threadIds = await storage.listThreadIds();
   
   // Recent activity (last 7 days, grouped by day) - only for this thread
   const now = new Date();
@@ -63,7 +57,7 @@ export async function getMemoryStats(storage: IStorageAdapter, threadId: string)
   return {
     entityCount: threadEntities.length,
     relationCount: threadRelations.length,
-    threadCount: threads.size,
+    threadCount: threadIds.length,
     entityTypes,
     avgConfidence,
     avgImportance,
@@ -80,18 +74,14 @@ export async function getRecentChanges(
   threadId: string,
   since: string
 ) {
-  const graph = await storage.loadGraph();
+  const graph = await storage.loadThreadGraph(threadId);
   const sinceDate = new Date(since);
   
   // Only return entities and relations from this thread that were modified since the specified time
-  const recentEntities = graph.entities.filter(e => 
-    e.agentThreadId === threadId && new Date(e.timestamp) >= sinceDate
-  );
+  const recentEntities = graph.entities.filter(e => new Date(e.timestamp) >= sinceDate);
   
-  // Only include relations from this thread that are recent themselves
-  const recentRelations = graph.relations.filter(r => 
-    r.agentThreadId === threadId && new Date(r.timestamp) >= sinceDate
-  );
+  // Only include relations that are recent themselves
+  const recentRelations = graph.relations.filter(r => new Date(r.timestamp) >= sinceDate);
   
   return {
     entities: recentEntities,
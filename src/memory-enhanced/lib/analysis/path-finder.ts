@@ -2,26 +2,30 @@
  * Path finding service for the knowledge graph
  */
 
-import { Relation } from '../types.js';
-import { IStorageAdapter } from '../storage-interface.js';
+import { Relation, RelationPath } from '../types.js';
+import { IStorageAdapter, findGraphQueryStorage } from '../storage-interface.js';
+import { resolveEntityNames } from '../utils/entity-finder.js';
 
 /**
  * Find the shortest path between two entities in the knowledge graph
- * Uses BFS algorithm with bidirectional search
+ * Uses BFS algorithm with bidirectional search, or the storage's own query when it has one
+ * Either entity may be given by alias; the path holds entity names
  * Filtered by threadId for thread isolation
  */
 export async function findRelationPath(
   storage: IStorageAdapter,
   threadId: string,
-  from: string,
-  to: string,
+  fromName: string,
+  toName: string,
   maxDepth: number = 5
-): Promise<{
-  found: boolean;
-  path: string[];
-  relations: Relation[];
-}> {
-  const graph = await storage.loadGraph();
+): Promise<RelationPath> {
+  const graphQueries = findGraphQueryStorage(storage);
+  if (graphQueries) {
+    return graphQueries.findRelationPath(threadId, fromName, toName, maxDepth);
+  }
+
+  const graph = await storage.loadThreadGraph(threadId);
+  const [from, to] = resolveEntityNames(graph.entities, [fromName, toName]);
   
   if (from === to) {
     return { found: true, path: [from], relations: [] };
@@ -30,7 +34,7 @@ export async function findRelationPath(
   // Build indexes for efficient relation lookup - only for relations in this thread
   const relationsFrom = new Map<string, Relation[]>();
   const relationsTo = new Map<string, Relation[]>();
-  for (const rel of graph.relations.filter(r => r.agentThreadId === threadId)) {
+  for (const rel of graph.relations) {
     if (!relationsFrom.has(rel.from)) {
       relationsFrom.set(rel.from, []);
     }
@@ -0,0 +1,142 @@
+/**
+ * Audit entries for the changes a storage write makes
+ *
+ * Storage adapters call these builders inside a write, with the stored state the write
+ * replaces and the state it leaves, and store the entries in the same commit as the
+ * change. Outside a recording scope (see withAuditRecording) every builder returns no
+ * entries. Writes that change nothing are not logged.
+ */
+
+import { randomUUID } from 'crypto';
+import { Entity, Relation, KnowledgeGraph, AuditEntry, AuditOperation } from '../types.js';
+import { createRelationKey } from '../utils/relation-key.js';
+import { currentAuditTool, isRecordingAudit } from './audit-log.js';
+
+// Fields compared to list what an update changed
+const ENTITY_FIELDS = ['entityType', 'observations', 'timestamp', 'confidence', 'importance', 'aliases'] as const;
+const RELATION_FIELDS = ['timestamp', 'confidence', 'importance'] as const;
+
+function entityKey(threadId: string, name: string): string {
+  return JSON.stringify([threadId, name]);
+}
+
+function relationKey(relation: Relation): string {
+  return JSON.stringify([relation.agentThreadId, createRelationKey(relation)]);
+}
+
+function changedFields<T extends Entity | Relation>(before: T, after: T, fields: readonly (keyof T)[]): string[] {
+  return fields
+    .filter(field => JSON.stringify(before[field]) !== JSON.stringify(after[field]))
+    .map(String);
+}
+
+function entry(threadId: string, operation: AuditOperation, fields: Partial<AuditEntry> = {}): AuditEntry {
+  const tool = currentAuditTool();
+  return {
+    id: `audit_${randomUUID()}`,
+    timestamp: new Date().toISOString(),
+    ...(tool !== undefined && { tool }),
+    threadId,
+    operation,
+    ...fields
+  };
+}
+
+function entityEntry(threadId: string, name: string, before?: Entity, after?: Entity): AuditEntry | null {
+  if (before && after) {
+    const fields = changedFields(before, after, ENTITY_FIELDS);
+    return fields.length > 0
+      ? entry(threadId, 'update_entity', { entityName: name, before, after, changedFields: fields })
+      : null;
+  }
+  if (after) return entry(threadId, 'create_entity', { entityName: name, after });
+  if (before) return entry(threadId, 'delete_entity', { entityName: name, before });
+  return null;
+}
+
+function relationEntry(before?: Relation, after?: Relation): AuditEntry | null {
+  const stored = after ?? before;
+  if (!stored) return null;
+  const fields = {
+    relation: { from: stored.from, to: stored.to, relationType: stored.relationType }
+  };
+  if (before && after) {
+    const changed = changedFields(before, after, RELATION_FIELDS);
+    return changed.length > 0
+      ? entry(stored.agentThreadId, 'update_relation', { ...fields, before, after, changedFields: changed })
+      : null;
+  }
+  if (after) return entry(stored.agentThreadId, 'create_relation', { ...fields, after });
+  return entry(stored.agentThreadId, 'delete_relation', { ...fields, before });
+}
+
+function recorded(entries: (AuditEntry | null)[]): AuditEntry[] {
+  return entries.filter((entry): entry is AuditEntry => entry !== null);
+}
+
+/**
+ * Entries for an entity write: created (no before), deleted (no after) or updated
+ * @param relationsBefore Relations of the thread deleted with the entity
+ */
+export function entityAuditEntries(
+  threadId: string,
+  name: string,
+  before?: Entity,
+  after?: Entity,
+  relationsBefore: Relation[] = []
+): AuditEntry[] {
+  if (!isRecordingAudit()) return [];
+  return recorded([
+    entityEntry(threadId, name, before, after),
+    ...relationsBefore.map(relation => relationEntry(relation))
+  ]);
+}
+
+/**
+ * Entry for an entity renamed within its thread, taking the thread's relations along
+ * @param before The entity under its old name
+ * @param after The entity under its new name
+ */
+export function entityRenameAuditEntries(threadId: string, before: Entity, after: Entity): AuditEntry[] {
+  if (!isRecordingAudit()) return [];
+  return [entry(threadId, 'rename_entity', { entityName: before.name, newEntityName: after.name, before, after })];
+}
+
+/**
+ * Entries for a relation write: created (no before), deleted (no after) or updated
+ */
+export function relationAuditEntries(before?: Relation, after?: Relation): AuditEntry[] {
+  if (!isRecordingAudit()) return [];
+  return recorded([relationEntry(before, after)]);
+}
+
+/**
+ * Entries for a graph, or part of one, replaced by another: each entity and relation
+ * that was created, changed or removed
+ */
+export function graphAuditEntries(before: KnowledgeGraph, after: KnowledgeGraph): AuditEntry[] {
+  if (!isRecordingAudit()) return [];
+
+  const entitiesBefore = new Map(before.entities.map(e => [entityKey(e.agentThreadId, e.name), e]));
+  const entitiesAfter = new Map(after.entities.map(e => [entityKey(e.agentThreadId, e.name), e]));
+  const relationsBefore = new Map(before.relations.map(r => [relationKey(r), r]));
+  const relationsAfter = new Map(after.relations.map(r => [relationKey(r), r]));
+  const entityKeys = new Set([...entitiesBefore.keys(), ...entitiesAfter.keys()]);
+  const relationKeys = new Set([...relationsBefore.keys(), ...relationsAfter.keys()]);
+
+  return recorded([
+    ...Array.from(entityKeys, key => {
+      const entity = (entitiesAfter.get(key) ?? entitiesBefore.get(key))!;
+      return entityEntry(entity.agentThreadId, entity.name, entitiesBefore.get(key), entitiesAfter.get(key));
+    }),
+    ...Array.from(relationKeys, key => relationEntry(relationsBefore.get(key), relationsAfter.get(key)))
+  ]);
+}
+
+/**
+ * Entry for a change to a whole thread (rename, archive, restore or delete)
+ */
+export function threadAuditEntries(threadId: string, operation: AuditOperation, fields: Partial<AuditEntry> = {}): AuditEntry[] {
+  if (!isRecordingAudit()) return [];
+  return [entry(threadId, operation, fields)];
+}
@@ -0,0 +1,71 @@
+/**
+ * Audit log: an append-only record of every change to stored memory
+ *
+ * Tool calls run in an audit context that names the tool. AuditingStorageAdapter runs
+ * each write in a recording scope; the storage adapter then builds the entries for the
+ * change (see audit-entries.ts) from the state it replaces, and stores them in the same
+ * commit as the change. Every change is logged with the tool that made it, whichever
+ * service or operation issued the write. Writes outside a recording scope, such as a
+ * storage migration, are not logged.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { AuditEntry, AuditLogFilter } from '../types.js';
+
+interface AuditContext {
+  tool: string;
+}
+
+const contexts = new AsyncLocalStorage<AuditContext>();
+const recordings = new AsyncLocalStorage<boolean>();
+
+/**
+ * Run a task in the audit context of a tool, so the changes it makes are logged under the tool's name
+ */
+export function withAuditContext<T>(tool: string, task: () => Promise<T>): Promise<T> {
+  return contexts.run({ tool }, task);
+}
+
+/**
+ * Name of the tool whose call is running, or undefined outside a tool call
+ */
+export function currentAuditTool(): string | undefined {
+  return contexts.getStore()?.tool;
+}
+
+/**
+ * Run a storage write in a recording scope, so the storage adapter logs the changes it makes
+ */
+export function withAuditRecording<T>(task: () => Promise<T>): Promise<T> {
+  return recordings.run(true, task);
+}
+
+/**
+ * Whether the running write should log its changes
+ */
+export function isRecordingAudit(): boolean {
+  return recordings.getStore() === true;
+}
+
+/**
+ * Check whether an audit entry passes a filter (the limit is applied by applyAuditFilter)
+ */
+export function matchesAuditFilter(entry: AuditEntry, filter: AuditLogFilter): boolean {
+  if (filter.threadId !== undefined && entry.threadId !== filter.threadId && entry.newThreadId !== filter.threadId) return false;
+  if (filter.tool !== undefined && entry.tool !== filter.tool) return false;
+  if (filter.entityName !== undefined && entry.entityName !== filter.entityName && entry.newEntityName !== filter.entityName
+    && entry.relation?.from !== filter.entityName && entry.relation?.to !== filter.entityName) return false;
+
+  const time = new Date(entry.timestamp).getTime();
+  if (filter.since !== undefined && time < new Date(filter.since).getTime()) return false;
+  if (filter.until !== undefined && time > new Date(filter.until).getTime()) return false;
+  return true;
+}
+
+/**
+ * Filter audit entries stored oldest first, returning the most recent matches first
+ */
+export function applyAuditFilter(entries: AuditEntry[], filter: AuditLogFilter = {}): AuditEntry[] {
+  const matches = entries.filter(entry => matchesAuditFilter(entry, filter)).reverse();
+  return filter.limit !== undefined ? matches.slice(0, filter.limit) : matches;
+}
@@ -0,0 +1,136 @@
+/**
+ * Storage decorator that records every change in the audit log
+ *
+ * Wraps any IStorageAdapter and forwards every call to it. Writes run in an audit
+ * recording scope, in which the wrapped adapter builds an entry with the state before and
+ * after each change from the data it already holds for the write, and stores it in the
+ * same commit as the change (see audit-entries.ts). Trash and embedding writes are
+ * bookkeeping of logged changes and are not logged themselves.
+ */
+
+import {
+  Entity,
+  Relation,
+  KnowledgeGraph,
+  Observation,
+  EmbeddingRecord,
+  TrashItem,
+  AuditEntry,
+  AuditLogFilter
+} from '../types.js';
+import { IStorageAdapter, IStorageDecorator } from '../storage-interface.js';
+import { withAuditRecording } from './audit-log.js';
+
+export class AuditingStorageAdapter implements IStorageAdapter, IStorageDecorator {
+  private readonly storage: IStorageAdapter;
+
+  constructor(storage: IStorageAdapter) {
+    this.storage = storage;
+  }
+
+  getWrappedStorage(): IStorageAdapter {
+    return this.storage;
+  }
+
+  async loadGraph(): Promise<KnowledgeGraph> {
+    return this.storage.loadGraph();
+  }
+
+  /**
+   * Replace the graph, logging each entity and relation that was created, changed or removed
+   */
+  async saveGraph(graph: KnowledgeGraph): Promise<void> {
+    await withAuditRecording(() => this.storage.saveGraph(graph));
+  }
+
+  async loadThreadGraph(threadId: string): Promise<KnowledgeGraph> {
+    return this.storage.loadThreadGraph(threadId);
+  }
+
+  async saveThreadGraph(threadId: string, graph: KnowledgeGraph): Promise<void> {
+    await withAuditRecording(() => this.storage.saveThreadGraph(threadId, graph));
+  }
+
+  async listThreadIds(): Promise<string[]> {
+    return this.storage.listThreadIds();
+  }
+
+  async upsertEntity(entity: Entity): Promise<void> {
+    await withAuditRecording(() => this.storage.upsertEntity(entity));
+  }
+
+  /**
+   * Delete an entity, logging it and the relations of its thread deleted with it
+   */
+  async deleteEntity(threadId: string, entityName: string): Promise<void> {
+    await withAuditRecording(() => this.storage.deleteEntity(threadId, entityName));
+  }
+
+  async renameEntity(threadId: string, entityName: string, renamed: Entity): Promise<void> {
+    await withAuditRecording(() => this.storage.renameEntity(threadId, entityName, renamed));
+  }
+
+  async appendObservation(threadId: string, entityName: string, observation: Observation): Promise<void> {
+    await withAuditRecording(() => this.storage.appendObservation(threadId, entityName, observation));
+  }
+
+  async upsertRelation(relation: Relation): Promise<void> {
+    await withAuditRecording(() => this.storage.upsertRelation(relation));
+  }
+
+  async deleteRelation(relation: Relation): Promise<void> {
+    await withAuditRecording(() => this.storage.deleteRelation(relation));
+  }
+
+  async loadEmbeddings(threadId: string): Promise<EmbeddingRecord[]> {
+    return this.storage.loadEmbeddings(threadId);
+  }
+
+  async saveEmbeddings(threadId: string, records: EmbeddingRecord[]): Promise<void> {
+    await this.storage.saveEmbeddings(threadId, records);
+  }
+
+  async loadTrash(threadId: string): Promise<TrashItem[]> {
+    return this.storage.loadTrash(threadId);
+  }
+
+  async addToTrash(threadId: string, items: TrashItem[]): Promise<void> {
+    await this.storage.addToTrash(threadId, items);
+  }
+
+  async removeFromTrash(threadId: string, itemIds: string[]): Promise<void> {
+    await this.storage.removeFromTrash(threadId, itemIds);
+  }
+
+  async appendAuditEntries(entries: AuditEntry[]): Promise<void> {
+    await this.storage.appendAuditEntries(entries);
+  }
+
+  async loadAuditLog(filter?: AuditLogFilter): Promise<AuditEntry[]> {
+    return this.storage.loadAuditLog(filter);
+  }
+
+  async listArchivedThreadIds(): Promise<string[]> {
+    return this.storage.listArchivedThreadIds();
+  }
+
+  async renameThread(threadId: string, newThreadId: string): Promise<void> {
+    await withAuditRecording(() => this.storage.renameThread(threadId, newThreadId));
+  }
+
+  async archiveThread(threadId: string): Promise<void> {
+    await withAuditRecording(() => this.storage.archiveThread(threadId));
+  }
+
+  async restoreThread(threadId: string): Promise<void> {
+    await withAuditRecording(() => this.storage.restoreThread(threadId));
+  }
+
+  async deleteThread(threadId: string): Promise<void> {
+    await withAuditRecording(() => this.storage.deleteThread(threadId));
+  }
+
+  async initialize(): Promise<void> {
+    await this.storage.initialize();
+  }
+}
@@ -0,0 +1,305 @@
+/**
+ * Storage decorator that keeps parsed thread graphs in memory
+ *
+ * Wraps any IStorageAdapter. Reads are served from the cache while it is fresh:
+ * - Storages with change tracking (JSONL) are asked for a cheap version token on every
+ *   read, so changes by other processes are seen immediately
+ * - Other storages (Neo4j, SQLite) are trusted for a fixed TTL
+ * Writes go straight to the wrapped storage and drop the affected thread from the cache.
+ * Reads inside a write operation's revision scope bypass the cache, so optimistic
+ * concurrency checks always see the stored revision.
+ */
+
+import { Entity, Relation, KnowledgeGraph, Observation, EmbeddingRecord, TrashItem, AuditEntry, AuditLogFilter, CacheStats } from '../types.js';
+import { IStorageAdapter, IStorageDecorator, IChangeTrackingStorage, supportsChangeTracking } from '../storage-interface.js';
+import { CACHE_DEFAULTS } from '../storage-config.js';
+import { isInRevisionScope } from '../utils/optimistic-concurrency.js';
+
+export interface CachingOptions {
+  /** How long entries are trusted when the storage has no change tracking */
+  ttlMs?: number;
+}
+
+interface CacheEntry<T> {
+  value: T;
+  version: string | null;  // Change token when loaded; null for TTL-based storages
+  loadedAt: number;
+}
+
+export class CachingStorageAdapter implements IStorageAdapter, IStorageDecorator {
+  private readonly storage: IStorageAdapter;
+  private readonly changeTracking: IChangeTrackingStorage | null;
+  private readonly ttlMs: number;
+  private readonly threads = new Map<string, CacheEntry<KnowledgeGraph>>();
+  private threadIds: CacheEntry<string[]> | null = null;
+  private hits = 0;
+  private misses = 0;
+  private invalidations = 0;
+
+  constructor(storage: IStorageAdapter, options: CachingOptions = {}) {
+    this.storage = storage;
+    this.changeTracking = supportsChangeTracking(storage) ? storage : null;
+    this.ttlMs = options.ttlMs ?? CACHE_DEFAULTS.TTL_MS;
+  }
+
+  getWrappedStorage(): IStorageAdapter {
+    return this.storage;
+  }
+
+  /**
+   * Hit/miss counters since the adapter was created
+   */
+  getStats(): CacheStats {
+    const reads = this.hits + this.misses;
+    return {
+      hits: this.hits,
+      misses: this.misses,
+      hitRate: reads === 0 ? 0 : this.hits / reads,
+      invalidations: this.invalidations,
+      cachedThreads: this.threads.size
+    };
+  }
+
+  private isFresh<T>(entry: CacheEntry<T> | null | undefined, version: string | null): entry is CacheEntry<T> {
+    if (!entry) return false;
+    return this.changeTracking ? entry.version === version : Date.now() - entry.loadedAt < this.ttlMs;
+  }
+
+  private async threadVersion(threadId: string): Promise<string | null> {
+    return this.changeTracking ? this.changeTracking.getThreadVersion(threadId) : null;
+  }
+
+  /**
+   * Count a cached thread that is about to be replaced because it changed or expired
+   */
+  private countStale(threadId: string, version: string | null): void {
+    const entry = this.threads.get(threadId);
+    if (entry && !this.isFresh(entry, version)) {
+      this.invalidations++;
+    }
+  }
+
+  private invalidateThread(threadId: string): void {
+    if (this.threads.delete(threadId)) {
+      this.invalidations++;
+    }
+    // A write may have created or emptied the thread
+    this.threadIds = null;
+  }
+
+  private invalidateAll(): void {
+    this.invalidations += this.threads.size;
+    this.threads.clear();
+    this.threadIds = null;
+  }
+
+  private async cachedThreadIds(): Promise<string[]> {
+    const version = this.changeTracking ? await this.changeTracking.getThreadListVersion() : null;
+    if (!this.isFresh(this.threadIds, version)) {
+      this.threadIds = { value: await this.storage.listThreadIds(), version, loadedAt: Date.now() };
+    }
+    return [...this.threadIds!.value];
+  }
+
+  async loadGraph(): Promise<KnowledgeGraph> {
+    if (isInRevisionScope()) {
+      return this.storage.loadGraph();
+    }
+
+    // Versions are read before loading, so a change made during the load is seen as stale next time
+    const threadIds = await this.cachedThreadIds();
+    const versions = new Map<string, string | null>();
+    for (const threadId of threadIds) {
+      versions.set(threadId, await this.threadVersion(threadId));
+    }
+
+    if (threadIds.every(threadId => this.isFresh(this.threads.get(threadId), versions.get(threadId)!))) {
+      this.hits++;
+      const graphs = threadIds.map(threadId => this.threads.get(threadId)!.value);
+      return structuredClone({
+        entities: graphs.flatMap(g => g.entities),
+        relations: graphs.flatMap(g => g.relations)
+      });
+    }
+
+    this.misses++;
+    const graph = await this.storage.loadGraph();
+    const loadedAt = Date.now();
+    for (const threadId of this.threads.keys()) {
+      if (!versions.has(threadId)) {
+        this.threads.delete(threadId);  // Thread removed by another process
+      }
+    }
+    for (const threadId of threadIds) {
+      this.countStale(threadId, versions.get(threadId)!);
+      this.threads.set(threadId, {
+        value: structuredClone({
+          entities: graph.entities.filter(e => e.agentThreadId === threadId),
+          relations: graph.relations.filter(r => r.agentThreadId === threadId)
+        }),
+        version: versions.get(threadId)!,
+        loadedAt
+      });
+    }
+    return graph;
+  }
+
+  async saveGraph(graph: KnowledgeGraph): Promise<void> {
+    try {
+      await this.storage.saveGraph(graph);
+    } finally {
+      this.invalidateAll();
+    }
+  }
+
+  async loadThreadGraph(threadId: string): Promise<KnowledgeGraph> {
+    if (isInRevisionScope()) {
+      return this.storage.loadThreadGraph(threadId);
+    }
+
+    const version = await this.threadVersion(threadId);
+    const entry = this.threads.get(threadId);
+    if (this.isFresh(entry, version)) {
+      this.hits++;
+      return structuredClone(entry.value);
+    }
+
+    this.misses++;
+    this.countStale(threadId, version);
+    const graph = await this.storage.loadThreadGraph(threadId);
+    this.threads.set(threadId, { value: structuredClone(graph), version, loadedAt: Date.now() });
+    return graph;
+  }
+
+  async listThreadIds(): Promise<string[]> {
+    if (isInRevisionScope()) {
+      return this.storage.listThreadIds();
+    }
+    return this.cachedThreadIds();
+  }
+
+  async saveThreadGraph(threadId: string, graph: KnowledgeGraph): Promise<void> {
+    try {
+      await this.storage.saveThreadGraph(threadId, graph);
+    } finally {
+      this.invalidateThread(threadId);
+    }
+  }
+
+  async upsertEntity(entity: Entity): Promise<void> {
+    try {
+      await this.storage.upsertEntity(entity);
+    } finally {
+      this.invalidateThread(entity.agentThreadId);
+    }
+  }
+
+  async deleteEntity(threadId: string, entityName: string): Promise<void> {
+    try {
+      await this.storage.deleteEntity(threadId, entityName);
+    } finally {
+      this.invalidateThread(threadId);
+    }
+  }
+
+  async renameEntity(threadId: string, entityName: string, renamed: Entity): Promise<void> {
+    try {
+      await this.storage.renameEntity(threadId, entityName, renamed);
+    } finally {
+      this.invalidateThread(threadId);
+    }
+  }
+
+  async appendObservation(threadId: string, entityName: string, observation: Observation): Promise<void> {
+    try {
+      await this.storage.appendObservation(threadId, entityName, observation);
+    } finally {
+      this.invalidateThread(threadId);
+    }
+  }
+
+  async upsertRelation(relation: Relation): Promise<void> {
+    try {
+      await this.storage.upsertRelation(relation);
+    } finally {
+      this.invalidateThread(relation.agentThreadId);
+    }
+  }
+
+  async deleteRelation(relation: Relation): Promise<void> {
+    try {
+      await this.storage.deleteRelation(relation);
+    } finally {
+      this.invalidateThread(relation.agentThreadId);
+    }
+  }
+
+  async loadEmbeddings(threadId: string): Promise<EmbeddingRecord[]> {
+    return this.storage.loadEmbeddings(threadId);
+  }
+
+  async saveEmbeddings(threadId: string, records: EmbeddingRecord[]): Promise<void> {
+    await this.storage.saveEmbeddings(threadId, records);
+  }
+
+  async loadTrash(threadId: string): Promise<TrashItem[]> {
+    return this.storage.loadTrash(threadId);
+  }
+
+  async addToTrash(threadId: string, items: TrashItem[]): Promise<void> {
+    await this.storage.addToTrash(threadId, items);
+  }
+
+  async removeFromTrash(threadId: string, itemIds: string[]): Promise<void> {
+    await this.storage.removeFromTrash(threadId, itemIds);
+  }
+
+  async appendAuditEntries(entries: AuditEntry[]): Promise<void> {
+    await this.storage.appendAuditEntries(entries);
+  }
+
+  async loadAuditLog(filter?: AuditLogFilter): Promise<AuditEntry[]> {
+    return this.storage.loadAuditLog(filter);
+  }
+
+  async listArchivedThreadIds(): Promise<string[]> {
+    return this.storage.listArchivedThreadIds();
+  }
+
+  async renameThread(threadId: string, newThreadId: string): Promise<void> {
+    try {
+      await this.storage.renameThread(threadId, newThreadId);
+    } finally {
+      this.invalidateThread(threadId);
+      this.invalidateThread(newThreadId);
+    }
+  }
+
+  async archiveThread(threadId: string): Promise<void> {
+    try {
+      await this.storage.archiveThread(threadId);
+    } finally {
+      this.invalidateThread(threadId);
+    }
+  }
+
+  async restoreThread(threadId: string): Promise<void> {
+    try {
+      await this.storage.restoreThread(threadId);
+    } finally {
+      this.invalidateThread(threadId);
+    }
+  }
+
+  async deleteThread(threadId: string): Promise<void> {
+    try {
+      await this.storage.deleteThread(threadId);
+    } finally {
+      this.invalidateThread(threadId);
+    }
+  }
+
+  async initialize(): Promise<void> {
+    await this.storage.initialize();
+  }
+}
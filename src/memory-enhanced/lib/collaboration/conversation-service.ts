@@ -2,11 +2,16 @@
  * Conversation service (agent threads)
  */
 
-import { Entity, Relation } from '../types.js';
+import { Entity, Relation, Observation, KnowledgeGraph, EntityNameClash, ThreadMergeReport } from '../types.js';
 import { IStorageAdapter } from '../storage-interface.js';
+import { stripGraphStatus } from '../queries/graph-reader.js';
+import { createRelationKey } from '../utils/relation-key.js';
+import { WORKSPACE_THREAD_PREFIX, checkNotWorkspace } from './workspace-service.js';
+import { randomUUID } from 'crypto';
 
 /**
  * List all conversations (agent threads) with summary information
+ * Workspaces and the subscription registry are not conversations and are left out.
  */
 export async function listConversations(storage: IStorageAdapter): Promise<{
   conversations: Array<{
@@ -47,19 +52,211 @@ export async function listConversations(storage: IStorageAdapter): Promise<{
   }
   
   // Build conversation summaries
-  const conversations = Array.from(threadMap.entries()).map(([agentThreadId, data]) => {
-    const timestamps = data.timestamps.sort((a, b) => a.localeCompare(b));
-    return {
-      agentThreadId,
-      entityCount: data.entities.length,
-      relationCount: data.relations.length,
-      firstCreated: timestamps[0] || '',
-      lastUpdated: timestamps[timestamps.length - 1] || ''
-    };
-  });
+  const conversations = Array.from(threadMap.entries())
+    .filter(([agentThreadId]) => !agentThreadId.startsWith(WORKSPACE_THREAD_PREFIX))
+    .map(([agentThreadId, data]) => {
+      const timestamps = data.timestamps.sort((a, b) => a.localeCompare(b));
+      return {
+        agentThreadId,
+        entityCount: data.entities.length,
+        relationCount: data.relations.length,
+        firstCreated: timestamps[0] || '',
+        lastUpdated: timestamps[timestamps.length - 1] || ''
+      };
+    });
   
   // Sort by last updated (most recent first)
   conversations.sort((a, b) => b.lastUpdated.localeCompare(a.lastUpdated));
   
   return { conversations };
 }
+
+/**
+ * Combine the observations of two entities with the same name
+ * Source observations already in the target (same ID and content, or same content) are skipped;
+ * the others are appended, with a new ID if theirs is taken. Version links are remapped to the
+ * IDs in the result, so chains that continue a skipped observation stay connected.
+ */
+function mergeObservations(
+  target: Observation[],
+  source: Observation[]
+): { observations: Observation[]; added: number; skipped: number } {
+  const byId = new Map(target.map(o => [o.id, o]));
+  const byContent = new Map(target.map(o => [o.content, o]));
+  const idMap = new Map<string, string>();
+  const added: Observation[] = [];
+
+  for (const observation of source) {
+    const sameId = byId.get(observation.id);
+    const existing = sameId?.content === observation.content ? sameId : byContent.get(observation.content);
+    if (existing) {
+      idMap.set(observation.id, existing.id);
+      continue;
+    }
+    const id = sameId ? `obs_${randomUUID()}` : observation.id;
+    idMap.set(observation.id, id);
+    added.push({ ...observation, id });
+  }
+
+  const remap = (id: string | undefined) => id === undefined ? undefined : idMap.get(id) ?? id;
+  const merged = target.map(o => ({ ...o }));
+  for (const observation of added) {
+    observation.supersedes = remap(observation.supersedes);
+    observation.superseded_by = remap(observation.superseded_by);
+    if (observation.supersedes === undefined) delete observation.supersedes;
+    if (observation.superseded_by === undefined) delete observation.superseded_by;
+
+    const older = merged.find(o => o.id === observation.supersedes);
+    if (older && older.superseded_by === undefined) {
+      older.superseded_by = observation.id;
+    }
+  }
+
+  return { observations: [...merged, ...added], added: added.length, skipped: source.length - added.length };
+}
+
+/**
+ * Write a source thread's entities and relations into the target thread
+ * Entities missing from the target are created; entities with the same name are combined
+ * (the target keeps its type and metadata, observations are merged with mergeObservations).
+ * Relations are de-duplicated by createRelationKey. The target is stored in a single write.
+ * @throws Error if the target thread is archived
+ */
+async function mergeGraphInto(
+  storage: IStorageAdapter,
+  source: KnowledgeGraph,
+  sourceThreadId: string,
+  targetThreadId: string
+): Promise<ThreadMergeReport> {
+  if ((await storage.listArchivedThreadIds()).includes(targetThreadId)) {
+    throw new Error(`Thread ${targetThreadId} is archived; restore it before merging into it`);
+  }
+  const target = stripGraphStatus(await storage.loadThreadGraph(targetThreadId));
+  const targetEntities = new Map(target.entities.map(e => [e.name, e]));
+  const createdEntities: string[] = [];
+  const clashes: EntityNameClash[] = [];
+
+  for (const entity of source.entities) {
+    const existing = targetEntities.get(entity.name);
+    if (!existing) {
+      targetEntities.set(entity.name, { ...entity, agentThreadId: targetThreadId });
+      createdEntities.push(entity.name);
+      continue;
+    }
+
+    const { observations, added, skipped } = mergeObservations(existing.observations, entity.observations);
+    if (added > 0) {
+      targetEntities.set(entity.name, {
+        ...existing,
+        observations,
+        timestamp: entity.timestamp > existing.timestamp ? entity.timestamp : existing.timestamp
+      });
+    }
+    clashes.push({
+      entityName: entity.name,
+      targetEntityType: existing.entityType,
+      sourceEntityType: entity.entityType,
+      addedObservations: added,
+      skippedObservations: skipped
+    });
+  }
+
+  const relations = [...target.relations];
+  const relationKeys = new Set(relations.map(createRelationKey));
+  for (const relation of source.relations) {
+    const key = createRelationKey(relation);
+    if (relationKeys.has(key)) continue;
+    relationKeys.add(key);
+    relations.push({ ...relation, agentThreadId: targetThreadId });
+  }
+  const addedRelations = relations.length - target.relations.length;
+
+  await storage.saveThreadGraph(targetThreadId, { entities: [...targetEntities.values()], relations });
+
+  return {
+    sourceThreadId,
+    targetThreadId,
+    createdEntities,
+    clashes,
+    addedRelations,
+    duplicateRelations: source.relations.length - addedRelations,
+    sourceDeleted: false
+  };
+}
+
+async function loadSourceThread(storage: IStorageAdapter, sourceThreadId: string, targetThreadId: string): Promise<KnowledgeGraph> {
+  checkNotWorkspace(sourceThreadId);
+  checkNotWorkspace(targetThreadId);
+  if (sourceThreadId === targetThreadId) {
+    throw new Error(`Source and target thread are the same: ${sourceThreadId}`);
+  }
+  const source = stripGraphStatus(await storage.loadThreadGraph(sourceThreadId));
+  if (source.entities.length === 0 && source.relations.length === 0) {
+    throw new Error(`Thread ${sourceThreadId} has no entities or relations`);
+  }
+  return source;
+}
+
+/**
+ * Start a new thread with a copy of another thread's memory
+ * Observations keep the agentThreadId of the thread that created them
+ * @throws Error if the target thread already holds data or is archived (use mergeThreads instead)
+ */
+export async function forkThread(
+  storage: IStorageAdapter,
+  sourceThreadId: string,
+  targetThreadId: string
+): Promise<ThreadMergeReport> {
+  const source = await loadSourceThread(storage, sourceThreadId, targetThreadId);
+  if ((await storage.listThreadIds()).includes(targetThreadId)) {
+    throw new Error(`Thread ${targetThreadId} already exists; use merge_threads to combine threads`);
+  }
+  if ((await storage.listArchivedThreadIds()).includes(targetThreadId)) {
+    throw new Error(`Thread ${targetThreadId} is archived; restore it and use merge_threads to combine threads`);
+  }
+  return mergeGraphInto(storage, source, sourceThreadId, targetThreadId);
+}
+
+/**
+ * Merge all entities and relations of the source thread into the target thread
+ * With deleteSource, the source thread is emptied in a second write once the target is stored.
+ * @throws Error if the target thread is archived
+ */
+export async function mergeThreads(
+  storage: IStorageAdapter,
+  sourceThreadId: string,
+  targetThreadId: string,
+  deleteSource: boolean = false
+): Promise<ThreadMergeReport> {
+  const source = await loadSourceThread(storage, sourceThreadId, targetThreadId);
+  const report = await mergeGraphInto(storage, source, sourceThreadId, targetThreadId);
+
+  if (deleteSource) {
+    await storage.saveThreadGraph(sourceThreadId, { entities: [], relations: [] });
+    report.sourceDeleted = true;
+  }
+  return report;
+}
+
+/**
+ * Copy some entities, and the relations between them, into another thread
+ * Entities that already exist in the target are combined as in mergeThreads.
+ * @throws Error if the target thread is archived
+ */
+export async function copyEntitiesToThread(
+  storage: IStorageAdapter,
+  sourceThreadId: string,
+  targetThreadId: string,
+  entityNames: string[]
+): Promise<ThreadMergeReport> {
+  const source = await loadSourceThread(storage, sourceThreadId, targetThreadId);
+  const names = new Set(entityNames);
+  const entities = source.entities.filter(e => names.has(e.name));
+  const missing = entityNames.find(name => !entities.some(e => e.name === name));
+  if (missing !== undefined) {
+    throw new Error(`Entity with name ${missing} not found in thread ${sourceThreadId}`);
+  }
+
+  const relations = source.relations.filter(r => names.has(r.from) && names.has(r.to));
+  return mergeGraphInto(storage, { entities, relations }, sourceThreadId, targetThreadId);
+}
@@ -4,6 +4,7 @@
 
 import { Entity, Observation } from '../types.js';
 import { IStorageAdapter } from '../storage-interface.js';
+import { checkNotWorkspace } from './workspace-service.js';
 import { randomUUID } from 'crypto';
 
 /**
@@ -17,8 +18,9 @@ export async function flagForReview(
   reason: string,
   reviewer?: string
 ): Promise<void> {
-  const graph = await storage.loadGraph();
-  const entity = graph.entities.find(e => e.name === entityName && e.agentThreadId === threadId);
+  checkNotWorkspace(threadId);
+  const graph = await storage.loadThreadGraph(threadId);
+  const entity = graph.entities.find(e => e.name === entityName);
   
   if (!entity) {
     throw new Error(`Entity with name ${entityName} not found in thread ${threadId}`);
@@ -39,9 +41,7 @@ export async function flagForReview(
       importance: 1.0  // Flag observations are highly important
     };
     
-    entity.observations.push(flagObservation);
-    entity.timestamp = new Date().toISOString();
-    await storage.saveGraph(graph);
+    await storage.appendObservation(threadId, entityName, flagObservation);
   }
 }
 
@@ -50,9 +50,8 @@ export async function flagForReview(
  * Filtered by threadId for thread isolation
  */
 export async function getFlaggedEntities(storage: IStorageAdapter, threadId: string): Promise<Entity[]> {
-  const graph = await storage.loadGraph();
+  const graph = await storage.loadThreadGraph(threadId);
   return graph.entities.filter(e => 
-    e.agentThreadId === threadId &&
     e.observations.some(obs => obs.content.includes('[FLAGGED FOR REVIEW:'))
   );
 }
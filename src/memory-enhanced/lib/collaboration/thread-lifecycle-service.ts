@@ -0,0 +1,106 @@
+/**
+ * Thread lifecycle: rename, archive, restore and delete whole threads, and archive
+ * threads that have not been written for a while (retention policy)
+ *
+ * Storage adapters move the data natively (JSONL moves thread files, SQLite moves rows,
+ * Neo4j relabels nodes). Workspace threads are managed by the workspace tools only.
+ */
+
+import { KnowledgeGraph, InactiveThread, RetentionReport } from '../types.js';
+import { IStorageAdapter } from '../storage-interface.js';
+import { WORKSPACE_THREAD_PREFIX, checkNotWorkspace, transferSubscriptions } from './workspace-service.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Move a thread to a new ID; its workspace subscriptions move with it
+ */
+export async function renameThread(storage: IStorageAdapter, threadId: string, newThreadId: string): Promise<void> {
+  checkNotWorkspace(threadId);
+  checkNotWorkspace(newThreadId);
+  await storage.renameThread(threadId, newThreadId);
+  await transferSubscriptions(storage, threadId, newThreadId);
+}
+
+/**
+ * Move a thread to archive storage; it keeps its workspace subscriptions for when it is restored
+ */
+export async function archiveThread(storage: IStorageAdapter, threadId: string): Promise<void> {
+  checkNotWorkspace(threadId);
+  await storage.archiveThread(threadId);
+}
+
+/**
+ * Move an archived thread back to active storage
+ */
+export async function restoreThread(storage: IStorageAdapter, threadId: string): Promise<void> {
+  checkNotWorkspace(threadId);
+  await storage.restoreThread(threadId);
+}
+
+/**
+ * Delete a thread, active or archived, and its workspace subscriptions
+ */
+export async function deleteThread(storage: IStorageAdapter, threadId: string): Promise<void> {
+  checkNotWorkspace(threadId);
+  await storage.deleteThread(threadId);
+  await transferSubscriptions(storage, threadId, null);
+}
+
+/**
+ * List archived thread IDs, sorted
+ */
+export async function listArchivedThreads(storage: IStorageAdapter): Promise<string[]> {
+  return (await storage.listArchivedThreadIds()).sort();
+}
+
+/**
+ * Get the latest entity, observation or relation timestamp of a thread
+ * Returns null if the thread has no valid timestamp
+ */
+function latestTimestamp(graph: KnowledgeGraph): string | null {
+  const timestamps = [
+    ...graph.entities.flatMap(e => [e.timestamp, ...e.observations.map(o => o.timestamp)]),
+    ...graph.relations.map(r => r.timestamp)
+  ];
+  let latest: string | null = null;
+  for (const timestamp of timestamps) {
+    const time = new Date(timestamp).getTime();
+    if (!Number.isNaN(time) && (latest === null || time > new Date(latest).getTime())) {
+      latest = timestamp;
+    }
+  }
+  return latest;
+}
+
+/**
+ * Archive the threads with no writes for the given number of days, oldest first
+ * Workspace threads are never archived; threads without a valid timestamp are kept.
+ * @param dryRun Only report the threads that would be archived
+ * @param now Reference time (defaults to the current time)
+ */
+export async function applyRetentionPolicy(
+  storage: IStorageAdapter,
+  archiveAfterDays: number,
+  dryRun: boolean = false,
+  now: Date = new Date()
+): Promise<RetentionReport> {
+  const cutoff = new Date(now.getTime() - archiveAfterDays * DAY_MS);
+  const inactive: InactiveThread[] = [];
+
+  for (const threadId of await storage.listThreadIds()) {
+    if (threadId.startsWith(WORKSPACE_THREAD_PREFIX)) continue;
+    const lastUpdated = latestTimestamp(await storage.loadThreadGraph(threadId));
+    if (lastUpdated !== null && new Date(lastUpdated) < cutoff) {
+      inactive.push({ threadId, lastUpdated });
+    }
+  }
+  inactive.sort((a, b) => new Date(a.lastUpdated).getTime() - new Date(b.lastUpdated).getTime());
+
+  if (!dryRun) {
+    for (const thread of inactive) {
+      await storage.archiveThread(thread.threadId);
+    }
+  }
+  return { archiveAfterDays, cutoff: cutoff.toISOString(), archivedThreads: inactive, dryRun };
+}
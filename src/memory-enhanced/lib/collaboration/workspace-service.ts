@@ -0,0 +1,231 @@
+/**
+ * Shared workspaces: named memory scopes that several threads can read
+ *
+ * A workspace is stored as a regular thread with the ID "@<name>", so every storage
+ * backend supports it. Subscriptions are kept as a small graph in the registry thread:
+ * (thread)-[subscribes to]->(workspace). Nothing is written to a workspace except
+ * through publishMemory().
+ */
+
+import { Entity, Relation, PublishResult, WorkspaceSummary } from '../types.js';
+import { IStorageAdapter } from '../storage-interface.js';
+import { stripGraphStatus } from '../queries/graph-reader.js';
+import { createRelationKey } from '../utils/relation-key.js';
+
+/**
+ * Prefix of the thread IDs that hold workspaces
+ */
+export const WORKSPACE_THREAD_PREFIX = '@';
+
+/**
+ * Workspace names must also be valid in file names (JSONL storage)
+ */
+export const WORKSPACE_NAME_PATTERN = /^[A-Za-z0-9][A-Za-z0-9_-]*$/;
+
+// Not a valid workspace name, so the registry can never collide with a workspace
+const REGISTRY_THREAD_ID = '@@subscriptions';
+const SUBSCRIBES_TO = 'subscribes to';
+
+/**
+ * Get the thread ID that stores a workspace
+ * @throws Error if the name is not a valid workspace name
+ */
+export function workspaceThreadId(workspace: string): string {
+  if (!WORKSPACE_NAME_PATTERN.test(workspace)) {
+    throw new Error(`Invalid workspace name '${workspace}': use letters, digits, '-' and '_'`);
+  }
+  return `${WORKSPACE_THREAD_PREFIX}${workspace}`;
+}
+
+/**
+ * Refuse a workspace or the subscription registry where a thread of an agent is expected
+ * @throws Error if the thread ID has the workspace prefix
+ */
+export function checkNotWorkspace(threadId: string): void {
+  if (threadId.startsWith(WORKSPACE_THREAD_PREFIX)) {
+    throw new Error(`Thread ${threadId} is a shared workspace; use the workspace tools to change it`);
+  }
+}
+
+function isWorkspaceThread(threadId: string): boolean {
+  return threadId.startsWith(WORKSPACE_THREAD_PREFIX) && threadId !== REGISTRY_THREAD_ID;
+}
+
+function registryEntity(name: string, entityType: string, timestamp: string): Entity {
+  return {
+    name,
+    entityType,
+    observations: [],
+    agentThreadId: REGISTRY_THREAD_ID,
+    timestamp,
+    confidence: 1.0,
+    importance: 1.0
+  };
+}
+
+/**
+ * Copy entities of a thread, with their observations, into a workspace
+ * Relations of the thread between published entities are copied too.
+ * Entities already in the workspace with the same name are replaced.
+ * Observations keep the agentThreadId of the thread that wrote them.
+ * The workspace is stored in a single write.
+ */
+export async function publishMemory(
+  storage: IStorageAdapter,
+  threadId: string,
+  workspace: string,
+  entityNames: string[]
+): Promise<PublishResult> {
+  const targetThreadId = workspaceThreadId(workspace);
+  const graph = stripGraphStatus(await storage.loadThreadGraph(threadId));
+  const names = new Set(entityNames);
+
+  const entities = graph.entities.filter(e => names.has(e.name));
+  const missing = entityNames.filter(name => !entities.some(e => e.name === name));
+  if (missing.length > 0) {
+    throw new Error(`Entity with name ${missing[0]} not found in thread ${threadId}`);
+  }
+  const relations = graph.relations.filter(r => names.has(r.from) && names.has(r.to));
+
+  const published = stripGraphStatus(await storage.loadThreadGraph(targetThreadId));
+  const workspaceEntities = new Map(published.entities.map(e => [e.name, e]));
+  for (const entity of entities) {
+    workspaceEntities.set(entity.name, { ...entity, agentThreadId: targetThreadId });
+  }
+  const workspaceRelations = new Map(published.relations.map(r => [createRelationKey(r), r]));
+  for (const relation of relations) {
+    workspaceRelations.set(createRelationKey(relation), { ...relation, agentThreadId: targetThreadId });
+  }
+  await storage.saveThreadGraph(targetThreadId, {
+    entities: [...workspaceEntities.values()],
+    relations: [...workspaceRelations.values()]
+  });
+
+  return { workspace, publishedEntities: entities.length, publishedRelations: relations.length };
+}
+
+/**
+ * Get the workspaces a thread reads, sorted by name
+ */
+export async function listSubscriptions(storage: IStorageAdapter, threadId: string): Promise<string[]> {
+  // Every merged read gets here; the thread list is much cheaper than loading the
+  // registry, and it is missing as long as no thread has subscribed to anything
+  if (!(await storage.listThreadIds()).includes(REGISTRY_THREAD_ID)) {
+    return [];
+  }
+  const registry = await storage.loadThreadGraph(REGISTRY_THREAD_ID);
+  return registry.relations
+    .filter(r => r.from === threadId && r.relationType === SUBSCRIBES_TO)
+    .map(r => r.to)
+    .sort();
+}
+
+/**
+ * Let a thread read a workspace; the workspace does not need to hold data yet
+ * @returns The thread's subscriptions after the change
+ */
+export async function subscribe(storage: IStorageAdapter, threadId: string, workspace: string): Promise<string[]> {
+  workspaceThreadId(workspace);
+  const timestamp = new Date().toISOString();
+
+  await storage.upsertEntity(registryEntity(threadId, 'Thread', timestamp));
+  await storage.upsertEntity(registryEntity(workspace, 'Workspace', timestamp));
+  await storage.upsertRelation({
+    from: threadId,
+    to: workspace,
+    relationType: SUBSCRIBES_TO,
+    agentThreadId: REGISTRY_THREAD_ID,
+    timestamp,
+    confidence: 1.0,
+    importance: 1.0
+  });
+  return listSubscriptions(storage, threadId);
+}
+
+/**
+ * Stop a thread from reading a workspace; the workspace's data is kept
+ * @returns The thread's subscriptions after the change
+ */
+export async function unsubscribe(storage: IStorageAdapter, threadId: string, workspace: string): Promise<string[]> {
+  const subscriptions = await listSubscriptions(storage, threadId);
+  if (!subscriptions.includes(workspace)) {
+    return subscriptions;
+  }
+
+  const remaining = subscriptions.filter(name => name !== workspace);
+  if (remaining.length === 0) {
+    // Deleting the thread's registry entity also deletes its last relation
+    await storage.deleteEntity(REGISTRY_THREAD_ID, threadId);
+  } else {
+    const registry = await storage.loadThreadGraph(REGISTRY_THREAD_ID);
+    const relation = registry.relations.find(r => r.from === threadId && r.to === workspace && r.relationType === SUBSCRIBES_TO)!;
+    await storage.deleteRelation(relation);
+  }
+  return remaining;
+}
+
+/**
+ * Move a thread's subscriptions to another thread, or drop them when newThreadId is null
+ * Used when a thread is renamed or deleted
+ */
+export async function transferSubscriptions(storage: IStorageAdapter, threadId: string, newThreadId: string | null): Promise<void> {
+  for (const workspace of await listSubscriptions(storage, threadId)) {
+    if (newThreadId !== null) {
+      await subscribe(storage, newThreadId, workspace);
+    }
+    await unsubscribe(storage, threadId, workspace);
+  }
+}
+
+/**
+ * List the workspaces that hold data or have subscribers
+ */
+export async function listWorkspaces(storage: IStorageAdapter): Promise<WorkspaceSummary[]> {
+  const registry = await storage.loadThreadGraph(REGISTRY_THREAD_ID);
+  const names = new Set(registry.entities.filter(e => e.entityType === 'Workspace').map(e => e.name));
+  for (const threadId of await storage.listThreadIds()) {
+    if (isWorkspaceThread(threadId)) {
+      names.add(threadId.slice(WORKSPACE_THREAD_PREFIX.length));
+    }
+  }
+
+  const summaries: WorkspaceSummary[] = [];
+  for (const name of Array.from(names).sort()) {
+    const graph = await storage.loadThreadGraph(workspaceThreadId(name));
+    summaries.push({
+      name,
+      entityCount: graph.entities.length,
+      relationCount: graph.relations.length,
+      subscribers: registry.relations
+        .filter(r => r.to === name && r.relationType === SUBSCRIBES_TO)
+        .map(r => r.from)
+        .sort()
+    });
+  }
+  return summaries;
+}
+
+/**
+ * Run a read on a thread and on each workspace it subscribes to, and merge the results
+ * Entities and relations from a workspace carry its name in the workspace field; the
+ * thread's own results come first and are returned unchanged.
+ */
+export async function withSharedMemory<E extends Entity, G extends { entities: E[]; relations: Relation[] }>(
+  storage: IStorageAdapter,
+  threadId: string,
+  read: (threadId: string) => Promise<G>
+): Promise<G> {
+  const own = await read(threadId);
+  const workspaces = await listSubscriptions(storage, threadId);
+  if (workspaces.length === 0) {
+    return own;
+  }
+
+  const merged: G = { ...own, entities: [...own.entities], relations: [...own.relations] };
+  for (const workspace of workspaces) {
+    const shared = await read(workspaceThreadId(workspace));
+    merged.entities.push(...shared.entities.map(e => ({ ...e, workspace })));
+    merged.relations.push(...shared.relations.map(r => ({ ...r, workspace })));
+  }
+  return merged;
+}
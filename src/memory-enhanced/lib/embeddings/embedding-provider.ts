@@ -0,0 +1,49 @@
+/**
+ * Embedding provider interface
+ * Turns text into fixed-length vectors for semantic_search.
+ * Implement this to plug in a model-backed provider; HashedEmbeddingProvider is the offline default.
+ */
+
+import { createHash } from 'crypto';
+
+export interface EmbeddingProvider {
+  /**
+   * Identifies the model; stored with each vector so a provider change triggers re-embedding
+   */
+  readonly id: string;
+
+  /**
+   * Length of the vectors returned by embed()
+   */
+  readonly dimensions: number;
+
+  /**
+   * Embed a batch of texts, returning one vector per text in the same order
+   */
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+/**
+ * Cosine similarity of two vectors (0 if either is all zeros or the lengths differ)
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length) return 0;
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  if (normA === 0 || normB === 0) return 0;
+  return dot / Math.sqrt(normA * normB);
+}
+
+/**
+ * Hash of the text a vector was computed from, used to detect stale vectors
+ */
+export function hashContent(text: string): string {
+  return createHash('sha256').update(text).digest('hex').slice(0, 16);
+}
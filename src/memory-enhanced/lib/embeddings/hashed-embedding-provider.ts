@@ -0,0 +1,82 @@
+/**
+ * Offline embedding provider using the hashing trick
+ * Embeds the stemmed terms of a text, plus their character trigrams at a lower weight,
+ * into a fixed number of dimensions. Needs no model or network access.
+ *
+ * Stemming lets "deploying" match "deployed"; trigrams give partial credit to
+ * related word forms the stemmer does not join (e.g. "database" and "databases").
+ */
+
+import { analyze } from '../search/tokenizer.js';
+import { EmbeddingProvider } from './embedding-provider.js';
+
+export const DEFAULT_EMBEDDING_DIMENSIONS = 512;
+
+/**
+ * Weight of one character trigram relative to a whole term
+ */
+const TRIGRAM_WEIGHT = 0.5;
+
+/**
+ * Vector components are rounded to keep stored vectors compact
+ */
+const VECTOR_PRECISION = 6;
+
+/**
+ * 32-bit FNV-1a hash
+ */
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Character trigrams of a term padded with boundary markers ("api" -> "#ap", "api", "pi#")
+ */
+function trigrams(term: string): string[] {
+  const padded = `#${term}#`;
+  const result: string[] = [];
+  for (let i = 0; i + 3 <= padded.length; i++) {
+    result.push(padded.slice(i, i + 3));
+  }
+  return result;
+}
+
+export class HashedEmbeddingProvider implements EmbeddingProvider {
+  readonly id: string;
+  readonly dimensions: number;
+
+  constructor(dimensions: number = DEFAULT_EMBEDDING_DIMENSIONS) {
+    this.dimensions = dimensions;
+    this.id = `hashed-bow-${dimensions}`;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => this.embedText(text));
+  }
+
+  private embedText(text: string): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0);
+    const addFeature = (feature: string, weight: number) => {
+      const hash = fnv1a(feature);
+      // The top bit picks the sign so unrelated collisions tend to cancel out
+      vector[hash % this.dimensions] += (hash & 0x80000000) ? -weight : weight;
+    };
+
+    for (const term of analyze(text)) {
+      addFeature(`t:${term}`, 1);
+      for (const trigram of trigrams(term)) {
+        addFeature(`g:${trigram}`, TRIGRAM_WEIGHT);
+      }
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    if (norm === 0) return vector;
+    const scale = 10 ** VECTOR_PRECISION;
+    return vector.map(value => Math.round(value / norm * scale) / scale);
+  }
+}
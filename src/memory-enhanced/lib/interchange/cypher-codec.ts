@@ -0,0 +1,315 @@
+/**
+ * Cypher codec
+ * Writes one MERGE statement per line, using the same node and relationship layout as
+ * Neo4jStorageAdapter (:Observation nodes linked by HAS_OBSERVATION and SUPERSEDES), so a
+ * script can be run with cypher-shell against a Neo4j backend. parse() reads scripts in
+ * that same layout, and scripts from earlier versions with observations as a JSON string.
+ */
+
+import { Entity, Relation, Observation, KnowledgeGraph } from '../types.js';
+import { GraphCodec, invalidData } from './graph-format.js';
+
+type CypherValue = string | number | boolean | null | string[];
+
+const ENTITY_PREFIX = 'MERGE (e:Entity ';
+const OBSERVATION_PREFIX = 'MATCH (e:Entity ';
+const RELATION_PREFIX = 'MATCH (from:Entity ';
+const OBSERVATION_FIELDS = ['content', 'timestamp', 'version', 'supersedes', 'superseded_by', 'agentThreadId', 'confidence', 'importance'] as const;
+
+function formatValue(value: CypherValue): string {
+  if (Array.isArray(value)) return `[${value.map(formatValue).join(', ')}]`;
+  if (typeof value !== 'string') return String(value);
+  const escaped = value
+    .replace(/\\/g, '\\\\')
+    .replace(/'/g, "\\'")
+    .replace(/\n/g, '\\n')
+    .replace(/\r/g, '\\r')
+    .replace(/\t/g, '\\t');
+  return `'${escaped}'`;
+}
+
+function formatMap(values: Record<string, CypherValue>): string {
+  return `{${Object.entries(values).map(([key, value]) => `${key}: ${formatValue(value)}`).join(', ')}}`;
+}
+
+function formatAssignments(variable: string, values: Record<string, CypherValue>): string {
+  return Object.entries(values).map(([key, value]) => `${variable}.${key} = ${formatValue(value)}`).join(', ');
+}
+
+const STRING_UNESCAPES: Record<string, string> = { n: '\n', r: '\r', t: '\t', b: '\b', f: '\f' };
+
+/**
+ * Cursor over one statement of a script in the layout written by serialize()
+ */
+class StatementReader {
+  private position = 0;
+
+  constructor(private readonly text: string, private readonly lineNumber: number) {}
+
+  fail(message: string): Error {
+    return invalidData('cypher', `line ${this.lineNumber}: ${message}`);
+  }
+
+  private skipSpaces(): void {
+    while (this.position < this.text.length && /\s/.test(this.text[this.position])) this.position++;
+  }
+
+  expect(token: string): void {
+    this.skipSpaces();
+    if (!this.text.startsWith(token, this.position)) {
+      throw this.fail(`expected '${token}'`);
+    }
+    this.position += token.length;
+  }
+
+  tryConsume(token: string): boolean {
+    this.skipSpaces();
+    if (!this.text.startsWith(token, this.position)) return false;
+    this.position += token.length;
+    return true;
+  }
+
+  atEnd(): boolean {
+    this.skipSpaces();
+    return this.position >= this.text.length;
+  }
+
+  private readIdentifier(): string {
+    this.skipSpaces();
+    const match = /^[A-Za-z_][A-Za-z0-9_]*/.exec(this.text.slice(this.position));
+    if (!match) throw this.fail('expected a property name');
+    this.position += match[0].length;
+    return match[0];
+  }
+
+  private readStringList(): string[] {
+    this.expect('[');
+    const values: string[] = [];
+    if (this.tryConsume(']')) return values;
+    do {
+      this.skipSpaces();
+      const char = this.text[this.position];
+      if (char !== "'" && char !== '"') throw this.fail('expected a string in the list');
+      values.push(this.readString());
+    } while (this.tryConsume(','));
+    this.expect(']');
+    return values;
+  }
+
+  private readString(): string {
+    const quote = this.text[this.position++];
+    let value = '';
+    while (this.position < this.text.length) {
+      const char = this.text[this.position++];
+      if (char === quote) return value;
+      if (char !== '\\') {
+        value += char;
+        continue;
+      }
+      const escaped = this.text[this.position++];
+      if (escaped === 'u') {
+        value += String.fromCharCode(parseInt(this.text.slice(this.position, this.position + 4), 16));
+        this.position += 4;
+      } else {
+        value += STRING_UNESCAPES[escaped] ?? escaped;
+      }
+    }
+    throw this.fail('unterminated string');
+  }
+
+  private readValue(): CypherValue {
+    this.skipSpaces();
+    const char = this.text[this.position];
+    if (char === "'" || char === '"') return this.readString();
+    if (char === '[') return this.readStringList();
+
+    const match = /^(-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?|true|false|null)/.exec(this.text.slice(this.position));
+    if (!match) throw this.fail('expected a string, number, boolean or null');
+    this.position += match[0].length;
+    if (match[0] === 'true' || match[0] === 'false') return match[0] === 'true';
+    if (match[0] === 'null') return null;
+    return Number(match[0]);
+  }
+
+  readMap(): Record<string, CypherValue> {
+    this.expect('{');
+    const values: Record<string, CypherValue> = {};
+    if (this.tryConsume('}')) return values;
+    do {
+      const key = this.readIdentifier();
+      this.expect(':');
+      values[key] = this.readValue();
+    } while (this.tryConsume(','));
+    this.expect('}');
+    return values;
+  }
+
+  /**
+   * Read "variable.key = value, ..." assignments of a SET clause
+   */
+  readAssignments(variable: string): Record<string, CypherValue> {
+    const values: Record<string, CypherValue> = {};
+    do {
+      this.expect(`${variable}.`);
+      const key = this.readIdentifier();
+      this.expect('=');
+      values[key] = this.readValue();
+    } while (this.tryConsume(','));
+    return values;
+  }
+}
+
+function entityKey(identity: Record<string, CypherValue>): string {
+  return JSON.stringify([identity.name, identity.agentThreadId]);
+}
+
+function parseEntity(reader: StatementReader): Entity {
+  reader.expect(ENTITY_PREFIX);
+  const identity = reader.readMap();
+  reader.expect(')');
+  reader.expect('SET');
+  const { observations, observationText: _observationText, ...properties } = reader.readAssignments('e');
+
+  // Scripts from earlier versions carry the observations as a JSON string
+  let parsedObservations: unknown;
+  try {
+    parsedObservations = JSON.parse(String(observations ?? '[]'));
+  } catch {
+    throw reader.fail('observations are not valid JSON');
+  }
+  return { ...identity, ...properties, observations: parsedObservations } as unknown as Entity;
+}
+
+/**
+ * Read an observation statement; returns null for SUPERSEDES statements, which repeat
+ * the supersedes property of the observation nodes
+ */
+function parseObservation(reader: StatementReader): { entityKey: string; position: number; observation: Observation } | null {
+  reader.expect(OBSERVATION_PREFIX);
+  const identity = reader.readMap();
+  if (reader.tryConsume(')-[:HAS_OBSERVATION]->(newer:Observation')) {
+    reader.readMap();
+    reader.expect(') MATCH (e)-[:HAS_OBSERVATION]->(older:Observation');
+    reader.readMap();
+    reader.expect(') MERGE (newer)-[:SUPERSEDES]->(older)');
+    return null;
+  }
+  reader.expect(') MERGE (e)-[:HAS_OBSERVATION]->(o:Observation');
+  const { id } = reader.readMap();
+  reader.expect(')');
+  reader.expect('SET');
+  const { position, ...properties } = reader.readAssignments('o');
+  return {
+    entityKey: entityKey(identity),
+    position: Number(position),
+    observation: { id, ...properties } as unknown as Observation
+  };
+}
+
+function parseRelation(reader: StatementReader): Relation {
+  reader.expect(RELATION_PREFIX);
+  const { name: from } = reader.readMap();
+  reader.expect(')');
+  reader.expect('MATCH (to:Entity');
+  const { name: to } = reader.readMap();
+  reader.expect(')');
+  reader.expect('MERGE (from)-[r:RELATES_TO');
+  const identity = reader.readMap();
+  reader.expect(']->(to)');
+  reader.expect('SET');
+  const properties = reader.readAssignments('r');
+  return { from, to, ...identity, ...properties } as unknown as Relation;
+}
+
+export const cypherCodec: GraphCodec = {
+  serialize(graph: KnowledgeGraph): string {
+    const lines = [`// Knowledge graph export: ${graph.entities.length} entities, ${graph.relations.length} relations`];
+
+    for (const entity of graph.entities) {
+      const identity = formatMap({ name: entity.name, agentThreadId: entity.agentThreadId });
+      const properties = formatAssignments('e', {
+        entityType: entity.entityType,
+        observationText: entity.observations.map(observation => observation.content).join('\n'),
+        timestamp: entity.timestamp,
+        confidence: entity.confidence,
+        importance: entity.importance,
+        ...(entity.aliases !== undefined && { aliases: entity.aliases })
+      });
+      lines.push(`${ENTITY_PREFIX}${identity}) SET ${properties};`);
+
+      entity.observations.forEach((observation, position) => {
+        const values: Record<string, CypherValue> = {};
+        for (const field of OBSERVATION_FIELDS) {
+          if (observation[field] !== undefined) values[field] = observation[field]!;
+        }
+        lines.push(
+          `${OBSERVATION_PREFIX}${identity}) MERGE (e)-[:HAS_OBSERVATION]->(o:Observation ${formatMap({ id: observation.id })}) ` +
+          `SET ${formatAssignments('o', { ...values, position })};`
+        );
+      });
+      for (const observation of entity.observations.filter(o => o.supersedes)) {
+        lines.push(
+          `${OBSERVATION_PREFIX}${identity})-[:HAS_OBSERVATION]->(newer:Observation ${formatMap({ id: observation.id })}) ` +
+          `MATCH (e)-[:HAS_OBSERVATION]->(older:Observation ${formatMap({ id: observation.supersedes! })}) ` +
+          `MERGE (newer)-[:SUPERSEDES]->(older);`
+        );
+      }
+    }
+
+    // Endpoints are the relation's thread entities, like RELATION_QUERIES in neo4j-queries.ts
+    for (const relation of graph.relations) {
+      const identity = formatMap({ relationType: relation.relationType, agentThreadId: relation.agentThreadId });
+      const from = formatMap({ name: relation.from, agentThreadId: relation.agentThreadId });
+      const to = formatMap({ name: relation.to, agentThreadId: relation.agentThreadId });
+      const properties = formatAssignments('r', {
+        timestamp: relation.timestamp,
+        confidence: relation.confidence,
+        importance: relation.importance
+      });
+      lines.push(
+        `${RELATION_PREFIX}${from}) MATCH (to:Entity ${to}) ` +
+        `MERGE (from)-[r:RELATES_TO ${identity}]->(to) SET ${properties};`
+      );
+    }
+
+    return lines.join('\n');
+  },
+
+  parse(data: string): KnowledgeGraph {
+    const graph: KnowledgeGraph = { entities: [], relations: [] };
+    const entitiesByKey = new Map<string, Entity>();
+    const positions = new Map<Observation, number>();
+
+    data.split('\n').forEach((line, index) => {
+      const statement = line.trim();
+      if (statement === '' || statement.startsWith('//')) return;
+
+      const reader = new StatementReader(statement.replace(/;$/, ''), index + 1);
+      if (statement.startsWith(ENTITY_PREFIX)) {
+        const entity = parseEntity(reader);
+        graph.entities.push(entity);
+        entitiesByKey.set(entityKey(entity as unknown as Record<string, CypherValue>), entity);
+      } else if (statement.startsWith(OBSERVATION_PREFIX)) {
+        const parsed = parseObservation(reader);
+        if (parsed) {
+          const entity = entitiesByKey.get(parsed.entityKey);
+          if (!entity) throw reader.fail('observation of an entity that was not defined before it');
+          entity.observations.push(parsed.observation);
+          positions.set(parsed.observation, parsed.position);
+        }
+      } else if (statement.startsWith(RELATION_PREFIX)) {
+        graph.relations.push(parseRelation(reader));
+      } else {
+        throw reader.fail('unsupported statement');
+      }
+      if (!reader.atEnd()) {
+        throw reader.fail('unexpected text after statement');
+      }
+    });
+
+    for (const entity of graph.entities) {
+      entity.observations.sort((a, b) => (positions.get(a) ?? 0) - (positions.get(b) ?? 0));
+    }
+    return graph;
+  }
+};
@@ -0,0 +1,25 @@
+/**
+ * Shared definitions for the export_graph / import_graph file formats
+ */
+
+import { KnowledgeGraph } from '../types.js';
+
+export const GRAPH_FORMATS = ['jsonl', 'graphml', 'cypher', 'turtle', 'ntriples'] as const;
+
+export type GraphFormat = typeof GRAPH_FORMATS[number];
+
+/**
+ * Serializes a knowledge graph to one text format and parses it back
+ * parse() only checks syntax; field validation happens once in graph-transfer.ts
+ */
+export interface GraphCodec {
+  serialize(graph: KnowledgeGraph): string;
+  parse(data: string): KnowledgeGraph;
+}
+
+/**
+ * Error for data that cannot be parsed in the requested format
+ */
+export function invalidData(format: GraphFormat, message: string): Error {
+  return new Error(`Invalid ${format} data: ${message}`);
+}
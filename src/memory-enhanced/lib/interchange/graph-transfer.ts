@@ -0,0 +1,143 @@
+/**
+ * Graph export and import service
+ * Moves a thread, or all threads, between storage backends and external tools
+ * in one of the formats listed in graph-format.ts
+ */
+
+import { Entity, Observation, Relation, KnowledgeGraph, GraphExport, GraphImportResult } from '../types.js';
+import { IStorageAdapter } from '../storage-interface.js';
+import { stripGraphStatus } from '../queries/graph-reader.js';
+import { GraphCodec, GraphFormat, invalidData } from './graph-format.js';
+import { jsonlCodec } from './jsonl-codec.js';
+import { graphmlCodec } from './graphml-codec.js';
+import { cypherCodec } from './cypher-codec.js';
+import { turtleCodec, nTriplesCodec } from './rdf-codec.js';
+
+const CODECS: Record<GraphFormat, GraphCodec> = {
+  jsonl: jsonlCodec,
+  graphml: graphmlCodec,
+  cypher: cypherCodec,
+  turtle: turtleCodec,
+  ntriples: nTriplesCodec
+};
+
+const isNonEmptyString = (value: unknown): value is string => typeof value === 'string' && value.trim().length > 0;
+const isScore = (value: unknown): boolean => typeof value === 'number' && value >= 0 && value <= 1;
+
+/**
+ * Check the fields of an imported observation, returning the problem or null
+ */
+function observationProblem(obs: Observation): string | null {
+  if (!isNonEmptyString(obs.id)) return 'an observation has no id';
+  if (typeof obs.content !== 'string') return `observation '${obs.id}' has no content`;
+  if (!isNonEmptyString(obs.timestamp)) return `observation '${obs.id}' has no timestamp`;
+  if (!Number.isInteger(obs.version) || obs.version < 1) return `observation '${obs.id}' has an invalid version`;
+  if (!isNonEmptyString(obs.agentThreadId)) return `observation '${obs.id}' has no agentThreadId`;
+  if (obs.supersedes !== undefined && typeof obs.supersedes !== 'string') return `observation '${obs.id}' has an invalid supersedes`;
+  if (obs.superseded_by !== undefined && typeof obs.superseded_by !== 'string') return `observation '${obs.id}' has an invalid superseded_by`;
+  if (obs.confidence !== undefined && !isScore(obs.confidence)) return `observation '${obs.id}' has an invalid confidence`;
+  if (obs.importance !== undefined && !isScore(obs.importance)) return `observation '${obs.id}' has an invalid importance`;
+  return null;
+}
+
+function entityProblem(entity: Entity): string | null {
+  if (!isNonEmptyString(entity.name)) return 'an entity has no name';
+  const label = `entity '${entity.name}'`;
+  if (!isNonEmptyString(entity.entityType)) return `${label} has no entityType`;
+  if (!isNonEmptyString(entity.agentThreadId)) return `${label} has no agentThreadId`;
+  if (!isNonEmptyString(entity.timestamp)) return `${label} has no timestamp`;
+  if (!isScore(entity.confidence)) return `${label} has an invalid confidence`;
+  if (!isScore(entity.importance)) return `${label} has an invalid importance`;
+  if (entity.aliases !== undefined && !(Array.isArray(entity.aliases) && entity.aliases.every(isNonEmptyString))) {
+    return `${label} has invalid aliases`;
+  }
+  if (!Array.isArray(entity.observations)) return `${label} has no observations array`;
+  for (const obs of entity.observations) {
+    const problem = typeof obs === 'object' && obs !== null ? observationProblem(obs) : 'an observation is not an object';
+    if (problem) return `${label}: ${problem}`;
+  }
+  return null;
+}
+
+function relationProblem(relation: Relation): string | null {
+  if (!isNonEmptyString(relation.from) || !isNonEmptyString(relation.to)) return 'a relation has no from or to';
+  const label = `relation '${relation.from}' -> '${relation.to}'`;
+  if (!isNonEmptyString(relation.relationType)) return `${label} has no relationType`;
+  if (!isNonEmptyString(relation.agentThreadId)) return `${label} has no agentThreadId`;
+  if (!isNonEmptyString(relation.timestamp)) return `${label} has no timestamp`;
+  if (!isScore(relation.confidence)) return `${label} has an invalid confidence`;
+  if (!isScore(relation.importance)) return `${label} has an invalid importance`;
+  return null;
+}
+
+/**
+ * Validate a parsed graph before anything is written, so a bad file imports nothing
+ */
+function validateImportedGraph(graph: KnowledgeGraph, format: GraphFormat): void {
+  const problem = graph.entities.map(entityProblem).find(p => p !== null)
+    ?? graph.relations.map(relationProblem).find(p => p !== null);
+  if (problem) {
+    throw invalidData(format, problem);
+  }
+}
+
+/**
+ * Serialize one thread, or all threads when threadId is omitted
+ * Computed status values are stripped; everything else, including observation
+ * version chains and confidence/importance metadata, is exported as stored
+ */
+export async function exportGraph(
+  storage: IStorageAdapter,
+  format: GraphFormat,
+  threadId?: string
+): Promise<GraphExport> {
+  const graph = stripGraphStatus(
+    threadId !== undefined ? await storage.loadThreadGraph(threadId) : await storage.loadGraph()
+  );
+
+  return {
+    format,
+    entityCount: graph.entities.length,
+    relationCount: graph.relations.length,
+    data: CODECS[format].serialize(graph)
+  };
+}
+
+/**
+ * Parse exported data and write it through the incremental storage API
+ * Entities and relations with the same identity as existing ones replace them; nothing else is touched.
+ * When threadId is given, every imported entity and relation is moved into that thread
+ * (observations keep the thread that created them).
+ */
+export async function importGraph(
+  storage: IStorageAdapter,
+  format: GraphFormat,
+  data: string,
+  threadId?: string
+): Promise<GraphImportResult> {
+  const graph = CODECS[format].parse(data);
+  validateImportedGraph(graph, format);
+
+  const entities = threadId !== undefined
+    ? graph.entities.map(entity => ({ ...entity, agentThreadId: threadId }))
+    : graph.entities;
+  const relations = threadId !== undefined
+    ? graph.relations.map(relation => ({ ...relation, agentThreadId: threadId }))
+    : graph.relations;
+
+  // Entities first so backends that link relations to entity nodes find both endpoints
+  for (const entity of entities) {
+    await storage.upsertEntity(entity);
+  }
+  for (const relation of relations) {
+    await storage.upsertRelation(relation);
+  }
+
+  const threadIds = new Set([...entities.map(e => e.agentThreadId), ...relations.map(r => r.agentThreadId)]);
+  return {
+    format,
+    importedEntities: entities.length,
+    importedRelations: relations.length,
+    threadIds: Array.from(threadIds)
+  };
+}
@@ -0,0 +1,198 @@
+/**
+ * GraphML codec
+ * Entities become nodes and relations become directed edges, so an export opens
+ * directly in graph viewers such as Gephi, yEd or Cytoscape.
+ * Observations are kept as a JSON array in one node attribute to preserve version chains.
+ */
+
+import { Entity, Relation, KnowledgeGraph } from '../types.js';
+import { GraphCodec, invalidData } from './graph-format.js';
+
+const GRAPHML_NAMESPACE = 'http://graphml.graphdrawing.org/xmlns';
+
+type AttributeType = 'string' | 'double';
+
+interface GraphmlKey {
+  id: string;
+  for: 'node' | 'edge';
+  name: string;
+  type: AttributeType;
+}
+
+const NODE_KEYS: GraphmlKey[] = [
+  { id: 'name', for: 'node', name: 'name', type: 'string' },
+  { id: 'entityType', for: 'node', name: 'entityType', type: 'string' },
+  { id: 'agentThreadId', for: 'node', name: 'agentThreadId', type: 'string' },
+  { id: 'timestamp', for: 'node', name: 'timestamp', type: 'string' },
+  { id: 'confidence', for: 'node', name: 'confidence', type: 'double' },
+  { id: 'importance', for: 'node', name: 'importance', type: 'double' },
+  { id: 'observations', for: 'node', name: 'observations', type: 'string' },
+  { id: 'aliases', for: 'node', name: 'aliases', type: 'string' }
+];
+
+// Keys written for nodes that only stand in for a relation endpoint
+const REFERENCE_NODE_KEYS = NODE_KEYS.filter(key => key.name === 'name' || key.name === 'agentThreadId');
+
+// Edge key IDs are prefixed because GraphML key IDs share one namespace
+const EDGE_KEYS: GraphmlKey[] = [
+  { id: 'e_relationType', for: 'edge', name: 'relationType', type: 'string' },
+  { id: 'e_agentThreadId', for: 'edge', name: 'agentThreadId', type: 'string' },
+  { id: 'e_timestamp', for: 'edge', name: 'timestamp', type: 'string' },
+  { id: 'e_confidence', for: 'edge', name: 'confidence', type: 'double' },
+  { id: 'e_importance', for: 'edge', name: 'importance', type: 'double' }
+];
+
+const XML_ESCAPES: Record<string, string> = { '&': '&amp;', '<': '&lt;', '>': '&gt;' };
+const XML_UNESCAPES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+/**
+ * Escape element text (all attribute values written by serialize() are generated IDs)
+ */
+function escapeXml(value: string): string {
+  return value.replace(/[&<>]/g, char => XML_ESCAPES[char]);
+}
+
+function unescapeXml(value: string): string {
+  return value.replace(/&(#x[0-9a-fA-F]+|#[0-9]+|[a-z]+);/g, (match, entity: string) => {
+    if (entity.startsWith('#x')) return String.fromCodePoint(parseInt(entity.slice(2), 16));
+    if (entity.startsWith('#')) return String.fromCodePoint(parseInt(entity.slice(1), 10));
+    return XML_UNESCAPES[entity] ?? match;
+  });
+}
+
+/**
+ * Parse the attributes of a start tag into a map
+ */
+function parseAttributes(tag: string): Map<string, string> {
+  const attributes = new Map<string, string>();
+  for (const match of tag.matchAll(/([\w.:-]+)\s*=\s*("([^"]*)"|'([^']*)')/g)) {
+    attributes.set(match[1], unescapeXml(match[3] ?? match[4]));
+  }
+  return attributes;
+}
+
+/**
+ * Write a data element for each key that has a value
+ */
+function dataElements(keys: GraphmlKey[], values: Record<string, string | number | undefined>, indent: string): string[] {
+  return keys
+    .filter(key => values[key.name] !== undefined)
+    .map(key => `${indent}<data key="${key.id}">${escapeXml(String(values[key.name]))}</data>`);
+}
+
+const nodeKey = (threadId: string, name: string) => `${threadId}\u0000${name}`;
+
+export const graphmlCodec: GraphCodec = {
+  serialize(graph: KnowledgeGraph): string {
+    const lines = [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      `<graphml xmlns="${GRAPHML_NAMESPACE}">`,
+      ...[...NODE_KEYS, ...EDGE_KEYS].map(key =>
+        `  <key id="${key.id}" for="${key.for}" attr.name="${key.name}" attr.type="${key.type}"/>`
+      ),
+      '  <graph id="memory" edgedefault="directed">'
+    ];
+
+    const nodeIds = new Map<string, string>();
+    graph.entities.forEach(entity => {
+      const id = `n${nodeIds.size}`;
+      nodeIds.set(nodeKey(entity.agentThreadId, entity.name), id);
+      lines.push(`    <node id="${id}">`);
+      lines.push(...dataElements(NODE_KEYS, {
+        ...entity,
+        observations: JSON.stringify(entity.observations),
+        aliases: entity.aliases && JSON.stringify(entity.aliases)
+      }, '      '));
+      lines.push('    </node>');
+    });
+
+    // Relations may point at entities outside the export; those get a reference node
+    // carrying only the name and thread, which parse() does not turn into an entity
+    const resolveNode = (threadId: string, name: string): string => {
+      const key = nodeKey(threadId, name);
+      let id = nodeIds.get(key);
+      if (!id) {
+        id = `n${nodeIds.size}`;
+        nodeIds.set(key, id);
+        lines.push(`    <node id="${id}">`);
+        lines.push(...dataElements(REFERENCE_NODE_KEYS, { name, agentThreadId: threadId }, '      '));
+        lines.push('    </node>');
+      }
+      return id;
+    };
+
+    graph.relations.forEach((relation, index) => {
+      const source = resolveNode(relation.agentThreadId, relation.from);
+      const target = resolveNode(relation.agentThreadId, relation.to);
+      lines.push(`    <edge id="e${index}" source="${source}" target="${target}">`);
+      lines.push(...dataElements(EDGE_KEYS, { ...relation }, '      '));
+      lines.push('    </edge>');
+    });
+
+    lines.push('  </graph>', '</graphml>');
+    return lines.join('\n');
+  },
+
+  parse(data: string): KnowledgeGraph {
+    if (!/<graphml[\s>]/.test(data)) {
+      throw invalidData('graphml', 'missing <graphml> root element');
+    }
+
+    // Map key IDs to attribute names so files written by other tools are read too
+    const keys = new Map<string, { name: string; type: string }>();
+    for (const match of data.matchAll(/<key\b([^>]*?)\/?>/g)) {
+      const attributes = parseAttributes(match[1]);
+      const id = attributes.get('id');
+      if (id) {
+        keys.set(id, { name: attributes.get('attr.name') ?? id, type: attributes.get('attr.type') ?? 'string' });
+      }
+    }
+
+    const readData = (body: string): Record<string, string | number> => {
+      const values: Record<string, string | number> = {};
+      for (const match of body.matchAll(/<data\b([^>]*)>([\s\S]*?)<\/data>/g)) {
+        const keyId = parseAttributes(match[1]).get('key');
+        const key = keyId ? keys.get(keyId) : undefined;
+        if (!key) continue;
+        const text = unescapeXml(match[2]);
+        values[key.name] = key.type === 'double' || key.type === 'float' ? Number(text) : text;
+      }
+      return values;
+    };
+
+    const graph: KnowledgeGraph = { entities: [], relations: [] };
+    const nodeNames = new Map<string, string>();
+
+    for (const match of data.matchAll(/<node\b([^>]*?)(?:\/>|>([\s\S]*?)<\/node>)/g)) {
+      const id = parseAttributes(match[1]).get('id');
+      const values = readData(match[2] ?? '');
+      if (!id || typeof values.name !== 'string') {
+        throw invalidData('graphml', 'every node needs an id and a name');
+      }
+      nodeNames.set(id, values.name);
+      if (values.entityType === undefined) continue;
+
+      let observations: unknown;
+      let aliases: unknown;
+      try {
+        observations = JSON.parse(String(values.observations ?? '[]'));
+        aliases = values.aliases !== undefined ? JSON.parse(String(values.aliases)) : undefined;
+      } catch {
+        throw invalidData('graphml', `observations or aliases of node '${values.name}' are not valid JSON`);
+      }
+      graph.entities.push({ ...values, observations, ...(aliases !== undefined && { aliases }) } as unknown as Entity);
+    }
+
+    for (const match of data.matchAll(/<edge\b([^>]*?)(?:\/>|>([\s\S]*?)<\/edge>)/g)) {
+      const attributes = parseAttributes(match[1]);
+      const from = nodeNames.get(attributes.get('source') ?? '');
+      const to = nodeNames.get(attributes.get('target') ?? '');
+      if (from === undefined || to === undefined) {
+        throw invalidData('graphml', 'edge references an unknown node');
+      }
+      graph.relations.push({ from, to, ...readData(match[2] ?? '') } as unknown as Relation);
+    }
+
+    return graph;
+  }
+};
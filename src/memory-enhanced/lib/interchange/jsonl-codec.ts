@@ -0,0 +1,76 @@
+/**
+ * JSONL codec
+ * Uses the same line format as the thread files of JsonlStorageAdapter,
+ * so an export can be dropped into a memory directory as-is
+ */
+
+import { Entity, Relation, KnowledgeGraph } from '../types.js';
+import { GraphCodec, invalidData } from './graph-format.js';
+
+const ENTITY_TYPE = 'entity';
+const RELATION_TYPE = 'relation';
+const META_TYPE = 'meta';
+
+function serializeEntity(entity: Entity): string {
+  return JSON.stringify({
+    type: ENTITY_TYPE,
+    name: entity.name,
+    entityType: entity.entityType,
+    observations: entity.observations,
+    agentThreadId: entity.agentThreadId,
+    timestamp: entity.timestamp,
+    confidence: entity.confidence,
+    importance: entity.importance,
+    aliases: entity.aliases
+  });
+}
+
+function serializeRelation(relation: Relation): string {
+  return JSON.stringify({
+    type: RELATION_TYPE,
+    from: relation.from,
+    to: relation.to,
+    relationType: relation.relationType,
+    agentThreadId: relation.agentThreadId,
+    timestamp: relation.timestamp,
+    confidence: relation.confidence,
+    importance: relation.importance
+  });
+}
+
+export const jsonlCodec: GraphCodec = {
+  serialize(graph: KnowledgeGraph): string {
+    return [
+      ...graph.entities.map(serializeEntity),
+      ...graph.relations.map(serializeRelation)
+    ].join('\n');
+  },
+
+  parse(data: string): KnowledgeGraph {
+    const graph: KnowledgeGraph = { entities: [], relations: [] };
+
+    data.split('\n').forEach((line, index) => {
+      if (line.trim() === '') return;
+
+      let item: any;
+      try {
+        item = JSON.parse(line);
+      } catch {
+        throw invalidData('jsonl', `line ${index + 1} is not valid JSON`);
+      }
+
+      const { type, ...fields } = item ?? {};
+      if (type === ENTITY_TYPE) {
+        graph.entities.push(fields as Entity);
+      } else if (type === RELATION_TYPE) {
+        graph.relations.push(fields as Relation);
+      } else if (type === META_TYPE) {
+        // Revision header of a thread file copied from a memory directory
+      } else {
+        throw invalidData('jsonl', `line ${index + 1} has unknown type '${type}'`);
+      }
+    });
+
+    return graph;
+  }
+};
@@ -0,0 +1,262 @@
+/**
+ * RDF codecs (Turtle and N-Triples)
+ * Entities, observations and relations each become a resource described with the
+ * memory vocabulary below. Relations are resources rather than single triples so
+ * their thread, timestamp, confidence and importance survive a round trip.
+ */
+
+import { Entity, Observation, Relation, KnowledgeGraph } from '../types.js';
+import { GraphCodec, GraphFormat, invalidData } from './graph-format.js';
+import { RdfTerm, Triple, RDF_TYPE, XSD, parseTurtle } from './turtle-parser.js';
+
+export const MEMORY_VOCABULARY = 'https://github.com/andriyshevchenko/atomic-memory-mcp/vocab#';
+
+const RESOURCE_PREFIX = 'urn:atomic-memory:thread:';
+
+const PREFIXES: Record<string, string> = { mem: MEMORY_VOCABULARY, xsd: XSD };
+
+const mem = (term: string) => MEMORY_VOCABULARY + term;
+const encode = encodeURIComponent;
+
+function entityIri(threadId: string, name: string): string {
+  return `${RESOURCE_PREFIX}${encode(threadId)}:entity:${encode(name)}`;
+}
+
+function observationIri(entity: Entity, observation: Observation): string {
+  return `${entityIri(entity.agentThreadId, entity.name)}:observation:${encode(observation.id)}`;
+}
+
+function relationIri(relation: Relation): string {
+  const key = [relation.from, relation.relationType, relation.to].map(encode).join(':');
+  return `${RESOURCE_PREFIX}${encode(relation.agentThreadId)}:relation:${key}`;
+}
+
+const iri = (value: string): RdfTerm => ({ kind: 'iri', value });
+const text = (value: string): RdfTerm => ({ kind: 'literal', value });
+const typed = (value: string | number, type: string): RdfTerm => ({ kind: 'literal', value: String(value), datatype: XSD + type });
+
+// ===== Graph to triples =====
+
+function graphToTriples(graph: KnowledgeGraph): Triple[] {
+  const triples: Triple[] = [];
+  const add = (subject: string, predicate: string, object: RdfTerm) =>
+    triples.push({ subject: iri(subject), predicate, object });
+
+  for (const entity of graph.entities) {
+    const subject = entityIri(entity.agentThreadId, entity.name);
+    add(subject, RDF_TYPE, iri(mem('Entity')));
+    add(subject, mem('name'), text(entity.name));
+    add(subject, mem('entityType'), text(entity.entityType));
+    add(subject, mem('agentThreadId'), text(entity.agentThreadId));
+    add(subject, mem('timestamp'), typed(entity.timestamp, 'dateTime'));
+    add(subject, mem('confidence'), typed(entity.confidence, 'double'));
+    add(subject, mem('importance'), typed(entity.importance, 'double'));
+    for (const alias of entity.aliases ?? []) {
+      add(subject, mem('alias'), text(alias));
+    }
+    for (const observation of entity.observations) {
+      add(subject, mem('observation'), iri(observationIri(entity, observation)));
+    }
+
+    entity.observations.forEach((observation, position) => {
+      const obsSubject = observationIri(entity, observation);
+      add(obsSubject, RDF_TYPE, iri(mem('Observation')));
+      add(obsSubject, mem('id'), text(observation.id));
+      add(obsSubject, mem('content'), text(observation.content));
+      add(obsSubject, mem('timestamp'), typed(observation.timestamp, 'dateTime'));
+      add(obsSubject, mem('version'), typed(observation.version, 'integer'));
+      add(obsSubject, mem('position'), typed(position, 'integer'));
+      add(obsSubject, mem('agentThreadId'), text(observation.agentThreadId));
+      if (observation.supersedes !== undefined) add(obsSubject, mem('supersedes'), text(observation.supersedes));
+      if (observation.superseded_by !== undefined) add(obsSubject, mem('supersededBy'), text(observation.superseded_by));
+      if (observation.confidence !== undefined) add(obsSubject, mem('confidence'), typed(observation.confidence, 'double'));
+      if (observation.importance !== undefined) add(obsSubject, mem('importance'), typed(observation.importance, 'double'));
+    });
+  }
+
+  for (const relation of graph.relations) {
+    const subject = relationIri(relation);
+    add(subject, RDF_TYPE, iri(mem('Relation')));
+    add(subject, mem('from'), iri(entityIri(relation.agentThreadId, relation.from)));
+    add(subject, mem('to'), iri(entityIri(relation.agentThreadId, relation.to)));
+    add(subject, mem('relationType'), text(relation.relationType));
+    add(subject, mem('agentThreadId'), text(relation.agentThreadId));
+    add(subject, mem('timestamp'), typed(relation.timestamp, 'dateTime'));
+    add(subject, mem('confidence'), typed(relation.confidence, 'double'));
+    add(subject, mem('importance'), typed(relation.importance, 'double'));
+  }
+
+  return triples;
+}
+
+// ===== Triples to graph =====
+
+const termKey = (term: RdfTerm) => `${term.kind}:${term.value}`;
+
+type Description = Map<string, RdfTerm[]>;
+
+function describeSubjects(triples: Triple[]): Map<string, Description> {
+  const subjects = new Map<string, Description>();
+  for (const { subject, predicate, object } of triples) {
+    let description = subjects.get(termKey(subject));
+    if (!description) {
+      description = new Map();
+      subjects.set(termKey(subject), description);
+    }
+    description.set(predicate, [...(description.get(predicate) ?? []), object]);
+  }
+  return subjects;
+}
+
+function triplesToGraph(triples: Triple[], format: GraphFormat): KnowledgeGraph {
+  const subjects = describeSubjects(triples);
+
+  const hasType = (description: Description, type: string) =>
+    (description.get(RDF_TYPE) ?? []).some(term => term.kind === 'iri' && term.value === mem(type));
+  const literal = (description: Description, term: string): string | undefined => {
+    const value = description.get(mem(term))?.[0];
+    return value?.kind === 'literal' ? value.value : undefined;
+  };
+  const number = (description: Description, term: string): number | undefined => {
+    const value = literal(description, term);
+    return value === undefined ? undefined : Number(value);
+  };
+
+  // Relation endpoints outside the export have no description; their name is in the IRI
+  const entityName = (term: RdfTerm | undefined): string => {
+    const name = term && literal(subjects.get(termKey(term)) ?? new Map(), 'name');
+    if (name !== undefined) return name;
+    const match = term?.kind === 'iri' ? /:entity:([^:]*)$/.exec(term.value) : null;
+    if (!match) throw invalidData(format, 'relation endpoint is not an entity');
+    return decodeURIComponent(match[1]);
+  };
+
+  const toObservation = (description: Description): { observation: Observation; position: number } => {
+    const observation = {
+      id: literal(description, 'id'),
+      content: literal(description, 'content'),
+      timestamp: literal(description, 'timestamp'),
+      version: number(description, 'version'),
+      supersedes: literal(description, 'supersedes'),
+      superseded_by: literal(description, 'supersededBy'),
+      agentThreadId: literal(description, 'agentThreadId'),
+      confidence: number(description, 'confidence'),
+      importance: number(description, 'importance')
+    };
+    // Leave out optional fields that were not in the data
+    const defined = Object.fromEntries(Object.entries(observation).filter(([, value]) => value !== undefined));
+    return { observation: defined as unknown as Observation, position: number(description, 'position') ?? 0 };
+  };
+
+  const graph: KnowledgeGraph = { entities: [], relations: [] };
+  for (const description of subjects.values()) {
+    if (hasType(description, 'Entity')) {
+      const observations = (description.get(mem('observation')) ?? [])
+        .map(term => {
+          const obsDescription = subjects.get(termKey(term));
+          if (!obsDescription) throw invalidData(format, `observation ${term.value} is not described`);
+          return toObservation(obsDescription);
+        })
+        .sort((a, b) => a.position - b.position)
+        .map(({ observation }) => observation);
+      const aliases = (description.get(mem('alias')) ?? [])
+        .filter(term => term.kind === 'literal')
+        .map(term => term.value);
+
+      graph.entities.push({
+        name: literal(description, 'name'),
+        entityType: literal(description, 'entityType'),
+        observations,
+        agentThreadId: literal(description, 'agentThreadId'),
+        timestamp: literal(description, 'timestamp'),
+        confidence: number(description, 'confidence'),
+        importance: number(description, 'importance'),
+        ...(aliases.length > 0 && { aliases })
+      } as Entity);
+    } else if (hasType(description, 'Relation')) {
+      graph.relations.push({
+        from: entityName(description.get(mem('from'))?.[0]),
+        to: entityName(description.get(mem('to'))?.[0]),
+        relationType: literal(description, 'relationType'),
+        agentThreadId: literal(description, 'agentThreadId'),
+        timestamp: literal(description, 'timestamp'),
+        confidence: number(description, 'confidence'),
+        importance: number(description, 'importance')
+      } as Relation);
+    }
+  }
+  return graph;
+}
+
+// ===== Writers =====
+
+function escapeString(value: string): string {
+  return value.replace(/[\\"\n\r\t]/g, char => ({ '\\': '\\\\', '"': '\\"', '\n': '\\n', '\r': '\\r', '\t': '\\t' })[char]!);
+}
+
+function formatIri(value: string, usePrefixes: boolean): string {
+  if (usePrefixes) {
+    for (const [prefix, namespace] of Object.entries(PREFIXES)) {
+      const local = value.slice(namespace.length);
+      if (value.startsWith(namespace) && /^\w+$/.test(local)) return `${prefix}:${local}`;
+    }
+  }
+  return `<${value}>`;
+}
+
+function formatTerm(term: RdfTerm, usePrefixes: boolean): string {
+  if (term.kind === 'iri') return formatIri(term.value, usePrefixes);
+  if (term.kind === 'blank') return `_:${term.value}`;
+  const value = `"${escapeString(term.value)}"`;
+  if (term.language) return `${value}@${term.language}`;
+  return term.datatype ? `${value}^^${formatIri(term.datatype, usePrefixes)}` : value;
+}
+
+function parseTriples(data: string, format: GraphFormat): Triple[] {
+  try {
+    return parseTurtle(data);
+  } catch (error) {
+    throw invalidData(format, error instanceof Error ? error.message : String(error));
+  }
+}
+
+export const nTriplesCodec: GraphCodec = {
+  serialize(graph: KnowledgeGraph): string {
+    return graphToTriples(graph)
+      .map(({ subject, predicate, object }) =>
+        `${formatTerm(subject, false)} ${formatIri(predicate, false)} ${formatTerm(object, false)} .`)
+      .join('\n');
+  },
+
+  parse(data: string): KnowledgeGraph {
+    return triplesToGraph(parseTriples(data, 'ntriples'), 'ntriples');
+  }
+};
+
+export const turtleCodec: GraphCodec = {
+  serialize(graph: KnowledgeGraph): string {
+    const lines = Object.entries(PREFIXES).map(([prefix, namespace]) => `@prefix ${prefix}: <${namespace}> .`);
+
+    // Triples are generated subject by subject, so consecutive grouping is enough
+    let current: string | null = null;
+    for (const { subject, predicate, object } of graphToTriples(graph)) {
+      const subjectText = formatTerm(subject, true);
+      const predicateText = predicate === RDF_TYPE ? 'a' : formatIri(predicate, true);
+      if (subjectText !== current) {
+        if (current !== null) lines[lines.length - 1] += ' .';
+        lines.push('', subjectText);
+        current = subjectText;
+      } else {
+        lines[lines.length - 1] += ' ;';
+      }
+      lines.push(`    ${predicateText} ${formatTerm(object, true)}`);
+    }
+    if (current !== null) lines[lines.length - 1] += ' .';
+
+    return lines.join('\n');
+  },
+
+  parse(data: string): KnowledgeGraph {
+    return triplesToGraph(parseTriples(data, 'turtle'), 'turtle');
+  }
+};
@@ -0,0 +1,252 @@
+/**
+ * Parser for Turtle and N-Triples (N-Triples is a subset of Turtle)
+ * Covers prefixes, predicate and object lists, blank nodes, "[ ... ]" property lists
+ * and all literal forms. Collections and relative IRI resolution are not supported.
+ */
+
+export type RdfTerm =
+  | { kind: 'iri'; value: string }
+  | { kind: 'blank'; value: string }
+  | { kind: 'literal'; value: string; datatype?: string; language?: string };
+
+export interface Triple {
+  subject: RdfTerm;
+  predicate: string;
+  object: RdfTerm;
+}
+
+export const RDF_TYPE = 'http://www.w3.org/1999/02/22-rdf-syntax-ns#type';
+export const XSD = 'http://www.w3.org/2001/XMLSchema#';
+
+const STRING_ESCAPES: Record<string, string> = {
+  t: '\t', b: '\b', n: '\n', r: '\r', f: '\f', '"': '"', "'": "'", '\\': '\\'
+};
+
+const PREFIXED_NAME = /^([A-Za-z][\w-]*(?:\.[\w-]+)*)?:((?:[\w:%-]|\.(?=[\w:%-]))*)/;
+const NUMBER = /^[+-]?(?:\d+\.?\d*[eE][+-]?\d+|\.\d+[eE][+-]?\d+|\d*\.\d+|\d+)/;
+
+class TurtleParser {
+  private position = 0;
+  private readonly prefixes = new Map<string, string>();
+  private readonly triples: Triple[] = [];
+  private blankNodeCount = 0;
+
+  constructor(private readonly text: string) {}
+
+  parse(): Triple[] {
+    this.skipWhitespace();
+    while (this.position < this.text.length) {
+      if (!this.parseDirective()) {
+        const subject = this.parseSubject();
+        this.parsePredicateObjectList(subject);
+        this.expect('.');
+      }
+      this.skipWhitespace();
+    }
+    return this.triples;
+  }
+
+  private fail(message: string): Error {
+    const line = this.text.slice(0, this.position).split('\n').length;
+    return new Error(`line ${line}: ${message}`);
+  }
+
+  private peek(): string {
+    return this.text[this.position];
+  }
+
+  private skipWhitespace(): void {
+    while (this.position < this.text.length) {
+      const char = this.peek();
+      if (char === '#') {
+        while (this.position < this.text.length && this.peek() !== '\n') this.position++;
+      } else if (/\s/.test(char)) {
+        this.position++;
+      } else {
+        return;
+      }
+    }
+  }
+
+  private expect(token: string): void {
+    this.skipWhitespace();
+    if (!this.text.startsWith(token, this.position)) {
+      throw this.fail(`expected '${token}'`);
+    }
+    this.position += token.length;
+  }
+
+  private tryConsume(token: string): boolean {
+    this.skipWhitespace();
+    if (!this.text.startsWith(token, this.position)) return false;
+    this.position += token.length;
+    return true;
+  }
+
+  /**
+   * Parse "@prefix p: <iri> ." or SPARQL-style "PREFIX p: <iri>"
+   */
+  private parseDirective(): boolean {
+    const rest = this.text.slice(this.position, this.position + 7);
+    const isTurtleStyle = rest.startsWith('@prefix');
+    const isSparqlStyle = /^prefix\s/i.test(rest);
+    if (!isTurtleStyle && !isSparqlStyle) return false;
+
+    this.position += isTurtleStyle ? 7 : 6;
+    this.skipWhitespace();
+    const match = /^([A-Za-z][\w.-]*)?:/.exec(this.text.slice(this.position));
+    if (!match) throw this.fail('expected a prefix name');
+    this.position += match[0].length;
+    this.skipWhitespace();
+    this.prefixes.set(match[1] ?? '', this.parseIri());
+    if (isTurtleStyle) this.expect('.');
+    return true;
+  }
+
+  private parseIri(): string {
+    if (this.peek() !== '<') throw this.fail('expected an IRI');
+    const end = this.text.indexOf('>', this.position);
+    if (end === -1) throw this.fail('unterminated IRI');
+    const iri = this.text.slice(this.position + 1, end)
+      .replace(/\\u([0-9a-fA-F]{4})|\\U([0-9a-fA-F]{8})/g, (_match, short?: string, long?: string) =>
+        String.fromCodePoint(parseInt(short ?? long!, 16)));
+    this.position = end + 1;
+    return iri;
+  }
+
+  private parsePrefixedName(): string {
+    const match = PREFIXED_NAME.exec(this.text.slice(this.position));
+    if (!match) throw this.fail('expected an IRI or prefixed name');
+    const namespace = this.prefixes.get(match[1] ?? '');
+    if (namespace === undefined) throw this.fail(`undefined prefix '${match[1] ?? ''}:'`);
+    this.position += match[0].length;
+    return namespace + match[2];
+  }
+
+  private parseIriOrPrefixedName(): string {
+    this.skipWhitespace();
+    return this.peek() === '<' ? this.parseIri() : this.parsePrefixedName();
+  }
+
+  private parseBlankNodeLabel(): RdfTerm {
+    const match = /^_:([\w.-]*\w|\w)/.exec(this.text.slice(this.position));
+    if (!match) throw this.fail('invalid blank node label');
+    this.position += match[0].length;
+    return { kind: 'blank', value: match[1] };
+  }
+
+  private parseSubject(): RdfTerm {
+    this.skipWhitespace();
+    if (this.text.startsWith('_:', this.position)) return this.parseBlankNodeLabel();
+    if (this.peek() === '[') return this.parseBlankNodePropertyList();
+    return { kind: 'iri', value: this.parseIriOrPrefixedName() };
+  }
+
+  private parseBlankNodePropertyList(): RdfTerm {
+    this.expect('[');
+    const node: RdfTerm = { kind: 'blank', value: `b${this.blankNodeCount++}` };
+    if (!this.tryConsume(']')) {
+      this.parsePredicateObjectList(node);
+      this.expect(']');
+    }
+    return node;
+  }
+
+  private parsePredicateObjectList(subject: RdfTerm): void {
+    do {
+      this.skipWhitespace();
+      // A trailing ";" before "." or "]" is allowed
+      if (this.peek() === '.' || this.peek() === ']') return;
+      const predicate = this.parseVerb();
+      do {
+        this.triples.push({ subject, predicate, object: this.parseObject() });
+      } while (this.tryConsume(','));
+    } while (this.tryConsume(';'));
+  }
+
+  private parseVerb(): string {
+    if (/^a(?=[\s<"'[_])/.test(this.text.slice(this.position, this.position + 2))) {
+      this.position++;
+      return RDF_TYPE;
+    }
+    return this.parseIriOrPrefixedName();
+  }
+
+  private parseObject(): RdfTerm {
+    this.skipWhitespace();
+    const char = this.peek();
+    if (char === '"' || char === "'") return this.parseLiteral();
+    if (this.text.startsWith('_:', this.position)) return this.parseBlankNodeLabel();
+    if (char === '[') return this.parseBlankNodePropertyList();
+    if (char === '(') throw this.fail('collections are not supported');
+
+    const rest = this.text.slice(this.position);
+    const number = NUMBER.exec(rest);
+    if (number) {
+      this.position += number[0].length;
+      const datatype = /[eE]/.test(number[0]) ? 'double' : number[0].includes('.') ? 'decimal' : 'integer';
+      return { kind: 'literal', value: number[0], datatype: XSD + datatype };
+    }
+    const boolean = /^(true|false)\b/.exec(rest);
+    if (boolean) {
+      this.position += boolean[0].length;
+      return { kind: 'literal', value: boolean[0], datatype: XSD + 'boolean' };
+    }
+    return { kind: 'iri', value: this.parseIriOrPrefixedName() };
+  }
+
+  private parseLiteral(): RdfTerm {
+    const value = this.parseString();
+    if (this.peek() === '@') {
+      const match = /^@([a-zA-Z]+(?:-[a-zA-Z0-9]+)*)/.exec(this.text.slice(this.position));
+      if (!match) throw this.fail('invalid language tag');
+      this.position += match[0].length;
+      return { kind: 'literal', value, language: match[1] };
+    }
+    if (this.text.startsWith('^^', this.position)) {
+      this.position += 2;
+      return { kind: 'literal', value, datatype: this.parseIriOrPrefixedName() };
+    }
+    return { kind: 'literal', value };
+  }
+
+  private parseString(): string {
+    const quote = this.peek();
+    const long = this.text.startsWith(quote.repeat(3), this.position);
+    const delimiter = long ? quote.repeat(3) : quote;
+    this.position += delimiter.length;
+
+    let value = '';
+    while (this.position < this.text.length) {
+      if (this.text.startsWith(delimiter, this.position)) {
+        this.position += delimiter.length;
+        return value;
+      }
+      const char = this.text[this.position++];
+      if (!long && (char === '\n' || char === '\r')) throw this.fail('unescaped line break in string');
+      if (char !== '\\') {
+        value += char;
+        continue;
+      }
+      const escaped = this.text[this.position++];
+      if (escaped === 'u' || escaped === 'U') {
+        const length = escaped === 'u' ? 4 : 8;
+        value += String.fromCodePoint(parseInt(this.text.slice(this.position, this.position + length), 16));
+        this.position += length;
+      } else if (escaped in STRING_ESCAPES) {
+        value += STRING_ESCAPES[escaped];
+      } else {
+        throw this.fail(`invalid escape '\\${escaped}'`);
+      }
+    }
+    throw this.fail('unterminated string');
+  }
+}
+
+/**
+ * Parse a Turtle or N-Triples document into triples
+ * Throws an Error naming the line of the first syntax error
+ */
+export function parseTurtle(text: string): Triple[] {
+  return new TurtleParser(text).parse();
+}
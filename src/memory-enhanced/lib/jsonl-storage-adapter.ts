@@ -1,33 +1,70 @@
 /**
  * JSONL Storage Adapter - implements file-based storage using JSON Lines format
+ *
+ * Writes are crash-safe: files are replaced atomically (temp file plus rename), and
+ * multi-file changes go through a write-ahead log that is replayed on initialize().
+ *
+ * Several processes may share a memory directory: writes hold an advisory lock file,
+ * and every thread file carries a revision number that is checked on write, so a
+ * read-modify-write based on stale data fails with a revision conflict instead of
+ * overwriting another process's changes.
  */
 
 import { promises as fs } from 'fs';
 import path from 'path';
-import { Entity, Relation, KnowledgeGraph } from './types.js';
-import { IStorageAdapter } from './storage-interface.js';
+import {
+  Entity,
+  Relation,
+  KnowledgeGraph,
+  Observation,
+  EmbeddingRecord,
+  TrashItem,
+  AuditEntry,
+  AuditLogFilter,
+  CorruptLine,
+  StorageRecoveryReport,
+  ThreadPresence
+} from './types.js';
+import { IStorageAdapter, IChangeTrackingStorage } from './storage-interface.js';
+import { writeFileAtomic, appendFileDurable, removeTempFiles } from './jsonl/atomic-file.js';
+import { WriteAheadLog, WalOperation } from './jsonl/write-ahead-log.js';
+import { FileLock, FileLockOptions } from './jsonl/file-lock.js';
+import { observeRevision, checkRevision, advanceRevision, recordCommit } from './utils/optimistic-concurrency.js';
+import {
+  checkCanRename,
+  checkCanArchive,
+  checkCanRestore,
+  checkCanDelete,
+  checkCanReplace,
+  renameThreadGraph
+} from './utils/thread-lifecycle.js';
+import { isFileSystemError } from './utils/file-system-error.js';
+import { applyAuditFilter } from './audit/audit-log.js';
+import {
+  entityAuditEntries,
+  entityRenameAuditEntries,
+  relationAuditEntries,
+  graphAuditEntries,
+  threadAuditEntries
+} from './audit/audit-entries.js';
+import { checkCanRenameEntity } from './utils/entity-finder.js';
 
 // Constants for file naming and types
 const THREAD_FILE_PREFIX = 'thread-';
 const THREAD_FILE_EXTENSION = '.jsonl';
+const EMBEDDINGS_DIR = 'embeddings';
+const ARCHIVE_DIR = 'archive';
+const TRASH_DIR = 'trash';
+const RECOVERY_DIR = 'recovery';
+const WAL_FILE_NAME = 'write-ahead-log.jsonl';
+const AUDIT_LOG_FILE_NAME = 'audit-log.jsonl';
+const CORRUPT_LINE_PREVIEW_LENGTH = 200;
 const ENTITY_TYPE = 'entity';
 const RELATION_TYPE = 'relation';
+const META_TYPE = 'meta';
+const LOCK_FILE_NAME = 'memory.lock';
 const FILE_NOT_FOUND_ERROR = 'ENOENT';
 
-/**
- * Represents a file system error with a code property
- */
-interface FileSystemError extends Error {
-  code: string;
-}
-
-/**
- * Type guard to check if an error is a FileSystemError
- */
-function isFileSystemError(error: unknown): error is FileSystemError {
-  return error instanceof Error && 'code' in error;
-}
-
 /**
  * Check if a string field is valid (non-empty after trimming)
  */
@@ -51,6 +88,16 @@ interface JsonlItem {
   [key: string]: any;
 }
 
+/**
+ * A thread file split into the graph, the lines that were kept and the lines that were skipped
+ */
+interface ParsedThreadFile {
+  graph: KnowledgeGraph;
+  revision: number;     // From the meta line; 0 for files without one
+  validLines: string[];
+  corruptLines: Array<Omit<CorruptLine, 'file'>>;
+}
+
 /**
  * JSONL-based storage adapter for the knowledge graph
  * Stores data in thread-specific JSONL files
@@ -59,15 +106,29 @@ interface JsonlItem {
  * - File I/O operations for JSONL format
  * - Thread-based data organization
  * - Data serialization/deserialization
+ * - Crash recovery (write-ahead log replay, quarantine of corrupt lines)
  */
-export class JsonlStorageAdapter implements IStorageAdapter {
-  constructor(private readonly memoryDirPath: string) {}
+export class JsonlStorageAdapter implements IStorageAdapter, IChangeTrackingStorage {
+  private readonly wal: WriteAheadLog;
+  private readonly lock: FileLock;
+  private recoveryReport: StorageRecoveryReport = {
+    walBatchesReplayed: 0,
+    walRecordsDiscarded: 0,
+    tempFilesRemoved: 0,
+    corruptLines: []
+  };
+  private readonly reportedLines = new Set<string>();
+
+  constructor(private readonly memoryDirPath: string, lockOptions?: FileLockOptions) {
+    this.wal = new WriteAheadLog(path.join(memoryDirPath, WAL_FILE_NAME));
+    this.lock = new FileLock(path.join(memoryDirPath, LOCK_FILE_NAME), lockOptions);
+  }
 
   /**
-   * Get the file path for a specific thread
+   * Get the file name for a specific thread, relative to the memory directory
    */
-  private getThreadFilePath(agentThreadId: string): string {
-    return path.join(this.memoryDirPath, `${THREAD_FILE_PREFIX}${agentThreadId}${THREAD_FILE_EXTENSION}`);
+  private getThreadFileName(agentThreadId: string): string {
+    return `${THREAD_FILE_PREFIX}${agentThreadId}${THREAD_FILE_EXTENSION}`;
   }
 
   /**
@@ -121,7 +182,8 @@ export class JsonlStorageAdapter implements IStorageAdapter {
       agentThreadId: item.agentThreadId,
       timestamp: item.timestamp,
       confidence: item.confidence,
-      importance: item.importance
+      importance: item.importance,
+      ...(Array.isArray(item.aliases) && { aliases: item.aliases })
     };
   }
 
@@ -142,10 +204,11 @@ export class JsonlStorageAdapter implements IStorageAdapter {
 
   /**
    * Process a single JSONL item and add to graph
+   * Returns why the item was skipped, or null if it was used
    */
-  private processItem(item: JsonlItem | null, graph: KnowledgeGraph, filePath: string): void {
+  private processItem(item: JsonlItem | null, graph: KnowledgeGraph, filePath: string): CorruptLine['reason'] | null {
     if (!item) {
-      return;
+      return 'malformed-json';
     }
 
     if (this.isValidEntity(item)) {
@@ -154,7 +217,9 @@ export class JsonlStorageAdapter implements IStorageAdapter {
       graph.relations.push(this.toRelation(item));
     } else if (item.type === ENTITY_TYPE || item.type === RELATION_TYPE) {
       console.warn(`Skipping ${item.type} with missing required fields in ${filePath}`);
+      return 'missing-fields';
     }
+    return null;
   }
 
   /**
@@ -169,7 +234,8 @@ export class JsonlStorageAdapter implements IStorageAdapter {
       agentThreadId: entity.agentThreadId,
       timestamp: entity.timestamp,
       confidence: entity.confidence,
-      importance: entity.importance
+      importance: entity.importance,
+      aliases: entity.aliases
     });
   }
 
@@ -217,26 +283,79 @@ export class JsonlStorageAdapter implements IStorageAdapter {
   }
 
   /**
-   * Load graph data from a single JSONL file
+   * Parse a JSONL file, keeping track of the lines that could not be used
+   * Returns null if the file does not exist
    */
-  private async loadGraphFromFile(filePath: string): Promise<KnowledgeGraph> {
+  private async parseThreadFile(filePath: string): Promise<ParsedThreadFile | null> {
+    let data: string;
     try {
-      const data = await fs.readFile(filePath, "utf-8");
-      const lines = data.split("\n").filter(line => line.trim() !== "");
-      const graph: KnowledgeGraph = { entities: [], relations: [] };
-
-      for (const line of lines) {
-        const item = this.parseLine(line, filePath);
-        this.processItem(item, graph, filePath);
-      }
-
-      return graph;
+      data = await fs.readFile(filePath, "utf-8");
     } catch (error) {
       if (this.isFileNotFoundError(error)) {
-        return { entities: [], relations: [] };
+        return null;
       }
       throw error;
     }
+
+    const parsed: ParsedThreadFile = {
+      graph: { entities: [], relations: [] },
+      revision: 0,
+      validLines: [],
+      corruptLines: []
+    };
+    data.split("\n").forEach((line, index) => {
+      if (line.trim() === "") return;
+      const item = this.parseLine(line, filePath);
+      if (item?.type === META_TYPE && typeof item.revision === 'number') {
+        parsed.revision = item.revision;
+      }
+      const reason = this.processItem(item, parsed.graph, filePath);
+      if (reason) {
+        parsed.corruptLines.push({ line: index + 1, reason, content: line });
+      } else {
+        parsed.validLines.push(line);
+      }
+    });
+    return parsed;
+  }
+
+  /**
+   * Add skipped lines to the recovery report, once per line
+   */
+  private reportCorruptLines(fileName: string, corruptLines: ParsedThreadFile['corruptLines']): void {
+    for (const corrupt of corruptLines) {
+      const key = `${fileName}:${corrupt.line}:${corrupt.content}`;
+      if (this.reportedLines.has(key)) continue;
+      this.reportedLines.add(key);
+      this.recoveryReport.corruptLines.push({
+        file: fileName,
+        line: corrupt.line,
+        reason: corrupt.reason,
+        content: corrupt.content.slice(0, CORRUPT_LINE_PREVIEW_LENGTH)
+      });
+    }
+  }
+
+  /**
+   * Read a thread's file; a missing file is an empty thread at revision 0
+   */
+  private async readThread(threadId: string): Promise<ParsedThreadFile> {
+    const fileName = this.getThreadFileName(threadId);
+    const parsed = await this.parseThreadFile(path.join(this.memoryDirPath, fileName));
+    if (!parsed) {
+      return { graph: { entities: [], relations: [] }, revision: 0, validLines: [], corruptLines: [] };
+    }
+    this.reportCorruptLines(fileName, parsed.corruptLines);
+    return parsed;
+  }
+
+  /**
+   * Load a thread's graph and record its revision for the current operation
+   */
+  private async loadThread(threadId: string): Promise<KnowledgeGraph> {
+    const { graph, revision } = await this.readThread(threadId);
+    observeRevision(threadId, revision);
+    return graph;
   }
 
   /**
@@ -261,10 +380,8 @@ export class JsonlStorageAdapter implements IStorageAdapter {
    * Load the complete knowledge graph from all thread files
    */
   async loadGraph(): Promise<KnowledgeGraph> {
-    const threadFiles = await this.getThreadFileNames();
-    const graphs = await Promise.all(
-      threadFiles.map(f => this.loadGraphFromFile(path.join(this.memoryDirPath, f)))
-    );
+    const threadIds = await this.listThreadIds();
+    const graphs = await Promise.all(threadIds.map(threadId => this.loadThread(threadId)));
     return this.mergeGraphs(graphs);
   }
 
@@ -282,10 +399,14 @@ export class JsonlStorageAdapter implements IStorageAdapter {
   }
 
   /**
-   * Serialize thread data to JSONL lines
+   * Serialize thread data to JSONL lines, preceded by the revision
+   * Returns no lines for an empty thread
    */
-  private serializeThreadData(threadData: ThreadData): string[] {
-    const lines: string[] = [];
+  private serializeThreadData(threadData: ThreadData, revision: number): string[] {
+    if (threadData.entities.length === 0 && threadData.relations.length === 0) {
+      return [];
+    }
+    const lines = [JSON.stringify({ type: META_TYPE, revision })];
     for (const e of threadData.entities) {
       lines.push(this.serializeEntity(e));
     }
@@ -296,18 +417,77 @@ export class JsonlStorageAdapter implements IStorageAdapter {
   }
 
   /**
-   * Save data for a specific thread
+   * Apply logged file changes; each file is replaced atomically
+   * @param replaying Whether the batch may have been applied before (see appendOnce)
    */
-  private async saveGraphForThread(agentThreadId: string, threadData: ThreadData): Promise<void> {
-    const threadFilePath = this.getThreadFilePath(agentThreadId);
-    const lines = this.serializeThreadData(threadData);
-    
-    if (lines.length === 0) {
-      await this.deleteThreadFileIfExists(threadFilePath);
-      return;
+  private async applyOperations(ops: WalOperation[], replaying: boolean = false): Promise<void> {
+    await Promise.all(ops.map(op => {
+      const filePath = path.join(this.memoryDirPath, op.file);
+      switch (op.op) {
+        case 'write':
+          return writeFileAtomic(filePath, op.data);
+        case 'append':
+          return replaying ? this.appendOnce(filePath, op.data) : appendFileDurable(filePath, op.data);
+        case 'delete':
+          return this.deleteThreadFileIfExists(filePath);
+      }
+    }));
+  }
+
+  /**
+   * Append data of a replayed batch unless the file already holds it
+   * A last line torn by the crash is ended first, so it cannot swallow the data
+   */
+  private async appendOnce(filePath: string, data: string): Promise<void> {
+    let existing = "";
+    try {
+      existing = await fs.readFile(filePath, "utf-8");
+    } catch (error) {
+      if (!this.isFileNotFoundError(error)) throw error;
     }
-    
-    await fs.writeFile(threadFilePath, lines.join("\n"));
+    if (existing.includes(data)) return;
+    await appendFileDurable(filePath, existing === "" || existing.endsWith("\n") ? data : "\n" + data);
+  }
+
+  /**
+   * The logged append of audit entries, so they are stored in the same batch as the change they describe
+   */
+  private auditLogOperations(entries: AuditEntry[]): WalOperation[] {
+    if (entries.length === 0) return [];
+    return [{ op: 'append', file: AUDIT_LOG_FILE_NAME, data: entries.map(entry => JSON.stringify(entry) + "\n").join("") }];
+  }
+
+  /**
+   * Log file changes to the write-ahead log, then apply them
+   * Must be called while holding the lock
+   */
+  private async commit(ops: WalOperation[]): Promise<void> {
+    await this.wal.commit(ops, batch => this.applyOperations(batch));
+    recordCommit();
+  }
+
+  /**
+   * Run a task while holding the memory directory lock
+   * If the previous holder died with the lock held, its unfinished writes are replayed first
+   */
+  private async locked<T>(task: () => Promise<T>): Promise<T> {
+    return this.lock.withLock(async brokeStaleLock => {
+      if (brokeStaleLock) {
+        const replay = await this.wal.replay(ops => this.applyOperations(ops, true));
+        this.recoveryReport.walBatchesReplayed += replay.replayed;
+        this.recoveryReport.walRecordsDiscarded += replay.discarded;
+      }
+      return task();
+    });
+  }
+
+  /**
+   * The file change that stores a thread's data (deleting the file when the thread is empty)
+   */
+  private threadFileOperation(agentThreadId: string, threadData: ThreadData, revision: number): WalOperation {
+    const file = this.getThreadFileName(agentThreadId);
+    const lines = this.serializeThreadData(threadData, revision);
+    return lines.length === 0 ? { op: 'delete', file } : { op: 'write', file, data: lines.join("\n") };
   }
 
   /**
@@ -330,49 +510,537 @@ export class JsonlStorageAdapter implements IStorageAdapter {
   }
 
   /**
-   * Save all thread data to their respective files
+   * Deletions of stale thread files that are no longer in the graph
    */
-  private async saveAllThreads(threadMap: Map<string, ThreadData>): Promise<void> {
-    const savePromises = Array.from(threadMap.entries()).map(([threadId, data]) => 
-      this.saveGraphForThread(threadId, data)
-    );
-    await Promise.all(savePromises);
+  private async staleThreadFileOperations(activeThreadIds: Set<string>): Promise<WalOperation[]> {
+    const threadFiles = await this.getThreadFileNames();
+    return threadFiles
+      .filter(fileName => {
+        const threadId = this.extractThreadId(fileName);
+        return threadId !== null && !activeThreadIds.has(threadId);
+      })
+      .map(file => ({ op: 'delete', file }));
   }
 
   /**
-   * Clean up stale thread files that are no longer in the graph
+   * Save the complete knowledge graph to thread-specific files
+   * All thread files are written, stale ones deleted and the changes logged in the audit
+   * log as one logged batch, so a crash part-way through is completed on the next initialize()
    */
-  private async cleanupStaleThreadFiles(activeThreadIds: Set<string>): Promise<void> {
+  async saveGraph(graph: KnowledgeGraph): Promise<void> {
+    const threadMap = this.groupByThread(graph);
+    await this.locked(async () => {
+      const ops = await this.staleThreadFileOperations(new Set(threadMap.keys()));
+      const revisions = new Map<string, number>();
+      const before: KnowledgeGraph[] = [];
+      for (const threadId of [...threadMap.keys(), ...ops.map(op => this.extractThreadId(op.file)!)]) {
+        const { graph: threadGraph, revision } = await this.readThread(threadId);
+        checkRevision(threadId, revision);
+        revisions.set(threadId, revision + 1);
+        before.push(threadGraph);
+      }
+
+      for (const [threadId, data] of threadMap) {
+        ops.push(this.threadFileOperation(threadId, data, revisions.get(threadId)!));
+      }
+      ops.push(...this.auditLogOperations(graphAuditEntries(this.mergeGraphs(before), graph)));
+      await this.commit(ops);
+      revisions.forEach((revision, threadId) => advanceRevision(threadId, revision));
+    });
+  }
+
+  /**
+   * Load the entities and relations stored in a single thread file
+   * Only this thread's file is read, regardless of how many threads exist
+   */
+  async loadThreadGraph(threadId: string): Promise<KnowledgeGraph> {
+    return this.loadThread(threadId);
+  }
+
+  /**
+   * Replace a thread's file in one logged batch, together with the audit entries of the change
+   */
+  async saveThreadGraph(threadId: string, graph: KnowledgeGraph): Promise<void> {
+    await this.locked(async () => {
+      checkCanReplace(threadId, await this.getThreadPresence(threadId), graph);
+      const { graph: before, revision } = await this.readThread(threadId);
+      checkRevision(threadId, revision);
+      await this.commit([
+        this.threadFileOperation(threadId, graph, revision + 1),
+        ...this.auditLogOperations(graphAuditEntries(before, graph))
+      ]);
+      advanceRevision(threadId, revision + 1);
+    });
+  }
+
+  /**
+   * List thread IDs from the thread file names, without reading any file contents
+   */
+  async listThreadIds(): Promise<string[]> {
+    const threadFiles = await this.getThreadFileNames();
+    return threadFiles
+      .map(f => this.extractThreadId(f))
+      .filter((id): id is string => id !== null);
+  }
+
+  /**
+   * Change token for a thread file, from its metadata only
+   * Every write replaces the file through a rename, so the inode changes even when
+   * two writes fall within the file system's timestamp resolution
+   */
+  async getThreadVersion(threadId: string): Promise<string> {
     try {
-      const threadFiles = await this.getThreadFileNames();
-      
-      const deletePromises = threadFiles.map(async (fileName) => {
-        const threadId = this.extractThreadId(fileName);
-        if (threadId && !activeThreadIds.has(threadId)) {
-          const filePath = path.join(this.memoryDirPath, fileName);
-          await this.deleteThreadFileIfExists(filePath);
-        }
-      });
-      
-      await Promise.all(deletePromises);
+      const stats = await fs.stat(path.join(this.memoryDirPath, this.getThreadFileName(threadId)), { bigint: true });
+      return `${stats.ino}:${stats.mtimeNs}:${stats.size}`;
     } catch (error) {
-      console.warn('Failed to clean up stale thread files:', error);
+      if (this.isFileNotFoundError(error)) {
+        return 'missing';
+      }
+      throw error;
     }
   }
 
   /**
-   * Save the complete knowledge graph to thread-specific files
+   * Change token for the set of thread files
    */
-  async saveGraph(graph: KnowledgeGraph): Promise<void> {
-    const threadMap = this.groupByThread(graph);
-    await this.saveAllThreads(threadMap);
-    await this.cleanupStaleThreadFiles(new Set(threadMap.keys()));
+  async getThreadListVersion(): Promise<string> {
+    return (await this.getThreadFileNames()).sort().join('\n');
+  }
+
+  /**
+   * Read-modify-write a single thread file under the lock, leaving all other thread files untouched
+   * The mutation returns the audit entries of its change, which are logged in the same batch.
+   * Fails with a revision conflict if the thread changed since the current operation read it
+   */
+  private async updateThread(threadId: string, mutate: (threadData: ThreadData) => AuditEntry[]): Promise<void> {
+    await this.locked(async () => {
+      const { graph: threadData, revision } = await this.readThread(threadId);
+      checkRevision(threadId, revision);
+      const entries = mutate(threadData);
+      await this.commit([this.threadFileOperation(threadId, threadData, revision + 1), ...this.auditLogOperations(entries)]);
+      advanceRevision(threadId, revision + 1);
+    });
+  }
+
+  /**
+   * Check if two relations share the same (from, to, relationType) identity
+   */
+  private isSameRelation(a: Relation, b: Relation): boolean {
+    return a.from === b.from && a.to === b.to && a.relationType === b.relationType;
+  }
+
+  /**
+   * Insert or replace an entity in its thread file
+   */
+  async upsertEntity(entity: Entity): Promise<void> {
+    await this.updateThread(entity.agentThreadId, threadData => {
+      const index = threadData.entities.findIndex(e => e.name === entity.name);
+      const before = threadData.entities[index];
+      if (index >= 0) {
+        threadData.entities[index] = entity;
+      } else {
+        threadData.entities.push(entity);
+      }
+      return entityAuditEntries(entity.agentThreadId, entity.name, before, entity);
+    });
+  }
+
+  /**
+   * Delete an entity and the relations in its thread file that reference it
+   */
+  async deleteEntity(threadId: string, entityName: string): Promise<void> {
+    await this.updateThread(threadId, threadData => {
+      const before = threadData.entities.find(e => e.name === entityName);
+      const references = (r: Relation) => r.from === entityName || r.to === entityName;
+      const relationsBefore = threadData.relations.filter(references);
+      threadData.entities = threadData.entities.filter(e => e.name !== entityName);
+      threadData.relations = threadData.relations.filter(r => !references(r));
+      return entityAuditEntries(threadId, entityName, before, undefined, relationsBefore);
+    });
+  }
+
+  /**
+   * Rename an entity and the endpoints of the relations in its thread file that reference it
+   */
+  async renameEntity(threadId: string, entityName: string, renamed: Entity): Promise<void> {
+    await this.updateThread(threadId, threadData => {
+      const index = threadData.entities.findIndex(e => e.name === entityName);
+      const before = threadData.entities[index];
+      checkCanRenameEntity(threadId, entityName, renamed.name, before, threadData.entities.some(e => e.name === renamed.name));
+      const rename = (name: string) => (name === entityName ? renamed.name : name);
+      threadData.entities[index] = renamed;
+      threadData.relations = threadData.relations.map(r => ({ ...r, from: rename(r.from), to: rename(r.to) }));
+      return entityRenameAuditEntries(threadId, before, renamed);
+    });
+  }
+
+  /**
+   * Append an observation to an entity in its thread file
+   */
+  async appendObservation(threadId: string, entityName: string, observation: Observation): Promise<void> {
+    await this.updateThread(threadId, threadData => {
+      const index = threadData.entities.findIndex(e => e.name === entityName);
+      if (index < 0) {
+        throw new Error(`Entity with name ${entityName} not found in thread ${threadId}`);
+      }
+      const before = threadData.entities[index];
+      const after = { ...before, observations: [...before.observations, observation], timestamp: observation.timestamp };
+      threadData.entities[index] = after;
+      return entityAuditEntries(threadId, entityName, before, after);
+    });
+  }
+
+  /**
+   * Insert or replace a relation in its thread file
+   */
+  async upsertRelation(relation: Relation): Promise<void> {
+    await this.updateThread(relation.agentThreadId, threadData => {
+      const index = threadData.relations.findIndex(r => this.isSameRelation(r, relation));
+      const before = threadData.relations[index];
+      if (index >= 0) {
+        threadData.relations[index] = relation;
+      } else {
+        threadData.relations.push(relation);
+      }
+      return relationAuditEntries(before, relation);
+    });
+  }
+
+  /**
+   * Delete a relation from its thread file
+   */
+  async deleteRelation(relation: Relation): Promise<void> {
+    await this.updateThread(relation.agentThreadId, threadData => {
+      const before = threadData.relations.find(r => this.isSameRelation(r, relation));
+      threadData.relations = threadData.relations.filter(r => !this.isSameRelation(r, relation));
+      return relationAuditEntries(before);
+    });
+  }
+
+  /**
+   * Get the file path holding a thread's embedding vectors
+   * Kept in a subdirectory so it is never mistaken for a thread file
+   */
+  private getEmbeddingsFilePath(threadId: string): string {
+    return path.join(this.memoryDirPath, EMBEDDINGS_DIR, `${THREAD_FILE_PREFIX}${threadId}${THREAD_FILE_EXTENSION}`);
+  }
+
+  /**
+   * Load a thread's embedding vectors, one record per line
+   */
+  async loadEmbeddings(threadId: string): Promise<EmbeddingRecord[]> {
+    try {
+      const data = await fs.readFile(this.getEmbeddingsFilePath(threadId), "utf-8");
+      return data.split("\n").filter(line => line.trim() !== "").map(line => JSON.parse(line));
+    } catch (error) {
+      if (this.isFileNotFoundError(error)) {
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Replace a thread's embedding vectors, deleting the file when there are none
+   */
+  async saveEmbeddings(threadId: string, records: EmbeddingRecord[]): Promise<void> {
+    const filePath = this.getEmbeddingsFilePath(threadId);
+    await this.locked(async () => {
+      if (records.length === 0) {
+        await this.deleteThreadFileIfExists(filePath);
+        return;
+      }
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await writeFileAtomic(filePath, records.map(record => JSON.stringify(record)).join("\n"));
+    });
+  }
+
+  /**
+   * Get the file name holding a thread's trash, relative to the memory directory
+   * Kept in a subdirectory so it is never listed as a thread
+   */
+  private getTrashFileName(threadId: string): string {
+    return path.join(TRASH_DIR, this.getThreadFileName(threadId));
+  }
+
+  /**
+   * Load a thread's trash items, one item per line
+   */
+  async loadTrash(threadId: string): Promise<TrashItem[]> {
+    try {
+      const data = await fs.readFile(path.join(this.memoryDirPath, this.getTrashFileName(threadId)), "utf-8");
+      return data.split("\n").filter(line => line.trim() !== "").map(line => JSON.parse(line));
+    } catch (error) {
+      if (this.isFileNotFoundError(error)) {
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Add items to a thread's trash file, replacing items with the same ID
+   */
+  async addToTrash(threadId: string, items: TrashItem[]): Promise<void> {
+    const ids = new Set(items.map(item => item.id));
+    await this.updateTrash(threadId, trash => [...trash.filter(item => !ids.has(item.id)), ...items]);
+  }
+
+  /**
+   * Remove items from a thread's trash file
+   */
+  async removeFromTrash(threadId: string, itemIds: string[]): Promise<void> {
+    const ids = new Set(itemIds);
+    await this.updateTrash(threadId, trash => trash.filter(item => !ids.has(item.id)));
+  }
+
+  /**
+   * Rewrite a thread's trash file while holding the lock
+   */
+  private async updateTrash(threadId: string, update: (trash: TrashItem[]) => TrashItem[]): Promise<void> {
+    await this.locked(async () => {
+      const trash = update(await this.loadTrash(threadId));
+      await fs.mkdir(path.join(this.memoryDirPath, TRASH_DIR), { recursive: true });
+      await this.commit([this.trashFileOperation(threadId, trash)]);
+    });
+  }
+
+  /**
+   * Build the logged write of a thread's trash file; an empty trash deletes the file
+   */
+  private trashFileOperation(threadId: string, trash: TrashItem[]): WalOperation {
+    const file = this.getTrashFileName(threadId);
+    if (trash.length === 0) {
+      return { op: 'delete', file };
+    }
+    return { op: 'write', file, data: trash.map(item => JSON.stringify(item)).join("\n") };
+  }
+
+  /**
+   * Append entries to the audit log file, one entry per line
+   * The file is only ever appended to, so it needs no write-ahead log: a crash can at
+   * most leave a torn last line, which loadAuditLog skips
+   */
+  async appendAuditEntries(entries: AuditEntry[]): Promise<void> {
+    const data = entries.map(entry => JSON.stringify(entry) + "\n").join("");
+    await this.locked(() => appendFileDurable(path.join(this.memoryDirPath, AUDIT_LOG_FILE_NAME), data));
+  }
+
+  /**
+   * Load audit log entries, most recent first
+   */
+  async loadAuditLog(filter?: AuditLogFilter): Promise<AuditEntry[]> {
+    let data: string;
+    try {
+      data = await fs.readFile(path.join(this.memoryDirPath, AUDIT_LOG_FILE_NAME), "utf-8");
+    } catch (error) {
+      if (this.isFileNotFoundError(error)) {
+        return [];
+      }
+      throw error;
+    }
+
+    const entries: AuditEntry[] = [];
+    for (const line of data.split("\n")) {
+      if (line.trim() === "") continue;
+      try {
+        entries.push(JSON.parse(line));
+      } catch {
+        // Torn by a crash while appending
+      }
+    }
+    return applyAuditFilter(entries, filter);
+  }
+
+  /**
+   * Get the file name of an archived thread, relative to the memory directory
+   * Kept in a subdirectory so it is never listed as an active thread
+   */
+  private getArchivedThreadFileName(threadId: string): string {
+    return path.join(ARCHIVE_DIR, this.getThreadFileName(threadId));
+  }
+
+  /**
+   * Check if a file exists, relative to the memory directory
+   */
+  private async fileExists(fileName: string): Promise<boolean> {
+    try {
+      await fs.access(path.join(this.memoryDirPath, fileName));
+      return true;
+    } catch (error) {
+      if (this.isFileNotFoundError(error)) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Check which of a thread's active and archived files exist (empty threads have no file)
+   */
+  private async getThreadPresence(threadId: string): Promise<ThreadPresence> {
+    return {
+      active: await this.fileExists(this.getThreadFileName(threadId)),
+      archived: await this.fileExists(this.getArchivedThreadFileName(threadId))
+    };
+  }
+
+  /**
+   * List archived thread IDs from the file names in the archive directory
+   */
+  async listArchivedThreadIds(): Promise<string[]> {
+    const files = await fs.readdir(path.join(this.memoryDirPath, ARCHIVE_DIR)).catch(() => [] as string[]);
+    return files
+      .map(f => this.extractThreadId(f))
+      .filter((id): id is string => id !== null);
+  }
+
+  /**
+   * Write a thread's data and trash to new files and delete the old files in one logged batch
+   * The embeddings file is renamed afterwards; if that is interrupted, the vectors are
+   * recomputed on the next semantic search
+   */
+  async renameThread(threadId: string, newThreadId: string): Promise<void> {
+    await this.locked(async () => {
+      checkCanRename(threadId, await this.getThreadPresence(threadId), newThreadId, await this.getThreadPresence(newThreadId));
+      const { graph, revision } = await this.readThread(threadId);
+      checkRevision(threadId, revision);
+      checkRevision(newThreadId, 0);
+      // Items the new ID deleted earlier stay in its trash
+      const trash = [...await this.loadTrash(newThreadId), ...await this.loadTrash(threadId)];
+
+      await fs.mkdir(path.join(this.memoryDirPath, TRASH_DIR), { recursive: true });
+      await this.commit([
+        this.threadFileOperation(newThreadId, renameThreadGraph(graph, threadId, newThreadId), revision + 1),
+        { op: 'delete', file: this.getThreadFileName(threadId) },
+        this.trashFileOperation(newThreadId, trash),
+        { op: 'delete', file: this.getTrashFileName(threadId) },
+        ...this.auditLogOperations(threadAuditEntries(threadId, 'rename_thread', { newThreadId }))
+      ]);
+      advanceRevision(threadId, 0);
+      advanceRevision(newThreadId, revision + 1);
+
+      try {
+        await fs.rename(this.getEmbeddingsFilePath(threadId), this.getEmbeddingsFilePath(newThreadId));
+      } catch (error) {
+        if (!this.isFileNotFoundError(error)) throw error;
+      }
+    });
+  }
+
+  /**
+   * Move a thread file into the archive directory in one logged batch
+   * The file keeps its revision line, so a restored thread continues from it
+   */
+  async archiveThread(threadId: string): Promise<void> {
+    await this.locked(async () => {
+      checkCanArchive(threadId, await this.getThreadPresence(threadId));
+      const { validLines, revision } = await this.readThread(threadId);
+      checkRevision(threadId, revision);
+
+      await fs.mkdir(path.join(this.memoryDirPath, ARCHIVE_DIR), { recursive: true });
+      await this.commit([
+        { op: 'write', file: this.getArchivedThreadFileName(threadId), data: validLines.join("\n") },
+        { op: 'delete', file: this.getThreadFileName(threadId) },
+        ...this.auditLogOperations(threadAuditEntries(threadId, 'archive_thread'))
+      ]);
+      advanceRevision(threadId, 0);
+      await this.deleteThreadFileIfExists(this.getEmbeddingsFilePath(threadId));
+    });
+  }
+
+  /**
+   * Move an archived thread file back into the memory directory in one logged batch
+   */
+  async restoreThread(threadId: string): Promise<void> {
+    await this.locked(async () => {
+      checkCanRestore(threadId, await this.getThreadPresence(threadId));
+      const archivedFile = this.getArchivedThreadFileName(threadId);
+      const archived = (await this.parseThreadFile(path.join(this.memoryDirPath, archivedFile)))!;
+      checkRevision(threadId, 0);
+
+      // Continue after the archived revision, so operations that read the thread while it was archived conflict
+      const revision = archived.revision + 1;
+      await this.commit([
+        this.threadFileOperation(threadId, archived.graph, revision),
+        { op: 'delete', file: archivedFile },
+        ...this.auditLogOperations(threadAuditEntries(threadId, 'restore_thread'))
+      ]);
+      advanceRevision(threadId, revision);
+    });
+  }
+
+  /**
+   * Delete a thread's active, archived and trash files in one logged batch, and its embeddings file
+   */
+  async deleteThread(threadId: string): Promise<void> {
+    await this.locked(async () => {
+      checkCanDelete(threadId, await this.getThreadPresence(threadId));
+      const { revision } = await this.readThread(threadId);
+      checkRevision(threadId, revision);
+
+      await this.commit([
+        { op: 'delete', file: this.getThreadFileName(threadId) },
+        { op: 'delete', file: this.getArchivedThreadFileName(threadId) },
+        { op: 'delete', file: this.getTrashFileName(threadId) },
+        ...this.auditLogOperations(threadAuditEntries(threadId, 'delete_thread'))
+      ]);
+      advanceRevision(threadId, 0);
+      await this.deleteThreadFileIfExists(this.getEmbeddingsFilePath(threadId));
+    });
+  }
+
+  /**
+   * Move corrupt lines out of the thread files into the recovery directory
+   * Without this, the next write to a thread would silently drop them
+   */
+  private async quarantineCorruptLines(): Promise<void> {
+    for (const fileName of await this.getThreadFileNames()) {
+      const parsed = await this.parseThreadFile(path.join(this.memoryDirPath, fileName));
+      if (!parsed || parsed.corruptLines.length === 0) continue;
+
+      this.reportCorruptLines(fileName, parsed.corruptLines);
+      const recoveredAt = new Date().toISOString();
+      const records = parsed.corruptLines.map(corrupt => JSON.stringify({ file: fileName, ...corrupt, recoveredAt }));
+      await fs.mkdir(path.join(this.memoryDirPath, RECOVERY_DIR), { recursive: true });
+      await appendFileDurable(path.join(this.memoryDirPath, RECOVERY_DIR, fileName), records.join("\n") + "\n");
+
+      await this.commit([parsed.validLines.length === 0
+        ? { op: 'delete', file: fileName }
+        : { op: 'write', file: fileName, data: parsed.validLines.join("\n") }]);
+    }
+  }
+
+  /**
+   * Report of what initialize() recovered, and of lines skipped since then
+   */
+  getRecoveryReport(): StorageRecoveryReport {
+    return { ...this.recoveryReport, corruptLines: [...this.recoveryReport.corruptLines] };
   }
 
   /**
    * Initialize the storage adapter (create memory directory if needed)
+   * Recovers from an earlier crash: removes leftover temp files, replays unfinished
+   * write-ahead log batches and quarantines corrupt lines
    */
   async initialize(): Promise<void> {
     await fs.mkdir(this.memoryDirPath, { recursive: true });
+
+    await this.locked(async () => {
+      const tempFilesRemoved = await removeTempFiles(this.memoryDirPath) +
+        await removeTempFiles(path.join(this.memoryDirPath, EMBEDDINGS_DIR)) +
+        await removeTempFiles(path.join(this.memoryDirPath, ARCHIVE_DIR)) +
+        await removeTempFiles(path.join(this.memoryDirPath, TRASH_DIR));
+      const replay = await this.wal.replay(ops => this.applyOperations(ops, true));
+      this.recoveryReport = {
+        walBatchesReplayed: replay.replayed,
+        walRecordsDiscarded: replay.discarded,
+        tempFilesRemoved,
+        corruptLines: []
+      };
+      this.reportedLines.clear();
+
+      await this.quarantineCorruptLines();
+    });
   }
 }
@@ -0,0 +1,60 @@
+/**
+ * Crash-safe file replacement
+ * Data is written to a temporary file next to the target, flushed to disk and renamed
+ * over the target, so readers and crashes only ever see the old or the new contents.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+
+/**
+ * Suffix of temporary files; files with this suffix are leftovers of an interrupted write
+ */
+export const TEMP_FILE_SUFFIX = '.tmp';
+
+let tempFileCounter = 0;
+
+/**
+ * Replace a file's contents atomically
+ */
+export async function writeFileAtomic(filePath: string, data: string): Promise<void> {
+  const tempPath = `${filePath}.${process.pid}-${++tempFileCounter}${TEMP_FILE_SUFFIX}`;
+  const handle = await fs.open(tempPath, 'w');
+  try {
+    await handle.writeFile(data, 'utf-8');
+    await handle.sync();
+  } finally {
+    await handle.close();
+  }
+
+  try {
+    await fs.rename(tempPath, filePath);
+  } catch (error) {
+    await fs.rm(tempPath, { force: true });
+    throw error;
+  }
+}
+
+/**
+ * Append data to a file and flush it to disk before returning
+ */
+export async function appendFileDurable(filePath: string, data: string): Promise<void> {
+  const handle = await fs.open(filePath, 'a');
+  try {
+    await handle.writeFile(data, 'utf-8');
+    await handle.datasync();
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * Delete temporary files left in a directory by interrupted writes
+ * Returns the number of files removed
+ */
+export async function removeTempFiles(dirPath: string): Promise<number> {
+  const files = await fs.readdir(dirPath).catch(() => [] as string[]);
+  const tempFiles = files.filter(f => f.endsWith(TEMP_FILE_SUFFIX));
+  await Promise.all(tempFiles.map(f => fs.rm(path.join(dirPath, f), { force: true })));
+  return tempFiles.length;
+}
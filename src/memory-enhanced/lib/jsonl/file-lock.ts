@@ -0,0 +1,195 @@
+/**
+ * Advisory lock on a memory directory, shared by all processes that use it
+ *
+ * The lock is a file created exclusively (hard link of a fully written temp file, so it
+ * is never seen half-written) holding the owner's PID, host and a random token.
+ * A lock is stale, and may be broken, when its owner process on this host is gone. Owners
+ * on other hosts cannot be checked, so their lock is stale when it has not been refreshed
+ * for the stale timeout; holders refresh its modification time while they hold it.
+ */
+
+import { promises as fs } from 'fs';
+import os from 'os';
+import { randomUUID } from 'crypto';
+import { JSONL_LOCK_DEFAULTS, JSONL_ERROR_MESSAGES } from '../storage-config.js';
+import { TEMP_FILE_SUFFIX } from './atomic-file.js';
+
+export interface FileLockOptions {
+  timeoutMs?: number;
+  staleMs?: number;
+  retryMs?: number;
+}
+
+interface LockOwner {
+  pid: number;
+  hostname: string;
+  token: string;
+  acquiredAt: string;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Check whether a process exists (EPERM means it exists but belongs to another user)
+ */
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    return (error as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
+
+export class FileLock {
+  private readonly lockPath: string;
+  private readonly timeoutMs: number;
+  private readonly staleMs: number;
+  private readonly retryMs: number;
+  // Serializes holders within this process; the lock file excludes other processes
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(lockPath: string, options: FileLockOptions = {}) {
+    this.lockPath = lockPath;
+    this.timeoutMs = options.timeoutMs ?? JSONL_LOCK_DEFAULTS.TIMEOUT_MS;
+    this.staleMs = options.staleMs ?? JSONL_LOCK_DEFAULTS.STALE_MS;
+    this.retryMs = options.retryMs ?? JSONL_LOCK_DEFAULTS.RETRY_MS;
+  }
+
+  /**
+   * Run a task while holding the lock
+   * The task is told whether a stale lock was broken, i.e. whether the previous owner
+   * may have died part-way through a write
+   */
+  async withLock<T>(task: (brokeStaleLock: boolean) => Promise<T>): Promise<T> {
+    const run = this.queue.then(async () => {
+      const owner: LockOwner = {
+        pid: process.pid,
+        hostname: os.hostname(),
+        token: randomUUID(),
+        acquiredAt: new Date().toISOString()
+      };
+      const brokeStaleLock = await this.acquire(owner);
+      const refresh = setInterval(() => this.refresh(owner), this.staleMs / 2);
+      refresh.unref();
+      try {
+        return await task(brokeStaleLock);
+      } finally {
+        clearInterval(refresh);
+        await this.release(owner);
+      }
+    });
+    this.queue = run.then(() => undefined, () => undefined);
+    return run;
+  }
+
+  /**
+   * Wait for the lock; returns true if a stale lock had to be broken
+   */
+  private async acquire(owner: LockOwner): Promise<boolean> {
+    const deadline = Date.now() + this.timeoutMs;
+    let brokeStaleLock = false;
+
+    while (true) {
+      if (await this.tryCreate(owner)) {
+        return brokeStaleLock;
+      }
+      const outcome = await this.breakIfStale();
+      if (outcome !== 'held') {
+        brokeStaleLock ||= outcome === 'broken';
+        continue;
+      }
+      if (Date.now() >= deadline) {
+        throw new Error(`${JSONL_ERROR_MESSAGES.LOCK_TIMEOUT} (${this.lockPath})`);
+      }
+      await sleep(this.retryMs + Math.random() * this.retryMs);
+    }
+  }
+
+  private async tryCreate(owner: LockOwner): Promise<boolean> {
+    const tempPath = `${this.lockPath}.${owner.token}${TEMP_FILE_SUFFIX}`;
+    await fs.writeFile(tempPath, JSON.stringify(owner));
+    try {
+      await fs.link(tempPath, this.lockPath);
+      return true;
+    } catch (error) {
+      // ENOENT: the temp file was swept up by another process's startup cleanup
+      const code = (error as NodeJS.ErrnoException).code;
+      if (code === 'EEXIST' || code === 'ENOENT') {
+        return false;
+      }
+      throw error;
+    } finally {
+      await fs.rm(tempPath, { force: true });
+    }
+  }
+
+  private async readOwner(filePath: string): Promise<LockOwner | null> {
+    try {
+      return JSON.parse(await fs.readFile(filePath, 'utf-8'));
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Owners on this host hold the lock as long as their process lives, however long they take;
+   * the age only decides for owners on other hosts and for unreadable lock files
+   */
+  private isStale(owner: LockOwner | null, ageMs: number): boolean {
+    if (owner !== null && owner.hostname === os.hostname()) {
+      return !isProcessAlive(owner.pid);
+    }
+    return ageMs > this.staleMs;
+  }
+
+  /**
+   * Remove the lock file if it is stale
+   * The file is renamed aside first and checked again, so a lock that another process
+   * broke and re-created in the meantime is put back instead of deleted
+   */
+  private async breakIfStale(): Promise<'broken' | 'released' | 'held'> {
+    let ageMs: number;
+    try {
+      ageMs = Date.now() - (await fs.stat(this.lockPath)).mtimeMs;
+    } catch {
+      return 'released';
+    }
+    const owner = await this.readOwner(this.lockPath);
+    if (!this.isStale(owner, ageMs)) return 'held';
+
+    const asidePath = `${this.lockPath}.${randomUUID()}${TEMP_FILE_SUFFIX}`;
+    try {
+      await fs.rename(this.lockPath, asidePath);
+    } catch {
+      return 'released';  // Someone else broke or released it
+    }
+    const removed = await this.readOwner(asidePath);
+    if (owner && removed && removed.token !== owner.token) {
+      await fs.link(asidePath, this.lockPath).catch(() => {});
+      await fs.rm(asidePath, { force: true });
+      return 'held';
+    }
+    await fs.rm(asidePath, { force: true });
+    console.warn(`Broke stale lock ${this.lockPath}` + (owner ? ` held by PID ${owner.pid} on ${owner.hostname}` : ''));
+    return 'broken';
+  }
+
+  /**
+   * Touch the lock file while it is held, so holders on other hosts do not see it as abandoned
+   */
+  private async refresh(owner: LockOwner): Promise<void> {
+    const current = await this.readOwner(this.lockPath);
+    if (current?.token === owner.token) {
+      const now = new Date();
+      await fs.utimes(this.lockPath, now, now).catch(() => {});
+    }
+  }
+
+  private async release(owner: LockOwner): Promise<void> {
+    const current = await this.readOwner(this.lockPath);
+    if (current?.token === owner.token) {
+      await fs.rm(this.lockPath, { force: true });
+    }
+  }
+}
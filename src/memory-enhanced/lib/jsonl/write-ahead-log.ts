@@ -0,0 +1,133 @@
+/**
+ * Write-ahead log for the JSONL storage adapter
+ *
+ * Every batch of file writes and deletes is appended to the log and flushed to disk
+ * before any file is touched. Once the batch is applied, a "done" record is appended,
+ * or the log is truncated when no other batch is in flight. On startup, batches without
+ * a "done" record are applied again. Records hold the complete new file contents, so
+ * applying a batch twice is harmless; appends are applied again only if the file does
+ * not already hold the appended data.
+ *
+ * A record torn by a crash during the append was never applied and is discarded.
+ */
+
+import { promises as fs } from 'fs';
+import { appendFileDurable } from './atomic-file.js';
+
+/**
+ * One file change; paths are relative to the memory directory
+ */
+export type WalOperation =
+  | { op: 'write'; file: string; data: string }
+  | { op: 'append'; file: string; data: string }
+  | { op: 'delete'; file: string };
+
+interface WalBatchRecord {
+  seq: number;
+  ops: WalOperation[];
+}
+
+interface WalDoneRecord {
+  seq: number;
+  done: true;
+}
+
+type WalRecord = WalBatchRecord | WalDoneRecord;
+
+export interface WalReplayResult {
+  replayed: number;   // Batches applied again
+  discarded: number;  // Unreadable records (torn by a crash while being written)
+}
+
+export type ApplyOperations = (ops: WalOperation[]) => Promise<void>;
+
+export class WriteAheadLog {
+  private readonly filePath: string;
+  private nextSeq = 1;
+  private pending = 0;
+  // Serializes appends and truncation so records never interleave
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(task);
+    this.queue = result.then(() => undefined, () => undefined);
+    return result;
+  }
+
+  /**
+   * Log a batch, apply it, then mark it done
+   * A batch that fails with an error is marked done as well: the caller sees the error,
+   * and replaying it later could overwrite newer writes. Only batches cut off by a crash are replayed.
+   */
+  async commit(ops: WalOperation[], apply: ApplyOperations): Promise<void> {
+    if (ops.length === 0) return;
+
+    const seq = await this.enqueue(async () => {
+      const record: WalBatchRecord = { seq: this.nextSeq++, ops };
+      await appendFileDurable(this.filePath, JSON.stringify(record) + '\n');
+      this.pending++;
+      return record.seq;
+    });
+
+    try {
+      await apply(ops);
+    } finally {
+      await this.enqueue(async () => {
+        this.pending--;
+        if (this.pending === 0) {
+          await fs.truncate(this.filePath, 0);
+        } else {
+          const record: WalDoneRecord = { seq, done: true };
+          await appendFileDurable(this.filePath, JSON.stringify(record) + '\n');
+        }
+      });
+    }
+  }
+
+  /**
+   * Apply the batches left unfinished by a previous process, in log order, then empty the log
+   */
+  async replay(apply: ApplyOperations): Promise<WalReplayResult> {
+    return this.enqueue(async () => {
+      let data: string;
+      try {
+        data = await fs.readFile(this.filePath, 'utf-8');
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+          return { replayed: 0, discarded: 0 };
+        }
+        throw error;
+      }
+
+      const batches = new Map<number, WalOperation[]>();
+      let discarded = 0;
+      for (const line of data.split('\n')) {
+        if (line.trim() === '') continue;
+        let record: WalRecord;
+        try {
+          record = JSON.parse(line);
+        } catch {
+          discarded++;
+          continue;
+        }
+        if ('done' in record) {
+          batches.delete(record.seq);
+        } else if (Array.isArray(record.ops)) {
+          batches.set(record.seq, record.ops);
+        } else {
+          discarded++;
+        }
+      }
+
+      for (const ops of batches.values()) {
+        await apply(ops);
+      }
+      await fs.truncate(this.filePath, 0);
+      return { replayed: batches.size, discarded };
+    });
+  }
+}
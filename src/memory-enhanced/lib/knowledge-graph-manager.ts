@@ -3,9 +3,43 @@
  * Acts as a facade to coordinate operations across different services
  */
 
-import { Entity, Relation, KnowledgeGraph, Observation } from './types.js';
+import {
+  Entity,
+  Relation,
+  KnowledgeGraph,
+  Observation,
+  SearchResult,
+  SemanticSearchResult,
+  GraphExport,
+  GraphImportResult,
+  MigrationReport,
+  PublishResult,
+  WorkspaceSummary,
+  ThreadMergeReport,
+  RetentionReport,
+  TrashItem,
+  TrashRestoreResult,
+  SnapshotInfo,
+  SnapshotDiff,
+  AuditEntry,
+  AuditLogFilter,
+  DuplicateGroup,
+  MergeEntitiesResult,
+  RenameEntityResult,
+  EntityHistoryEvent,
+  ObservationVersionDiff
+} from './types.js';
+import path from 'path';
 import { IStorageAdapter } from './storage-interface.js';
 import { JsonlStorageAdapter } from './jsonl-storage-adapter.js';
+import { SearchIndex } from './search/search-index.js';
+import { IndexedStorageAdapter } from './search/indexed-storage-adapter.js';
+import { AuditingStorageAdapter } from './audit/auditing-storage-adapter.js';
+import { EmbeddingProvider } from './embeddings/embedding-provider.js';
+import { HashedEmbeddingProvider } from './embeddings/hashed-embedding-provider.js';
+import { GraphFormat } from './interchange/graph-format.js';
+import { withRevisionCheck } from './utils/optimistic-concurrency.js';
+import { TRASH_DEFAULTS } from './storage-config.js';
 
 // Import CRUD operations
 import * as EntityOps from './operations/entity-operations.js';
@@ -15,32 +49,68 @@ import * as ObservationOps from './operations/observation-operations.js';
 // Import query operations
 import * as GraphReader from './queries/graph-reader.js';
 import * as SearchService from './queries/search-service.js';
+import * as SemanticSearch from './queries/semantic-search.js';
 import * as EntityQueries from './queries/entity-queries.js';
 
 // Import analysis services
 import * as MemoryStats from './analysis/memory-stats.js';
 import * as PathFinder from './analysis/path-finder.js';
 import * as ConflictDetector from './analysis/conflict-detector.js';
+import * as DuplicateDetector from './analysis/duplicate-detector.js';
 import * as ContextBuilder from './analysis/context-builder.js';
 import * as AnalyticsService from './analysis/analytics-service.js';
 
 // Import maintenance services
 import * as MemoryPruner from './maintenance/memory-pruner.js';
 import * as BulkUpdater from './maintenance/bulk-updater.js';
+import * as EntityMerger from './maintenance/entity-merger.js';
+import * as Trash from './maintenance/trash-service.js';
+import * as Snapshots from './maintenance/snapshot-service.js';
 
 // Import versioning services
 import * as ObservationHistory from './versioning/observation-history.js';
+import * as EntityHistory from './versioning/entity-history.js';
 
 // Import collaboration services
 import * as FlagManager from './collaboration/flag-manager.js';
 import * as ConversationService from './collaboration/conversation-service.js';
+import * as WorkspaceService from './collaboration/workspace-service.js';
+import * as ThreadLifecycle from './collaboration/thread-lifecycle-service.js';
+
+// Import interchange services
+import * as GraphTransfer from './interchange/graph-transfer.js';
+
+// Import storage migration
+import * as StorageMigrator from './migration/storage-migrator.js';
 
 export class KnowledgeGraphManager {
   private storage: IStorageAdapter;
+  private readonly searchIndex = new SearchIndex();
+  private readonly embeddingProvider: EmbeddingProvider;
+  private readonly trashRetentionDays: number | null;
+  private readonly snapshotsDir: string;
   private initializePromise: Promise<void> | null = null;
   
-  constructor(memoryDirPath: string, storageAdapter?: IStorageAdapter) {
-    this.storage = storageAdapter || new JsonlStorageAdapter(memoryDirPath);
+  /**
+   * @param trashRetentionDays Days deleted items stay in the trash; null keeps them until the trash is emptied
+   */
+  constructor(
+    memoryDirPath: string,
+    storageAdapter?: IStorageAdapter,
+    embeddingProvider?: EmbeddingProvider,
+    trashRetentionDays: number | null = TRASH_DEFAULTS.RETENTION_DAYS
+  ) {
+    this.trashRetentionDays = trashRetentionDays;
+    // Snapshots are files in the memory directory, whichever backend holds the graph
+    this.snapshotsDir = path.join(memoryDirPath, Snapshots.SNAPSHOTS_DIR);
+    // Offline hashed embeddings unless a model-backed provider is plugged in
+    this.embeddingProvider = embeddingProvider || new HashedEmbeddingProvider();
+    // Writes go through the indexed adapter so the search index stays current,
+    // and through the auditing adapter so every change is recorded in the audit log
+    this.storage = new IndexedStorageAdapter(
+      new AuditingStorageAdapter(storageAdapter || new JsonlStorageAdapter(memoryDirPath)),
+      this.searchIndex
+    );
     // Lazy initialization - will be called on first operation
   }
 
@@ -55,26 +125,49 @@ export class KnowledgeGraphManager {
     await this.initializePromise;
   }
 
+  /**
+   * Drop the items of a thread's trash that are older than the retention period
+   * Runs whenever a thread deletes something or its trash is used
+   */
+  private async purgeExpiredTrash(threadId: string): Promise<void> {
+    await Trash.purgeExpiredTrash(this.storage, threadId, this.trashRetentionDays);
+  }
+
   // Entity Operations
+  // Write operations run in a revision scope: if another process changes a thread
+  // between the operation's read and its first write, the operation is re-run on fresh data;
+  // a conflict after that fails the operation, keeping the writes it already made
   async createEntities(threadId: string, entities: Entity[]): Promise<Entity[]> {
     await this.ensureInitialized();
-    return EntityOps.createEntities(this.storage, threadId, entities);
+    return withRevisionCheck(() => EntityOps.createEntities(this.storage, threadId, entities));
   }
 
-  async deleteEntities(threadId: string, entityNames: string[]): Promise<void> {
+  async deleteEntities(threadId: string, entityNames: string[], reason?: string): Promise<void> {
     await this.ensureInitialized();
-    return EntityOps.deleteEntities(this.storage, threadId, entityNames);
+    await withRevisionCheck(() => EntityOps.deleteEntities(this.storage, threadId, entityNames, reason));
+    await this.purgeExpiredTrash(threadId);
+  }
+
+  async renameEntity(
+    threadId: string,
+    entityName: string,
+    newName: string,
+    keepOldNameAsAlias?: boolean
+  ): Promise<RenameEntityResult> {
+    await this.ensureInitialized();
+    return withRevisionCheck(() => EntityOps.renameEntity(this.storage, threadId, entityName, newName, keepOldNameAsAlias));
   }
 
   // Relation Operations
   async createRelations(threadId: string, relations: Relation[]): Promise<Relation[]> {
     await this.ensureInitialized();
-    return RelationOps.createRelations(this.storage, threadId, relations);
+    return withRevisionCheck(() => RelationOps.createRelations(this.storage, threadId, relations));
   }
 
-  async deleteRelations(threadId: string, relations: Relation[]): Promise<void> {
+  async deleteRelations(threadId: string, relations: Relation[], reason?: string): Promise<void> {
     await this.ensureInitialized();
-    return RelationOps.deleteRelations(this.storage, threadId, relations);
+    await withRevisionCheck(() => RelationOps.deleteRelations(this.storage, threadId, relations, reason));
+    await this.purgeExpiredTrash(threadId);
   }
 
   // Observation Operations
@@ -87,12 +180,17 @@ export class KnowledgeGraphManager {
     importance: number;
   }[]): Promise<{ entityName: string; addedObservations: Observation[] }[]> {
     await this.ensureInitialized();
-    return ObservationOps.addObservations(this.storage, threadId, observations);
+    return withRevisionCheck(() => ObservationOps.addObservations(this.storage, threadId, observations));
   }
 
-  async deleteObservations(threadId: string, deletions: { entityName: string; observations: string[] }[]): Promise<void> {
+  async deleteObservations(
+    threadId: string,
+    deletions: { entityName: string; observations: string[] }[],
+    reason?: string
+  ): Promise<void> {
     await this.ensureInitialized();
-    return ObservationOps.deleteObservations(this.storage, threadId, deletions);
+    await withRevisionCheck(() => ObservationOps.deleteObservations(this.storage, threadId, deletions, reason));
+    await this.purgeExpiredTrash(threadId);
   }
 
   async updateObservation(params: {
@@ -105,28 +203,56 @@ export class KnowledgeGraphManager {
     importance?: number;
   }): Promise<Observation> {
     await this.ensureInitialized();
-    return ObservationOps.updateObservation(this.storage, params);
+    return withRevisionCheck(() => ObservationOps.updateObservation(this.storage, params));
+  }
+
+  async revertObservation(params: {
+    entityName: string;
+    observationId: string;
+    agentThreadId: string;
+    timestamp: string;
+  }): Promise<Observation> {
+    await this.ensureInitialized();
+    return withRevisionCheck(() => ObservationOps.revertObservation(this.storage, params));
   }
 
   // Graph Reading Operations
-  async readGraph(threadId: string, minImportance?: number): Promise<KnowledgeGraph> {
+  // read_graph, search_nodes and get_context also return the workspaces the thread subscribes to
+  // With asOf, read_graph, search_nodes, open_nodes and get_context read threads as they were at that time
+  async readGraph(threadId: string, minImportance?: number, asOf?: string): Promise<KnowledgeGraph> {
     await this.ensureInitialized();
-    // Pass minImportance if provided, otherwise let readGraph use its default
-    if (minImportance !== undefined) {
-      return GraphReader.readGraph(this.storage, threadId, minImportance);
-    }
-    return GraphReader.readGraph(this.storage, threadId);
+    return WorkspaceService.withSharedMemory(this.storage, threadId, id =>
+      // Pass minImportance if provided, otherwise let readGraph use its default
+      minImportance !== undefined
+        ? GraphReader.readGraph(this.storage, id, minImportance, asOf)
+        : GraphReader.readGraph(this.storage, id, undefined, asOf)
+    );
   }
 
   // Search Operations
-  async searchNodes(threadId: string, query: string): Promise<KnowledgeGraph> {
+  async searchNodes(threadId: string, query: string, asOf?: string): Promise<SearchResult> {
     await this.ensureInitialized();
-    return SearchService.searchNodes(this.storage, threadId, query);
+    const result = await WorkspaceService.withSharedMemory(this.storage, threadId, id =>
+      SearchService.searchNodes(this.storage, id, query, this.searchIndex, asOf)
+    );
+    // Stable sort: on equal scores the thread's own hits stay first
+    result.entities.sort((a, b) => b.score - a.score);
+    return result;
   }
 
-  async openNodes(threadId: string, names: string[]): Promise<KnowledgeGraph> {
+  async semanticSearch(
+    threadId: string,
+    query: string,
+    limit?: number,
+    minImportance?: number
+  ): Promise<SemanticSearchResult> {
     await this.ensureInitialized();
-    return SearchService.openNodes(this.storage, threadId, names);
+    return SemanticSearch.semanticSearch(this.storage, this.embeddingProvider, threadId, query, limit, minImportance);
+  }
+
+  async openNodes(threadId: string, names: string[], asOf?: string): Promise<KnowledgeGraph> {
+    await this.ensureInitialized();
+    return SearchService.openNodes(this.storage, threadId, names, asOf);
   }
 
   async queryNodes(threadId: string, filters?: {
@@ -152,6 +278,11 @@ export class KnowledgeGraphManager {
     return EntityQueries.getEntityNamesInThread(this.storage, threadId);
   }
 
+  async getEntityAliasesInThread(threadId: string): Promise<Map<string, string>> {
+    await this.ensureInitialized();
+    return EntityQueries.getEntityAliasesInThread(this.storage, threadId);
+  }
+
   async listEntities(
     threadId: string,
     entityType?: string,
@@ -198,9 +329,16 @@ export class KnowledgeGraphManager {
     return ConflictDetector.detectConflicts(this.storage, threadId);
   }
 
-  async getContext(threadId: string, entityNames: string[], depth: number = 1): Promise<KnowledgeGraph> {
+  async findDuplicateEntities(threadId: string, minScore?: number): Promise<DuplicateGroup[]> {
     await this.ensureInitialized();
-    return ContextBuilder.getContext(this.storage, threadId, entityNames, depth);
+    return DuplicateDetector.findDuplicateEntities(this.storage, threadId, minScore);
+  }
+
+  async getContext(threadId: string, entityNames: string[], depth: number = 1, asOf?: string): Promise<KnowledgeGraph> {
+    await this.ensureInitialized();
+    return WorkspaceService.withSharedMemory(this.storage, threadId, id =>
+      ContextBuilder.getContext(this.storage, id, entityNames, depth, asOf)
+    );
   }
 
   async getAnalytics(threadId: string): Promise<{
@@ -237,9 +375,12 @@ export class KnowledgeGraphManager {
     olderThan?: string;
     importanceLessThan?: number;
     keepMinEntities?: number;
+    reason?: string;
   }): Promise<{ removedEntities: number; removedRelations: number }> {
     await this.ensureInitialized();
-    return MemoryPruner.pruneMemory(this.storage, threadId, options);
+    const result = await withRevisionCheck(() => MemoryPruner.pruneMemory(this.storage, threadId, options));
+    await this.purgeExpiredTrash(threadId);
+    return result;
   }
 
   async bulkUpdate(threadId: string, updates: {
@@ -249,13 +390,69 @@ export class KnowledgeGraphManager {
     addObservations?: string[];
   }[]): Promise<{ updated: number; notFound: string[] }> {
     await this.ensureInitialized();
-    return BulkUpdater.bulkUpdate(this.storage, threadId, updates);
+    return withRevisionCheck(() => BulkUpdater.bulkUpdate(this.storage, threadId, updates));
+  }
+
+  async mergeEntities(threadId: string, canonicalName: string, duplicateNames: string[]): Promise<MergeEntitiesResult> {
+    await this.ensureInitialized();
+    return withRevisionCheck(() => EntityMerger.mergeEntities(this.storage, threadId, canonicalName, duplicateNames));
+  }
+
+  // Trash
+  async listTrash(threadId: string): Promise<TrashItem[]> {
+    await this.ensureInitialized();
+    await this.purgeExpiredTrash(threadId);
+    return Trash.listTrash(this.storage, threadId);
+  }
+
+  async restoreFromTrash(threadId: string, itemIds: string[]): Promise<TrashRestoreResult> {
+    await this.ensureInitialized();
+    await this.purgeExpiredTrash(threadId);
+    return withRevisionCheck(() => Trash.restoreFromTrash(this.storage, threadId, itemIds));
+  }
+
+  async emptyTrash(threadId: string, itemIds?: string[]): Promise<number> {
+    await this.ensureInitialized();
+    await this.purgeExpiredTrash(threadId);
+    return Trash.emptyTrash(this.storage, threadId, itemIds);
+  }
+
+  // Snapshots
+  async createSnapshot(label: string, threadId?: string): Promise<SnapshotInfo> {
+    await this.ensureInitialized();
+    return Snapshots.createSnapshot(this.storage, this.snapshotsDir, label, threadId);
+  }
+
+  async listSnapshots(threadId?: string): Promise<SnapshotInfo[]> {
+    await this.ensureInitialized();
+    return Snapshots.listSnapshots(this.snapshotsDir, threadId);
+  }
+
+  async diffSnapshot(snapshotId: string): Promise<SnapshotDiff> {
+    await this.ensureInitialized();
+    return Snapshots.diffSnapshot(this.storage, this.snapshotsDir, snapshotId);
+  }
+
+  async restoreSnapshot(snapshotId: string): Promise<SnapshotDiff> {
+    await this.ensureInitialized();
+    return withRevisionCheck(() => Snapshots.restoreSnapshot(this.storage, this.snapshotsDir, snapshotId));
+  }
+
+  async deleteSnapshot(snapshotId: string): Promise<void> {
+    await this.ensureInitialized();
+    return Snapshots.deleteSnapshot(this.snapshotsDir, snapshotId);
+  }
+
+  // Audit Log
+  async getAuditLog(filter: AuditLogFilter = {}): Promise<AuditEntry[]> {
+    await this.ensureInitialized();
+    return this.storage.loadAuditLog(filter);
   }
 
   // Collaboration Features
   async flagForReview(threadId: string, entityName: string, reason: string, reviewer?: string): Promise<void> {
     await this.ensureInitialized();
-    return FlagManager.flagForReview(this.storage, threadId, entityName, reason, reviewer);
+    return withRevisionCheck(() => FlagManager.flagForReview(this.storage, threadId, entityName, reason, reviewer));
   }
 
   async getFlaggedEntities(threadId: string): Promise<Entity[]> {
@@ -276,9 +473,117 @@ export class KnowledgeGraphManager {
     return ConversationService.listConversations(this.storage);
   }
 
+  async forkThread(sourceThreadId: string, targetThreadId: string): Promise<ThreadMergeReport> {
+    await this.ensureInitialized();
+    return withRevisionCheck(() => ConversationService.forkThread(this.storage, sourceThreadId, targetThreadId));
+  }
+
+  async mergeThreads(sourceThreadId: string, targetThreadId: string, deleteSource?: boolean): Promise<ThreadMergeReport> {
+    await this.ensureInitialized();
+    return withRevisionCheck(() => ConversationService.mergeThreads(this.storage, sourceThreadId, targetThreadId, deleteSource));
+  }
+
+  async copyEntitiesToThread(sourceThreadId: string, targetThreadId: string, entityNames: string[]): Promise<ThreadMergeReport> {
+    await this.ensureInitialized();
+    return withRevisionCheck(() => ConversationService.copyEntitiesToThread(this.storage, sourceThreadId, targetThreadId, entityNames));
+  }
+
+  // Thread Lifecycle
+  async renameThread(threadId: string, newThreadId: string): Promise<void> {
+    await this.ensureInitialized();
+    return withRevisionCheck(() => ThreadLifecycle.renameThread(this.storage, threadId, newThreadId));
+  }
+
+  async archiveThread(threadId: string): Promise<void> {
+    await this.ensureInitialized();
+    return withRevisionCheck(() => ThreadLifecycle.archiveThread(this.storage, threadId));
+  }
+
+  async restoreThread(threadId: string): Promise<void> {
+    await this.ensureInitialized();
+    return withRevisionCheck(() => ThreadLifecycle.restoreThread(this.storage, threadId));
+  }
+
+  async deleteThread(threadId: string): Promise<void> {
+    await this.ensureInitialized();
+    return withRevisionCheck(() => ThreadLifecycle.deleteThread(this.storage, threadId));
+  }
+
+  async listArchivedThreads(): Promise<string[]> {
+    await this.ensureInitialized();
+    return ThreadLifecycle.listArchivedThreads(this.storage);
+  }
+
+  async applyRetentionPolicy(archiveAfterDays: number, dryRun?: boolean): Promise<RetentionReport> {
+    await this.ensureInitialized();
+    return withRevisionCheck(() => ThreadLifecycle.applyRetentionPolicy(this.storage, archiveAfterDays, dryRun));
+  }
+
+  // Shared Workspaces
+  async publishMemory(threadId: string, workspace: string, entityNames: string[]): Promise<PublishResult> {
+    await this.ensureInitialized();
+    return withRevisionCheck(() => WorkspaceService.publishMemory(this.storage, threadId, workspace, entityNames));
+  }
+
+  async subscribeWorkspace(threadId: string, workspace: string): Promise<string[]> {
+    await this.ensureInitialized();
+    return withRevisionCheck(() => WorkspaceService.subscribe(this.storage, threadId, workspace));
+  }
+
+  async unsubscribeWorkspace(threadId: string, workspace: string): Promise<string[]> {
+    await this.ensureInitialized();
+    return withRevisionCheck(() => WorkspaceService.unsubscribe(this.storage, threadId, workspace));
+  }
+
+  async listSubscriptions(threadId: string): Promise<string[]> {
+    await this.ensureInitialized();
+    return WorkspaceService.listSubscriptions(this.storage, threadId);
+  }
+
+  async listWorkspaces(): Promise<WorkspaceSummary[]> {
+    await this.ensureInitialized();
+    return WorkspaceService.listWorkspaces(this.storage);
+  }
+
   // Observation Versioning
   async getObservationHistory(threadId: string, entityName: string, observationId: string): Promise<Observation[]> {
     await this.ensureInitialized();
     return ObservationHistory.getObservationHistory(this.storage, threadId, entityName, observationId);
   }
+
+  async diffObservationVersions(
+    threadId: string,
+    entityName: string,
+    fromObservationId: string,
+    toObservationId: string
+  ): Promise<ObservationVersionDiff> {
+    await this.ensureInitialized();
+    return ObservationHistory.diffObservationVersions(this.storage, threadId, entityName, fromObservationId, toObservationId);
+  }
+
+  async getEntityHistory(threadId: string, entityName: string): Promise<EntityHistoryEvent[]> {
+    await this.ensureInitialized();
+    return EntityHistory.getEntityHistory(this.storage, threadId, entityName);
+  }
+
+  // Graph Export / Import
+  async exportGraph(format: GraphFormat, threadId?: string): Promise<GraphExport> {
+    await this.ensureInitialized();
+    return GraphTransfer.exportGraph(this.storage, format, threadId);
+  }
+
+  async importGraph(format: GraphFormat, data: string, threadId?: string): Promise<GraphImportResult> {
+    await this.ensureInitialized();
+    return withRevisionCheck(() => GraphTransfer.importGraph(this.storage, format, data, threadId));
+  }
+
+  // Storage Migration
+  /**
+   * Copy every thread of another storage backend into this manager's storage
+   * Writes go through the indexed storage so search results stay current
+   */
+  async migrateFrom(source: IStorageAdapter, options: StorageMigrator.MigrationOptions = {}): Promise<MigrationReport> {
+    await this.ensureInitialized();
+    return StorageMigrator.migrateStorage(source, this.storage, options);
+  }
 }
@@ -4,6 +4,7 @@
 
 import { Observation } from '../types.js';
 import { IStorageAdapter } from '../storage-interface.js';
+import { checkNotWorkspace } from '../collaboration/workspace-service.js';
 import { randomUUID } from 'crypto';
 
 /**
@@ -20,12 +21,13 @@ export async function bulkUpdate(
     addObservations?: string[];
   }[]
 ): Promise<{ updated: number; notFound: string[] }> {
-  const graph = await storage.loadGraph();
+  checkNotWorkspace(threadId);
+  const graph = await storage.loadThreadGraph(threadId);
   let updated = 0;
   const notFound: string[] = [];
   
   for (const update of updates) {
-    const entity = graph.entities.find(e => e.name === update.entityName && e.agentThreadId === threadId);
+    const entity = graph.entities.find(e => e.name === update.entityName);
     if (!entity) {
       notFound.push(update.entityName);
       continue;
@@ -58,9 +60,9 @@ export async function bulkUpdate(
     }
     
     entity.timestamp = new Date().toISOString();
+    await storage.upsertEntity(entity);
     updated++;
   }
   
-  await storage.saveGraph(graph);
   return { updated, notFound };
 }
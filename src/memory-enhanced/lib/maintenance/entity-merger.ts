@@ -0,0 +1,113 @@
+/**
+ * Entity merge: fold duplicate entities into one canonical entity
+ *
+ * The observations of the duplicates move to the canonical entity with their version
+ * chains, and every relation of the thread that starts or ends at a duplicate is rewired
+ * to it. That includes the inverse relations save_memory creates, which are stored like
+ * any other relation. The duplicate names become aliases of the canonical entity. The
+ * duplicates are removed without going to the trash: nothing they held is lost, and the
+ * audit log records the merge. The merged thread is stored in a single write.
+ */
+
+import { Entity, Relation, Observation, MergeEntitiesResult } from '../types.js';
+import { IStorageAdapter } from '../storage-interface.js';
+import { checkNotWorkspace } from '../collaboration/workspace-service.js';
+import { findEntity } from '../utils/entity-finder.js';
+import { createRelationKey } from '../utils/relation-key.js';
+
+/**
+ * Merge duplicate entities of a thread into a canonical entity
+ * Observations already on the canonical entity (same ID, or same content as a current
+ * version) are not copied again. Relations that become self-references or duplicates of
+ * an existing relation are dropped. Confidence and importance become the highest of the
+ * merged entities.
+ * @throws Error if the canonical entity or a duplicate is not found in the thread
+ * @throws Error if the canonical entity is listed among the duplicates
+ */
+export async function mergeEntities(
+  storage: IStorageAdapter,
+  threadId: string,
+  canonicalName: string,
+  duplicateNames: string[]
+): Promise<MergeEntitiesResult> {
+  checkNotWorkspace(threadId);
+  const graph = await storage.loadThreadGraph(threadId);
+  const canonical = findEntity(graph, canonicalName);
+  const names = [...new Set(duplicateNames)];
+  if (names.includes(canonicalName)) {
+    throw new Error(`Entity '${canonicalName}' cannot be merged into itself`);
+  }
+  const duplicates = names.map(name => findEntity(graph, name));
+
+  // Observations; a skipped observation's ID maps to the canonical observation it duplicates,
+  // so version chains that pointed at it point at that one instead
+  const observations = [...canonical.observations];
+  const idMap = new Map<string, string>();
+  const moved: Observation[] = [];
+  for (const duplicate of duplicates) {
+    for (const observation of duplicate.observations) {
+      const present = observations.find(o =>
+        o.id === observation.id || (!o.superseded_by && !observation.superseded_by && o.content === observation.content)
+      );
+      if (present) {
+        idMap.set(observation.id, present.id);
+      } else {
+        const copy = { ...observation };
+        observations.push(copy);
+        moved.push(copy);
+      }
+    }
+  }
+  for (const observation of moved) {
+    if (observation.supersedes !== undefined) observation.supersedes = idMap.get(observation.supersedes) ?? observation.supersedes;
+    if (observation.superseded_by !== undefined) observation.superseded_by = idMap.get(observation.superseded_by) ?? observation.superseded_by;
+  }
+
+  const aliases = new Set(canonical.aliases ?? []);
+  for (const duplicate of duplicates) {
+    aliases.add(duplicate.name);
+    (duplicate.aliases ?? []).forEach(alias => aliases.add(alias));
+  }
+  aliases.delete(canonical.name);
+
+  const merged: Entity = {
+    ...canonical,
+    observations,
+    confidence: Math.max(canonical.confidence, ...duplicates.map(d => d.confidence)),
+    importance: Math.max(canonical.importance, ...duplicates.map(d => d.importance)),
+    aliases: [...aliases],
+    timestamp: new Date().toISOString()
+  };
+
+  // Relations
+  const duplicateSet = new Set(names);
+  const rewire = (name: string) => (duplicateSet.has(name) ? canonicalName : name);
+  const affected = graph.relations.filter(r => duplicateSet.has(r.from) || duplicateSet.has(r.to));
+  const relations = graph.relations.filter(r => !affected.includes(r));
+  const kept = new Set(relations.map(createRelationKey));
+
+  let droppedRelations = 0;
+  for (const relation of affected) {
+    const rewired: Relation = { ...relation, from: rewire(relation.from), to: rewire(relation.to) };
+    if (rewired.from === rewired.to || kept.has(createRelationKey(rewired))) {
+      droppedRelations++;
+      continue;
+    }
+    kept.add(createRelationKey(rewired));
+    relations.push(rewired);
+  }
+
+  // One write, so a failure leaves the thread as it was
+  const entities = graph.entities
+    .filter(e => !duplicateSet.has(e.name))
+    .map(e => (e.name === canonical.name ? merged : e));
+  await storage.saveThreadGraph(threadId, { entities, relations });
+
+  return {
+    entity: merged,
+    mergedEntities: names,
+    movedObservations: moved.length,
+    rewiredRelations: affected.length - droppedRelations,
+    droppedRelations
+  };
+}
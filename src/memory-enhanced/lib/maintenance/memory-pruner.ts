@@ -3,9 +3,12 @@
  */
 
 import { IStorageAdapter } from '../storage-interface.js';
+import { checkNotWorkspace } from '../collaboration/workspace-service.js';
+import { entityTrashItems, moveToTrash } from './trash-service.js';
 
 /**
  * Prune memory based on age and importance criteria
+ * Pruned entities and relations are moved to the thread's trash
  * Thread isolation: Only prunes entities and relations in the specified thread
  */
 export async function pruneMemory(
@@ -15,18 +18,20 @@ export async function pruneMemory(
     olderThan?: string;
     importanceLessThan?: number;
     keepMinEntities?: number;
+    reason?: string;  // Stored with the trash items
   }
 ): Promise<{ removedEntities: number; removedRelations: number }> {
-  const graph = await storage.loadGraph();
+  checkNotWorkspace(threadId);
+  const graph = await storage.loadThreadGraph(threadId);
   
-  // Filter to only entities in the specified thread
-  const threadEntities = graph.entities.filter(e => e.agentThreadId === threadId);
+  // Only entities in the specified thread are loaded
+  const threadEntities = graph.entities;
   const initialEntityCount = threadEntities.length;
   
   // Count initial relations in the thread
   const threadEntityNames = new Set(threadEntities.map(e => e.name));
   const initialRelationCount = graph.relations.filter(r => 
-    r.agentThreadId === threadId && threadEntityNames.has(r.from) && threadEntityNames.has(r.to)
+    threadEntityNames.has(r.from) && threadEntityNames.has(r.to)
   ).length;
   
   // Filter entities to remove within the thread
@@ -65,21 +70,16 @@ export async function pruneMemory(
   const removedEntityNames = new Set(threadEntityNames);
   keptEntityNames.forEach(name => removedEntityNames.delete(name));
   
-  // Update the main graph: remove entities from this thread that should be pruned
-  graph.entities = graph.entities.filter(e => 
-    e.agentThreadId !== threadId || keptEntityNames.has(e.name)
-  );
-  
-  // Remove relations from this thread that reference removed entities
-  graph.relations = graph.relations.filter(r => 
-    !(r.agentThreadId === threadId && (removedEntityNames.has(r.from) || removedEntityNames.has(r.to)))
-  );
-  
-  await storage.saveGraph(graph);
+  // Remove pruned entities; the adapter also drops this thread's relations that reference them
+  const trashItems = entityTrashItems(graph, removedEntityNames, options.reason ?? 'prune_memory', new Date().toISOString());
+  await moveToTrash(storage, threadId, trashItems);
+  for (const name of removedEntityNames) {
+    await storage.deleteEntity(threadId, name);
+  }
   
   // Count remaining relations in the thread after pruning
   const finalRelationCount = graph.relations.filter(r => 
-    r.agentThreadId === threadId && keptEntityNames.has(r.from) && keptEntityNames.has(r.to)
+    keptEntityNames.has(r.from) && keptEntityNames.has(r.to)
   ).length;
   
   return {
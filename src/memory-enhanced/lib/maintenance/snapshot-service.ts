@@ -0,0 +1,216 @@
+/**
+ * Snapshots: labelled point-in-time copies of the whole graph or of one thread
+ *
+ * Snapshots are files in the snapshots directory of the memory directory, whichever
+ * storage backend holds the graph, so a checkpoint taken before prune_memory or
+ * bulk_update can be diffed against and rolled back to. Each snapshot is a JSONL data
+ * file in the thread file format plus a small metadata file, so listing never reads
+ * graph data.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { Entity, Relation, Observation, KnowledgeGraph, SnapshotInfo, SnapshotDiff, EntityChange } from '../types.js';
+import { IStorageAdapter } from '../storage-interface.js';
+import { jsonlCodec } from '../interchange/jsonl-codec.js';
+import { writeFileAtomic } from '../jsonl/atomic-file.js';
+import { stripGraphStatus } from '../queries/graph-reader.js';
+import { createRelationKey } from '../utils/relation-key.js';
+import { isFileSystemError } from '../utils/file-system-error.js';
+
+/**
+ * Directory of the memory directory that holds snapshots
+ */
+export const SNAPSHOTS_DIR = 'snapshots';
+
+const DATA_SUFFIX = '.jsonl';
+const INFO_SUFFIX = '.json';
+const SNAPSHOT_ID_PATTERN = /^snapshot_[0-9a-f-]{36}$/;
+
+// Entity fields compared by diff_snapshot; observations are compared one by one
+const COMPARED_ENTITY_FIELDS = ['entityType', 'confidence', 'importance', 'aliases'] as const;
+
+function snapshotFile(snapshotsDir: string, id: string, suffix: string): string {
+  return path.join(snapshotsDir, `${id}${suffix}`);
+}
+
+function entityKey(entity: Entity): string {
+  return JSON.stringify([entity.agentThreadId, entity.name]);
+}
+
+function relationKey(relation: Relation): string {
+  return JSON.stringify([relation.agentThreadId, createRelationKey(relation)]);
+}
+
+/**
+ * Read the part of the graph a snapshot covers: one thread, or every active thread
+ */
+async function loadScope(storage: IStorageAdapter, threadId?: string): Promise<KnowledgeGraph> {
+  return stripGraphStatus(threadId !== undefined ? await storage.loadThreadGraph(threadId) : await storage.loadGraph());
+}
+
+/**
+ * Read the metadata of a snapshot
+ * @throws Error if the snapshot does not exist
+ */
+async function readSnapshotInfo(snapshotsDir: string, id: string): Promise<SnapshotInfo> {
+  // IDs are also file names, so anything that is not a snapshot ID is never looked up
+  if (!SNAPSHOT_ID_PATTERN.test(id)) {
+    throw new Error(`Snapshot ${id} not found`);
+  }
+  try {
+    return JSON.parse(await fs.readFile(snapshotFile(snapshotsDir, id, INFO_SUFFIX), 'utf-8'));
+  } catch (error) {
+    if (isFileSystemError(error) && error.code === 'ENOENT') {
+      throw new Error(`Snapshot ${id} not found`);
+    }
+    throw error;
+  }
+}
+
+async function readSnapshot(snapshotsDir: string, id: string): Promise<{ info: SnapshotInfo; graph: KnowledgeGraph }> {
+  const info = await readSnapshotInfo(snapshotsDir, id);
+  const graph = jsonlCodec.parse(await fs.readFile(snapshotFile(snapshotsDir, id, DATA_SUFFIX), 'utf-8'));
+  return { info, graph };
+}
+
+/**
+ * Capture the whole graph, or one thread, into a new snapshot
+ * Archived threads are not part of a full snapshot.
+ */
+export async function createSnapshot(
+  storage: IStorageAdapter,
+  snapshotsDir: string,
+  label: string,
+  threadId?: string
+): Promise<SnapshotInfo> {
+  const graph = await loadScope(storage, threadId);
+  const info: SnapshotInfo = {
+    id: `snapshot_${randomUUID()}`,
+    label,
+    createdAt: new Date().toISOString(),
+    ...(threadId !== undefined && { threadId }),
+    entityCount: graph.entities.length,
+    relationCount: graph.relations.length
+  };
+
+  await fs.mkdir(snapshotsDir, { recursive: true });
+  // Data first: a snapshot is only listed once its metadata file exists
+  await writeFileAtomic(snapshotFile(snapshotsDir, info.id, DATA_SUFFIX), jsonlCodec.serialize(graph));
+  await writeFileAtomic(snapshotFile(snapshotsDir, info.id, INFO_SUFFIX), JSON.stringify(info, null, 2));
+  return info;
+}
+
+/**
+ * List snapshots, most recent first
+ * @param threadId Only list snapshots of this thread
+ */
+export async function listSnapshots(snapshotsDir: string, threadId?: string): Promise<SnapshotInfo[]> {
+  let files: string[];
+  try {
+    files = await fs.readdir(snapshotsDir);
+  } catch (error) {
+    if (isFileSystemError(error) && error.code === 'ENOENT') {
+      return [];
+    }
+    throw error;
+  }
+
+  const ids = files
+    .filter(file => file.endsWith(INFO_SUFFIX))
+    .map(file => file.slice(0, -INFO_SUFFIX.length))
+    .filter(id => SNAPSHOT_ID_PATTERN.test(id));
+  const snapshots = await Promise.all(ids.map(id => readSnapshotInfo(snapshotsDir, id)));
+  return snapshots
+    .filter(snapshot => threadId === undefined || snapshot.threadId === threadId)
+    .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+}
+
+function diffObservations(before: Observation[], after: Observation[]): Pick<EntityChange, 'addedObservations' | 'removedObservations' | 'changedObservations'> {
+  const beforeById = new Map(before.map(o => [o.id, o]));
+  const afterIds = new Set(after.map(o => o.id));
+  return {
+    addedObservations: after.filter(o => !beforeById.has(o.id)).map(o => o.id),
+    removedObservations: before.filter(o => !afterIds.has(o.id)).map(o => o.id),
+    changedObservations: after
+      .filter(o => beforeById.has(o.id) && JSON.stringify(beforeById.get(o.id)) !== JSON.stringify(o))
+      .map(o => o.id)
+  };
+}
+
+/**
+ * Compare a snapshot with the current state of the graph it covers
+ * "Added" items exist now but not in the snapshot; "removed" items are in the snapshot only.
+ */
+function diffGraphs(info: SnapshotInfo, snapshot: KnowledgeGraph, current: KnowledgeGraph): SnapshotDiff {
+  const snapshotEntities = new Map(snapshot.entities.map(e => [entityKey(e), e]));
+  const currentEntities = new Map(current.entities.map(e => [entityKey(e), e]));
+  const snapshotRelations = new Set(snapshot.relations.map(relationKey));
+  const currentRelations = new Set(current.relations.map(relationKey));
+  const identity = (e: Entity) => ({ name: e.name, agentThreadId: e.agentThreadId });
+
+  const changedEntities: EntityChange[] = [];
+  for (const [key, entity] of currentEntities) {
+    const before = snapshotEntities.get(key);
+    if (!before) continue;
+    const change: EntityChange = {
+      ...identity(entity),
+      changedFields: COMPARED_ENTITY_FIELDS.filter(field => JSON.stringify(before[field]) !== JSON.stringify(entity[field])),
+      ...diffObservations(before.observations, entity.observations)
+    };
+    if (change.changedFields.length > 0 || change.addedObservations.length > 0
+      || change.removedObservations.length > 0 || change.changedObservations.length > 0) {
+      changedEntities.push(change);
+    }
+  }
+
+  return {
+    snapshot: info,
+    addedEntities: current.entities.filter(e => !snapshotEntities.has(entityKey(e))).map(identity),
+    removedEntities: snapshot.entities.filter(e => !currentEntities.has(entityKey(e))).map(identity),
+    changedEntities,
+    addedRelations: current.relations.filter(r => !snapshotRelations.has(relationKey(r))),
+    removedRelations: snapshot.relations.filter(r => !currentRelations.has(relationKey(r)))
+  };
+}
+
+/**
+ * Show what changed in the graph, or the snapshot's thread, since a snapshot was taken
+ * @throws Error if the snapshot does not exist
+ */
+export async function diffSnapshot(storage: IStorageAdapter, snapshotsDir: string, snapshotId: string): Promise<SnapshotDiff> {
+  const { info, graph } = await readSnapshot(snapshotsDir, snapshotId);
+  return diffGraphs(info, graph, await loadScope(storage, info.threadId));
+}
+
+/**
+ * Roll the graph, or the snapshot's thread, back to a snapshot
+ * A full snapshot replaces every active thread through saveGraph. A thread snapshot
+ * replaces only its thread, through saveThreadGraph; either is a single commit.
+ * @returns The changes that were rolled back
+ * @throws Error if the snapshot does not exist
+ */
+export async function restoreSnapshot(storage: IStorageAdapter, snapshotsDir: string, snapshotId: string): Promise<SnapshotDiff> {
+  const { info, graph } = await readSnapshot(snapshotsDir, snapshotId);
+  const current = await loadScope(storage, info.threadId);
+  const diff = diffGraphs(info, graph, current);
+
+  if (info.threadId === undefined) {
+    await storage.saveGraph(graph);
+  } else {
+    await storage.saveThreadGraph(info.threadId, graph);
+  }
+  return diff;
+}
+
+/**
+ * Delete a snapshot
+ * @throws Error if the snapshot does not exist
+ */
+export async function deleteSnapshot(snapshotsDir: string, snapshotId: string): Promise<void> {
+  await readSnapshotInfo(snapshotsDir, snapshotId);
+  // Metadata first, so a snapshot is never listed without its data
+  await fs.rm(snapshotFile(snapshotsDir, snapshotId, INFO_SUFFIX), { force: true });
+  await fs.rm(snapshotFile(snapshotsDir, snapshotId, DATA_SUFFIX), { force: true });
+}
@@ -0,0 +1,205 @@
+/**
+ * Trash: deleted entities, relations and observations are kept per thread, so a mistaken
+ * deletion can be undone
+ *
+ * Delete operations add what they remove to the trash of the deleting thread before removing
+ * it, so an interrupted deletion leaves an item in both places rather than in neither.
+ * Items stay until they are restored, the trash is emptied, or they are older than the
+ * trash retention period.
+ */
+
+import { createHash } from 'crypto';
+import { Entity, Relation, Observation, KnowledgeGraph, TrashItem, TrashRestoreResult } from '../types.js';
+import { IStorageAdapter } from '../storage-interface.js';
+import { checkNotWorkspace } from '../collaboration/workspace-service.js';
+import { createRelationKey } from '../utils/relation-key.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Derive a trash item ID from the deleted data
+ * A deletion re-run after a revision conflict builds the same IDs, so its items replace
+ * the ones the first attempt added instead of being trashed twice
+ */
+function trashItemId(kind: TrashItem['kind'], data: unknown): string {
+  const hash = createHash('sha256').update(JSON.stringify([kind, data])).digest('hex');
+  return `trash_${hash.slice(0, 16)}`;
+}
+
+/**
+ * Build the trash items for entities about to be deleted from a thread
+ * Each relation of the thread that references a deleted entity goes into the item of the
+ * first such entity, so restoring every item restores each relation once.
+ */
+export function entityTrashItems(graph: KnowledgeGraph, entityNames: Iterable<string>, reason: string, deletedAt: string): TrashItem[] {
+  const names = new Set(entityNames);
+  let remainingRelations = graph.relations;
+
+  return graph.entities
+    .filter(entity => names.has(entity.name))
+    .map(entity => {
+      const relations = remainingRelations.filter(r => r.from === entity.name || r.to === entity.name);
+      remainingRelations = remainingRelations.filter(r => !relations.includes(r));
+      return {
+        id: trashItemId('entity', { entity, relations }),
+        kind: 'entity',
+        deletedAt,
+        reason,
+        entity,
+        relations
+      };
+    });
+}
+
+/**
+ * Build the trash item for a relation about to be deleted
+ */
+export function relationTrashItem(relation: Relation, reason: string, deletedAt: string): TrashItem {
+  return { id: trashItemId('relation', relation), kind: 'relation', deletedAt, reason, relation };
+}
+
+/**
+ * Build the trash item for an observation about to be deleted from an entity
+ */
+export function observationTrashItem(entityName: string, observation: Observation, reason: string, deletedAt: string): TrashItem {
+  return {
+    id: trashItemId('observation', { entityName, observation }),
+    kind: 'observation',
+    deletedAt,
+    reason,
+    entityName,
+    observation
+  };
+}
+
+/**
+ * Add the items a deletion is about to remove to the trash of the deleting thread
+ */
+export async function moveToTrash(storage: IStorageAdapter, threadId: string, items: TrashItem[]): Promise<void> {
+  if (items.length > 0) {
+    await storage.addToTrash(threadId, items);
+  }
+}
+
+/**
+ * List the trash of a thread, most recently deleted first
+ */
+export async function listTrash(storage: IStorageAdapter, threadId: string): Promise<TrashItem[]> {
+  const trash = await storage.loadTrash(threadId);
+  return trash.sort((a, b) => new Date(b.deletedAt).getTime() - new Date(a.deletedAt).getTime());
+}
+
+/**
+ * Look up trash items by ID
+ * @throws Error if an ID is not in the thread's trash
+ */
+function findTrashItems(trash: TrashItem[], threadId: string, itemIds: string[]): TrashItem[] {
+  return Array.from(new Set(itemIds)).map(id => {
+    const item = trash.find(i => i.id === id);
+    if (!item) {
+      throw new Error(`Trash item ${id} not found in thread ${threadId}`);
+    }
+    return item;
+  });
+}
+
+/**
+ * Put trash items back into their thread and remove them from the trash
+ * Entities are restored with the relations deleted together with them, and observations
+ * are appended to their entity again. Nothing is written unless every item can be restored.
+ * @throws Error if an item is not in the trash, an entity name is in use again, or the
+ *   entity of an observation no longer exists
+ */
+export async function restoreFromTrash(storage: IStorageAdapter, threadId: string, itemIds: string[]): Promise<TrashRestoreResult> {
+  checkNotWorkspace(threadId);
+  const items = findTrashItems(await storage.loadTrash(threadId), threadId, itemIds);
+  const graph = await storage.loadThreadGraph(threadId);
+  const entities = new Map<string, Entity>(graph.entities.map(e => [e.name, e]));
+
+  // Entities first, so observations restored in the same call find them
+  const entityItems = items.filter(item => item.kind === 'entity');
+  for (const item of entityItems) {
+    if (entities.has(item.entity!.name)) {
+      throw new Error(`Cannot restore entity ${item.entity!.name}: thread ${threadId} already has an entity with that name`);
+    }
+    entities.set(item.entity!.name, item.entity!);
+  }
+  const observationItems = items.filter(item => item.kind === 'observation');
+  for (const item of observationItems) {
+    if (!entities.has(item.entityName!)) {
+      throw new Error(`Cannot restore observation ${item.observation!.id}: entity ${item.entityName} not found in thread ${threadId}`);
+    }
+  }
+
+  const relations = new Map<string, Relation>();
+  for (const item of entityItems) {
+    item.relations!.forEach(relation => relations.set(createRelationKey(relation), relation));
+  }
+  items.filter(item => item.kind === 'relation')
+    .forEach(item => relations.set(createRelationKey(item.relation!), item.relation!));
+
+  // Observations are appended to a copy of their entity; the entity keeps its timestamp
+  const changedEntities = new Map<string, Entity>(entityItems.map(item => [item.entity!.name, item.entity!]));
+  let restoredObservations = 0;
+  for (const item of observationItems) {
+    const entity = changedEntities.get(item.entityName!) ?? { ...entities.get(item.entityName!)! };
+    if (!entity.observations.some(o => o.id === item.observation!.id)) {
+      entity.observations = [...entity.observations, item.observation!];
+      restoredObservations++;
+    }
+    changedEntities.set(entity.name, entity);
+  }
+
+  for (const entity of changedEntities.values()) {
+    await storage.upsertEntity(entity);
+  }
+  for (const relation of relations.values()) {
+    await storage.upsertRelation(relation);
+  }
+  await storage.removeFromTrash(threadId, items.map(item => item.id));
+
+  return {
+    restoredItems: items.map(item => item.id),
+    restoredEntities: entityItems.length,
+    restoredRelations: relations.size,
+    restoredObservations
+  };
+}
+
+/**
+ * Permanently remove items from the trash of a thread
+ * @param itemIds Items to remove; the whole trash is emptied when omitted
+ * @returns The number of items removed
+ * @throws Error if an item is not in the trash
+ */
+export async function emptyTrash(storage: IStorageAdapter, threadId: string, itemIds?: string[]): Promise<number> {
+  const trash = await storage.loadTrash(threadId);
+  const items = itemIds ? findTrashItems(trash, threadId, itemIds) : trash;
+  if (items.length > 0) {
+    await storage.removeFromTrash(threadId, items.map(item => item.id));
+  }
+  return items.length;
+}
+
+/**
+ * Permanently remove the items of a thread's trash deleted more than the given number of days ago
+ * @param retentionDays Days items are kept; null keeps them until the trash is emptied
+ * @param now Reference time (defaults to the current time)
+ * @returns The number of items removed
+ */
+export async function purgeExpiredTrash(
+  storage: IStorageAdapter,
+  threadId: string,
+  retentionDays: number | null,
+  now: Date = new Date()
+): Promise<number> {
+  if (retentionDays === null) {
+    return 0;
+  }
+  const cutoff = now.getTime() - retentionDays * DAY_MS;
+  const expired = (await storage.loadTrash(threadId)).filter(item => new Date(item.deletedAt).getTime() < cutoff);
+  if (expired.length > 0) {
+    await storage.removeFromTrash(threadId, expired.map(item => item.id));
+  }
+  return expired.length;
+}
@@ -0,0 +1,82 @@
+/**
+ * Opening storage backends by name for migrations
+ * Unlike server startup there is no fallback: a backend that is not configured
+ * or cannot be opened is an error, so a migration never copies into the wrong place.
+ */
+
+import { IStorageAdapter } from '../storage-interface.js';
+import { JsonlStorageAdapter } from '../jsonl-storage-adapter.js';
+import { Neo4jStorageAdapter } from '../neo4j-storage-adapter.js';
+import { SqliteStorageAdapter } from '../sqlite-storage-adapter.js';
+import { MIGRATION_ERROR_MESSAGES } from '../storage-config.js';
+import { getNeo4jConfig, getSqlitePath } from '../storage-env.js';
+
+export const STORAGE_BACKENDS = ['jsonl', 'sqlite', 'neo4j'] as const;
+
+export type StorageBackend = typeof STORAGE_BACKENDS[number];
+
+/**
+ * Describe where a backend stores its data, e.g. "sqlite:/data/memory.db"
+ * Used as the migration ID in checkpoints and to reject migrating a store onto itself
+ */
+export function describeStorageBackend(backend: StorageBackend, memoryDirPath: string): string {
+  switch (backend) {
+    case 'jsonl':
+      return `jsonl:${memoryDirPath}`;
+    case 'sqlite': {
+      const sqlitePath = getSqlitePath(memoryDirPath);
+      if (!sqlitePath) throw new Error(MIGRATION_ERROR_MESSAGES.SQLITE_NOT_CONFIGURED);
+      return `sqlite:${sqlitePath}`;
+    }
+    case 'neo4j': {
+      const config = getNeo4jConfig();
+      if (!config) throw new Error(MIGRATION_ERROR_MESSAGES.NEO4J_NOT_CONFIGURED);
+      return `neo4j:${config.uri}${config.database ? `/${config.database}` : ''}`;
+    }
+  }
+}
+
+/**
+ * Create and initialize the adapter for a backend from the environment configuration
+ */
+export async function openStorageBackend(backend: StorageBackend, memoryDirPath: string): Promise<IStorageAdapter> {
+  let adapter: IStorageAdapter;
+  switch (backend) {
+    case 'jsonl':
+      adapter = new JsonlStorageAdapter(memoryDirPath);
+      break;
+    case 'sqlite': {
+      const sqlitePath = getSqlitePath(memoryDirPath);
+      if (!sqlitePath) throw new Error(MIGRATION_ERROR_MESSAGES.SQLITE_NOT_CONFIGURED);
+      adapter = new SqliteStorageAdapter(sqlitePath);
+      break;
+    }
+    case 'neo4j': {
+      const config = getNeo4jConfig();
+      if (!config) throw new Error(MIGRATION_ERROR_MESSAGES.NEO4J_NOT_CONFIGURED);
+      adapter = new Neo4jStorageAdapter(config);
+      break;
+    }
+  }
+  await adapter.initialize();
+  return adapter;
+}
+
+/**
+ * The backend an adapter belongs to, or null for custom adapters
+ */
+export function storageBackendOf(adapter: IStorageAdapter): StorageBackend | null {
+  if (adapter instanceof JsonlStorageAdapter) return 'jsonl';
+  if (adapter instanceof SqliteStorageAdapter) return 'sqlite';
+  if (adapter instanceof Neo4jStorageAdapter) return 'neo4j';
+  return null;
+}
+
+/**
+ * Close an adapter's connections or files, if it holds any
+ */
+export async function closeStorage(adapter: IStorageAdapter): Promise<void> {
+  if ('close' in adapter && typeof adapter.close === 'function') {
+    await adapter.close();
+  }
+}
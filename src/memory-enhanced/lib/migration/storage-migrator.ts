@@ -0,0 +1,175 @@
+/**
+ * Storage migration service
+ * Copies every thread from one storage adapter to another through the incremental
+ * mutation API, then reads each thread back from the target to verify the counts.
+ *
+ * Progress is recorded per thread in a checkpoint file, so a run that fails part-way
+ * can be repeated and continues with the first unfinished thread. Upserts are
+ * idempotent, so re-copying a partially written thread is safe.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { Entity, KnowledgeGraph, MigrationCounts, MigrationReport, ThreadMigrationReport } from '../types.js';
+import { IStorageAdapter } from '../storage-interface.js';
+import { MIGRATION_ERROR_MESSAGES } from '../storage-config.js';
+import { createRelationKey } from '../utils/relation-key.js';
+
+/**
+ * Checkpoint file name used by the CLI and the migrate_storage tool, inside the memory directory
+ */
+export const CHECKPOINT_FILE_NAME = 'migration-checkpoint.json';
+
+export interface MigrationOptions {
+  /** Report what would be copied without writing to the target or the checkpoint */
+  dryRun?: boolean;
+  /** File recording completed threads; without one, every run starts from scratch */
+  checkpointPath?: string;
+  /** Identifies the source and target, so a checkpoint is never applied to another migration */
+  migrationId?: string;
+}
+
+interface Checkpoint {
+  migrationId: string;
+  completedThreads: string[];
+  updatedAt: string;
+}
+
+function countGraph(graph: KnowledgeGraph): MigrationCounts {
+  return {
+    entities: graph.entities.length,
+    relations: graph.relations.length,
+    observations: graph.entities.reduce((sum, e) => sum + e.observations.length, 0)
+  };
+}
+
+const sameCounts = (a: MigrationCounts, b: MigrationCounts) =>
+  a.entities === b.entities && a.relations === b.relations && a.observations === b.observations;
+
+/**
+ * Count the source items present in the target thread
+ * An entity counts if it exists in the target; each of its observations counts if an
+ * observation with the same ID exists on the target entity
+ */
+function countCopied(source: KnowledgeGraph, target: KnowledgeGraph): MigrationCounts {
+  const targetEntities = new Map<string, Entity>(target.entities.map(e => [e.name, e]));
+  const targetRelations = new Set(target.relations.map(createRelationKey));
+
+  let entities = 0;
+  let observations = 0;
+  for (const entity of source.entities) {
+    const copy = targetEntities.get(entity.name);
+    if (!copy) continue;
+    entities++;
+    const copiedIds = new Set(copy.observations.map(o => o.id));
+    observations += entity.observations.filter(o => copiedIds.has(o.id)).length;
+  }
+
+  return {
+    entities,
+    relations: source.relations.filter(r => targetRelations.has(createRelationKey(r))).length,
+    observations
+  };
+}
+
+async function loadCheckpoint(checkpointPath: string, migrationId: string): Promise<Set<string>> {
+  let checkpoint: Checkpoint;
+  try {
+    checkpoint = JSON.parse(await fs.readFile(checkpointPath, 'utf-8'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return new Set();
+    }
+    throw error;
+  }
+
+  if (checkpoint.migrationId !== migrationId) {
+    throw new Error(
+      `${MIGRATION_ERROR_MESSAGES.CHECKPOINT_MISMATCH} (${checkpoint.migrationId}): ` +
+      `delete ${checkpointPath} or use another checkpoint file`
+    );
+  }
+  return new Set(checkpoint.completedThreads);
+}
+
+async function saveCheckpoint(checkpointPath: string, migrationId: string, completed: Set<string>): Promise<void> {
+  const checkpoint: Checkpoint = {
+    migrationId,
+    completedThreads: Array.from(completed),
+    updatedAt: new Date().toISOString()
+  };
+  await fs.mkdir(path.dirname(checkpointPath), { recursive: true });
+  await fs.writeFile(checkpointPath, JSON.stringify(checkpoint, null, 2));
+}
+
+/**
+ * Copy all threads from source to target
+ * Threads that fail verification are reported as 'failed' and left out of the checkpoint,
+ * so the next run retries them. The checkpoint is deleted once every thread is verified.
+ */
+export async function migrateStorage(
+  source: IStorageAdapter,
+  target: IStorageAdapter,
+  options: MigrationOptions = {}
+): Promise<MigrationReport> {
+  const { dryRun = false, checkpointPath, migrationId = 'migration' } = options;
+  const completed = checkpointPath ? await loadCheckpoint(checkpointPath, migrationId) : new Set<string>();
+
+  const report: MigrationReport = {
+    dryRun,
+    resumed: false,
+    verified: true,
+    totals: { entities: 0, relations: 0, observations: 0 },
+    threads: []
+  };
+
+  for (const threadId of (await source.listThreadIds()).sort()) {
+    const graph = await source.loadThreadGraph(threadId);
+    const counts = countGraph(graph);
+    report.totals.entities += counts.entities;
+    report.totals.relations += counts.relations;
+    report.totals.observations += counts.observations;
+
+    let thread: ThreadMigrationReport;
+    if (completed.has(threadId)) {
+      report.resumed = true;
+      thread = { threadId, status: 'skipped', source: counts };
+    } else if (dryRun) {
+      const existing = new Set((await target.loadThreadGraph(threadId)).entities.map(e => e.name));
+      thread = {
+        threadId,
+        status: 'planned',
+        source: counts,
+        existingEntities: graph.entities.filter(e => existing.has(e.name)).length
+      };
+    } else {
+      // Entities first so backends that link relations to entity nodes find both endpoints
+      for (const entity of graph.entities) {
+        await target.upsertEntity(entity);
+      }
+      for (const relation of graph.relations) {
+        await target.upsertRelation(relation);
+      }
+
+      const copied = countCopied(graph, await target.loadThreadGraph(threadId));
+      const verified = sameCounts(counts, copied);
+      thread = { threadId, status: verified ? 'migrated' : 'failed', source: counts, target: copied };
+
+      if (verified) {
+        completed.add(threadId);
+        if (checkpointPath) {
+          await saveCheckpoint(checkpointPath, migrationId, completed);
+        }
+      } else {
+        report.verified = false;
+      }
+    }
+    report.threads.push(thread);
+  }
+
+  if (!dryRun && report.verified && checkpointPath) {
+    await fs.rm(checkpointPath, { force: true });
+  }
+
+  return report;
+}
@@ -9,42 +9,199 @@
  * Constraint and index queries for schema initialization
  */
 export const SCHEMA_QUERIES = {
-  createUniqueConstraint: 'CREATE CONSTRAINT entity_name_unique IF NOT EXISTS FOR (e:Entity) REQUIRE e.name IS UNIQUE',
+  // Entity names are unique per thread, as with JSONL storage
+  createUniqueConstraint: 'CREATE CONSTRAINT entity_identity_unique IF NOT EXISTS FOR (e:Entity) REQUIRE (e.name, e.agentThreadId) IS UNIQUE',
+  // Earlier versions made entity names unique across all threads
+  dropLegacyNameConstraint: 'DROP CONSTRAINT entity_name_unique IF EXISTS',
   createEntityTypeIndex: 'CREATE INDEX entity_type_idx IF NOT EXISTS FOR (e:Entity) ON (e.entityType)',
   createThreadIndex: 'CREATE INDEX entity_thread_idx IF NOT EXISTS FOR (e:Entity) ON (e.agentThreadId)',
   createTimestampIndex: 'CREATE INDEX entity_timestamp_idx IF NOT EXISTS FOR (e:Entity) ON (e.timestamp)',
+  createArchivedThreadIndex: 'CREATE INDEX archived_entity_thread_idx IF NOT EXISTS FOR (e:ArchivedEntity) ON (e.agentThreadId)',
+  createEmbeddingThreadIndex: 'CREATE INDEX embedding_thread_idx IF NOT EXISTS FOR (v:Embedding) ON (v.agentThreadId)',
+  createTrashThreadIndex: 'CREATE INDEX trash_thread_idx IF NOT EXISTS FOR (t:TrashItem) ON (t.agentThreadId)',
+  createAuditThreadIndex: 'CREATE INDEX audit_thread_idx IF NOT EXISTS FOR (a:AuditEntry) ON (a.threadId)',
+  createObservationIdIndex: 'CREATE INDEX observation_id_idx IF NOT EXISTS FOR (o:Observation) ON (o.id)',
+  createObservationTimestampIndex: 'CREATE INDEX observation_timestamp_idx IF NOT EXISTS FOR (o:Observation) ON (o.timestamp)',
+  // observationText holds all observation contents of the entity and aliasText its aliases,
+  // so a query's terms may match across the name, the aliases, the type and any observation
+  createFullTextIndex: `
+    CREATE FULLTEXT INDEX entity_fulltext IF NOT EXISTS
+    FOR (e:Entity) ON EACH [e.name, e.aliasText, e.entityType, e.observationText]
+  `,
+  // The index of earlier versions does not cover aliasText; it is dropped and created again
+  findOutdatedFullTextIndex: `
+    SHOW FULLTEXT INDEXES YIELD name, properties
+    WHERE name = 'entity_fulltext' AND NOT 'aliasText' IN properties
+    RETURN name
+  `,
+  dropFullTextIndex: 'DROP INDEX entity_fulltext IF EXISTS',
 } as const;
 
 /**
- * Entity queries
+ * Collects the observations of each matched entity `e`, in stored order, and returns the entity
+ * Entities without observations are kept: collect() skips the null of the OPTIONAL MATCH
  */
-export const ENTITY_QUERIES = {
-  loadAll: `
-    MATCH (e:Entity)
-    RETURN e.name as name, 
+const RETURN_ENTITY_WITH_OBSERVATIONS = `
+    OPTIONAL MATCH (e)-[:HAS_OBSERVATION]->(o:Observation)
+    WITH e, o
+    ORDER BY o.position
+    WITH e, collect(o {.*}) as observations
+    RETURN e.name as name,
            e.entityType as entityType,
-           e.observations as observations,
+           observations,
            e.agentThreadId as agentThreadId,
            e.timestamp as timestamp,
            e.confidence as confidence,
-           e.importance as importance
+           e.importance as importance,
+           e.aliases as aliases
+`;
+
+/**
+ * Entity queries
+ * Observations are separate :Observation nodes (see OBSERVATION_QUERIES)
+ */
+export const ENTITY_QUERIES = {
+  loadAll: `
+    MATCH (e:Entity)
+    ${RETURN_ENTITY_WITH_OBSERVATIONS}
   `,
   
   // Note: Using CREATE instead of MERGE is intentional here.
   // The saveGraph() method first deletes all existing data, then creates fresh entities.
   // This is a complete graph replacement operation, not an upsert.
-  // The unique constraint on entity names prevents duplicates within a single transaction.
+  // The unique constraint on (name, agentThreadId) prevents duplicates within a single transaction.
   create: `
     CREATE (e:Entity {
       name: $name,
       entityType: $entityType,
-      observations: $observations,
+      observationText: $observationText,
       agentThreadId: $agentThreadId,
       timestamp: $timestamp,
       confidence: $confidence,
-      importance: $importance
+      importance: $importance,
+      aliases: $aliases,
+      aliasText: $aliasText
     })
   `,
+
+  loadByThread: `
+    MATCH (e:Entity)
+    WHERE e.agentThreadId = $threadId
+    ${RETURN_ENTITY_WITH_OBSERVATIONS}
+  `,
+
+  upsert: `
+    MERGE (e:Entity {name: $name, agentThreadId: $agentThreadId})
+    SET e.entityType = $entityType,
+        e.observationText = $observationText,
+        e.timestamp = $timestamp,
+        e.confidence = $confidence,
+        e.importance = $importance,
+        e.aliases = $aliases,
+        e.aliasText = $aliasText
+  `,
+
+  // DETACH is required to remove the node and the thread's relations attached to it
+  delete: `
+    MATCH (e:Entity {name: $name, agentThreadId: $agentThreadId})
+    OPTIONAL MATCH (e)-[:HAS_OBSERVATION]->(o:Observation)
+    DETACH DELETE o, e
+  `,
+
+  // The node keeps its observations and relations; relation endpoints are read from the node names
+  rename: `
+    MATCH (e:Entity {name: $name, agentThreadId: $agentThreadId})
+    SET e.name = $newName
+  `,
+
+  loadByNames: `
+    MATCH (e:Entity)
+    WHERE e.agentThreadId = $threadId AND e.name IN $names
+    ${RETURN_ENTITY_WITH_OBSERVATIONS}
+  `,
+
+  // Names of the thread's entities stay as they are; other names resolve to an entity with that alias
+  resolveAliases: `
+    UNWIND $names as name
+    OPTIONAL MATCH (named:Entity {name: name, agentThreadId: $threadId})
+    OPTIONAL MATCH (aliased:Entity {agentThreadId: $threadId})
+    WHERE named IS NULL AND name IN aliased.aliases
+    WITH name, aliased
+    ORDER BY aliased.name
+    RETURN name, head(collect(aliased.name)) as entityName
+  `,
+} as const;
+
+/**
+ * Observation queries
+ * (:Entity)-[:HAS_OBSERVATION]->(:Observation), ordered by the position property.
+ * (newer)-[:SUPERSEDES]->(older) mirrors the supersedes property between observations
+ * of the same entity. Observation IDs are only unique within their entity.
+ */
+export const OBSERVATION_QUERIES = {
+  // Used before re-creating an entity's observations on upsert
+  deleteForEntity: `
+    MATCH (:Entity {name: $name, agentThreadId: $agentThreadId})-[:HAS_OBSERVATION]->(o:Observation)
+    DETACH DELETE o
+  `,
+
+  create: `
+    MATCH (e:Entity {name: $name, agentThreadId: $agentThreadId})
+    UNWIND $observations as observation
+    CREATE (e)-[:HAS_OBSERVATION]->(o:Observation)
+    SET o = observation
+  `,
+
+  // Setting the timestamp first locks the entity, so concurrent appends get distinct positions
+  append: `
+    MATCH (e:Entity {name: $name, agentThreadId: $agentThreadId})
+    SET e.timestamp = $timestamp
+    WITH e
+    OPTIONAL MATCH (e)-[:HAS_OBSERVATION]->(existing:Observation)
+    WITH e, max(existing.position) as lastPosition
+    CREATE (e)-[:HAS_OBSERVATION]->(o:Observation)
+    SET o = $observation,
+        o.position = coalesce(lastPosition + 1, 0),
+        e.observationText = CASE WHEN lastPosition IS NULL THEN $observation.content ELSE e.observationText + '\\n' + $observation.content END
+    RETURN o.id as id
+  `,
+
+  linkSupersedes: `
+    MATCH (e:Entity {name: $name, agentThreadId: $agentThreadId})-[:HAS_OBSERVATION]->(newer:Observation)
+    WHERE newer.supersedes IS NOT NULL
+    MATCH (e)-[:HAS_OBSERVATION]->(older:Observation {id: newer.supersedes})
+    MERGE (newer)-[:SUPERSEDES]->(older)
+  `,
+} as const;
+
+/**
+ * Schema migration queries, run by initialize()
+ */
+export const MIGRATION_QUERIES = {
+  // Entities written before observations became nodes hold them as a JSON string
+  loadLegacyObservations: `
+    MATCH (e:Entity)
+    WHERE e.observations IS NOT NULL
+    RETURN e.name as name, e.agentThreadId as agentThreadId, e.observations as observations
+  `,
+
+  moveObservationsToNodes: `
+    UNWIND $rows as row
+    MATCH (e:Entity {name: row.name, agentThreadId: row.agentThreadId})
+    REMOVE e.observations
+    SET e.observationText = row.observationText
+    WITH e, row
+    UNWIND row.observations as observation
+    CREATE (e)-[:HAS_OBSERVATION]->(o:Observation)
+    SET o = observation
+  `,
+
+  linkAllSupersedes: `
+    MATCH (e:Entity)-[:HAS_OBSERVATION]->(newer:Observation)
+    WHERE newer.supersedes IS NOT NULL
+    MATCH (e)-[:HAS_OBSERVATION]->(older:Observation {id: newer.supersedes})
+    MERGE (newer)-[:SUPERSEDES]->(older)
+  `,
 } as const;
 
 /**
@@ -62,14 +219,14 @@ export const RELATION_QUERIES = {
            r.importance as importance
   `,
   
+  // Endpoints are the entities with these names in the relation's own thread.
   // Note: Using MATCH for both entities is intentional.
   // The saveGraph() method ensures entities are created first, then relations.
-  // Since this runs in a transaction after entity creation, both entities must exist.
-  // If either entity doesn't exist, the relation creation will fail the transaction,
-  // maintaining data integrity (no orphaned relations).
+  // If either entity doesn't exist nothing is created and written is 0, which the
+  // adapter turns into an error that fails the transaction (no orphaned relations).
   create: `
-    MATCH (from:Entity {name: $from})
-    MATCH (to:Entity {name: $to})
+    MATCH (from:Entity {name: $from, agentThreadId: $agentThreadId})
+    MATCH (to:Entity {name: $to, agentThreadId: $agentThreadId})
     CREATE (from)-[r:RELATES_TO {
       relationType: $relationType,
       agentThreadId: $agentThreadId,
@@ -77,6 +234,329 @@ export const RELATION_QUERIES = {
       confidence: $confidence,
       importance: $importance
     }]->(to)
+    RETURN count(r) as written
+  `,
+
+  loadByThread: `
+    MATCH (from:Entity)-[r:RELATES_TO]->(to:Entity)
+    WHERE r.agentThreadId = $threadId
+    RETURN from.name as from,
+           to.name as to,
+           r.relationType as relationType,
+           r.agentThreadId as agentThreadId,
+           r.timestamp as timestamp,
+           r.confidence as confidence,
+           r.importance as importance
+  `,
+
+  upsert: `
+    MATCH (from:Entity {name: $from, agentThreadId: $agentThreadId})
+    MATCH (to:Entity {name: $to, agentThreadId: $agentThreadId})
+    MERGE (from)-[r:RELATES_TO {relationType: $relationType, agentThreadId: $agentThreadId}]->(to)
+    SET r.timestamp = $timestamp,
+        r.confidence = $confidence,
+        r.importance = $importance
+    RETURN count(r) as written
+  `,
+
+  // The relation's agentThreadId already scopes the match, which keeps relations to
+  // another thread's entity, written before names were unique per thread, deletable
+  delete: `
+    MATCH (:Entity {name: $from})-[r:RELATES_TO {relationType: $relationType, agentThreadId: $agentThreadId}]->(:Entity {name: $to})
+    DELETE r
+  `,
+
+  // Matched as in delete, so the stored version of the relation delete removes is found
+  loadOne: `
+    MATCH (from:Entity {name: $from})-[r:RELATES_TO {relationType: $relationType, agentThreadId: $agentThreadId}]->(to:Entity {name: $to})
+    RETURN from.name as from,
+           to.name as to,
+           r.relationType as relationType,
+           r.agentThreadId as agentThreadId,
+           r.timestamp as timestamp,
+           r.confidence as confidence,
+           r.importance as importance
+  `,
+
+  // The relations attached to an entity node, which ENTITY_QUERIES.delete removes with it
+  loadForEntity: `
+    MATCH (:Entity {name: $name, agentThreadId: $agentThreadId})-[attached:RELATES_TO]-()
+    WITH DISTINCT attached
+    MATCH (from:Entity)-[r:RELATES_TO]->(to:Entity)
+    WHERE r = attached
+    RETURN from.name as from,
+           to.name as to,
+           r.relationType as relationType,
+           r.agentThreadId as agentThreadId,
+           r.timestamp as timestamp,
+           r.confidence as confidence,
+           r.importance as importance
+  `,
+
+  loadBetween: `
+    MATCH (from:Entity)-[r:RELATES_TO]->(to:Entity)
+    WHERE r.agentThreadId = $threadId AND from.name IN $names AND to.name IN $names
+    RETURN from.name as from,
+           to.name as to,
+           r.relationType as relationType,
+           r.agentThreadId as agentThreadId,
+           r.timestamp as timestamp,
+           r.confidence as confidence,
+           r.importance as importance
+  `,
+} as const;
+
+/**
+ * Embedding queries
+ * Vectors are stored on separate :Embedding nodes so loading the graph never reads them
+ */
+export const EMBEDDING_QUERIES = {
+  loadByThread: `
+    MATCH (v:Embedding {agentThreadId: $threadId})
+    RETURN v.entityName as entityName,
+           v.observationId as observationId,
+           v.model as model,
+           v.contentHash as contentHash,
+           v.vector as vector
+  `,
+
+  deleteByThread: 'MATCH (v:Embedding {agentThreadId: $threadId}) DELETE v',
+
+  // observationId is null for entity header vectors, which leaves the property unset
+  create: `
+    UNWIND $records as record
+    CREATE (:Embedding {
+      agentThreadId: $threadId,
+      entityName: record.entityName,
+      observationId: record.observationId,
+      model: record.model,
+      contentHash: record.contentHash,
+      vector: record.vector
+    })
+  `,
+} as const;
+
+/**
+ * Trash queries
+ * Items are stored whole as JSON in :TrashItem nodes, unconnected to the graph
+ */
+export const TRASH_QUERIES = {
+  loadByThread: `
+    MATCH (t:TrashItem {agentThreadId: $threadId})
+    RETURN t.item as item
+    ORDER BY t.addedAt, t.position
+  `,
+
+  // A re-added item gets a new addedAt, so it moves to the end as with JSONL storage
+  upsert: `
+    UNWIND range(0, size($items) - 1) as position
+    WITH position, $items[position] as item
+    MERGE (t:TrashItem {agentThreadId: $threadId, id: item.id})
+    SET t.item = item.json, t.addedAt = timestamp(), t.position = position
+  `,
+
+  delete: 'MATCH (t:TrashItem {agentThreadId: $threadId}) WHERE t.id IN $itemIds DELETE t',
+} as const;
+
+/**
+ * Audit log queries
+ * Entries are stored whole as JSON in :AuditEntry nodes, unconnected to the graph and never
+ * changed; the other properties only serve the filters of loadAuditLog. Timestamps are
+ * compared as strings, so filter bounds are normalized to the stored ISO 8601 format.
+ */
+export const AUDIT_QUERIES = {
+  append: `
+    UNWIND range(0, size($entries) - 1) as position
+    WITH position, $entries[position] as entry
+    CREATE (:AuditEntry {
+      id: entry.id,
+      timestamp: entry.timestamp,
+      tool: entry.tool,
+      threadId: entry.threadId,
+      newThreadId: entry.newThreadId,
+      entityName: entry.entityName,
+      newEntityName: entry.newEntityName,
+      relationFrom: entry.relationFrom,
+      relationTo: entry.relationTo,
+      entry: entry.json,
+      addedAt: timestamp(),
+      position: position
+    })
+  `,
+
+  load: `
+    MATCH (a:AuditEntry)
+    WHERE ($threadId IS NULL OR a.threadId = $threadId OR a.newThreadId = $threadId)
+      AND ($tool IS NULL OR a.tool = $tool)
+      AND ($entityName IS NULL OR a.entityName = $entityName OR a.newEntityName = $entityName
+           OR a.relationFrom = $entityName OR a.relationTo = $entityName)
+      AND ($since IS NULL OR a.timestamp >= $since)
+      AND ($until IS NULL OR a.timestamp <= $until)
+    RETURN a.entry as entry
+    ORDER BY a.addedAt DESC, a.position DESC
+    LIMIT $limit
+  `,
+} as const;
+
+/**
+ * Thread queries
+ * Archiving a thread swaps the :Entity label of its entities for :ArchivedEntity. Every other
+ * query matches :Entity, so archived entities, their observations and the relations between
+ * them drop out of all reads without being copied.
+ */
+export const THREAD_QUERIES = {
+  // UNION removes duplicates, so each thread is returned once
+  listIds: `
+    MATCH (e:Entity)
+    RETURN e.agentThreadId as agentThreadId
+    UNION
+    MATCH (:Entity)-[r:RELATES_TO]->(:Entity)
+    RETURN r.agentThreadId as agentThreadId
+  `,
+
+  listArchivedIds: `
+    MATCH (e:ArchivedEntity)
+    RETURN DISTINCT e.agentThreadId as agentThreadId
+  `,
+
+  presence: `
+    RETURN COUNT { (:Entity {agentThreadId: $threadId}) } > 0 as active,
+           COUNT { (:ArchivedEntity {agentThreadId: $threadId}) } > 0 as archived
+  `,
+
+  // DETACH removes the thread's relations with the entities; relations to entities of other threads go separately
+  clear: [
+    `MATCH (e:Entity {agentThreadId: $threadId})
+     OPTIONAL MATCH (e)-[:HAS_OBSERVATION]->(o:Observation)
+     DETACH DELETE o, e`,
+    'MATCH (:Entity)-[r:RELATES_TO {agentThreadId: $threadId}]->(:Entity) DELETE r',
+  ],
+
+  // Only observations the thread wrote get the new agentThreadId
+  rename: [
+    `MATCH (:Entity {agentThreadId: $threadId})-[:HAS_OBSERVATION]->(o:Observation {agentThreadId: $threadId})
+     SET o.agentThreadId = $newThreadId`,
+    'MATCH (e:Entity {agentThreadId: $threadId}) SET e.agentThreadId = $newThreadId',
+    'MATCH (:Entity)-[r:RELATES_TO {agentThreadId: $threadId}]->(:Entity) SET r.agentThreadId = $newThreadId',
+    'MATCH (v:Embedding {agentThreadId: $threadId}) SET v.agentThreadId = $newThreadId',
+    // Items the new ID deleted earlier stay in its trash; same-ID items are replaced
+    `MATCH (t:TrashItem {agentThreadId: $threadId})
+     MATCH (existing:TrashItem {agentThreadId: $newThreadId, id: t.id})
+     DELETE existing`,
+    'MATCH (t:TrashItem {agentThreadId: $threadId}) SET t.agentThreadId = $newThreadId',
+  ],
+
+  archive: [
+    'MATCH (e:Entity {agentThreadId: $threadId}) REMOVE e:Entity SET e:ArchivedEntity',
+    'MATCH (v:Embedding {agentThreadId: $threadId}) DELETE v',
+  ],
+
+  restore: [
+    'MATCH (e:ArchivedEntity {agentThreadId: $threadId}) REMOVE e:ArchivedEntity SET e:Entity',
+  ],
+
+  // DETACH removes the thread's relations with the entities
+  delete: [
+    `MATCH (e {agentThreadId: $threadId})
+     WHERE e:Entity OR e:ArchivedEntity
+     OPTIONAL MATCH (e)-[:HAS_OBSERVATION]->(o:Observation)
+     DETACH DELETE o, e`,
+    'MATCH (v:Embedding {agentThreadId: $threadId}) DELETE v',
+    'MATCH (t:TrashItem {agentThreadId: $threadId}) DELETE t',
+  ],
+} as const;
+
+/**
+ * Graph queries answered by Neo4j instead of in memory (IGraphQueryStorage)
+ * Variable-length bounds cannot be parameters, so depth queries are built from a
+ * validated integer.
+ */
+export const GRAPH_QUERIES = {
+  // Only relations of the thread may be on the path; direction is ignored
+  shortestPath: (maxDepth: number) => `
+    MATCH (start:Entity {name: $from, agentThreadId: $threadId}), (end:Entity {name: $to, agentThreadId: $threadId})
+    MATCH path = shortestPath((start)-[:RELATES_TO*..${maxDepth}]-(end))
+    WHERE all(r IN relationships(path) WHERE r.agentThreadId = $threadId)
+    WITH path
+    ORDER BY length(path)
+    LIMIT 1
+    RETURN [n IN nodes(path) | n.name] as entityNames,
+           [r IN relationships(path) | {
+             from: startNode(r).name,
+             to: endNode(r).name,
+             relationType: r.relationType,
+             agentThreadId: r.agentThreadId,
+             timestamp: r.timestamp,
+             confidence: r.confidence,
+             importance: r.importance
+           }] as relations
+  `,
+
+  // Names of the entities within maxDepth thread relations of the start entities
+  contextNames: (depth: number) => `
+    MATCH (start:Entity)
+    WHERE start.agentThreadId = $threadId AND start.name IN $names
+    MATCH (start)-[rels:RELATES_TO*0..${depth}]-(n:Entity)
+    WHERE all(r IN rels WHERE r.agentThreadId = $threadId)
+    RETURN collect(DISTINCT n.name) as names
+  `,
+
+  recentChanges: `
+    MATCH (e:Entity {agentThreadId: $threadId})
+    RETURN e.name as entityName, e.entityType as entityType, e.timestamp as lastModified
+    ORDER BY e.timestamp DESC
+    LIMIT $limit
+  `,
+
+  topImportant: `
+    MATCH (e:Entity {agentThreadId: $threadId})
+    RETURN e.name as entityName,
+           e.entityType as entityType,
+           e.importance as importance,
+           COUNT { (e)-[:HAS_OBSERVATION]->(:Observation) } as observationCount
+    ORDER BY e.importance DESC
+    LIMIT $limit
+  `,
+
+  // Degree centrality: distinct neighbours over the thread's relations
+  mostConnected: `
+    MATCH (e:Entity {agentThreadId: $threadId})
+    OPTIONAL MATCH (e)-[:RELATES_TO {agentThreadId: $threadId}]-(other:Entity)
+    WITH e, collect(DISTINCT other.name) as connectedTo
+    RETURN e.name as entityName, e.entityType as entityType, connectedTo
+    ORDER BY size(connectedTo) DESC
+    LIMIT $limit
+  `,
+
+  // An entity is orphaned when it has no thread relations, or one of them ends at another thread's entity
+  // (only possible for relations written before entity names were unique per thread)
+  orphaned: `
+    MATCH (e:Entity {agentThreadId: $threadId})
+    OPTIONAL MATCH (e)-[:RELATES_TO {agentThreadId: $threadId}]-(other:Entity)
+    WITH e, count(other) as relationCount, collect(other.agentThreadId) as otherThreads
+    WHERE relationCount = 0 OR any(t IN otherThreads WHERE t <> $threadId)
+    RETURN e.name as entityName,
+           e.entityType as entityType,
+           CASE WHEN relationCount = 0 THEN 'no_relations' ELSE 'broken_relation' END as reason
+  `,
+
+  fullTextSearch: `
+    CALL db.index.fulltext.queryNodes('entity_fulltext', $query) YIELD node, score
+    WHERE node.agentThreadId = $threadId
+    OPTIONAL MATCH (node)-[:HAS_OBSERVATION]->(o:Observation)
+    WITH node, score, o
+    ORDER BY o.position
+    WITH node, score, collect(o {.*}) as observations
+    RETURN node.name as name,
+           node.entityType as entityType,
+           observations,
+           node.agentThreadId as agentThreadId,
+           node.timestamp as timestamp,
+           node.confidence as confidence,
+           node.importance as importance,
+           node.aliases as aliases,
+           score
+    ORDER BY score DESC
   `,
 } as const;
 
@@ -84,5 +564,10 @@ export const RELATION_QUERIES = {
  * Maintenance queries
  */
 export const MAINTENANCE_QUERIES = {
-  deleteAll: 'MATCH (n:Entity) DETACH DELETE n',
+  // Archived threads are kept, as with the other adapters
+  deleteAll: `
+    MATCH (e:Entity)
+    OPTIONAL MATCH (e)-[:HAS_OBSERVATION]->(o:Observation)
+    DETACH DELETE o, e
+  `,
 } as const;
@@ -28,10 +28,55 @@
  */
 
 import neo4j, { Driver, Session, ManagedTransaction, Record } from 'neo4j-driver';
-import { Entity, Relation, KnowledgeGraph, Observation } from './types.js';
-import { IStorageAdapter } from './storage-interface.js';
-import { SCHEMA_QUERIES, ENTITY_QUERIES, RELATION_QUERIES, MAINTENANCE_QUERIES } from './neo4j-queries.js';
+import {
+  Entity,
+  Relation,
+  KnowledgeGraph,
+  Observation,
+  EmbeddingRecord,
+  TrashItem,
+  AuditEntry,
+  AuditLogFilter,
+  RelationPath,
+  SearchHit,
+  SearchResult,
+  GetAnalyticsOutput,
+  ThreadPresence
+} from './types.js';
+import { IStorageAdapter, IGraphQueryStorage } from './storage-interface.js';
+import {
+  SCHEMA_QUERIES,
+  ENTITY_QUERIES,
+  OBSERVATION_QUERIES,
+  MIGRATION_QUERIES,
+  RELATION_QUERIES,
+  EMBEDDING_QUERIES,
+  TRASH_QUERIES,
+  AUDIT_QUERIES,
+  THREAD_QUERIES,
+  GRAPH_QUERIES,
+  MAINTENANCE_QUERIES
+} from './neo4j-queries.js';
 import { NEO4J_ERROR_MESSAGES } from './storage-config.js';
+import {
+  checkCanRename,
+  checkCanArchive,
+  checkCanRestore,
+  checkCanDelete,
+  checkCanReplace
+} from './utils/thread-lifecycle.js';
+import { toLuceneQuery } from './search/lucene-query.js';
+import { parseQuery } from './search/query-parser.js';
+import { InvertedIndex } from './search/inverted-index.js';
+import { isRecordingAudit } from './audit/audit-log.js';
+import {
+  entityAuditEntries,
+  entityRenameAuditEntries,
+  relationAuditEntries,
+  graphAuditEntries,
+  threadAuditEntries
+} from './audit/audit-entries.js';
+import { checkCanRenameEntity } from './utils/entity-finder.js';
 
 export interface Neo4jConfig {
   uri: string;
@@ -40,11 +85,15 @@ export interface Neo4jConfig {
   database?: string;
 }
 
+// Length of each get_analytics list, matching the in-memory analytics service
+const ANALYTICS_LIST_LIMIT = 10;
+
 /**
  * Neo4j-based storage adapter for the knowledge graph.
  * Follows Single Responsibility Principle - only handles Neo4j storage operations.
+ * Also answers path, context, analytics and search queries in Cypher (IGraphQueryStorage).
  */
-export class Neo4jStorageAdapter implements IStorageAdapter {
+export class Neo4jStorageAdapter implements IStorageAdapter, IGraphQueryStorage {
   private readonly config: Neo4jConfig;
   private driver: Driver | null = null;
 
@@ -95,15 +144,73 @@ export class Neo4jStorageAdapter implements IStorageAdapter {
   private async initializeSchema(): Promise<void> {
     const session = await this.createSession();
     try {
+      await this.migrateEntityIdentity(session);
       await session.run(SCHEMA_QUERIES.createUniqueConstraint);
       await session.run(SCHEMA_QUERIES.createEntityTypeIndex);
       await session.run(SCHEMA_QUERIES.createThreadIndex);
       await session.run(SCHEMA_QUERIES.createTimestampIndex);
+      await session.run(SCHEMA_QUERIES.createArchivedThreadIndex);
+      await session.run(SCHEMA_QUERIES.createEmbeddingThreadIndex);
+      await session.run(SCHEMA_QUERIES.createTrashThreadIndex);
+      await session.run(SCHEMA_QUERIES.createAuditThreadIndex);
+      await session.run(SCHEMA_QUERIES.createObservationIdIndex);
+      await session.run(SCHEMA_QUERIES.createObservationTimestampIndex);
+      await this.migrateFullTextIndex(session);
+      await session.run(SCHEMA_QUERIES.createFullTextIndex);
+      await this.migrateLegacyObservations(session);
     } finally {
       await session.close();
     }
   }
 
+  /**
+   * Drop the global entity name constraint of earlier versions, so the same name can be used in several threads.
+   * Existing data already satisfies the per-thread constraint that replaces it.
+   */
+  private async migrateEntityIdentity(session: Session): Promise<void> {
+    const result = await session.run(SCHEMA_QUERIES.dropLegacyNameConstraint);
+    if (result.summary.counters.updates().constraintsRemoved > 0) {
+      console.error('Migrated Neo4j entity identity from name to (name, agentThreadId)');
+    }
+  }
+
+  /**
+   * Drop the full-text index of earlier versions, which does not cover aliases, so it is created again.
+   * Entities of those versions have no aliases, so nothing needs to be reindexed.
+   */
+  private async migrateFullTextIndex(session: Session): Promise<void> {
+    const result = await session.run(SCHEMA_QUERIES.findOutdatedFullTextIndex);
+    if (result.records.length > 0) {
+      await session.run(SCHEMA_QUERIES.dropFullTextIndex);
+      console.error('Migrated the Neo4j full-text index to include entity aliases');
+    }
+  }
+
+  /**
+   * Move observations stored as a JSON string property by earlier versions to :Observation nodes.
+   * Runs in one transaction, so a failed migration leaves the data as it was and is retried on the next start.
+   */
+  private async migrateLegacyObservations(session: Session): Promise<void> {
+    const result = await session.run(MIGRATION_QUERIES.loadLegacyObservations);
+    if (result.records.length === 0) {
+      return;
+    }
+    const rows = result.records.map(record => {
+      const observations = this.deserializeObservations(record.get('observations'));
+      return {
+        name: record.get('name'),
+        agentThreadId: record.get('agentThreadId'),
+        observationText: this.toObservationText(observations),
+        observations: observations.map((observation, position) => this.toObservationParams(observation, position))
+      };
+    });
+    await session.executeWrite(async tx => {
+      await tx.run(MIGRATION_QUERIES.moveObservationsToNodes, { rows });
+      await tx.run(MIGRATION_QUERIES.linkAllSupersedes);
+    });
+    console.error(`Migrated the observations of ${rows.length} Neo4j entities to :Observation nodes`);
+  }
+
   /**
    * Create a Neo4j session.
    * Centralized session creation for DRY principle.
@@ -124,16 +231,45 @@ export class Neo4jStorageAdapter implements IStorageAdapter {
   }
 
   /**
-   * Serialize observations for Neo4j storage.
-   * Extracted for testability and reusability (DRY).
+   * Map an Observation to the properties of its :Observation node.
+   * Optional fields are left out rather than stored as null; status is computed on read and not stored.
    */
-  private serializeObservations(observations: Observation[]): string {
-    return JSON.stringify(observations);
+  private toObservationParams(observation: Observation, position?: number): { [key: string]: unknown } {
+    const params: { [key: string]: unknown } = {
+      id: observation.id,
+      content: observation.content,
+      timestamp: observation.timestamp,
+      version: observation.version,
+      agentThreadId: observation.agentThreadId
+    };
+    for (const field of ['supersedes', 'superseded_by', 'confidence', 'importance'] as const) {
+      if (observation[field] !== undefined) {
+        params[field] = observation[field];
+      }
+    }
+    if (position !== undefined) {
+      params.position = position;
+    }
+    return params;
   }
 
   /**
-   * Deserialize observations from Neo4j storage.
-   * Extracted for testability and reusability (DRY).
+   * Map the properties of an :Observation node back to an Observation.
+   */
+  private toObservation(properties: { [key: string]: unknown }): Observation {
+    const { position: _position, ...observation } = properties;
+    return observation as unknown as Observation;
+  }
+
+  /**
+   * Plain text of all observations, indexed by the full-text index.
+   */
+  private toObservationText(observations: Observation[]): string {
+    return observations.map(observation => observation.content).join('\n');
+  }
+
+  /**
+   * Deserialize observations stored as JSON by earlier versions.
    * Returns empty array on parse error for robustness.
    */
   private deserializeObservations(observationsJson: string): Observation[] {
@@ -152,11 +288,12 @@ export class Neo4jStorageAdapter implements IStorageAdapter {
     return {
       name: record.get('name'),
       entityType: record.get('entityType'),
-      observations: this.deserializeObservations(record.get('observations')),
+      observations: record.get('observations').map((properties: { [key: string]: unknown }) => this.toObservation(properties)),
       agentThreadId: record.get('agentThreadId'),
       timestamp: record.get('timestamp'),
       confidence: record.get('confidence'),
-      importance: record.get('importance')
+      importance: record.get('importance'),
+      ...(record.get('aliases') !== null && { aliases: record.get('aliases') })
     };
   }
 
@@ -194,23 +331,63 @@ export class Neo4jStorageAdapter implements IStorageAdapter {
   }
 
   /**
-   * Load all entities from Neo4j.
+   * Load entities from Neo4j.
    * Extracted for Single Responsibility Principle.
    */
-  private async loadEntities(session: Session): Promise<Entity[]> {
-    const result = await session.run(ENTITY_QUERIES.loadAll);
+  private async loadEntities(
+    session: Session | ManagedTransaction,
+    query: string = ENTITY_QUERIES.loadAll,
+    params: { [key: string]: unknown } = {}
+  ): Promise<Entity[]> {
+    const result = await session.run(query, params);
     return result.records.map(record => this.mapRecordToEntity(record));
   }
 
   /**
-   * Load all relations from Neo4j.
+   * Load relations from Neo4j.
    * Extracted for Single Responsibility Principle.
    */
-  private async loadRelations(session: Session): Promise<Relation[]> {
-    const result = await session.run(RELATION_QUERIES.loadAll);
+  private async loadRelations(
+    session: Session | ManagedTransaction,
+    query: string = RELATION_QUERIES.loadAll,
+    params: { [key: string]: unknown } = {}
+  ): Promise<Relation[]> {
+    const result = await session.run(query, params);
     return result.records.map(record => this.mapRecordToRelation(record));
   }
 
+  /**
+   * Load the entities and relations of a single thread.
+   * Uses parameterized thread filters so only the thread's data is read.
+   */
+  async loadThreadGraph(threadId: string): Promise<KnowledgeGraph> {
+    this.ensureDriverInitialized();
+    
+    const session = await this.createSession();
+    try {
+      const entities = await this.loadEntities(session, ENTITY_QUERIES.loadByThread, { threadId });
+      const relations = await this.loadRelations(session, RELATION_QUERIES.loadByThread, { threadId });
+      return { entities, relations };
+    } finally {
+      await session.close();
+    }
+  }
+
+  /**
+   * List the IDs of all threads that own entities or relations.
+   */
+  async listThreadIds(): Promise<string[]> {
+    this.ensureDriverInitialized();
+    
+    const session = await this.createSession();
+    try {
+      const result = await session.run(THREAD_QUERIES.listIds);
+      return result.records.map(record => record.get('agentThreadId'));
+    } finally {
+      await session.close();
+    }
+  }
+
   /**
    * Save the complete knowledge graph to Neo4j.
    * Uses transactions for atomicity.
@@ -221,15 +398,41 @@ export class Neo4jStorageAdapter implements IStorageAdapter {
     const session = await this.createSession();
     try {
       await session.executeWrite(async (tx: ManagedTransaction) => {
+        // The graph it replaces is only read when the changes are logged
+        const before = isRecordingAudit()
+          ? { entities: await this.loadEntities(tx), relations: await this.loadRelations(tx) }
+          : { entities: [], relations: [] };
         await this.clearDatabase(tx);
         await this.saveEntities(tx, graph.entities);
         await this.saveRelations(tx, graph.relations);
+        await this.writeAuditEntries(tx, graphAuditEntries(before, graph));
       });
     } finally {
       await session.close();
     }
   }
 
+  /**
+   * Replace the entities and relations of a single thread in one transaction.
+   * The thread it replaces is only read when the changes are logged.
+   */
+  async saveThreadGraph(threadId: string, graph: KnowledgeGraph): Promise<void> {
+    await this.executeWrite(async tx => {
+      checkCanReplace(threadId, await this.getThreadPresence(tx, threadId), graph);
+      const params = { threadId };
+      const before = isRecordingAudit()
+        ? {
+          entities: await this.loadEntities(tx, ENTITY_QUERIES.loadByThread, params),
+          relations: await this.loadRelations(tx, RELATION_QUERIES.loadByThread, params)
+        }
+        : { entities: [], relations: [] };
+      await this.runAll(tx, THREAD_QUERIES.clear, params);
+      await this.saveEntities(tx, graph.entities);
+      await this.saveRelations(tx, graph.relations);
+      await this.writeAuditEntries(tx, graphAuditEntries(before, graph));
+    });
+  }
+
   /**
    * Clear all data from the database.
    * Extracted for Single Responsibility Principle.
@@ -253,15 +456,42 @@ export class Neo4jStorageAdapter implements IStorageAdapter {
    * Extracted for DRY and testability.
    */
   private async saveEntity(tx: ManagedTransaction, entity: Entity): Promise<void> {
-    await tx.run(ENTITY_QUERIES.create, {
+    await tx.run(ENTITY_QUERIES.create, this.toEntityParams(entity));
+    await this.createObservations(tx, entity);
+  }
+
+  /**
+   * Create the :Observation nodes of an entity and link version chains.
+   */
+  private async createObservations(tx: ManagedTransaction, entity: Entity): Promise<void> {
+    if (entity.observations.length === 0) {
+      return;
+    }
+    const params = { name: entity.name, agentThreadId: entity.agentThreadId };
+    await tx.run(OBSERVATION_QUERIES.create, {
+      ...params,
+      observations: entity.observations.map((observation, position) => this.toObservationParams(observation, position))
+    });
+    await tx.run(OBSERVATION_QUERIES.linkSupersedes, params);
+  }
+
+  /**
+   * Map an Entity to Cypher query parameters.
+   * Extracted for DRY between full saves and upserts.
+   */
+  private toEntityParams(entity: Entity): { [key: string]: unknown } {
+    return {
       name: entity.name,
       entityType: entity.entityType,
-      observations: this.serializeObservations(entity.observations),
+      observationText: this.toObservationText(entity.observations),
       agentThreadId: entity.agentThreadId,
       timestamp: entity.timestamp,
       confidence: entity.confidence,
-      importance: entity.importance
-    });
+      importance: entity.importance,
+      // Neo4j does not store null properties, so entities without aliases have none
+      aliases: entity.aliases ?? null,
+      aliasText: entity.aliases?.join('\n') ?? null
+    };
   }
 
   /**
@@ -279,7 +509,29 @@ export class Neo4jStorageAdapter implements IStorageAdapter {
    * Extracted for DRY and testability.
    */
   private async saveRelation(tx: ManagedTransaction, relation: Relation): Promise<void> {
-    await tx.run(RELATION_QUERIES.create, {
+    await this.writeRelation(tx, RELATION_QUERIES.create, relation);
+  }
+
+  /**
+   * Run a relation create or upsert query.
+   * The query matches both endpoints in the relation's thread; when either is missing it
+   * writes nothing, so this throws to fail the transaction instead of reporting success.
+   */
+  private async writeRelation(tx: ManagedTransaction, query: string, relation: Relation): Promise<void> {
+    const result = await tx.run(query, this.toRelationParams(relation));
+    if (neo4j.integer.toNumber(result.records[0].get('written')) === 0) {
+      throw new Error(
+        `Relation ${relation.from} -> ${relation.to} not written: both entities must exist in thread ${relation.agentThreadId}`
+      );
+    }
+  }
+
+  /**
+   * Map a Relation to Cypher query parameters.
+   * Extracted for DRY between full saves and upserts.
+   */
+  private toRelationParams(relation: Relation): { [key: string]: unknown } {
+    return {
       from: relation.from,
       to: relation.to,
       relationType: relation.relationType,
@@ -287,6 +539,478 @@ export class Neo4jStorageAdapter implements IStorageAdapter {
       timestamp: relation.timestamp,
       confidence: relation.confidence,
       importance: relation.importance
+    };
+  }
+
+  /**
+   * Run a unit of work in a write transaction.
+   * Centralized session handling for the incremental mutation methods (DRY).
+   */
+  private async executeWrite(work: (tx: ManagedTransaction) => Promise<void>): Promise<void> {
+    this.ensureDriverInitialized();
+    
+    const session = await this.createSession();
+    try {
+      await session.executeWrite(work);
+    } finally {
+      await session.close();
+    }
+  }
+
+  /**
+   * Load a single entity with its observations.
+   */
+  private async findEntity(tx: ManagedTransaction, threadId: string, entityName: string): Promise<Entity | undefined> {
+    return (await this.loadEntities(tx, ENTITY_QUERIES.loadByNames, { threadId, names: [entityName] }))[0];
+  }
+
+  /**
+   * Load the stored version of a relation.
+   */
+  private async findRelation(tx: ManagedTransaction, relation: Relation): Promise<Relation | undefined> {
+    return (await this.loadRelations(tx, RELATION_QUERIES.loadOne, this.toRelationKey(relation)))[0];
+  }
+
+  /**
+   * Map a relation to the parameters that identify it.
+   */
+  private toRelationKey(relation: Relation): { [key: string]: unknown } {
+    return {
+      from: relation.from,
+      to: relation.to,
+      relationType: relation.relationType,
+      agentThreadId: relation.agentThreadId
+    };
+  }
+
+  /**
+   * Insert or update a single entity.
+   * Touches only the entity's node and observations instead of rewriting the database.
+   */
+  async upsertEntity(entity: Entity): Promise<void> {
+    await this.executeWrite(async tx => {
+      const before = await this.findEntity(tx, entity.agentThreadId, entity.name);
+      await tx.run(ENTITY_QUERIES.upsert, this.toEntityParams(entity));
+      await tx.run(OBSERVATION_QUERIES.deleteForEntity, { name: entity.name, agentThreadId: entity.agentThreadId });
+      await this.createObservations(tx, entity);
+      await this.writeAuditEntries(tx, entityAuditEntries(entity.agentThreadId, entity.name, before, entity));
+    });
+  }
+
+  /**
+   * Delete a single entity and its relationships.
+   */
+  async deleteEntity(threadId: string, entityName: string): Promise<void> {
+    await this.executeWrite(async tx => {
+      const key = { name: entityName, agentThreadId: threadId };
+      const before = await this.findEntity(tx, threadId, entityName);
+      const relationsBefore = await this.loadRelations(tx, RELATION_QUERIES.loadForEntity, key);
+      await tx.run(ENTITY_QUERIES.delete, key);
+      await this.writeAuditEntries(tx, entityAuditEntries(threadId, entityName, before, undefined, relationsBefore));
+    });
+  }
+
+  /**
+   * Rename an entity node in one transaction; the relations attached to it follow.
+   */
+  async renameEntity(threadId: string, entityName: string, renamed: Entity): Promise<void> {
+    await this.executeWrite(async tx => {
+      const before = await this.findEntity(tx, threadId, entityName);
+      const taken = await this.findEntity(tx, threadId, renamed.name);
+      checkCanRenameEntity(threadId, entityName, renamed.name, before, taken !== undefined);
+      await tx.run(ENTITY_QUERIES.rename, { name: entityName, agentThreadId: threadId, newName: renamed.name });
+      await tx.run(ENTITY_QUERIES.upsert, this.toEntityParams(renamed));
+      await this.writeAuditEntries(tx, entityRenameAuditEntries(threadId, before, renamed));
+    });
+  }
+
+  /**
+   * Append an observation to an entity.
+   * Creates one :Observation node; the entity's other observations are not rewritten.
+   */
+  async appendObservation(threadId: string, entityName: string, observation: Observation): Promise<void> {
+    await this.executeWrite(async tx => {
+      const params = { name: entityName, agentThreadId: threadId };
+      const before = await this.findEntity(tx, threadId, entityName);
+      if (!before) {
+        throw new Error(`Entity with name ${entityName} not found in thread ${threadId}`);
+      }
+      await tx.run(OBSERVATION_QUERIES.append, {
+        ...params,
+        observation: this.toObservationParams(observation),
+        timestamp: observation.timestamp
+      });
+      if (observation.supersedes) {
+        await tx.run(OBSERVATION_QUERIES.linkSupersedes, params);
+      }
+      const after = { ...before, observations: [...before.observations, observation], timestamp: observation.timestamp };
+      await this.writeAuditEntries(tx, entityAuditEntries(threadId, entityName, before, after));
+    });
+  }
+
+  /**
+   * Insert or update a single relation.
+   */
+  async upsertRelation(relation: Relation): Promise<void> {
+    await this.executeWrite(async tx => {
+      const before = await this.findRelation(tx, relation);
+      await this.writeRelation(tx, RELATION_QUERIES.upsert, relation);
+      await this.writeAuditEntries(tx, relationAuditEntries(before, relation));
+    });
+  }
+
+  /**
+   * Delete a single relation.
+   */
+  async deleteRelation(relation: Relation): Promise<void> {
+    await this.executeWrite(async tx => {
+      const before = await this.findRelation(tx, relation);
+      await tx.run(RELATION_QUERIES.delete, this.toRelationKey(relation));
+      await this.writeAuditEntries(tx, relationAuditEntries(before));
+    });
+  }
+
+  /**
+   * Load the embedding vectors of a thread.
+   */
+  async loadEmbeddings(threadId: string): Promise<EmbeddingRecord[]> {
+    this.ensureDriverInitialized();
+    
+    const session = await this.createSession();
+    try {
+      const result = await session.run(EMBEDDING_QUERIES.loadByThread, { threadId });
+      return result.records.map(record => {
+        const observationId = record.get('observationId');
+        return {
+          entityName: record.get('entityName'),
+          ...(observationId ? { observationId } : {}),
+          model: record.get('model'),
+          contentHash: record.get('contentHash'),
+          vector: record.get('vector')
+        };
+      });
+    } finally {
+      await session.close();
+    }
+  }
+
+  /**
+   * Replace the embedding vectors of a thread in one transaction.
+   */
+  async saveEmbeddings(threadId: string, records: EmbeddingRecord[]): Promise<void> {
+    await this.executeWrite(async tx => {
+      await tx.run(EMBEDDING_QUERIES.deleteByThread, { threadId });
+      if (records.length > 0) {
+        await tx.run(EMBEDDING_QUERIES.create, {
+          threadId,
+          records: records.map(record => ({ ...record, observationId: record.observationId ?? null }))
+        });
+      }
+    });
+  }
+
+  /**
+   * Load the trash items of a thread.
+   */
+  async loadTrash(threadId: string): Promise<TrashItem[]> {
+    return this.executeRead(async session => {
+      const result = await session.run(TRASH_QUERIES.loadByThread, { threadId });
+      return result.records.map(record => JSON.parse(record.get('item')));
+    });
+  }
+
+  /**
+   * Add items to the trash of a thread in one transaction.
+   */
+  async addToTrash(threadId: string, items: TrashItem[]): Promise<void> {
+    if (items.length === 0) return;
+    await this.executeWrite(async tx => {
+      await tx.run(TRASH_QUERIES.upsert, {
+        threadId,
+        items: items.map(item => ({ id: item.id, json: JSON.stringify(item) }))
+      });
+    });
+  }
+
+  /**
+   * Remove items from the trash of a thread in one transaction.
+   */
+  async removeFromTrash(threadId: string, itemIds: string[]): Promise<void> {
+    await this.executeWrite(async tx => {
+      await tx.run(TRASH_QUERIES.delete, { threadId, itemIds });
+    });
+  }
+
+  /**
+   * Append entries to the audit log in one transaction.
+   */
+  async appendAuditEntries(entries: AuditEntry[]): Promise<void> {
+    if (entries.length === 0) return;
+    await this.executeWrite(tx => this.writeAuditEntries(tx, entries));
+  }
+
+  /**
+   * Create :AuditEntry nodes, in the transaction of the change they describe.
+   */
+  private async writeAuditEntries(tx: ManagedTransaction, entries: AuditEntry[]): Promise<void> {
+    if (entries.length === 0) return;
+    await tx.run(AUDIT_QUERIES.append, {
+      entries: entries.map(entry => ({
+        id: entry.id,
+        timestamp: entry.timestamp,
+        tool: entry.tool ?? null,
+        threadId: entry.threadId,
+        newThreadId: entry.newThreadId ?? null,
+        entityName: entry.entityName ?? null,
+        newEntityName: entry.newEntityName ?? null,
+        relationFrom: entry.relation?.from ?? null,
+        relationTo: entry.relation?.to ?? null,
+        json: JSON.stringify(entry)
+      }))
+    });
+  }
+
+  /**
+   * Load audit log entries, most recent first, filtered in the query.
+   */
+  async loadAuditLog(filter: AuditLogFilter = {}): Promise<AuditEntry[]> {
+    return this.executeRead(async session => {
+      const result = await session.run(AUDIT_QUERIES.load, {
+        threadId: filter.threadId ?? null,
+        tool: filter.tool ?? null,
+        entityName: filter.entityName ?? null,
+        since: filter.since !== undefined ? new Date(filter.since).toISOString() : null,
+        until: filter.until !== undefined ? new Date(filter.until).toISOString() : null,
+        limit: neo4j.int(filter.limit ?? Number.MAX_SAFE_INTEGER)
+      });
+      return result.records.map(record => JSON.parse(record.get('entry')));
+    });
+  }
+
+  /**
+   * List the IDs of archived threads.
+   */
+  async listArchivedThreadIds(): Promise<string[]> {
+    return this.executeRead(async session => {
+      const result = await session.run(THREAD_QUERIES.listArchivedIds);
+      return result.records.map(record => record.get('agentThreadId'));
+    });
+  }
+
+  /**
+   * Check whether a thread has active and archived entities.
+   */
+  private async getThreadPresence(tx: ManagedTransaction, threadId: string): Promise<ThreadPresence> {
+    const result = await tx.run(THREAD_QUERIES.presence, { threadId });
+    return { active: result.records[0].get('active'), archived: result.records[0].get('archived') };
+  }
+
+  /**
+   * Run a list of queries in order.
+   */
+  private async runAll(tx: ManagedTransaction, queries: readonly string[], params: { [key: string]: unknown }): Promise<void> {
+    for (const query of queries) {
+      await tx.run(query, params);
+    }
+  }
+
+  /**
+   * Move a thread's entities, relations, embeddings and trash to a new thread ID in one transaction.
+   */
+  async renameThread(threadId: string, newThreadId: string): Promise<void> {
+    await this.executeWrite(async tx => {
+      checkCanRename(threadId, await this.getThreadPresence(tx, threadId), newThreadId, await this.getThreadPresence(tx, newThreadId));
+      await this.runAll(tx, THREAD_QUERIES.rename, { threadId, newThreadId });
+      await this.writeAuditEntries(tx, threadAuditEntries(threadId, 'rename_thread', { newThreadId }));
+    });
+  }
+
+  /**
+   * Relabel a thread's entities as :ArchivedEntity in one transaction.
+   */
+  async archiveThread(threadId: string): Promise<void> {
+    await this.executeWrite(async tx => {
+      checkCanArchive(threadId, await this.getThreadPresence(tx, threadId));
+      await this.runAll(tx, THREAD_QUERIES.archive, { threadId });
+      await this.writeAuditEntries(tx, threadAuditEntries(threadId, 'archive_thread'));
+    });
+  }
+
+  /**
+   * Relabel a thread's archived entities as :Entity in one transaction.
+   */
+  async restoreThread(threadId: string): Promise<void> {
+    await this.executeWrite(async tx => {
+      checkCanRestore(threadId, await this.getThreadPresence(tx, threadId));
+      await this.runAll(tx, THREAD_QUERIES.restore, { threadId });
+      await this.writeAuditEntries(tx, threadAuditEntries(threadId, 'restore_thread'));
+    });
+  }
+
+  /**
+   * Delete a thread's active and archived entities, observations, relations, embeddings and trash in one transaction.
+   */
+  async deleteThread(threadId: string): Promise<void> {
+    await this.executeWrite(async tx => {
+      checkCanDelete(threadId, await this.getThreadPresence(tx, threadId));
+      await this.runAll(tx, THREAD_QUERIES.delete, { threadId });
+      await this.writeAuditEntries(tx, threadAuditEntries(threadId, 'delete_thread'));
+    });
+  }
+
+  /**
+   * Run read queries in one session.
+   * Centralized session handling for the graph queries (DRY).
+   */
+  private async executeRead<T>(work: (session: Session) => Promise<T>): Promise<T> {
+    this.ensureDriverInitialized();
+    
+    const session = await this.createSession();
+    try {
+      return await work(session);
+    } finally {
+      await session.close();
+    }
+  }
+
+  /**
+   * Load a thread's entities with the given names and the thread's relations between them.
+   */
+  private async loadSubgraph(session: Session, threadId: string, names: string[]): Promise<KnowledgeGraph> {
+    const params = { threadId, names };
+    const entities = await this.loadEntities(session, ENTITY_QUERIES.loadByNames, params);
+    const relations = await this.loadRelations(session, RELATION_QUERIES.loadBetween, params);
+    return { entities, relations };
+  }
+
+  /**
+   * Resolve names that may be aliases to the names of the thread's entities they belong to.
+   * Entity names and unknown names are returned unchanged.
+   */
+  private async resolveAliases(session: Session, threadId: string, names: string[]): Promise<string[]> {
+    const result = await session.run(ENTITY_QUERIES.resolveAliases, { threadId, names });
+    const resolved = new Map<string, string>();
+    for (const record of result.records) {
+      const entityName = record.get('entityName');
+      if (entityName !== null) {
+        resolved.set(record.get('name'), entityName);
+      }
+    }
+    return names.map(name => resolved.get(name) ?? name);
+  }
+
+  /**
+   * Find the shortest path between two entities with Cypher shortestPath.
+   * Either entity may be given by alias.
+   */
+  async findRelationPath(threadId: string, fromName: string, toName: string, maxDepth: number): Promise<RelationPath> {
+    return this.executeRead(async session => {
+      const [from, to] = await this.resolveAliases(session, threadId, [fromName, toName]);
+      if (from === to) {
+        return { found: true, path: [from], relations: [] };
+      }
+      const depth = Math.floor(maxDepth);
+      if (!(depth >= 1)) {
+        return { found: false, path: [], relations: [] };
+      }
+
+      const result = await session.run(GRAPH_QUERIES.shortestPath(depth), { threadId, from, to });
+      if (result.records.length === 0) {
+        return { found: false, path: [], relations: [] };
+      }
+      const record = result.records[0];
+      return { found: true, path: record.get('entityNames'), relations: record.get('relations') };
+    });
+  }
+
+  /**
+   * Expand the given entities by variable-length matches over the thread's relations.
+   * Entities may be given by alias.
+   */
+  async getContext(threadId: string, entityNames: string[], depth: number): Promise<KnowledgeGraph> {
+    return this.executeRead(async session => {
+      const startNames = await this.resolveAliases(session, threadId, entityNames);
+      const names = new Set(startNames);
+      const maxDepth = Math.floor(depth);
+      if (maxDepth >= 1) {
+        const result = await session.run(GRAPH_QUERIES.contextNames(maxDepth), { threadId, names: startNames });
+        for (const name of result.records[0]?.get('names') ?? []) {
+          names.add(name);
+        }
+      }
+      return this.loadSubgraph(session, threadId, Array.from(names));
+    });
+  }
+
+  /**
+   * Compute the get_analytics metrics in Cypher, including degree centrality.
+   */
+  async getAnalytics(threadId: string): Promise<GetAnalyticsOutput> {
+    return this.executeRead(async session => {
+      const params = { threadId, limit: neo4j.int(ANALYTICS_LIST_LIMIT) };
+      const recent = await session.run(GRAPH_QUERIES.recentChanges, params);
+      const important = await session.run(GRAPH_QUERIES.topImportant, params);
+      const connected = await session.run(GRAPH_QUERIES.mostConnected, params);
+      const orphaned = await session.run(GRAPH_QUERIES.orphaned, params);
+
+      return {
+        recent_changes: recent.records.map(record => ({
+          entityName: record.get('entityName'),
+          entityType: record.get('entityType'),
+          lastModified: record.get('lastModified'),
+          changeType: 'created' as const
+        })),
+        top_important: important.records.map(record => ({
+          entityName: record.get('entityName'),
+          entityType: record.get('entityType'),
+          importance: record.get('importance'),
+          observationCount: neo4j.integer.toNumber(record.get('observationCount'))
+        })),
+        most_connected: connected.records.map(record => ({
+          entityName: record.get('entityName'),
+          entityType: record.get('entityType'),
+          relationCount: record.get('connectedTo').length,
+          connectedTo: record.get('connectedTo')
+        })),
+        orphaned_entities: orphaned.records.map(record => ({
+          entityName: record.get('entityName'),
+          entityType: record.get('entityType'),
+          reason: record.get('reason')
+        }))
+      };
+    });
+  }
+
+  /**
+   * Rank a thread's entities with the full-text index.
+   * Observation snippets are taken from the hits only, using the built-in search rules.
+   */
+  async searchNodes(threadId: string, query: string): Promise<SearchResult> {
+    const luceneQuery = toLuceneQuery(query);
+    if (!luceneQuery) {
+      return { entities: [], relations: [] };
+    }
+
+    return this.executeRead(async session => {
+      const result = await session.run(GRAPH_QUERIES.fullTextSearch, { threadId, query: luceneQuery });
+      const entities = result.records.map(record => ({
+        entity: this.mapRecordToEntity(record),
+        score: record.get('score') as number
+      }));
+
+      const snippetIndex = new InvertedIndex();
+      entities.forEach(({ entity }) => snippetIndex.addEntity(entity));
+      const matchesByName = new Map(
+        snippetIndex.search(parseQuery(query)).map(document => [document.entityName, document.matches])
+      );
+
+      const hits: SearchHit[] = entities.map(({ entity, score }) => ({
+        ...entity,
+        score,
+        matches: matchesByName.get(entity.name) ?? []
+      }));
+      const { relations } = await this.loadSubgraph(session, threadId, hits.map(hit => hit.name));
+      return { entities: hits, relations };
     });
   }
 
@@ -2,13 +2,16 @@
  * Entity CRUD operations
  */
 
-import { Entity } from '../types.js';
+import { Entity, RenameEntityResult } from '../types.js';
 import { IStorageAdapter } from '../storage-interface.js';
+import { checkNotWorkspace } from '../collaboration/workspace-service.js';
+import { findEntity, buildAliasIndex } from '../utils/entity-finder.js';
+import { entityTrashItems, moveToTrash } from '../maintenance/trash-service.js';
 
 /**
  * Create new entities in the knowledge graph
- * Entity names are globally unique across all threads in the collaborative knowledge graph
- * This prevents duplicate entities while allowing multiple threads to contribute to the same entity
+ * Entity names are unique within a thread; only the thread of each entity is loaded and written
+ * Entities that already exist in their thread are skipped
  * @param threadId - Thread ID passed for context (entities already have agentThreadId set)
  */
 export async function createEntities(
@@ -16,38 +19,96 @@ export async function createEntities(
   threadId: string,
   entities: Entity[]
 ): Promise<Entity[]> {
-  const graph = await storage.loadGraph();
-  const existingNames = new Set(graph.entities.map(e => e.name));
-  // Filter out entities that already exist, entities are expected to have agentThreadId already set
-  const newEntities = entities.filter(e => !existingNames.has(e.name));
-  graph.entities.push(...newEntities);
-  await storage.saveGraph(graph);
+  checkNotWorkspace(threadId);
+  // Entities are expected to have agentThreadId already set; load each target thread once
+  const existingNamesByThread = new Map<string, Set<string>>();
+  const newEntities: Entity[] = [];
+  
+  for (const entity of entities) {
+    let existingNames = existingNamesByThread.get(entity.agentThreadId);
+    if (!existingNames) {
+      const threadGraph = await storage.loadThreadGraph(entity.agentThreadId);
+      existingNames = new Set(threadGraph.entities.map(e => e.name));
+      existingNamesByThread.set(entity.agentThreadId, existingNames);
+    }
+    
+    if (existingNames.has(entity.name)) {
+      continue;
+    }
+    
+    await storage.upsertEntity(entity);
+    existingNames.add(entity.name);
+    newEntities.push(entity);
+  }
+  
   return newEntities;
 }
 
 /**
  * Delete entities from the knowledge graph
- * Also removes all relations referencing the deleted entities
+ * Also removes the thread's relations referencing the deleted entities
+ * Deleted entities and relations are moved to the thread's trash
  * Thread isolation: Only deletes entities that belong to the specified thread
+ * @param reason - Stored with the trash items
  */
 export async function deleteEntities(
   storage: IStorageAdapter,
   threadId: string,
-  entityNames: string[]
+  entityNames: string[],
+  reason: string = 'delete_entities'
 ): Promise<void> {
-  const graph = await storage.loadGraph();
-  const namesToDelete = new Set(entityNames);
-  // Determine which entities will actually be deleted for this thread
-  const deletedEntityNames = new Set(
-    graph.entities
-      .filter(e => namesToDelete.has(e.name) && e.agentThreadId === threadId)
-      .map(e => e.name)
-  );
-  // Delete entities that were identified for deletion
-  graph.entities = graph.entities.filter(e => !deletedEntityNames.has(e.name));
-  // Only delete relations that belong to the specified thread and reference actually deleted entities
-  graph.relations = graph.relations.filter(
-    r => !(r.agentThreadId === threadId && (deletedEntityNames.has(r.from) || deletedEntityNames.has(r.to)))
-  );
-  await storage.saveGraph(graph);
+  checkNotWorkspace(threadId);
+  const threadGraph = await storage.loadThreadGraph(threadId);
+  // Only entities of this thread are trashed and deleted
+  const trashItems = entityTrashItems(threadGraph, entityNames, reason, new Date().toISOString());
+  await moveToTrash(storage, threadId, trashItems);
+  
+  for (const item of trashItems) {
+    await storage.deleteEntity(threadId, item.entity!.name);
+  }
+}
+
+/**
+ * Rename an entity within its thread
+ * Every relation of the thread from or to the entity is changed to the new name; the
+ * observations keep their IDs and version chains. The storage renames the entity and
+ * its relations in one commit.
+ * @param keepOldNameAsAlias - Keep the old name as an alias, so it still resolves to the entity
+ * @throws Error if the entity is not found in the thread
+ * @throws Error if the new name is already the name or an alias of another entity
+ */
+export async function renameEntity(
+  storage: IStorageAdapter,
+  threadId: string,
+  entityName: string,
+  newName: string,
+  keepOldNameAsAlias: boolean = false
+): Promise<RenameEntityResult> {
+  checkNotWorkspace(threadId);
+  const graph = await storage.loadThreadGraph(threadId);
+  const entity = findEntity(graph, entityName);
+  if (graph.entities.some(e => e.name === newName)) {
+    throw new Error(`Entity '${newName}' already exists in thread '${threadId}'`);
+  }
+  const aliasOwner = buildAliasIndex(graph.entities).get(newName);
+  if (aliasOwner !== undefined && aliasOwner !== entityName) {
+    throw new Error(`Name '${newName}' is an alias of entity '${aliasOwner}'`);
+  }
+
+  // The new name stops being an alias; the old one becomes one if asked
+  const aliases = (entity.aliases ?? []).filter(alias => alias !== newName);
+  if (keepOldNameAsAlias) {
+    aliases.push(entityName);
+  }
+  const { aliases: _previousAliases, ...fields } = entity;
+  const renamed: Entity = {
+    ...fields,
+    name: newName,
+    ...(aliases.length > 0 && { aliases }),
+    timestamp: new Date().toISOString()
+  };
+  await storage.renameEntity(threadId, entityName, renamed);
+
+  const affected = graph.relations.filter(r => r.from === entityName || r.to === entityName);
+  return { entity: renamed, previousName: entityName, updatedRelations: affected.length };
 }
@@ -2,11 +2,14 @@
  * Observation CRUD operations
  */
 
-import { Observation } from '../types.js';
+import { Entity, Observation, TrashItem } from '../types.js';
 import { IStorageAdapter } from '../storage-interface.js';
+import { checkNotWorkspace } from '../collaboration/workspace-service.js';
 import { randomUUID } from 'crypto';
 import { findEntity, findObservation } from '../utils/entity-finder.js';
 import { validateObservationNotSuperseded, createObservationVersion } from '../utils/observation-validator.js';
+import { observationTrashItem, moveToTrash } from '../maintenance/trash-service.js';
+import { getObservationHistory } from '../versioning/observation-history.js';
 
 /**
  * Add observations to entities
@@ -25,10 +28,11 @@ export async function addObservations(
     importance: number;
   }[]
 ): Promise<{ entityName: string; addedObservations: Observation[] }[]> {
-  const graph = await storage.loadGraph();
+  checkNotWorkspace(threadId);
+  const graph = await storage.loadThreadGraph(threadId);
   const results = observations.map(o => {
     // Find entity - thread validation happens here to ensure we only modify entities from this thread
-    const entity = graph.entities.find(e => e.name === o.entityName && e.agentThreadId === threadId);
+    const entity = graph.entities.find(e => e.name === o.entityName);
     if (!entity) {
       throw new Error(`Entity with name ${o.entityName} not found in thread ${threadId}`);
     }
@@ -76,32 +80,49 @@ export async function addObservations(
     
     return { entityName: o.entityName, addedObservations: newObservations };
   });
-  await storage.saveGraph(graph);
+  
+  // Write back only the entities that were touched
+  const touchedNames = new Set(observations.map(o => o.entityName));
+  for (const entity of graph.entities.filter(e => touchedNames.has(e.name))) {
+    await storage.upsertEntity(entity);
+  }
   return results;
 }
 
 /**
  * Delete observations from entities
  * Supports deletion by content (backward compatibility) or by ID
+ * Deleted observations are moved to the thread's trash before the entities are written
  * Thread parameter is used for validation to ensure only entities in the thread are modified
+ * @param reason - Stored with the trash items
  */
 export async function deleteObservations(
   storage: IStorageAdapter,
   threadId: string,
-  deletions: { entityName: string; observations: string[] }[]
+  deletions: { entityName: string; observations: string[] }[],
+  reason: string = 'delete_observations'
 ): Promise<void> {
-  const graph = await storage.loadGraph();
-  deletions.forEach(d => {
+  checkNotWorkspace(threadId);
+  const graph = await storage.loadThreadGraph(threadId);
+  const deletedAt = new Date().toISOString();
+  const changedEntities: Entity[] = [];
+  const trashItems: TrashItem[] = [];
+  for (const d of deletions) {
     // Find entity - thread validation happens here to ensure we only modify entities from this thread
-    const entity = graph.entities.find(e => e.name === d.entityName && e.agentThreadId === threadId);
+    const entity = graph.entities.find(e => e.name === d.entityName);
     if (entity) {
       // Delete observations by content (for backward compatibility) or by ID
-      entity.observations = entity.observations.filter(o => 
-        !d.observations.includes(o.content) && !d.observations.includes(o.id)
-      );
+      const isDeleted = (o: Observation) => d.observations.includes(o.content) || d.observations.includes(o.id);
+      trashItems.push(...entity.observations.filter(isDeleted).map(o => observationTrashItem(entity.name, o, reason, deletedAt)));
+      entity.observations = entity.observations.filter(o => !isDeleted(o));
+      changedEntities.push(entity);
     }
-  });
-  await storage.saveGraph(graph);
+  }
+  
+  await moveToTrash(storage, threadId, trashItems);
+  for (const entity of changedEntities) {
+    await storage.upsertEntity(entity);
+  }
 }
 
 /**
@@ -134,7 +155,9 @@ export async function updateObservation(
     importance?: number;
   }
 ): Promise<Observation> {
-  const graph = await storage.loadGraph();
+  checkNotWorkspace(params.agentThreadId);
+  // The entity is looked up in the updating agent's thread
+  const graph = await storage.loadThreadGraph(params.agentThreadId);
   
   // Find and validate the entity and observation
   const entity = findEntity(graph, params.entityName);
@@ -153,6 +176,59 @@ export async function updateObservation(
   // Update entity timestamp
   entity.timestamp = params.timestamp;
   
-  await storage.saveGraph(graph);
+  await storage.upsertEntity(entity);
+  return newObs;
+}
+
+/**
+ * Revert an observation to an earlier version by creating a new version with its content.
+ * The new version supersedes the latest one, so the chain keeps every version, including
+ * the ones being reverted.
+ * 
+ * @param storage - Storage adapter
+ * @param params - Revert parameters
+ * @param params.entityName - Name of the entity containing the observation
+ * @param params.observationId - ID of the version whose content is restored
+ * @param params.agentThreadId - Agent thread ID making this revert
+ * @param params.timestamp - ISO 8601 timestamp of the revert
+ * @returns The newly created observation; confidence and importance are those of the restored version
+ * @throws Error if entity not found
+ * @throws Error if observation not found
+ * @throws Error if the observation is already the latest version
+ */
+export async function revertObservation(
+  storage: IStorageAdapter,
+  params: {
+    entityName: string;
+    observationId: string;
+    agentThreadId: string;
+    timestamp: string;
+  }
+): Promise<Observation> {
+  checkNotWorkspace(params.agentThreadId);
+  const history = await getObservationHistory(storage, params.agentThreadId, params.entityName, params.observationId);
+  const target = history.find(o => o.id === params.observationId)!;
+  const latestId = history[history.length - 1].id;
+  if (latestId === target.id) {
+    throw new Error(`Observation '${target.id}' is already the latest version`);
+  }
+
+  const graph = await storage.loadThreadGraph(params.agentThreadId);
+  const entity = findEntity(graph, params.entityName);
+  const latest = findObservation(entity, latestId);
+  validateObservationNotSuperseded(latest);
+
+  const newObs = createObservationVersion(latest, entity, {
+    newContent: target.content,
+    agentThreadId: params.agentThreadId,
+    timestamp: params.timestamp,
+    confidence: target.confidence,
+    importance: target.importance
+  });
+  latest.superseded_by = newObs.id;
+  entity.observations.push(newObs);
+  entity.timestamp = params.timestamp;
+
+  await storage.upsertEntity(entity);
   return newObs;
 }
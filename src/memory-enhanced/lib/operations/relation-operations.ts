@@ -4,12 +4,16 @@
 
 import { Relation } from '../types.js';
 import { IStorageAdapter } from '../storage-interface.js';
+import { checkNotWorkspace } from '../collaboration/workspace-service.js';
 import { createRelationKey } from '../utils/relation-key.js';
+import { relationTrashItem, moveToTrash } from '../maintenance/trash-service.js';
 
 /**
  * Create new relations in the knowledge graph
- * Relations are globally unique by (from, to, relationType) across all threads
- * This enables multiple threads to collaboratively build the knowledge graph
+ * Relations are unique by (from, to, relationType) within a thread and connect entities of
+ * that thread; relations whose endpoints are missing from it are skipped with a warning.
+ * The full graph is only loaded when an endpoint is missing, to report whether it belongs
+ * to another thread.
  * @param threadId - Thread ID passed for context (relations already have agentThreadId set)
  */
 export async function createRelations(
@@ -17,50 +21,69 @@ export async function createRelations(
   threadId: string,
   relations: Relation[]
 ): Promise<Relation[]> {
-  const graph = await storage.loadGraph();
+  checkNotWorkspace(threadId);
+  const threadGraphs = new Map<string, { entityNames: Set<string>; relationKeys: Set<string> }>();
+  let allEntityNames: Set<string> | null = null;
+  const newRelations: Relation[] = [];
   
-  // Validate that referenced entities exist
-  const entityNames = new Set(graph.entities.map(e => e.name));
-  const validRelations = relations.filter(r => {
-    if (!entityNames.has(r.from) || !entityNames.has(r.to)) {
-      console.warn(`Skipping relation ${r.from} -> ${r.to}: one or both entities do not exist`);
-      return false;
+  for (const relation of relations) {
+    let threadGraph = threadGraphs.get(relation.agentThreadId);
+    if (!threadGraph) {
+      const loaded = await storage.loadThreadGraph(relation.agentThreadId);
+      threadGraph = {
+        entityNames: new Set(loaded.entities.map(e => e.name)),
+        relationKeys: new Set(loaded.relations.map(r => createRelationKey(r)))
+      };
+      threadGraphs.set(relation.agentThreadId, threadGraph);
     }
-    return true;
-  });
+    
+    const missing = [relation.from, relation.to].filter(name => !threadGraph.entityNames.has(name));
+    if (missing.length > 0) {
+      if (!allEntityNames) {
+        const graph = await storage.loadGraph();
+        allEntityNames = new Set(graph.entities.map(e => e.name));
+      }
+      const foreign = missing.find(name => allEntityNames!.has(name));
+      console.warn(foreign !== undefined
+        ? `Skipping relation ${relation.from} -> ${relation.to}: entity ${foreign} is not in thread ${relation.agentThreadId}`
+        : `Skipping relation ${relation.from} -> ${relation.to}: one or both entities do not exist`);
+      continue;
+    }
+    
+    const key = createRelationKey(relation);
+    if (threadGraph.relationKeys.has(key)) {
+      continue;
+    }
+    
+    await storage.upsertRelation(relation);
+    threadGraph.relationKeys.add(key);
+    newRelations.push(relation);
+  }
   
-  const existingRelationKeys = new Set(
-    graph.relations.map(r => createRelationKey(r))
-  );
-  // Create composite keys once per valid relation to avoid duplicate serialization
-  const validRelationsWithKeys = validRelations.map(r => ({
-    relation: r,
-    key: createRelationKey(r)
-  }));
-  const newRelations = validRelationsWithKeys
-    .filter(item => !existingRelationKeys.has(item.key))
-    .map(item => item.relation);
-  graph.relations.push(...newRelations);
-  await storage.saveGraph(graph);
   return newRelations;
 }
 
 /**
  * Delete relations from the knowledge graph
+ * Deleted relations are moved to the thread's trash
  * Thread isolation: Only deletes relations that belong to the specified thread
+ * @param reason - Stored with the trash items
  */
 export async function deleteRelations(
   storage: IStorageAdapter,
   threadId: string,
-  relations: Relation[]
+  relations: Relation[],
+  reason: string = 'delete_relations'
 ): Promise<void> {
-  const graph = await storage.loadGraph();
-  // Delete relations only from the specified thread by matching (from, to, relationType, threadId)
-  graph.relations = graph.relations.filter(r => !relations.some(delRelation => 
-    r.from === delRelation.from && 
-    r.to === delRelation.to && 
-    r.relationType === delRelation.relationType &&
-    r.agentThreadId === threadId
-  ));
-  await storage.saveGraph(graph);
+  checkNotWorkspace(threadId);
+  const threadGraph = await storage.loadThreadGraph(threadId);
+  // Delete relations only from the specified thread by matching (from, to, relationType)
+  const keysToDelete = new Set(relations.map(r => createRelationKey(r)));
+  const relationsToDelete = threadGraph.relations.filter(r => keysToDelete.has(createRelationKey(r)));
+  const deletedAt = new Date().toISOString();
+  await moveToTrash(storage, threadId, relationsToDelete.map(r => relationTrashItem(r, reason, deletedAt)));
+  
+  for (const relation of relationsToDelete) {
+    await storage.deleteRelation(relation);
+  }
 }
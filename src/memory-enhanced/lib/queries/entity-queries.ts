@@ -3,6 +3,7 @@
  */
 
 import { IStorageAdapter } from '../storage-interface.js';
+import { buildAliasIndex } from '../utils/entity-finder.js';
 
 /**
  * Get names of all entities across all threads.
@@ -38,17 +39,24 @@ export async function getEntityNamesInThread(
   storage: IStorageAdapter,
   threadId: string
 ): Promise<Set<string>> {
-  const graph = await storage.loadGraph();
-  const entityNames = new Set<string>();
-  
-  // Return only entities in the specified thread
-  for (const entity of graph.entities) {
-    if (entity.agentThreadId === threadId) {
-      entityNames.add(entity.name);
-    }
-  }
-  
-  return entityNames;
+  const graph = await storage.loadThreadGraph(threadId);
+  return new Set(graph.entities.map(e => e.name));
+}
+
+/**
+ * Get the aliases of entities in a specific thread.
+ * Used with getEntityNamesInThread to accept aliases as relation targets in save_memory.
+ * 
+ * @param storage Storage adapter
+ * @param threadId The thread ID to filter by
+ * @returns Map from each alias to the name of the entity it belongs to
+ */
+export async function getEntityAliasesInThread(
+  storage: IStorageAdapter,
+  threadId: string
+): Promise<Map<string, string>> {
+  const graph = await storage.loadThreadGraph(threadId);
+  return buildAliasIndex(graph.entities);
 }
 
 /**
@@ -67,10 +75,10 @@ export async function listEntities(
   entityType?: string,
   namePattern?: string
 ): Promise<Array<{ name: string; entityType: string }>> {
-  const graph = await storage.loadGraph();
+  const graph = await storage.loadThreadGraph(threadId);
   
-  // Filter by thread ID (required for thread isolation)
-  let filteredEntities = graph.entities.filter(e => e.agentThreadId === threadId);
+  // Only the thread's entities are loaded (required for thread isolation)
+  let filteredEntities = graph.entities;
   
   // Filter by entity type if specified
   if (entityType) {
@@ -4,6 +4,7 @@
 
 import { KnowledgeGraph, Entity, Relation, Observation } from '../types.js';
 import { IStorageAdapter } from '../storage-interface.js';
+import { loadThreadGraphAsOf } from '../versioning/point-in-time.js';
 
 /**
  * Default threshold for marking items as ARCHIVED
@@ -102,17 +103,32 @@ export function stripGraphStatus(graph: KnowledgeGraph): KnowledgeGraph {
 /**
  * Read the knowledge graph filtered by threadId for thread isolation
  * and optionally filtered by minimum importance threshold
+ * With asOf, the thread is read as it was at that time
  */
 export async function readGraph(
   storage: IStorageAdapter, 
   threadId: string,
-  minImportance: number = ARCHIVED_THRESHOLD
+  minImportance: number = ARCHIVED_THRESHOLD,
+  asOf?: string
 ): Promise<KnowledgeGraph> {
-  const graph = await storage.loadGraph();
-  
-  // Filter entities by threadId and importance
+  // Thread isolation is handled by the storage load
+  const graph = asOf !== undefined
+    ? await loadThreadGraphAsOf(storage, threadId, asOf)
+    : await storage.loadThreadGraph(threadId);
+  return filterGraphByImportance(graph, minImportance);
+}
+
+/**
+ * Filter a graph by minimum importance threshold
+ * Items below ARCHIVED_THRESHOLD but >= minImportance get ARCHIVED status;
+ * any other persisted status values are cleared
+ */
+export function filterGraphByImportance(
+  graph: KnowledgeGraph,
+  minImportance: number = ARCHIVED_THRESHOLD
+): KnowledgeGraph {
+  // Filter entities by importance
   const filteredEntities = graph.entities
-    .filter(e => e.agentThreadId === threadId)
     .filter(e => e.importance >= minImportance)
     .map(entity => {
       // Add ARCHIVED status if importance is less than ARCHIVED_THRESHOLD but >= minImportance.
@@ -154,10 +170,9 @@ export async function readGraph(
   // Create a Set of filtered entity names for quick lookup
   const filteredEntityNames = new Set(filteredEntities.map(e => e.name));
   
-  // Filter relations to only include those between filtered entities, from the same thread, and by importance
+  // Filter relations to only include those between filtered entities and by importance
   const filteredRelations = graph.relations
     .filter(r => 
-      r.agentThreadId === threadId &&
       filteredEntityNames.has(r.from) && 
       filteredEntityNames.has(r.to) &&
       r.importance >= minImportance
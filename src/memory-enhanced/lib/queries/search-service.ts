@@ -2,71 +2,102 @@
  * Search and filter operations for the knowledge graph
  */
 
-import { KnowledgeGraph } from '../types.js';
-import { IStorageAdapter } from '../storage-interface.js';
+import { KnowledgeGraph, SearchHit, SearchResult } from '../types.js';
+import { IStorageAdapter, findGraphQueryStorage, findChangeTrackingStorage } from '../storage-interface.js';
+import { SearchIndex } from '../search/search-index.js';
 import { stripGraphStatus } from './graph-reader.js';
+import { loadThreadGraphAsOf } from '../versioning/point-in-time.js';
+import { resolveEntityNames } from '../utils/entity-finder.js';
 
 /**
- * Search for nodes in the knowledge graph by query string
- * Searches entity names, types, and observation content
+ * Search for nodes in the knowledge graph with ranked full-text search
+ * Searches entity names, aliases, types, and observation content; see search/query-parser.ts for the query syntax
  * Filtered by threadId for thread isolation
+ * 
+ * Pass the shared SearchIndex to reuse a thread's index across searches;
+ * without one, the thread is indexed for this call only. A shared index is rebuilt
+ * when the thread's version token shows another process changed it.
+ * Storages with their own full-text search (Neo4j) are queried directly instead.
+ * With asOf, the thread as it was at that time is indexed for this call only.
  */
 export async function searchNodes(
   storage: IStorageAdapter,
   threadId: string,
-  query: string
-): Promise<KnowledgeGraph> {
-  const graph = await storage.loadGraph();
-  
-  // Filter entities by threadId first, then by search query
-  const filteredEntities = graph.entities.filter(e => 
-    e.agentThreadId === threadId &&
-    (e.name.toLowerCase().includes(query.toLowerCase()) ||
-    e.entityType.toLowerCase().includes(query.toLowerCase()) ||
-    e.observations.some(o => o.content?.toLowerCase().includes(query.toLowerCase())))
-  );
+  query: string,
+  searchIndex: SearchIndex = new SearchIndex(),
+  asOf?: string
+): Promise<SearchResult> {
+  const graphQueries = asOf === undefined ? findGraphQueryStorage(storage) : null;
+  if (graphQueries) {
+    // Stripping keeps every other field, including score and matches
+    return stripGraphStatus(await graphQueries.searchNodes(threadId, query)) as SearchResult;
+  }
 
-  // Create a Set of filtered entity names for quick lookup
-  const filteredEntityNames = new Set(filteredEntities.map(e => e.name));
+  // The version is read before loading, so a change made during the load is seen as stale next time
+  const changeTracking = asOf === undefined ? findChangeTrackingStorage(storage) : null;
+  const version = changeTracking ? await changeTracking.getThreadVersion(threadId) : null;
+
+  // Strip any persisted status values to prevent leaking stale data
+  const graph = stripGraphStatus(asOf !== undefined
+    ? await loadThreadGraphAsOf(storage, threadId, asOf)
+    : await storage.loadThreadGraph(threadId));
+  if (graph.entities.length === 0) {
+    return { entities: [], relations: [] };
+  }
+
+  // The shared index holds the current state of the thread
+  const index = asOf !== undefined ? new SearchIndex() : searchIndex;
+  if (!index.isCurrent(threadId, version)) {
+    index.indexThread(threadId, graph.entities, version);
+  }
+
+  const entitiesByName = new Map(graph.entities.map(e => [e.name, e]));
+  const hits: SearchHit[] = index.search(threadId, query)
+    .filter(result => entitiesByName.has(result.entityName))
+    .map(result => ({
+      ...entitiesByName.get(result.entityName)!,
+      score: result.score,
+      matches: result.matches
+    }));
 
-  // Filter relations to only include those between filtered entities and from the same thread
+  // Create a Set of matched entity names for quick lookup
+  const hitNames = new Set(hits.map(e => e.name));
+
+  // Filter relations to only include those between matched entities
   const filteredRelations = graph.relations.filter(r => 
-    r.agentThreadId === threadId &&
-    filteredEntityNames.has(r.from) && filteredEntityNames.has(r.to)
+    hitNames.has(r.from) && hitNames.has(r.to)
   );
 
-  const filteredGraph: KnowledgeGraph = {
-    entities: filteredEntities,
+  return {
+    entities: hits,
     relations: filteredRelations,
   };
-
-  // Strip any persisted status values to prevent leaking stale data
-  return stripGraphStatus(filteredGraph);
 }
 
 /**
- * Open specific nodes by name
+ * Open specific nodes by name or alias
  * Returns a subgraph containing only the specified entities and relations between them
- * Filtered by threadId for thread isolation
+ * Filtered by threadId for thread isolation; with asOf, as the thread was at that time
  */
 export async function openNodes(
   storage: IStorageAdapter,
   threadId: string,
-  names: string[]
+  names: string[],
+  asOf?: string
 ): Promise<KnowledgeGraph> {
-  const graph = await storage.loadGraph();
+  const graph = asOf !== undefined
+    ? await loadThreadGraphAsOf(storage, threadId, asOf)
+    : await storage.loadThreadGraph(threadId);
   
-  // Filter entities by threadId first, then by name
-  const filteredEntities = graph.entities.filter(e => 
-    e.agentThreadId === threadId && names.includes(e.name)
-  );
+  // Filter the thread's entities by name, with aliases resolved to the entities they belong to
+  const resolvedNames = new Set(resolveEntityNames(graph.entities, names));
+  const filteredEntities = graph.entities.filter(e => resolvedNames.has(e.name));
 
   // Create a Set of filtered entity names for quick lookup
   const filteredEntityNames = new Set(filteredEntities.map(e => e.name));
 
-  // Filter relations to only include those between filtered entities and from the same thread
+  // Filter relations to only include those between filtered entities
   const filteredRelations = graph.relations.filter(r => 
-    r.agentThreadId === threadId &&
     filteredEntityNames.has(r.from) && filteredEntityNames.has(r.to)
   );
 
@@ -96,13 +127,10 @@ export async function queryNodes(
     importanceMax?: number;
   }
 ): Promise<KnowledgeGraph> {
-  const graph = await storage.loadGraph();
+  const graph = await storage.loadThreadGraph(threadId);
   
-  // Apply filters to entities, starting with threadId filter
+  // Apply filters to the thread's entities
   const filteredEntities = graph.entities.filter(e => {
-    // Thread isolation filter - must match
-    if (e.agentThreadId !== threadId) return false;
-    
     // Optional filters below
     if (!filters) return true;
     
@@ -126,9 +154,6 @@ export async function queryNodes(
 
   // Apply filters to relations (and ensure they connect filtered entities)
   const filteredRelations = graph.relations.filter(r => {
-    // Thread isolation filter - must match
-    if (r.agentThreadId !== threadId) return false;
-    
     // Must connect filtered entities
     if (!filteredEntityNames.has(r.from) || !filteredEntityNames.has(r.to)) return false;
     
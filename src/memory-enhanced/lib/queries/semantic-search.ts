@@ -0,0 +1,157 @@
+/**
+ * Semantic search over entities and observations
+ * Ranks a thread's entities by cosine similarity between the query vector and the stored
+ * vectors of each entity header (name and type) and each of its observations
+ */
+
+import { Entity, EmbeddingRecord, SemanticEntityMatch, SemanticSearchResult } from '../types.js';
+import { IStorageAdapter } from '../storage-interface.js';
+import { EmbeddingProvider, cosineSimilarity, hashContent } from '../embeddings/embedding-provider.js';
+import { ARCHIVED_THRESHOLD, filterGraphByImportance } from './graph-reader.js';
+
+export const DEFAULT_SEMANTIC_SEARCH_LIMIT = 10;
+
+/**
+ * Maximum number of observations returned per matched entity
+ */
+export const MAX_OBSERVATIONS_PER_MATCH = 3;
+
+/**
+ * Matches below this similarity are dropped; lower scores come from
+ * shared word fragments and hash collisions rather than related meaning
+ */
+export const MIN_SIMILARITY = 0.1;
+
+/**
+ * A piece of text that gets its own vector
+ */
+interface EmbeddingTarget {
+  entityName: string;
+  observationId?: string;
+  text: string;
+}
+
+function embeddingKey(entityName: string, observationId?: string): string {
+  return `${entityName}\u0000${observationId ?? ''}`;
+}
+
+/**
+ * The entity header and every observation of each entity
+ * Defensive: skips legacy string observations
+ */
+function collectTargets(entities: Entity[]): EmbeddingTarget[] {
+  const targets: EmbeddingTarget[] = [];
+  for (const entity of entities) {
+    targets.push({ entityName: entity.name, text: `${entity.name} ${entity.entityType}` });
+    for (const obs of entity.observations) {
+      if (typeof obs !== 'object' || obs === null || typeof obs.content !== 'string') continue;
+      targets.push({ entityName: entity.name, observationId: obs.id, text: obs.content });
+    }
+  }
+  return targets;
+}
+
+/**
+ * Bring the stored vectors of a thread in line with its current entities
+ * Embeds new or changed text and text embedded by a different provider, drops vectors
+ * of deleted entities and observations, and saves only when something changed
+ */
+async function syncEmbeddings(
+  storage: IStorageAdapter,
+  provider: EmbeddingProvider,
+  threadId: string,
+  entities: Entity[]
+): Promise<Map<string, number[]>> {
+  const stored = new Map<string, EmbeddingRecord>();
+  for (const record of await storage.loadEmbeddings(threadId)) {
+    stored.set(embeddingKey(record.entityName, record.observationId), record);
+  }
+
+  const records: EmbeddingRecord[] = [];
+  const stale: Array<{ target: EmbeddingTarget; contentHash: string }> = [];
+  for (const target of collectTargets(entities)) {
+    const contentHash = hashContent(target.text);
+    const existing = stored.get(embeddingKey(target.entityName, target.observationId));
+    if (existing && existing.model === provider.id && existing.contentHash === contentHash) {
+      records.push(existing);
+    } else {
+      stale.push({ target, contentHash });
+    }
+  }
+
+  if (stale.length > 0) {
+    const vectors = await provider.embed(stale.map(({ target }) => target.text));
+    stale.forEach(({ target, contentHash }, i) => {
+      records.push({
+        entityName: target.entityName,
+        ...(target.observationId !== undefined ? { observationId: target.observationId } : {}),
+        model: provider.id,
+        contentHash,
+        vector: vectors[i]
+      });
+    });
+  }
+
+  if (stale.length > 0 || records.length !== stored.size) {
+    await storage.saveEmbeddings(threadId, records);
+  }
+
+  return new Map(records.map(record => [embeddingKey(record.entityName, record.observationId), record.vector]));
+}
+
+/**
+ * Find the entities and observations closest in meaning to a query
+ * Filtered by threadId for thread isolation and by minImportance the same way as readGraph:
+ * items below minImportance are skipped and items below ARCHIVED_THRESHOLD are marked ARCHIVED
+ */
+export async function semanticSearch(
+  storage: IStorageAdapter,
+  provider: EmbeddingProvider,
+  threadId: string,
+  query: string,
+  limit: number = DEFAULT_SEMANTIC_SEARCH_LIMIT,
+  minImportance: number = ARCHIVED_THRESHOLD
+): Promise<SemanticSearchResult> {
+  const graph = await storage.loadThreadGraph(threadId);
+  if (graph.entities.length === 0) {
+    return { entities: [] };
+  }
+
+  // Vectors are kept for the whole thread so changing minImportance never re-embeds
+  const vectors = await syncEmbeddings(storage, provider, threadId, graph.entities);
+  const [queryVector] = await provider.embed([query]);
+
+  const matches: SemanticEntityMatch[] = [];
+  for (const entity of filterGraphByImportance(graph, minImportance).entities) {
+    const headerVector = vectors.get(embeddingKey(entity.name));
+    const headerSimilarity = headerVector ? cosineSimilarity(queryVector, headerVector) : 0;
+
+    const observations = entity.observations
+      .filter(obs => typeof obs === 'object' && obs !== null && typeof obs.content === 'string')
+      .map(obs => {
+        const vector = vectors.get(embeddingKey(entity.name, obs.id));
+        return {
+          id: obs.id,
+          content: obs.content,
+          similarity: vector ? cosineSimilarity(queryVector, vector) : 0,
+          ...(obs.status ? { status: obs.status } : {})
+        };
+      })
+      .filter(obs => obs.similarity >= MIN_SIMILARITY)
+      .sort((a, b) => b.similarity - a.similarity);
+
+    const similarity = Math.max(headerSimilarity, observations[0]?.similarity ?? 0);
+    if (similarity < MIN_SIMILARITY) continue;
+
+    matches.push({
+      name: entity.name,
+      entityType: entity.entityType,
+      similarity,
+      ...(entity.status ? { status: entity.status } : {}),
+      observations: observations.slice(0, MAX_OBSERVATIONS_PER_MATCH)
+    });
+  }
+
+  matches.sort((a, b) => b.similarity - a.similarity || a.name.localeCompare(b.name));
+  return { entities: matches.slice(0, limit) };
+}
@@ -6,33 +6,36 @@
 import { Entity, Relation, SaveMemoryInput, SaveMemoryOutput, Observation } from './types.js';
 import { validateSaveMemoryRequest, calculateQualityScore } from './validation.js';
 import { getInverseRelationType } from './relation-inverter.js';
+import { extendAliasIndex } from './utils/entity-finder.js';
 import { randomUUID } from 'crypto';
 
 /**
  * Saves entities and their relations to the knowledge graph atomically
  * Either all entities + relations succeed, or none are saved (rollback)
+ * Relation targets given by alias are saved as relations to the entity the alias belongs to
  */
 export async function handleSaveMemory(
   input: SaveMemoryInput,
   createEntitiesFn: (threadId: string, entities: Entity[]) => Promise<Entity[]>,
   createRelationsFn: (threadId: string, relations: Relation[]) => Promise<Relation[]>,
-  getExistingEntityNamesFn?: (threadId: string) => Promise<Set<string>>
+  getExistingEntityNamesFn?: (threadId: string) => Promise<Set<string>>,
+  getExistingAliasesFn?: (threadId: string) => Promise<Map<string, string>>
 ): Promise<SaveMemoryOutput> {
   const timestamp = new Date().toISOString();
   
-  // Get existing entity names for cross-thread reference validation
+  // Get existing entity names and aliases for cross-thread reference validation
   let existingEntityNames: Set<string> | undefined;
-  if (getExistingEntityNamesFn) {
-    try {
-      existingEntityNames = await getExistingEntityNamesFn(input.threadId);
-    } catch (error) {
-      // If we can't get existing entities, proceed without cross-thread validation
-      console.warn(`Failed to get existing entities for thread ${input.threadId}:`, error);
-    }
+  let existingAliases: Map<string, string> | undefined;
+  try {
+    existingEntityNames = await getExistingEntityNamesFn?.(input.threadId);
+    existingAliases = await getExistingAliasesFn?.(input.threadId);
+  } catch (error) {
+    // If we can't get existing entities, proceed without cross-thread validation
+    console.warn(`Failed to get existing entities for thread ${input.threadId}:`, error);
   }
   
   // Validate the entire request (with cross-thread entity reference support)
-  const validationResult = validateSaveMemoryRequest(input.entities, existingEntityNames);
+  const validationResult = validateSaveMemoryRequest(input.entities, existingEntityNames, existingAliases);
   
   if (!validationResult.valid) {
     // Group errors by entity for better structure
@@ -104,7 +107,8 @@ export async function handleSaveMemory(
         agentThreadId: input.threadId,
         timestamp: timestamp,
         confidence: e.confidence ?? 1.0,
-        importance: e.importance ?? 0.5
+        importance: e.importance ?? 0.5,
+        ...(e.aliases && e.aliases.length > 0 && { aliases: e.aliases })
       };
     });
     
@@ -112,12 +116,14 @@ export async function handleSaveMemory(
     const createdEntities = await createEntitiesFn(input.threadId, entities);
     
     // Build relations array from all entities
+    const aliasIndex = extendAliasIndex(existingAliases ?? new Map(), input.entities);
     const relations: Relation[] = [];
     for (const entity of input.entities) {
       for (const rel of entity.relations) {
+        const target = aliasIndex.get(rel.targetEntity) ?? rel.targetEntity;
         relations.push({
           from: entity.name,
-          to: rel.targetEntity,
+          to: target,
           relationType: rel.relationType,
           agentThreadId: input.threadId,
           timestamp: timestamp,
@@ -127,7 +133,7 @@ export async function handleSaveMemory(
         
         // Create inverse relation for bidirectional connectivity
         relations.push({
-          from: rel.targetEntity,
+          from: target,
           to: entity.name,
           relationType: getInverseRelationType(rel.relationType),
           agentThreadId: input.threadId,
@@ -4,6 +4,18 @@
 
 import { z } from "zod";
 import { ARCHIVED_THRESHOLD } from "./queries/graph-reader.js";
+import { DEFAULT_SEMANTIC_SEARCH_LIMIT } from "./queries/semantic-search.js";
+import { GRAPH_FORMATS } from "./interchange/graph-format.js";
+import { STORAGE_BACKENDS } from "./migration/storage-backends.js";
+import { WORKSPACE_NAME_PATTERN, WORKSPACE_THREAD_PREFIX } from "./collaboration/workspace-service.js";
+import { DEFAULT_DUPLICATE_MIN_SCORE } from "./analysis/duplicate-detector.js";
+
+// Thread IDs given by agents; the workspace prefix is reserved for shared workspaces
+// and the subscription registry, which only the workspace tools write
+const ThreadIdSchema = z.string().min(1).refine(
+  threadId => !threadId.startsWith(WORKSPACE_THREAD_PREFIX),
+  { message: `Thread IDs starting with '${WORKSPACE_THREAD_PREFIX}' are reserved for shared workspaces` }
+);
 
 // Schema for Observation with versioning support
 export const ObservationSchema = z.object({
@@ -31,13 +43,32 @@ export const EntitySchema = z.object({
   timestamp: z.string().describe("ISO 8601 timestamp of creation/modification"),
   confidence: z.number().min(0).max(1).describe("Confidence in the accuracy of this entity (0-1)"),
   importance: z.number().min(0).max(1).describe("Importance for memory integrity if lost: 0 (not important) to 1 (critical)"),
-  status: z.literal('ARCHIVED').optional().describe("Status indicator - set to 'ARCHIVED' for low-importance items")
-});
-
-// Input schema for entities (excludes status field which is computed, uses input observations)
-export const EntityInputSchema = EntitySchema.omit({ status: true, observations: true }).extend({
-  observations: z.array(ObservationInputSchema).describe("Versioned observations about this entity")
-}).strict();
+  aliases: z.array(z.string()).optional().describe("Alternate names the entity is also known by"),
+  status: z.literal('ARCHIVED').optional().describe("Status indicator - set to 'ARCHIVED' for low-importance items"),
+  workspace: z.string().optional().describe("Shared workspace this entity comes from; absent for the thread's own memories")
+});
+
+// Schema for the aliases of an entity in tool input: distinct names, none of them the entity's own name
+export const EntityAliasesSchema = z.array(z.string().min(1).max(100))
+  .refine(aliases => new Set(aliases).size === aliases.length, { message: "Aliases must be unique" })
+  .optional()
+  .describe("Alternate names the entity is also known by (e.g. 'K8s' for 'Kubernetes'); they resolve to the entity in relations, open_nodes, get_context, find_relation_path and search");
+
+function refineAliases(entity: { name: string; aliases?: string[] }, ctx: z.RefinementCtx): void {
+  if (entity.aliases?.includes(entity.name)) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: "An alias cannot be the entity's own name",
+      path: ["aliases"]
+    });
+  }
+}
+
+// Input schema for entities (excludes status and workspace fields which are computed, uses input observations)
+export const EntityInputSchema = EntitySchema.omit({ status: true, workspace: true, observations: true }).extend({
+  observations: z.array(ObservationInputSchema).describe("Versioned observations about this entity"),
+  aliases: EntityAliasesSchema
+}).strict().superRefine(refineAliases);
 
 export const RelationSchema = z.object({
   from: z.string().describe("Source entity name"),
@@ -47,15 +78,16 @@ export const RelationSchema = z.object({
   timestamp: z.string().describe("ISO 8601 timestamp of creation/modification"),
   confidence: z.number().min(0).max(1).describe("Confidence in the accuracy of this relation (0-1)"),
   importance: z.number().min(0).max(1).describe("Importance for memory integrity if lost: 0 (not important) to 1 (critical)"),
-  status: z.literal('ARCHIVED').optional().describe("Status indicator - set to 'ARCHIVED' for low-importance items")
+  status: z.literal('ARCHIVED').optional().describe("Status indicator - set to 'ARCHIVED' for low-importance items"),
+  workspace: z.string().optional().describe("Shared workspace this relation comes from; absent for the thread's own memories")
 });
 
-// Input schema for relations (excludes status field which is computed)
-export const RelationInputSchema = RelationSchema.omit({ status: true }).strict();
+// Input schema for relations (excludes status and workspace fields which are computed)
+export const RelationInputSchema = RelationSchema.omit({ status: true, workspace: true }).strict();
 
 // Schema for save_memory tool (Section 1 of spec)
 export const SaveMemoryRelationSchema = z.object({
-  targetEntity: z.string().describe("Name of entity to connect to (must exist in this request)"),
+  targetEntity: z.string().describe("Name or alias of entity to connect to (must exist in this request or the thread)"),
   relationType: z.string().max(50).describe("Type of relationship (e.g., 'created by', 'contains', 'uses')"),
   importance: z.number().min(0).max(1).optional().default(0.7).describe("Importance of this relation (0-1)")
 });
@@ -72,11 +104,12 @@ export const SaveMemoryEntitySchema = z.object({
     .min(1)
     .describe("REQUIRED: Every entity must have at least 1 relation"),
   confidence: z.number().min(0).max(1).optional().default(1.0).describe("Confidence in the accuracy (0-1)"),
-  importance: z.number().min(0).max(1).optional().default(0.5).describe("Importance for memory integrity (0-1)")
-});
+  importance: z.number().min(0).max(1).optional().default(0.5).describe("Importance for memory integrity (0-1)"),
+  aliases: EntityAliasesSchema
+}).superRefine(refineAliases);
 
 export const SaveMemoryInputSchema = z.object({
-  threadId: z.string().min(1).describe("Thread ID for this conversation/project"),
+  threadId: ThreadIdSchema.describe("Thread ID for this conversation/project"),
   entities: z.array(SaveMemoryEntitySchema).min(1).describe("Array of entities to save")
 });
 
@@ -94,7 +127,7 @@ export const SaveMemoryOutputSchema = z.object({
 
 // Schema for get_analytics tool (Analytics section of spec)
 export const GetAnalyticsInputSchema = z.object({
-  threadId: z.string().min(1).describe("Thread ID for this conversation/project")
+  threadId: ThreadIdSchema.describe("Thread ID for this conversation/project")
 });
 
 export const GetAnalyticsOutputSchema = z.object({
@@ -125,7 +158,7 @@ export const GetAnalyticsOutputSchema = z.object({
 
 // Schema for get_observation_history tool (Observation Versioning section of spec)
 export const GetObservationHistoryInputSchema = z.object({
-  threadId: z.string().min(1).describe("Thread ID for this conversation/project"),
+  threadId: ThreadIdSchema.describe("Thread ID for this conversation/project"),
   entityName: z.string().min(1).describe("Name of the entity"),
   observationId: z.string().min(1).describe("ID of the observation to retrieve history for")
 });
@@ -134,9 +167,56 @@ export const GetObservationHistoryOutputSchema = z.object({
   history: z.array(ObservationSchema).describe("Full version chain of the observation, chronologically ordered")
 });
 
+// Schema for diff_observation_versions tool
+export const DiffObservationVersionsInputSchema = z.object({
+  threadId: ThreadIdSchema.describe("Thread ID for this conversation/project"),
+  entityName: z.string().min(1).describe("Name of the entity"),
+  fromObservationId: z.string().min(1).describe("ID of the version to diff from"),
+  toObservationId: z.string().min(1).describe("ID of the version to diff to, in the same version chain")
+});
+
+export const DiffObservationVersionsOutputSchema = z.object({
+  from: ObservationSchema,
+  to: ObservationSchema,
+  changes: z.array(z.object({
+    type: z.enum(['equal', 'added', 'removed']),
+    text: z.string()
+  })).describe("Word-level diff from the content of 'from' to that of 'to', in order")
+});
+
+// Schema for get_entity_history tool
+export const GetEntityHistoryInputSchema = z.object({
+  threadId: ThreadIdSchema.describe("Thread ID for this conversation/project"),
+  entityName: z.string().min(1).describe("Name of the entity")
+});
+
+export const EntityHistoryEventSchema = z.object({
+  timestamp: z.string().describe("ISO 8601 time of the change"),
+  tool: z.string().optional().describe("Tool whose call made the change"),
+  change: z.enum([
+    'entity_created', 'entity_updated', 'entity_deleted', 'entity_renamed',
+    'observation_added', 'observation_updated', 'observation_deleted',
+    'relation_created', 'relation_updated', 'relation_removed'
+  ]),
+  version: z.number().int().positive().describe("Version of the entity, or of the relation for relation changes, after the change"),
+  entity: EntitySchema.optional().describe("The entity as created or deleted"),
+  fieldChanges: z.array(z.object({
+    field: z.string(),
+    before: z.union([z.string(), z.number(), z.array(z.string())]).optional(),
+    after: z.union([z.string(), z.number(), z.array(z.string())]).optional()
+  })).optional().describe("Metadata fields changed by entity_updated and relation_updated, and the name changed by entity_renamed"),
+  observation: ObservationSchema.optional().describe("Observation added or deleted, or the new version of an updated one"),
+  previousObservation: ObservationSchema.optional().describe("Version replaced by observation_updated"),
+  relation: RelationSchema.optional().describe("The relation as created, updated or removed")
+});
+
+export const GetEntityHistoryOutputSchema = z.object({
+  history: z.array(EntityHistoryEventSchema).describe("Changes to the entity and its relations, chronologically ordered")
+});
+
 // Schema for list_entities tool (Simple Entity Lookup)
 export const ListEntitiesInputSchema = z.object({
-  threadId: z.string().min(1).describe("Thread ID for this conversation/project"),
+  threadId: ThreadIdSchema.describe("Thread ID for this conversation/project"),
   entityType: z.string().optional().describe("Filter by entity type (e.g., 'Person', 'Service', 'Document')"),
   namePattern: z.string().optional().describe("Filter by name pattern (case-insensitive substring match)")
 });
@@ -150,7 +230,7 @@ export const ListEntitiesOutputSchema = z.object({
 
 // Schema for validate_memory tool (Pre-Validation)
 export const ValidateMemoryInputSchema = z.object({
-  threadId: z.string().min(1).describe("Thread ID for this conversation/project"),
+  threadId: ThreadIdSchema.describe("Thread ID for this conversation/project"),
   entities: z.array(SaveMemoryEntitySchema).min(1).describe("Array of entities to validate")
 });
 
@@ -168,7 +248,7 @@ export const ValidateMemoryOutputSchema = z.object({
 
 // Schema for update_observation tool
 export const UpdateObservationInputSchema = z.object({
-  agentThreadId: z.string().min(1).describe("Agent thread ID making this update"),
+  agentThreadId: ThreadIdSchema.describe("Agent thread ID making this update"),
   entityName: z.string().min(1).describe("Name of the entity containing the observation"),
   observationId: z.string().min(1).describe("ID of the observation to update"),
   newContent: z.string().min(1).max(300).describe("New content for the observation (max 300 chars). Minimum 1 character to allow short but valid observations like abbreviations or single words."),
@@ -183,27 +263,81 @@ export const UpdateObservationOutputSchema = z.object({
   message: z.string()
 });
 
+// Schema for revert_observation tool
+export const RevertObservationInputSchema = z.object({
+  agentThreadId: ThreadIdSchema.describe("Agent thread ID making this revert"),
+  entityName: z.string().min(1).describe("Name of the entity containing the observation"),
+  observationId: z.string().min(1).describe("ID of the earlier version whose content to restore"),
+  timestamp: z.string().describe("ISO 8601 timestamp of the revert")
+});
+
+export const RevertObservationOutputSchema = z.object({
+  success: z.boolean(),
+  revertedObservation: ObservationSchema.describe("The new version, carrying the restored content"),
+  message: z.string()
+});
+
+// Point-in-time parameter of read_graph, search_nodes, open_nodes and get_context
+const AsOfSchema = z.string().datetime({ offset: true }).optional().describe(
+  "ISO 8601 timestamp: read the thread as it was at that time, from observation version chains and the thread's trash"
+);
+
 // Schema for read_graph tool
 export const ReadGraphInputSchema = z.object({
-  threadId: z.string().min(1).describe("Thread ID for this conversation/project"),
+  threadId: ThreadIdSchema.describe("Thread ID for this conversation/project"),
+  asOf: AsOfSchema,
   minImportance: z.number().min(0).max(1).optional().default(ARCHIVED_THRESHOLD).describe(`Minimum importance threshold (0-1). Items with importance below this value are excluded. Items with importance between minImportance and ${ARCHIVED_THRESHOLD} are marked as ARCHIVED. Default: ${ARCHIVED_THRESHOLD}`)
 });
 
 // Schema for search_nodes tool
 export const SearchNodesInputSchema = z.object({
-  threadId: z.string().min(1).describe("Thread ID for this conversation/project"),
-  query: z.string().min(1).describe("Search query string")
+  threadId: ThreadIdSchema.describe("Thread ID for this conversation/project"),
+  query: z.string().min(1).describe("Search query. Terms are ANDed; supports \"exact phrases\", OR between alternatives, and -term to exclude"),
+  asOf: AsOfSchema
+});
+
+// Schema for ranked search_nodes results
+export const SearchHitSchema = EntitySchema.extend({
+  score: z.number().describe("Relevance score (higher is better)"),
+  matches: z.array(z.object({
+    observationId: z.string().describe("ID of the matched observation"),
+    snippet: z.string().describe("Excerpt of the observation around the match")
+  })).describe("Observations that matched the query, best first")
+});
+
+// Schema for semantic_search tool
+export const SemanticSearchInputSchema = z.object({
+  threadId: ThreadIdSchema.describe("Thread ID for this conversation/project"),
+  query: z.string().min(1).describe("Natural-language description of what to recall; does not need to share exact words with the stored observations"),
+  limit: z.number().int().min(1).max(100).optional().default(DEFAULT_SEMANTIC_SEARCH_LIMIT).describe(`Maximum number of entities to return. Default: ${DEFAULT_SEMANTIC_SEARCH_LIMIT}`),
+  minImportance: z.number().min(0).max(1).optional().default(ARCHIVED_THRESHOLD).describe(`Minimum importance threshold (0-1). Items with importance below this value are excluded. Items with importance between minImportance and ${ARCHIVED_THRESHOLD} are marked as ARCHIVED. Default: ${ARCHIVED_THRESHOLD}`)
+});
+
+export const SemanticSearchOutputSchema = z.object({
+  entities: z.array(z.object({
+    name: z.string(),
+    entityType: z.string(),
+    similarity: z.number().describe("Cosine similarity to the query (higher is closer)"),
+    status: z.literal('ARCHIVED').optional(),
+    observations: z.array(z.object({
+      id: z.string(),
+      content: z.string(),
+      similarity: z.number(),
+      status: z.literal('ARCHIVED').optional()
+    })).describe("Closest observations of the entity, best first")
+  })).describe("Entities ordered by similarity, best first")
 });
 
 // Schema for open_nodes tool
 export const OpenNodesInputSchema = z.object({
-  threadId: z.string().min(1).describe("Thread ID for this conversation/project"),
-  names: z.array(z.string()).min(1).describe("Array of entity names to open")
+  threadId: ThreadIdSchema.describe("Thread ID for this conversation/project"),
+  names: z.array(z.string()).min(1).describe("Array of entity names to open"),
+  asOf: AsOfSchema
 });
 
 // Schema for query_nodes tool
 export const QueryNodesInputSchema = z.object({
-  threadId: z.string().min(1).describe("Thread ID for this conversation/project"),
+  threadId: ThreadIdSchema.describe("Thread ID for this conversation/project"),
   timestampStart: z.string().optional().describe("Filter by start timestamp (ISO 8601)"),
   timestampEnd: z.string().optional().describe("Filter by end timestamp (ISO 8601)"),
   confidenceMin: z.number().min(0).max(1).optional().describe("Filter by minimum confidence (0-1)"),
@@ -214,18 +348,18 @@ export const QueryNodesInputSchema = z.object({
 
 // Schema for get_memory_stats tool
 export const GetMemoryStatsInputSchema = z.object({
-  threadId: z.string().min(1).describe("Thread ID for this conversation/project")
+  threadId: ThreadIdSchema.describe("Thread ID for this conversation/project")
 });
 
 // Schema for get_recent_changes tool
 export const GetRecentChangesInputSchema = z.object({
-  threadId: z.string().min(1).describe("Thread ID for this conversation/project"),
+  threadId: ThreadIdSchema.describe("Thread ID for this conversation/project"),
   since: z.string().describe("ISO 8601 timestamp to get changes since")
 });
 
 // Schema for find_relation_path tool
 export const FindRelationPathInputSchema = z.object({
-  threadId: z.string().min(1).describe("Thread ID for this conversation/project"),
+  threadId: ThreadIdSchema.describe("Thread ID for this conversation/project"),
   from: z.string().min(1).describe("Source entity name"),
   to: z.string().min(1).describe("Target entity name"),
   maxDepth: z.number().int().min(1).optional().default(5).describe("Maximum path depth (default: 5)")
@@ -233,24 +367,45 @@ export const FindRelationPathInputSchema = z.object({
 
 // Schema for detect_conflicts tool
 export const DetectConflictsInputSchema = z.object({
-  threadId: z.string().min(1).describe("Thread ID for this conversation/project")
+  threadId: ThreadIdSchema.describe("Thread ID for this conversation/project")
+});
+
+// Schema for find_duplicate_entities tool
+export const FindDuplicateEntitiesInputSchema = z.object({
+  threadId: ThreadIdSchema.describe("Thread ID for this conversation/project"),
+  minScore: z.number().min(0).max(1).optional().default(DEFAULT_DUPLICATE_MIN_SCORE).describe(`Minimum similarity score (0-1) for two entities to be reported as duplicates. Default: ${DEFAULT_DUPLICATE_MIN_SCORE}`)
+});
+
+const DuplicatePairSchema = z.object({
+  entityNames: z.tuple([z.string(), z.string()]),
+  score: z.number().describe("Name similarity, raised by observation overlap (0-1)"),
+  nameSimilarity: z.number().describe("Best match between the names and aliases of the two entities (0-1)"),
+  observationOverlap: z.number().describe("Share of observation words in common (0-1)")
+});
+
+export const FindDuplicateEntitiesOutputSchema = z.object({
+  groups: z.array(z.object({
+    entityNames: z.array(z.string()).describe("Likely duplicates of each other, suggested canonical entity first"),
+    pairs: z.array(DuplicatePairSchema).describe("Pairs that linked the group, highest score first")
+  })).describe("Groups of likely duplicates, best match first")
 });
 
 // Schema for get_flagged_entities tool
 export const GetFlaggedEntitiesInputSchema = z.object({
-  threadId: z.string().min(1).describe("Thread ID for this conversation/project")
+  threadId: ThreadIdSchema.describe("Thread ID for this conversation/project")
 });
 
 // Schema for get_context tool
 export const GetContextInputSchema = z.object({
-  threadId: z.string().min(1).describe("Thread ID for this conversation/project"),
+  threadId: ThreadIdSchema.describe("Thread ID for this conversation/project"),
   entityNames: z.array(z.string()).min(1).describe("Array of entity names to get context for"),
-  depth: z.number().int().min(1).optional().default(1).describe("Context depth (default: 1)")
+  depth: z.number().int().min(1).optional().default(1).describe("Context depth (default: 1)"),
+  asOf: AsOfSchema
 });
 
 // Schema for create_entities tool
 export const CreateEntitiesInputSchema = z.object({
-  threadId: z.string().min(1).describe("Thread ID for this conversation/project"),
+  threadId: ThreadIdSchema.describe("Thread ID for this conversation/project"),
   entities: z.array(EntityInputSchema).describe("Array of entities to create")
 }).superRefine((data, ctx) => {
   const { threadId, entities } = data;
@@ -267,7 +422,7 @@ export const CreateEntitiesInputSchema = z.object({
 
 // Schema for create_relations tool
 export const CreateRelationsInputSchema = z.object({
-  threadId: z.string().min(1).describe("Thread ID for this conversation/project"),
+  threadId: ThreadIdSchema.describe("Thread ID for this conversation/project"),
   relations: z.array(RelationInputSchema).describe("Array of relations to create")
 }).superRefine((data, ctx) => {
   const { threadId, relations } = data;
@@ -284,7 +439,7 @@ export const CreateRelationsInputSchema = z.object({
 
 // Schema for add_observations tool
 export const AddObservationsInputSchema = z.object({
-  threadId: z.string().min(1).describe("Thread ID for this conversation/project"),
+  threadId: ThreadIdSchema.describe("Thread ID for this conversation/project"),
   observations: z.array(z.object({
     entityName: z.string().describe("The name of the entity to add the observations to"),
     contents: z.array(z.string()).describe("An array of observation contents to add"),
@@ -307,36 +462,54 @@ export const AddObservationsInputSchema = z.object({
 
 // Schema for delete_entities tool
 export const DeleteEntitiesInputSchema = z.object({
-  threadId: z.string().min(1).describe("Thread ID for this conversation/project"),
-  entityNames: z.array(z.string()).describe("An array of entity names to delete")
+  threadId: ThreadIdSchema.describe("Thread ID for this conversation/project"),
+  entityNames: z.array(z.string()).describe("An array of entity names to delete"),
+  reason: z.string().optional().describe("Why the entities are deleted; kept with them in the trash")
+});
+
+// Schema for rename_entity tool
+export const RenameEntityInputSchema = z.object({
+  threadId: ThreadIdSchema.describe("Thread ID for this conversation/project"),
+  entityName: z.string().min(1).describe("Current name of the entity"),
+  newName: z.string().min(1).max(100).describe("New name; must not be the name or alias of another entity in the thread"),
+  keepOldNameAsAlias: z.boolean().optional().default(false).describe("Keep the old name as an alias, so it still resolves to the entity")
+});
+
+export const RenameEntityOutputSchema = z.object({
+  entity: EntitySchema.describe("The entity under its new name"),
+  previousName: z.string(),
+  updatedRelations: z.number().describe("Relations from or to the entity that now use the new name")
 });
 
 // Schema for delete_observations tool
 export const DeleteObservationsInputSchema = z.object({
-  threadId: z.string().min(1).describe("Thread ID for this conversation/project"),
+  threadId: ThreadIdSchema.describe("Thread ID for this conversation/project"),
   deletions: z.array(z.object({
     entityName: z.string().describe("The name of the entity containing the observations"),
     observations: z.array(z.string()).describe("An array of observations to delete")
-  })).describe("Array of deletions to perform")
+  })).describe("Array of deletions to perform"),
+  reason: z.string().optional().describe("Why the observations are deleted; kept with them in the trash")
 });
 
 // Schema for delete_relations tool
 export const DeleteRelationsInputSchema = z.object({
-  threadId: z.string().min(1).describe("Thread ID for this conversation/project"),
-  relations: z.array(RelationInputSchema).describe("An array of relations to delete")
+  threadId: ThreadIdSchema.describe("Thread ID for this conversation/project"),
+  relations: z.array(RelationInputSchema).describe("An array of relations to delete"),
+  reason: z.string().optional().describe("Why the relations are deleted; kept with them in the trash")
 });
 
 // Schema for prune_memory tool
 export const PruneMemoryInputSchema = z.object({
-  threadId: z.string().min(1).describe("Thread ID for this conversation/project"),
+  threadId: ThreadIdSchema.describe("Thread ID for this conversation/project"),
   olderThan: z.string().optional().describe("ISO 8601 timestamp - remove entities older than this"),
   importanceLessThan: z.number().min(0).max(1).optional().describe("Remove entities with importance less than this value"),
-  keepMinEntities: z.number().optional().describe("Minimum number of entities to keep regardless of filters")
+  keepMinEntities: z.number().optional().describe("Minimum number of entities to keep regardless of filters"),
+  reason: z.string().optional().describe("Why the entities are pruned; kept with them in the trash")
 });
 
 // Schema for bulk_update tool
 export const BulkUpdateInputSchema = z.object({
-  threadId: z.string().min(1).describe("Thread ID for this conversation/project"),
+  threadId: ThreadIdSchema.describe("Thread ID for this conversation/project"),
   updates: z.array(z.object({
     entityName: z.string(),
     confidence: z.number().min(0).max(1).optional(),
@@ -345,10 +518,308 @@ export const BulkUpdateInputSchema = z.object({
   })).describe("Array of updates to perform")
 });
 
+// Schema for merge_entities tool
+export const MergeEntitiesInputSchema = z.object({
+  threadId: ThreadIdSchema.describe("Thread ID for this conversation/project"),
+  canonicalName: z.string().min(1).describe("Name of the entity that survives the merge"),
+  duplicateNames: z.array(z.string().min(1)).min(1).describe("Names of the entities merged into it; they become its aliases")
+});
+
+export const MergeEntitiesOutputSchema = z.object({
+  entity: EntitySchema.describe("The canonical entity after the merge"),
+  mergedEntities: z.array(z.string()).describe("Names now kept as aliases"),
+  movedObservations: z.number().describe("Observations moved to the canonical entity"),
+  rewiredRelations: z.number().describe("Relations pointed at the canonical entity"),
+  droppedRelations: z.number().describe("Relations dropped because they would have become self-references or duplicates")
+});
+
 // Schema for flag_for_review tool
 export const FlagForReviewInputSchema = z.object({
-  threadId: z.string().min(1).describe("Thread ID for this conversation/project"),
+  threadId: ThreadIdSchema.describe("Thread ID for this conversation/project"),
   entityName: z.string().describe("Name of entity to flag"),
   reason: z.string().describe("Reason for flagging"),
   reviewer: z.string().optional().describe("Optional reviewer name")
 });
+
+// Schema for export_graph tool
+const GraphFormatSchema = z.enum(GRAPH_FORMATS).describe(
+  "File format: 'jsonl' (native thread file lines), 'graphml' (graph viewers), 'cypher' (Neo4j script), 'turtle' or 'ntriples' (RDF)"
+);
+
+export const ExportGraphInputSchema = z.object({
+  format: GraphFormatSchema,
+  threadId: ThreadIdSchema.optional().describe("Thread to export. Omit to export all threads")
+});
+
+export const ExportGraphOutputSchema = z.object({
+  format: z.string(),
+  entityCount: z.number(),
+  relationCount: z.number(),
+  data: z.string().describe("The serialized graph")
+});
+
+// Schema for import_graph tool
+export const ImportGraphInputSchema = z.object({
+  format: GraphFormatSchema,
+  data: z.string().min(1).describe("Serialized graph, as returned by export_graph"),
+  threadId: ThreadIdSchema.optional().describe("Move all imported entities and relations into this thread. Omit to keep the threads recorded in the data")
+});
+
+export const ImportGraphOutputSchema = z.object({
+  format: z.string(),
+  importedEntities: z.number(),
+  importedRelations: z.number(),
+  threadIds: z.array(z.string()).describe("Threads that received data")
+});
+
+// Schema for migrate_storage tool
+export const MigrateStorageInputSchema = z.object({
+  from: z.enum(STORAGE_BACKENDS).describe("Backend to copy from. The server's active backend is always the target"),
+  dryRun: z.boolean().optional().default(false).describe("Report what would be copied without writing anything")
+});
+
+const MigrationCountsSchema = z.object({
+  entities: z.number(),
+  relations: z.number(),
+  observations: z.number()
+});
+
+export const MigrateStorageOutputSchema = z.object({
+  source: z.string().describe("Source backend and location"),
+  target: z.string().describe("Target backend and location"),
+  dryRun: z.boolean(),
+  resumed: z.boolean().describe("True if threads completed by an earlier run were skipped"),
+  verified: z.boolean().describe("True if every copied thread passed verification. Run again to retry failed threads"),
+  totals: MigrationCountsSchema,
+  threads: z.array(z.object({
+    threadId: z.string(),
+    status: z.enum(['planned', 'migrated', 'skipped', 'failed']),
+    source: MigrationCountsSchema,
+    target: MigrationCountsSchema.optional().describe("Source items found in the target after copying"),
+    existingEntities: z.number().optional().describe("Dry run: source entities already in the target thread")
+  }))
+});
+
+// Schema for get_cache_stats tool
+export const GetCacheStatsOutputSchema = z.object({
+  enabled: z.boolean().describe("False when caching is turned off with MEMORY_CACHE_TTL_MS=0"),
+  hits: z.number().describe("Reads served from memory"),
+  misses: z.number().describe("Reads that went to storage"),
+  hitRate: z.number().describe("hits / (hits + misses), 0 before the first read"),
+  invalidations: z.number().describe("Cached threads dropped because they were written, changed on disk or expired"),
+  cachedThreads: z.number().describe("Threads currently held in memory")
+});
+
+// Schemas for shared workspace tools
+const WorkspaceNameSchema = z.string().regex(WORKSPACE_NAME_PATTERN).describe("Workspace name (letters, digits, '-' and '_')");
+
+export const PublishMemoryInputSchema = z.object({
+  threadId: ThreadIdSchema.describe("Thread that holds the entities to publish"),
+  workspace: WorkspaceNameSchema,
+  entityNames: z.array(z.string()).min(1).describe("Entities to copy into the workspace, with their observations and the relations between them")
+});
+
+export const PublishMemoryOutputSchema = z.object({
+  workspace: z.string(),
+  publishedEntities: z.number(),
+  publishedRelations: z.number()
+});
+
+export const WorkspaceSubscriptionInputSchema = z.object({
+  threadId: ThreadIdSchema.describe("Thread ID for this conversation/project"),
+  workspace: WorkspaceNameSchema
+});
+
+export const WorkspaceSubscriptionOutputSchema = z.object({
+  threadId: z.string(),
+  subscriptions: z.array(z.string()).describe("Workspaces the thread reads after the change")
+});
+
+export const ListWorkspacesOutputSchema = z.object({
+  workspaces: z.array(z.object({
+    name: z.string(),
+    entityCount: z.number(),
+    relationCount: z.number(),
+    subscribers: z.array(z.string()).describe("Threads that read the workspace")
+  }))
+});
+
+// Schemas for fork_thread, merge_threads and copy_entities_to_thread tools
+export const ForkThreadInputSchema = z.object({
+  sourceThreadId: ThreadIdSchema.describe("Thread whose memory is copied"),
+  targetThreadId: ThreadIdSchema.describe("New thread to create; must not hold any data yet")
+});
+
+export const MergeThreadsInputSchema = z.object({
+  sourceThreadId: ThreadIdSchema.describe("Thread to merge from"),
+  targetThreadId: ThreadIdSchema.describe("Thread that receives the merged memory"),
+  deleteSource: z.boolean().optional().default(false).describe("Empty the source thread after merging")
+});
+
+export const CopyEntitiesToThreadInputSchema = z.object({
+  sourceThreadId: ThreadIdSchema.describe("Thread that holds the entities"),
+  targetThreadId: ThreadIdSchema.describe("Thread to copy them into"),
+  entityNames: z.array(z.string()).min(1).describe("Entities to copy, with their observations and the relations between them")
+});
+
+export const ThreadMergeReportSchema = z.object({
+  sourceThreadId: z.string(),
+  targetThreadId: z.string(),
+  createdEntities: z.array(z.string()).describe("Entities that did not exist in the target thread"),
+  clashes: z.array(z.object({
+    entityName: z.string(),
+    targetEntityType: z.string(),
+    sourceEntityType: z.string().describe("Differs from targetEntityType when the names likely refer to different things"),
+    addedObservations: z.number(),
+    skippedObservations: z.number().describe("Observations the target already had (same ID or content)")
+  })).describe("Entities in both threads; the target keeps its type and metadata and gains the new observations"),
+  addedRelations: z.number(),
+  duplicateRelations: z.number().describe("Relations the target already had"),
+  sourceDeleted: z.boolean()
+});
+
+// Schemas for thread lifecycle tools (rename_thread, archive_thread, restore_thread, delete_thread, apply_retention_policy)
+export const RenameThreadInputSchema = z.object({
+  threadId: ThreadIdSchema.describe("Thread to rename"),
+  newThreadId: ThreadIdSchema.describe("New thread ID; must not be used by an active or archived thread")
+});
+
+export const ThreadLifecycleInputSchema = z.object({
+  threadId: ThreadIdSchema.describe("Thread ID")
+});
+
+export const ApplyRetentionPolicyInputSchema = z.object({
+  archiveAfterDays: z.number().positive().describe("Archive threads with no writes for this many days"),
+  dryRun: z.boolean().optional().default(false).describe("Only report the threads that would be archived")
+});
+
+export const RetentionReportSchema = z.object({
+  archiveAfterDays: z.number(),
+  cutoff: z.string().describe("Threads with no writes since this time were selected"),
+  archivedThreads: z.array(z.object({
+    threadId: z.string(),
+    lastUpdated: z.string().describe("Latest entity, observation or relation timestamp of the thread")
+  })),
+  dryRun: z.boolean().describe("True if the threads were only selected, not archived")
+});
+
+// Schemas for trash tools (list_trash, restore_from_trash, empty_trash)
+export const TrashItemSchema = z.object({
+  id: z.string().describe("Trash item ID"),
+  kind: z.enum(['entity', 'relation', 'observation']),
+  deletedAt: z.string().describe("ISO 8601 timestamp of the deletion"),
+  reason: z.string().describe("Reason given for the deletion, or the tool that deleted the item"),
+  entity: EntitySchema.optional().describe("Deleted entity with its observations (kind 'entity')"),
+  relations: z.array(RelationSchema).optional().describe("Relations deleted together with the entity (kind 'entity')"),
+  relation: RelationSchema.optional().describe("Deleted relation (kind 'relation')"),
+  entityName: z.string().optional().describe("Entity the observation was deleted from (kind 'observation')"),
+  observation: ObservationSchema.optional().describe("Deleted observation (kind 'observation')")
+});
+
+export const ListTrashInputSchema = z.object({
+  threadId: ThreadIdSchema.describe("Thread ID for this conversation/project")
+});
+
+export const ListTrashOutputSchema = z.object({
+  items: z.array(TrashItemSchema).describe("Deleted items, most recently deleted first")
+});
+
+export const RestoreFromTrashInputSchema = z.object({
+  threadId: ThreadIdSchema.describe("Thread ID for this conversation/project"),
+  itemIds: z.array(z.string()).min(1).describe("IDs of the trash items to restore")
+});
+
+export const RestoreFromTrashOutputSchema = z.object({
+  restoredItems: z.array(z.string()).describe("IDs of the restored trash items"),
+  restoredEntities: z.number(),
+  restoredRelations: z.number(),
+  restoredObservations: z.number()
+});
+
+export const EmptyTrashInputSchema = z.object({
+  threadId: ThreadIdSchema.describe("Thread ID for this conversation/project"),
+  itemIds: z.array(z.string()).optional().describe("IDs of the trash items to delete permanently; the whole trash when omitted")
+});
+
+export const EmptyTrashOutputSchema = z.object({
+  removedItems: z.number().describe("Number of items deleted permanently")
+});
+
+// Schemas for snapshot tools (create_snapshot, list_snapshots, diff_snapshot, restore_snapshot, delete_snapshot)
+export const SnapshotInfoSchema = z.object({
+  id: z.string().describe("Snapshot ID"),
+  label: z.string(),
+  createdAt: z.string().describe("ISO 8601 timestamp of the snapshot"),
+  threadId: z.string().optional().describe("Thread the snapshot covers; omitted for a snapshot of the full graph"),
+  entityCount: z.number(),
+  relationCount: z.number()
+});
+
+export const CreateSnapshotInputSchema = z.object({
+  label: z.string().min(1).describe("Label describing the checkpoint (e.g. 'before prune_memory')"),
+  threadId: ThreadIdSchema.optional().describe("Only capture this thread; the full graph when omitted")
+});
+
+export const ListSnapshotsInputSchema = z.object({
+  threadId: ThreadIdSchema.optional().describe("Only list snapshots of this thread")
+});
+
+export const ListSnapshotsOutputSchema = z.object({
+  snapshots: z.array(SnapshotInfoSchema).describe("Snapshots, most recent first")
+});
+
+export const SnapshotIdInputSchema = z.object({
+  snapshotId: z.string().min(1).describe("Snapshot ID from create_snapshot or list_snapshots")
+});
+
+const EntityIdentitySchema = z.object({
+  name: z.string(),
+  agentThreadId: z.string()
+});
+
+export const SnapshotDiffSchema = z.object({
+  snapshot: SnapshotInfoSchema,
+  addedEntities: z.array(EntityIdentitySchema).describe("Entities created since the snapshot"),
+  removedEntities: z.array(EntityIdentitySchema).describe("Entities deleted since the snapshot"),
+  changedEntities: z.array(EntityIdentitySchema.extend({
+    changedFields: z.array(z.string()).describe("Entity fields with a different value"),
+    addedObservations: z.array(z.string()).describe("IDs of observations added since the snapshot"),
+    removedObservations: z.array(z.string()).describe("IDs of observations removed since the snapshot"),
+    changedObservations: z.array(z.string()).describe("IDs of observations stored with different content or version links")
+  })),
+  addedRelations: z.array(RelationSchema).describe("Relations created since the snapshot"),
+  removedRelations: z.array(RelationSchema).describe("Relations deleted since the snapshot")
+});
+
+// Schemas for get_audit_log tool
+export const GetAuditLogInputSchema = z.object({
+  threadId: ThreadIdSchema.optional().describe("Only changes to this thread (a renamed thread also matches its new ID)"),
+  tool: z.string().min(1).optional().describe("Only changes made by this tool (e.g. 'bulk_update')"),
+  entityName: z.string().min(1).optional().describe("Only changes to this entity and to relations from or to it (a renamed entity also matches its new name)"),
+  since: z.string().datetime({ offset: true }).optional().describe("Only changes at or after this ISO 8601 time"),
+  until: z.string().datetime({ offset: true }).optional().describe("Only changes at or before this ISO 8601 time"),
+  limit: z.number().int().positive().optional().default(100).describe("Maximum number of entries, most recent first (default: 100)")
+});
+
+export const AuditEntrySchema = z.object({
+  id: z.string(),
+  timestamp: z.string().describe("ISO 8601 time of the change"),
+  tool: z.string().optional().describe("Tool whose call made the change; omitted for changes outside a tool call"),
+  threadId: z.string().describe("Thread whose data changed"),
+  operation: z.enum([
+    'create_entity', 'update_entity', 'delete_entity', 'rename_entity',
+    'create_relation', 'update_relation', 'delete_relation',
+    'rename_thread', 'archive_thread', 'restore_thread', 'delete_thread'
+  ]),
+  entityName: z.string().optional(),
+  newEntityName: z.string().optional().describe("New name of a renamed entity"),
+  relation: z.object({ from: z.string(), to: z.string(), relationType: z.string() }).optional(),
+  before: z.union([EntitySchema, RelationSchema]).optional().describe("Stored state before the change; omitted when the item was created"),
+  after: z.union([EntitySchema, RelationSchema]).optional().describe("Stored state after the change; omitted when the item was deleted"),
+  changedFields: z.array(z.string()).optional().describe("Fields that differ between before and after"),
+  newThreadId: z.string().optional().describe("New ID of a renamed thread")
+});
+
+export const GetAuditLogOutputSchema = z.object({
+  entries: z.array(AuditEntrySchema).describe("Audit log entries, most recent first")
+});
@@ -0,0 +1,172 @@
+/**
+ * Storage decorator that keeps the search index in sync with writes
+ *
+ * Wraps any IStorageAdapter and forwards every call to it. After a successful
+ * write, the affected entity is re-indexed so searches never re-tokenize a whole thread.
+ * With change tracking (JSONL), the index then takes the thread's new version token, so only
+ * writes made by other processes make the next search rebuild it. Without change tracking,
+ * writes made by other processes are seen once the index's TTL expires (see SearchIndex).
+ */
+
+import { Entity, Relation, KnowledgeGraph, Observation, EmbeddingRecord, TrashItem, AuditEntry, AuditLogFilter } from '../types.js';
+import { IStorageAdapter, IStorageDecorator, IChangeTrackingStorage, findChangeTrackingStorage } from '../storage-interface.js';
+import { SearchIndex } from './search-index.js';
+
+export class IndexedStorageAdapter implements IStorageAdapter, IStorageDecorator {
+  private readonly storage: IStorageAdapter;
+  private readonly searchIndex: SearchIndex;
+  private readonly changeTracking: IChangeTrackingStorage | null;
+
+  constructor(storage: IStorageAdapter, searchIndex: SearchIndex) {
+    this.storage = storage;
+    this.searchIndex = searchIndex;
+    this.changeTracking = findChangeTrackingStorage(storage);
+  }
+
+  getWrappedStorage(): IStorageAdapter {
+    return this.storage;
+  }
+
+  private async threadVersion(threadId: string): Promise<string | null> {
+    return this.changeTracking ? this.changeTracking.getThreadVersion(threadId) : null;
+  }
+
+  /**
+   * Run a write to a thread and apply it to the thread's index
+   * The index is only updated in place if it was current before the write; if another
+   * process changed the thread in the meantime, it is dropped and rebuilt on the next search.
+   */
+  private async writeThread(threadId: string, write: () => Promise<void>, reindex: () => void = () => {}): Promise<void> {
+    const version = await this.threadVersion(threadId);
+    await write();
+    if (!this.searchIndex.isCurrent(threadId, version)) {
+      this.searchIndex.removeThread(threadId);
+      return;
+    }
+    reindex();
+    this.searchIndex.setVersion(threadId, await this.threadVersion(threadId));
+  }
+
+  async loadGraph(): Promise<KnowledgeGraph> {
+    return this.storage.loadGraph();
+  }
+
+  async saveGraph(graph: KnowledgeGraph): Promise<void> {
+    await this.storage.saveGraph(graph);
+    this.searchIndex.clear();
+  }
+
+  async loadThreadGraph(threadId: string): Promise<KnowledgeGraph> {
+    return this.storage.loadThreadGraph(threadId);
+  }
+
+  async saveThreadGraph(threadId: string, graph: KnowledgeGraph): Promise<void> {
+    await this.storage.saveThreadGraph(threadId, graph);
+    this.searchIndex.removeThread(threadId);
+  }
+
+  async listThreadIds(): Promise<string[]> {
+    return this.storage.listThreadIds();
+  }
+
+  async upsertEntity(entity: Entity): Promise<void> {
+    await this.writeThread(
+      entity.agentThreadId,
+      () => this.storage.upsertEntity(entity),
+      () => this.searchIndex.upsertEntity(entity)
+    );
+  }
+
+  async deleteEntity(threadId: string, entityName: string): Promise<void> {
+    await this.writeThread(
+      threadId,
+      () => this.storage.deleteEntity(threadId, entityName),
+      () => this.searchIndex.removeEntity(threadId, entityName)
+    );
+  }
+
+  async renameEntity(threadId: string, entityName: string, renamed: Entity): Promise<void> {
+    await this.writeThread(
+      threadId,
+      () => this.storage.renameEntity(threadId, entityName, renamed),
+      () => {
+        this.searchIndex.removeEntity(threadId, entityName);
+        this.searchIndex.upsertEntity(renamed);
+      }
+    );
+  }
+
+  async appendObservation(threadId: string, entityName: string, observation: Observation): Promise<void> {
+    await this.writeThread(
+      threadId,
+      () => this.storage.appendObservation(threadId, entityName, observation),
+      () => this.searchIndex.appendObservation(threadId, entityName, observation)
+    );
+  }
+
+  // Relations are not indexed, but their writes still change the thread's version
+  async upsertRelation(relation: Relation): Promise<void> {
+    await this.writeThread(relation.agentThreadId, () => this.storage.upsertRelation(relation));
+  }
+
+  async deleteRelation(relation: Relation): Promise<void> {
+    await this.writeThread(relation.agentThreadId, () => this.storage.deleteRelation(relation));
+  }
+
+  async loadEmbeddings(threadId: string): Promise<EmbeddingRecord[]> {
+    return this.storage.loadEmbeddings(threadId);
+  }
+
+  async saveEmbeddings(threadId: string, records: EmbeddingRecord[]): Promise<void> {
+    await this.storage.saveEmbeddings(threadId, records);
+  }
+
+  async loadTrash(threadId: string): Promise<TrashItem[]> {
+    return this.storage.loadTrash(threadId);
+  }
+
+  async addToTrash(threadId: string, items: TrashItem[]): Promise<void> {
+    await this.storage.addToTrash(threadId, items);
+  }
+
+  async removeFromTrash(threadId: string, itemIds: string[]): Promise<void> {
+    await this.storage.removeFromTrash(threadId, itemIds);
+  }
+
+  async appendAuditEntries(entries: AuditEntry[]): Promise<void> {
+    await this.storage.appendAuditEntries(entries);
+  }
+
+  async loadAuditLog(filter?: AuditLogFilter): Promise<AuditEntry[]> {
+    return this.storage.loadAuditLog(filter);
+  }
+
+  async listArchivedThreadIds(): Promise<string[]> {
+    return this.storage.listArchivedThreadIds();
+  }
+
+  async renameThread(threadId: string, newThreadId: string): Promise<void> {
+    await this.storage.renameThread(threadId, newThreadId);
+    this.searchIndex.removeThread(threadId);
+    this.searchIndex.removeThread(newThreadId);
+  }
+
+  async archiveThread(threadId: string): Promise<void> {
+    await this.storage.archiveThread(threadId);
+    this.searchIndex.removeThread(threadId);
+  }
+
+  async restoreThread(threadId: string): Promise<void> {
+    await this.storage.restoreThread(threadId);
+    this.searchIndex.removeThread(threadId);
+  }
+
+  async deleteThread(threadId: string): Promise<void> {
+    await this.storage.deleteThread(threadId);
+    this.searchIndex.removeThread(threadId);
+  }
+
+  async initialize(): Promise<void> {
+    await this.storage.initialize();
+  }
+}
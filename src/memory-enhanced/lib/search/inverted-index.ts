@@ -0,0 +1,342 @@
+/**
+ * In-memory inverted index over the entities of one thread
+ * Ranks entities with BM25F: BM25 with per-field length normalization and field boosts
+ */
+
+import { Entity, Observation, ObservationMatch } from '../types.js';
+import { Token, tokenize } from './tokenizer.js';
+import { ParsedQuery, QueryClause, QueryGroup } from './query-parser.js';
+
+export type SearchField = 'name' | 'entityType' | 'observation';
+
+/**
+ * Field boosts: a match in the entity name outranks the same match in an observation
+ */
+export const FIELD_BOOSTS: Record<SearchField, number> = {
+  name: 3,
+  entityType: 1.5,
+  observation: 1
+};
+
+/**
+ * BM25 term-frequency saturation and length normalization parameters
+ */
+export const BM25_K1 = 1.2;
+export const BM25_B = 0.75;
+
+/**
+ * Query terms of at least this length also match longer indexed terms that start with them,
+ * at a reduced weight (so "deploy" finds "deployer" but ranks exact matches first)
+ */
+export const MIN_PREFIX_LENGTH = 3;
+export const PREFIX_MATCH_WEIGHT = 0.5;
+
+/**
+ * Snippet settings for matched observations
+ */
+export const MAX_MATCHES_PER_HIT = 3;
+export const SNIPPET_LENGTH = 120;
+
+/**
+ * An entity name or alias, the entity type or one observation
+ */
+interface IndexedSection {
+  field: SearchField;
+  observationId?: string;
+  text: string;
+  tokens: Token[];
+}
+
+interface IndexedDocument {
+  sections: IndexedSection[];
+  fieldLengths: Record<SearchField, number>;
+}
+
+type FieldFrequencies = Record<SearchField, number>;
+
+/**
+ * A ranked search result before it is joined with the entity data
+ */
+export interface ScoredDocument {
+  entityName: string;
+  score: number;
+  matches: ObservationMatch[];
+}
+
+const emptyFieldCounts = (): Record<SearchField, number> => ({ name: 0, entityType: 0, observation: 0 });
+
+/**
+ * Cut a window of SNIPPET_LENGTH characters around a match, marking truncation with "…"
+ */
+export function buildSnippet(text: string, matchStart: number, matchEnd: number): string {
+  if (text.length <= SNIPPET_LENGTH) {
+    return text;
+  }
+
+  const padding = Math.max(0, Math.floor((SNIPPET_LENGTH - (matchEnd - matchStart)) / 2));
+  const start = Math.max(0, Math.min(matchStart - padding, text.length - SNIPPET_LENGTH));
+  const end = Math.min(text.length, start + SNIPPET_LENGTH);
+
+  return `${start > 0 ? '…' : ''}${text.slice(start, end).trim()}${end < text.length ? '…' : ''}`;
+}
+
+export class InvertedIndex {
+  private readonly documents = new Map<string, IndexedDocument>();
+  private readonly postings = new Map<string, Map<string, FieldFrequencies>>();
+  private readonly totalFieldLengths = emptyFieldCounts();
+
+  get size(): number {
+    return this.documents.size;
+  }
+
+  /**
+   * Index an entity, replacing any previous version with the same name
+   */
+  addEntity(entity: Entity): void {
+    this.removeEntity(entity.name);
+
+    const document: IndexedDocument = { sections: [], fieldLengths: emptyFieldCounts() };
+    this.documents.set(entity.name, document);
+
+    this.addSection(entity.name, document, { field: 'name', text: entity.name });
+    // Aliases are alternate names and rank like the name
+    for (const alias of entity.aliases ?? []) {
+      this.addSection(entity.name, document, { field: 'name', text: alias });
+    }
+    this.addSection(entity.name, document, { field: 'entityType', text: entity.entityType });
+    for (const observation of entity.observations) {
+      this.addObservation(entity.name, observation);
+    }
+  }
+
+  /**
+   * Index a new observation of an already indexed entity
+   * Does nothing if the entity is not indexed
+   */
+  addObservation(entityName: string, observation: Observation): void {
+    const document = this.documents.get(entityName);
+    if (!document || typeof observation.content !== 'string') return;
+
+    this.addSection(entityName, document, {
+      field: 'observation',
+      observationId: observation.id,
+      text: observation.content
+    });
+  }
+
+  /**
+   * Remove an entity and its postings
+   */
+  removeEntity(entityName: string): void {
+    const document = this.documents.get(entityName);
+    if (!document) return;
+
+    for (const section of document.sections) {
+      for (const { term } of section.tokens) {
+        const postings = this.postings.get(term);
+        postings?.delete(entityName);
+        if (postings?.size === 0) {
+          this.postings.delete(term);
+        }
+      }
+    }
+    for (const field of Object.keys(FIELD_BOOSTS) as SearchField[]) {
+      this.totalFieldLengths[field] -= document.fieldLengths[field];
+    }
+    this.documents.delete(entityName);
+  }
+
+  private addSection(
+    entityName: string,
+    document: IndexedDocument,
+    section: Omit<IndexedSection, 'tokens'>
+  ): void {
+    const tokens = tokenize(section.text);
+    document.sections.push({ ...section, tokens });
+    document.fieldLengths[section.field] += tokens.length;
+    this.totalFieldLengths[section.field] += tokens.length;
+
+    for (const { term } of tokens) {
+      let postings = this.postings.get(term);
+      if (!postings) {
+        postings = new Map();
+        this.postings.set(term, postings);
+      }
+      let frequencies = postings.get(entityName);
+      if (!frequencies) {
+        frequencies = emptyFieldCounts();
+        postings.set(entityName, frequencies);
+      }
+      frequencies[section.field]++;
+    }
+  }
+
+  /**
+   * Rank the indexed entities against a parsed query, best match first
+   */
+  search(query: ParsedQuery): ScoredDocument[] {
+    const expansions = new Map<string, Map<string, number>>();
+    const expand = (term: string) => {
+      if (!expansions.has(term)) {
+        expansions.set(term, this.expandTerm(term));
+      }
+      return expansions.get(term)!;
+    };
+
+    const results: ScoredDocument[] = [];
+    for (const [entityName, document] of this.documents) {
+      let bestScore = 0;
+      let bestGroup: QueryGroup | null = null;
+
+      for (const group of query.groups) {
+        if (group.excluded.some(clause => this.matchesClause(entityName, document, clause, expand))) continue;
+        if (!group.required.every(clause => this.matchesClause(entityName, document, clause, expand))) continue;
+
+        const score = group.required.reduce(
+          (sum, clause) => sum + this.scoreClause(entityName, document, clause, expand),
+          0
+        );
+        if (bestGroup === null || score > bestScore) {
+          bestScore = score;
+          bestGroup = group;
+        }
+      }
+
+      if (bestGroup) {
+        results.push({
+          entityName,
+          score: bestScore,
+          matches: this.findObservationMatches(document, bestGroup, expand)
+        });
+      }
+    }
+
+    return results.sort((a, b) => b.score - a.score || a.entityName.localeCompare(b.entityName));
+  }
+
+  /**
+   * Indexed terms matched by a query term, with their weights
+   */
+  private expandTerm(term: string): Map<string, number> {
+    const matches = new Map<string, number>();
+    if (this.postings.has(term)) {
+      matches.set(term, 1);
+    }
+    if (term.length >= MIN_PREFIX_LENGTH) {
+      for (const indexedTerm of this.postings.keys()) {
+        if (indexedTerm !== term && indexedTerm.startsWith(term)) {
+          matches.set(indexedTerm, PREFIX_MATCH_WEIGHT);
+        }
+      }
+    }
+    return matches;
+  }
+
+  private matchesClause(
+    entityName: string,
+    document: IndexedDocument,
+    clause: QueryClause,
+    expand: (term: string) => Map<string, number>
+  ): boolean {
+    if (clause.terms.length === 1) {
+      for (const indexedTerm of expand(clause.terms[0]).keys()) {
+        if (this.postings.get(indexedTerm)?.has(entityName)) return true;
+      }
+      return false;
+    }
+    return document.sections.some(section => this.findPhrase(section, clause.terms) !== -1);
+  }
+
+  /**
+   * Index of the first token of the phrase in the section, or -1
+   */
+  private findPhrase(section: IndexedSection, terms: string[]): number {
+    const { tokens } = section;
+    for (let i = 0; i + terms.length <= tokens.length; i++) {
+      if (terms.every((term, offset) => tokens[i + offset].term === term)) {
+        return i;
+      }
+    }
+    return -1;
+  }
+
+  private scoreClause(
+    entityName: string,
+    document: IndexedDocument,
+    clause: QueryClause,
+    expand: (term: string) => Map<string, number>
+  ): number {
+    if (clause.terms.length > 1) {
+      return clause.terms.reduce((sum, term) => sum + this.scoreTerm(entityName, document, term), 0);
+    }
+
+    let score = 0;
+    for (const [indexedTerm, weight] of expand(clause.terms[0])) {
+      score += weight * this.scoreTerm(entityName, document, indexedTerm);
+    }
+    return score;
+  }
+
+  /**
+   * BM25F score of one indexed term for one entity
+   */
+  private scoreTerm(entityName: string, document: IndexedDocument, term: string): number {
+    const postings = this.postings.get(term);
+    const frequencies = postings?.get(entityName);
+    if (!postings || !frequencies) return 0;
+
+    const documentCount = this.documents.size;
+    const idf = Math.log(1 + (documentCount - postings.size + 0.5) / (postings.size + 0.5));
+
+    let weightedFrequency = 0;
+    for (const field of Object.keys(FIELD_BOOSTS) as SearchField[]) {
+      if (frequencies[field] === 0) continue;
+      const averageLength = this.totalFieldLengths[field] / documentCount || 1;
+      const normalization = 1 - BM25_B + BM25_B * (document.fieldLengths[field] / averageLength);
+      weightedFrequency += FIELD_BOOSTS[field] * frequencies[field] / normalization;
+    }
+
+    return idf * (weightedFrequency * (BM25_K1 + 1)) / (weightedFrequency + BM25_K1);
+  }
+
+  /**
+   * Observations containing the group's terms, with a snippet around the first match
+   * Observations with the most matching tokens come first
+   */
+  private findObservationMatches(
+    document: IndexedDocument,
+    group: QueryGroup,
+    expand: (term: string) => Map<string, number>
+  ): ObservationMatch[] {
+    const matchedTerms = new Set<string>();
+    for (const clause of group.required) {
+      for (const term of clause.terms) {
+        for (const indexedTerm of expand(term).keys()) {
+          matchedTerms.add(indexedTerm);
+        }
+      }
+    }
+
+    const candidates: Array<{ match: ObservationMatch; count: number; order: number }> = [];
+    document.sections.forEach((section, order) => {
+      if (section.field !== 'observation') return;
+
+      const matchedTokens = section.tokens.filter(token => matchedTerms.has(token.term));
+      if (matchedTokens.length === 0) return;
+
+      candidates.push({
+        match: {
+          observationId: section.observationId!,
+          snippet: buildSnippet(section.text, matchedTokens[0].start, matchedTokens[0].end)
+        },
+        count: matchedTokens.length,
+        order
+      });
+    });
+
+    return candidates
+      .sort((a, b) => b.count - a.count || a.order - b.order)
+      .slice(0, MAX_MATCHES_PER_HIT)
+      .map(candidate => candidate.match);
+  }
+}
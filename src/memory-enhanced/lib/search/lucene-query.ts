@@ -0,0 +1,37 @@
+/**
+ * Translation of search_nodes queries to Lucene syntax, for storages with a Lucene-based
+ * full-text index (Neo4j)
+ *
+ * The query is parsed with the same rules as the built-in search, without stemming since
+ * the index applies its own analyzer. Terms only contain letters and digits, so no
+ * Lucene escaping is needed.
+ */
+
+import { parseQuery, QueryClause } from './query-parser.js';
+
+const keepWord = (word: string) => word;
+
+function toLuceneClause(clause: QueryClause): string {
+  return clause.terms.length === 1 ? clause.terms[0] : `"${clause.terms.join(' ')}"`;
+}
+
+/**
+ * Convert a search_nodes query to a Lucene query
+ * Returns null for queries that match nothing (no terms, or only exclusions)
+ */
+export function toLuceneQuery(query: string): string | null {
+  const { groups } = parseQuery(query, keepWord);
+  if (groups.length === 0) {
+    return null;
+  }
+
+  return groups
+    .map(group => {
+      const clauses = [
+        ...group.required.map(clause => `+${toLuceneClause(clause)}`),
+        ...group.excluded.map(clause => `-${toLuceneClause(clause)}`)
+      ];
+      return `(${clauses.join(' ')})`;
+    })
+    .join(' OR ');
+}
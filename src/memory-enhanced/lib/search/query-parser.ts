@@ -0,0 +1,80 @@
+/**
+ * Query parser for full-text search
+ *
+ * Supported syntax:
+ * - `deploy pipeline`   both terms must match (implicit AND; an explicit `AND` is also accepted)
+ * - `"blue green"`      phrase: the terms must appear next to each other in one field
+ * - `docker OR podman`  either side may match (OR binds looser than AND)
+ * - `-legacy`           exclude entities matching the term (also works with phrases)
+ */
+
+import { analyze } from './tokenizer.js';
+import { stem } from './stemmer.js';
+
+/**
+ * A term or phrase of a query, already tokenized and stemmed
+ * Single words that split into several terms (e.g. "user-service") are treated as phrases
+ */
+export interface QueryClause {
+  terms: string[];
+}
+
+/**
+ * A conjunction of clauses: every required clause must match and no excluded clause may match
+ */
+export interface QueryGroup {
+  required: QueryClause[];
+  excluded: QueryClause[];
+}
+
+/**
+ * A parsed query: an entity matches if any group matches
+ */
+export interface ParsedQuery {
+  groups: QueryGroup[];
+}
+
+const OR_OPERATOR = 'OR';
+const AND_OPERATOR = 'AND';
+
+/**
+ * Raw query parts: an optional "-", then a quoted phrase or a bare word
+ */
+const QUERY_PART_PATTERN = /(-?)(?:"([^"]*)"?|(\S+))/g;
+
+/**
+ * Parse a search query into groups of clauses
+ * Groups without any required clause are dropped, so a query of only exclusions matches nothing
+ * Terms are stemmed unless another normalizer is passed
+ */
+export function parseQuery(query: string, normalize: (word: string) => string = stem): ParsedQuery {
+  const groups: QueryGroup[] = [];
+  let current: QueryGroup = { required: [], excluded: [] };
+
+  for (const match of query.matchAll(QUERY_PART_PATTERN)) {
+    const [, negation, phrase, word] = match;
+
+    if (phrase === undefined && negation === '') {
+      if (word === OR_OPERATOR) {
+        groups.push(current);
+        current = { required: [], excluded: [] };
+        continue;
+      }
+      if (word === AND_OPERATOR) {
+        continue;
+      }
+    }
+
+    const terms = analyze(phrase ?? word, normalize);
+    if (terms.length === 0) continue;
+
+    if (negation) {
+      current.excluded.push({ terms });
+    } else {
+      current.required.push({ terms });
+    }
+  }
+  groups.push(current);
+
+  return { groups: groups.filter(group => group.required.length > 0) };
+}
@@ -0,0 +1,114 @@
+/**
+ * Search index for all threads
+ * Holds one inverted index per thread, built on the first search of the thread
+ * and kept current by IndexedStorageAdapter as writes go through storage.
+ * Each index keeps the storage's version token of the thread it was built from
+ * (see IChangeTrackingStorage), so changes by other processes can be detected.
+ * Indexes of storages without change tracking (SQLite) are trusted for a fixed TTL.
+ */
+
+import { Entity, Observation } from '../types.js';
+import { InvertedIndex, ScoredDocument } from './inverted-index.js';
+import { parseQuery } from './query-parser.js';
+import { CACHE_DEFAULTS } from '../storage-config.js';
+
+export interface SearchIndexOptions {
+  /** How long indexes are trusted when the storage has no change tracking */
+  ttlMs?: number;
+}
+
+interface ThreadIndex {
+  index: InvertedIndex;
+  version: string | null;  // Version token of the indexed thread; null for storages without change tracking
+  indexedAt: number;
+}
+
+export class SearchIndex {
+  private readonly threads = new Map<string, ThreadIndex>();
+  private readonly ttlMs: number;
+
+  constructor(options: SearchIndexOptions = {}) {
+    this.ttlMs = options.ttlMs ?? CACHE_DEFAULTS.TTL_MS;
+  }
+
+  /**
+   * Check whether a thread has been indexed at the given version
+   * Without a version (null), the index is current until the TTL expires
+   */
+  isCurrent(threadId: string, version: string | null): boolean {
+    const thread = this.threads.get(threadId);
+    if (!thread || thread.version !== version) return false;
+    return version !== null || Date.now() - thread.indexedAt < this.ttlMs;
+  }
+
+  /**
+   * Build the index of a thread from its entities, replacing any existing one
+   * @param version Version token of the thread the entities were loaded from
+   */
+  indexThread(threadId: string, entities: Entity[], version: string | null = null): void {
+    const index = new InvertedIndex();
+    for (const entity of entities) {
+      index.addEntity(entity);
+    }
+    this.threads.set(threadId, { index, version, indexedAt: Date.now() });
+  }
+
+  /**
+   * Record the version token of a thread after its index was brought up to date with a write
+   */
+  setVersion(threadId: string, version: string | null): void {
+    const thread = this.threads.get(threadId);
+    if (thread) {
+      thread.version = version;
+    }
+  }
+
+  /**
+   * Index an inserted or updated entity
+   * Threads that have not been indexed yet are skipped; they are built in full on first search
+   */
+  upsertEntity(entity: Entity): void {
+    this.threads.get(entity.agentThreadId)?.index.addEntity(entity);
+  }
+
+  /**
+   * Remove an entity from its thread's index
+   */
+  removeEntity(threadId: string, entityName: string): void {
+    this.threads.get(threadId)?.index.removeEntity(entityName);
+  }
+
+  /**
+   * Index an observation appended to an entity
+   */
+  appendObservation(threadId: string, entityName: string, observation: Observation): void {
+    this.threads.get(threadId)?.index.addObservation(entityName, observation);
+  }
+
+  /**
+   * Drop a thread's index (used after the thread is renamed, archived, restored or deleted)
+   * It is built again on the next search of the thread
+   */
+  removeThread(threadId: string): void {
+    this.threads.delete(threadId);
+  }
+
+  /**
+   * Drop all indexes (used after the whole graph is replaced)
+   */
+  clear(): void {
+    this.threads.clear();
+  }
+
+  /**
+   * Rank a thread's entities against a query string, best match first
+   * Returns no results for threads that have not been indexed
+   */
+  search(threadId: string, query: string): ScoredDocument[] {
+    const index = this.threads.get(threadId)?.index;
+    if (!index || index.size === 0) {
+      return [];
+    }
+    return index.search(parseQuery(query));
+  }
+}
@@ -0,0 +1,177 @@
+/**
+ * Porter stemmer
+ * Reduces English words to a common stem so "deploying", "deployed" and "deploys" match
+ * Implements the original algorithm (M.F. Porter, 1980), with the Porter2 rule for a final "y"
+ */
+
+/**
+ * Words shorter than this are returned unchanged
+ */
+const MIN_STEM_LENGTH = 3;
+
+const STEP2_SUFFIXES: Array<[string, string]> = [
+  ['ational', 'ate'], ['tional', 'tion'], ['enci', 'ence'], ['anci', 'ance'],
+  ['izer', 'ize'], ['bli', 'ble'], ['alli', 'al'], ['entli', 'ent'], ['eli', 'e'],
+  ['ousli', 'ous'], ['ization', 'ize'], ['ation', 'ate'], ['ator', 'ate'],
+  ['alism', 'al'], ['iveness', 'ive'], ['fulness', 'ful'], ['ousness', 'ous'],
+  ['aliti', 'al'], ['iviti', 'ive'], ['biliti', 'ble'], ['logi', 'log']
+];
+
+const STEP3_SUFFIXES: Array<[string, string]> = [
+  ['icate', 'ic'], ['ative', ''], ['alize', 'al'], ['iciti', 'ic'],
+  ['ical', 'ic'], ['ful', ''], ['ness', '']
+];
+
+const STEP4_SUFFIXES = [
+  'al', 'ance', 'ence', 'er', 'ic', 'able', 'ible', 'ant', 'ement', 'ment',
+  'ent', 'ion', 'ou', 'ism', 'ate', 'iti', 'ous', 'ive', 'ize'
+];
+
+/**
+ * Check if the letter at index i is a consonant ("y" counts as a consonant after a vowel)
+ */
+function isConsonant(word: string, i: number): boolean {
+  switch (word[i]) {
+    case 'a': case 'e': case 'i': case 'o': case 'u':
+      return false;
+    case 'y':
+      return i === 0 || !isConsonant(word, i - 1);
+    default:
+      return true;
+  }
+}
+
+/**
+ * Measure m of a stem: the number of vowel-consonant sequences
+ */
+function measure(stem: string): number {
+  let m = 0;
+  let i = 0;
+  const length = stem.length;
+  while (i < length && isConsonant(stem, i)) i++;
+  while (i < length) {
+    while (i < length && !isConsonant(stem, i)) i++;
+    if (i >= length) break;
+    while (i < length && isConsonant(stem, i)) i++;
+    m++;
+  }
+  return m;
+}
+
+function hasVowel(stem: string): boolean {
+  for (let i = 0; i < stem.length; i++) {
+    if (!isConsonant(stem, i)) return true;
+  }
+  return false;
+}
+
+function endsWithDoubleConsonant(word: string): boolean {
+  const n = word.length;
+  return n >= 2 && word[n - 1] === word[n - 2] && isConsonant(word, n - 1);
+}
+
+/**
+ * Check for a consonant-vowel-consonant ending where the last consonant is not w, x or y
+ */
+function endsWithCvc(word: string): boolean {
+  const n = word.length;
+  if (n < 3) return false;
+  return isConsonant(word, n - 3) && !isConsonant(word, n - 2) && isConsonant(word, n - 1) &&
+    !['w', 'x', 'y'].includes(word[n - 1]);
+}
+
+/**
+ * Replace the first matching suffix when the remaining stem has a measure above minMeasure
+ */
+function replaceSuffix(word: string, suffixes: Array<[string, string]>, minMeasure: number): string {
+  for (const [suffix, replacement] of suffixes) {
+    if (word.endsWith(suffix)) {
+      const stem = word.slice(0, -suffix.length);
+      return measure(stem) > minMeasure ? stem + replacement : word;
+    }
+  }
+  return word;
+}
+
+function step1a(word: string): string {
+  if (word.endsWith('sses')) return word.slice(0, -2);
+  if (word.endsWith('ies')) return word.slice(0, -2);
+  if (word.endsWith('ss')) return word;
+  if (word.endsWith('s')) return word.slice(0, -1);
+  return word;
+}
+
+function step1b(word: string): string {
+  if (word.endsWith('eed')) {
+    return measure(word.slice(0, -3)) > 0 ? word.slice(0, -1) : word;
+  }
+
+  let stem: string | null = null;
+  if (word.endsWith('ed') && hasVowel(word.slice(0, -2))) {
+    stem = word.slice(0, -2);
+  } else if (word.endsWith('ing') && hasVowel(word.slice(0, -3))) {
+    stem = word.slice(0, -3);
+  }
+  if (stem === null) return word;
+
+  if (stem.endsWith('at') || stem.endsWith('bl') || stem.endsWith('iz')) return stem + 'e';
+  if (endsWithDoubleConsonant(stem) && !['l', 's', 'z'].includes(stem[stem.length - 1])) {
+    return stem.slice(0, -1);
+  }
+  if (measure(stem) === 1 && endsWithCvc(stem)) return stem + 'e';
+  return stem;
+}
+
+/**
+ * Porter2 variant: "y" becomes "i" only after a consonant that is not the first letter,
+ * so "deploy" keeps its "y" and still matches "deployment"
+ */
+function step1c(word: string): string {
+  const n = word.length;
+  if (n > 2 && word.endsWith('y') && !'aeiouy'.includes(word[n - 2])) {
+    return word.slice(0, -1) + 'i';
+  }
+  return word;
+}
+
+function step4(word: string): string {
+  for (const suffix of STEP4_SUFFIXES) {
+    if (!word.endsWith(suffix)) continue;
+    const stem = word.slice(0, -suffix.length);
+    if (suffix === 'ion' && !(stem.endsWith('s') || stem.endsWith('t'))) return word;
+    return measure(stem) > 1 ? stem : word;
+  }
+  return word;
+}
+
+function step5(word: string): string {
+  if (word.endsWith('e')) {
+    const stem = word.slice(0, -1);
+    const m = measure(stem);
+    if (m > 1 || (m === 1 && !endsWithCvc(stem))) {
+      word = stem;
+    }
+  }
+  if (word.endsWith('ll') && measure(word) > 1) {
+    word = word.slice(0, -1);
+  }
+  return word;
+}
+
+/**
+ * Stem a lowercase word
+ * Tokens containing digits or non-letters are returned unchanged
+ */
+export function stem(word: string): string {
+  if (word.length < MIN_STEM_LENGTH || !/^[a-z]+$/.test(word)) {
+    return word;
+  }
+
+  let result = step1a(word);
+  result = step1b(result);
+  result = step1c(result);
+  result = replaceSuffix(result, STEP2_SUFFIXES, 0);
+  result = replaceSuffix(result, STEP3_SUFFIXES, 0);
+  result = step4(result);
+  return step5(result);
+}
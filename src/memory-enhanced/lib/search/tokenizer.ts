@@ -0,0 +1,60 @@
+/**
+ * Tokenizer for full-text search
+ * Splits text into lowercase, stemmed terms with their character offsets
+ */
+
+import { stem } from './stemmer.js';
+
+/**
+ * A term produced by the tokenizer
+ * start/end are character offsets into the original text (used for snippets)
+ */
+export interface Token {
+  term: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * Common English words that carry no meaning for ranking
+ */
+export const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'in', 'is',
+  'it', 'of', 'on', 'or', 'that', 'the', 'to', 'was', 'were', 'with'
+]);
+
+/**
+ * Runs of letters or digits. camelCase and letter/digit boundaries are split further,
+ * so "UserService2" yields "user", "service" and "2".
+ */
+const WORD_PATTERN = /[\p{L}\p{N}]+/gu;
+const SUB_WORD_PATTERN = /\p{Lu}+(?!\p{Ll})|\p{Lu}?\p{Ll}+|\p{N}+|\p{L}+/gu;
+
+/**
+ * Split text into tokens
+ * Stop words are dropped; every other word is lowercased and stemmed
+ * Pass another normalizer to keep words unstemmed (e.g. for a search engine with its own analyzer)
+ */
+export function tokenize(text: string, normalize: (word: string) => string = stem): Token[] {
+  const tokens: Token[] = [];
+
+  for (const word of text.matchAll(WORD_PATTERN)) {
+    const wordStart = word.index!;
+    for (const part of word[0].matchAll(SUB_WORD_PATTERN)) {
+      const lower = part[0].toLowerCase();
+      if (STOP_WORDS.has(lower)) continue;
+
+      const start = wordStart + part.index!;
+      tokens.push({ term: normalize(lower), start, end: start + part[0].length });
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Tokenize text and return only the terms
+ */
+export function analyze(text: string, normalize: (word: string) => string = stem): string[] {
+  return tokenize(text, normalize).map(token => token.term);
+}
@@ -0,0 +1,510 @@
+/**
+ * SQLite Queries
+ *
+ * Centralizes all SQL statements for the SQLite storage adapter.
+ * Following Single Responsibility Principle - this module is responsible only for query definitions.
+ */
+
+/**
+ * Pragmas applied to every connection.
+ * WAL lets readers in other processes proceed while a writer commits,
+ * and foreign keys are required for the observation cascade.
+ */
+export const PRAGMA_QUERIES = {
+  journalMode: 'journal_mode = WAL',
+  foreignKeys: 'foreign_keys = ON',
+} as const;
+
+/**
+ * Table and index queries for schema initialization
+ */
+export const SCHEMA_QUERIES = {
+  createEntitiesTable: `
+    CREATE TABLE IF NOT EXISTS entities (
+      agent_thread_id TEXT NOT NULL,
+      name TEXT NOT NULL,
+      entity_type TEXT NOT NULL,
+      timestamp TEXT NOT NULL,
+      confidence REAL NOT NULL,
+      importance REAL NOT NULL,
+      aliases TEXT,
+      PRIMARY KEY (agent_thread_id, name)
+    )
+  `,
+
+  // position preserves the order of an entity's observations.
+  // agent_thread_id is the thread that created the observation, which can differ from the entity's thread.
+  createObservationsTable: `
+    CREATE TABLE IF NOT EXISTS observations (
+      entity_thread_id TEXT NOT NULL,
+      entity_name TEXT NOT NULL,
+      position INTEGER NOT NULL,
+      id TEXT NOT NULL,
+      content TEXT NOT NULL,
+      timestamp TEXT NOT NULL,
+      version INTEGER NOT NULL,
+      supersedes TEXT,
+      superseded_by TEXT,
+      agent_thread_id TEXT NOT NULL,
+      confidence REAL,
+      importance REAL,
+      PRIMARY KEY (entity_thread_id, entity_name, position),
+      FOREIGN KEY (entity_thread_id, entity_name)
+        REFERENCES entities (agent_thread_id, name) ON DELETE CASCADE
+    )
+  `,
+
+  // No foreign keys to entities: a relation may belong to a different thread than its endpoints
+  createRelationsTable: `
+    CREATE TABLE IF NOT EXISTS relations (
+      agent_thread_id TEXT NOT NULL,
+      from_entity TEXT NOT NULL,
+      to_entity TEXT NOT NULL,
+      relation_type TEXT NOT NULL,
+      timestamp TEXT NOT NULL,
+      confidence REAL NOT NULL,
+      importance REAL NOT NULL,
+      PRIMARY KEY (agent_thread_id, from_entity, to_entity, relation_type)
+    )
+  `,
+
+  // observation_id is '' for entity header vectors so it can be part of the primary key.
+  // Vectors are JSON arrays; they are only ever read whole.
+  createEmbeddingsTable: `
+    CREATE TABLE IF NOT EXISTS embeddings (
+      agent_thread_id TEXT NOT NULL,
+      entity_name TEXT NOT NULL,
+      observation_id TEXT NOT NULL,
+      model TEXT NOT NULL,
+      content_hash TEXT NOT NULL,
+      vector TEXT NOT NULL,
+      PRIMARY KEY (agent_thread_id, entity_name, observation_id)
+    )
+  `,
+
+  // Items are stored whole as JSON; they are only ever read, restored or purged whole
+  createTrashTable: `
+    CREATE TABLE IF NOT EXISTS trash (
+      agent_thread_id TEXT NOT NULL,
+      id TEXT NOT NULL,
+      item TEXT NOT NULL,
+      PRIMARY KEY (agent_thread_id, id)
+    )
+  `,
+
+  // Append-only: rows are never updated or deleted. The entry is stored whole as JSON;
+  // the other columns only serve the filters of loadAuditLog.
+  createAuditLogTable: `
+    CREATE TABLE IF NOT EXISTS audit_log (
+      id TEXT PRIMARY KEY,
+      timestamp TEXT NOT NULL,
+      tool TEXT,
+      thread_id TEXT NOT NULL,
+      new_thread_id TEXT,
+      entity_name TEXT,
+      new_entity_name TEXT,
+      relation_from TEXT,
+      relation_to TEXT,
+      entry TEXT NOT NULL
+    )
+  `,
+
+  // Archived threads are moved to copies of the graph tables, so no other query has to skip them.
+  // CREATE TABLE ... AS copies the column layout without constraints: rows only move as whole threads.
+  createArchivedEntitiesTable: 'CREATE TABLE IF NOT EXISTS archived_entities AS SELECT * FROM entities WHERE 0',
+  createArchivedObservationsTable: 'CREATE TABLE IF NOT EXISTS archived_observations AS SELECT * FROM observations WHERE 0',
+  createArchivedRelationsTable: 'CREATE TABLE IF NOT EXISTS archived_relations AS SELECT * FROM relations WHERE 0',
+
+  createEntityTypeIndex: 'CREATE INDEX IF NOT EXISTS entity_type_idx ON entities (entity_type)',
+  createEntityTimestampIndex: 'CREATE INDEX IF NOT EXISTS entity_timestamp_idx ON entities (timestamp)',
+  createObservationIdIndex: 'CREATE INDEX IF NOT EXISTS observation_id_idx ON observations (id)',
+  createAuditLogThreadIndex: 'CREATE INDEX IF NOT EXISTS audit_log_thread_idx ON audit_log (thread_id)',
+  createArchivedEntityThreadIndex: 'CREATE INDEX IF NOT EXISTS archived_entity_thread_idx ON archived_entities (agent_thread_id)',
+} as const;
+
+/**
+ * Queries bringing databases created by earlier versions up to the current schema.
+ * Columns added since are appended to the tables that lack them; archived_entities
+ * gets the same columns as entities, since threads move between them with SELECT *.
+ */
+export const MIGRATION_QUERIES = {
+  tableColumns: 'SELECT name FROM pragma_table_info(@table)',
+
+  addedEntityColumns: {
+    aliases: 'aliases TEXT',
+  },
+
+  addedAuditLogColumns: {
+    new_entity_name: 'new_entity_name TEXT',
+  },
+} as const;
+
+/**
+ * Entity queries
+ */
+export const ENTITY_QUERIES = {
+  loadAll: `
+    SELECT name,
+           entity_type as entityType,
+           agent_thread_id as agentThreadId,
+           timestamp,
+           confidence,
+           importance,
+           aliases
+    FROM entities
+    ORDER BY rowid
+  `,
+
+  loadByThread: `
+    SELECT name,
+           entity_type as entityType,
+           agent_thread_id as agentThreadId,
+           timestamp,
+           confidence,
+           importance,
+           aliases
+    FROM entities
+    WHERE agent_thread_id = @threadId
+    ORDER BY rowid
+  `,
+
+  loadOne: `
+    SELECT name,
+           entity_type as entityType,
+           agent_thread_id as agentThreadId,
+           timestamp,
+           confidence,
+           importance,
+           aliases
+    FROM entities
+    WHERE agent_thread_id = @agentThreadId AND name = @name
+  `,
+
+
+  upsert: `
+    INSERT INTO entities (agent_thread_id, name, entity_type, timestamp, confidence, importance, aliases)
+    VALUES (@agentThreadId, @name, @entityType, @timestamp, @confidence, @importance, @aliases)
+    ON CONFLICT (agent_thread_id, name) DO UPDATE SET
+      entity_type = excluded.entity_type,
+      timestamp = excluded.timestamp,
+      confidence = excluded.confidence,
+      importance = excluded.importance,
+      aliases = excluded.aliases
+  `,
+
+  // Observations are removed by the ON DELETE CASCADE foreign key
+  delete: 'DELETE FROM entities WHERE agent_thread_id = @agentThreadId AND name = @name',
+
+  setTimestamp: `
+    UPDATE entities
+    SET timestamp = @timestamp
+    WHERE agent_thread_id = @agentThreadId AND name = @name
+  `,
+} as const;
+
+/**
+ * Observation queries
+ */
+export const OBSERVATION_QUERIES = {
+  loadAll: `
+    SELECT entity_thread_id as entityThreadId,
+           entity_name as entityName,
+           id,
+           content,
+           timestamp,
+           version,
+           supersedes,
+           superseded_by as supersededBy,
+           agent_thread_id as agentThreadId,
+           confidence,
+           importance
+    FROM observations
+    ORDER BY entity_thread_id, entity_name, position
+  `,
+
+  loadByThread: `
+    SELECT entity_thread_id as entityThreadId,
+           entity_name as entityName,
+           id,
+           content,
+           timestamp,
+           version,
+           supersedes,
+           superseded_by as supersededBy,
+           agent_thread_id as agentThreadId,
+           confidence,
+           importance
+    FROM observations
+    WHERE entity_thread_id = @threadId
+    ORDER BY entity_name, position
+  `,
+
+  loadForEntity: `
+    SELECT entity_thread_id as entityThreadId,
+           entity_name as entityName,
+           id,
+           content,
+           timestamp,
+           version,
+           supersedes,
+           superseded_by as supersededBy,
+           agent_thread_id as agentThreadId,
+           confidence,
+           importance
+    FROM observations
+    WHERE entity_thread_id = @agentThreadId AND entity_name = @name
+    ORDER BY position
+  `,
+
+  insert: `
+    INSERT INTO observations (
+      entity_thread_id, entity_name, position, id, content, timestamp, version,
+      supersedes, superseded_by, agent_thread_id, confidence, importance
+    )
+    VALUES (
+      @entityThreadId, @entityName, @position, @id, @content, @timestamp, @version,
+      @supersedes, @supersededBy, @agentThreadId, @confidence, @importance
+    )
+  `,
+
+  nextPosition: `
+    SELECT COALESCE(MAX(position) + 1, 0) as position
+    FROM observations
+    WHERE entity_thread_id = @agentThreadId AND entity_name = @name
+  `,
+
+  deleteForEntity: 'DELETE FROM observations WHERE entity_thread_id = @agentThreadId AND entity_name = @name',
+} as const;
+
+/**
+ * Relation queries
+ */
+export const RELATION_QUERIES = {
+  loadAll: `
+    SELECT from_entity as "from",
+           to_entity as "to",
+           relation_type as relationType,
+           agent_thread_id as agentThreadId,
+           timestamp,
+           confidence,
+           importance
+    FROM relations
+    ORDER BY rowid
+  `,
+
+  loadByThread: `
+    SELECT from_entity as "from",
+           to_entity as "to",
+           relation_type as relationType,
+           agent_thread_id as agentThreadId,
+           timestamp,
+           confidence,
+           importance
+    FROM relations
+    WHERE agent_thread_id = @threadId
+    ORDER BY rowid
+  `,
+
+  loadOne: `
+    SELECT from_entity as "from",
+           to_entity as "to",
+           relation_type as relationType,
+           agent_thread_id as agentThreadId,
+           timestamp,
+           confidence,
+           importance
+    FROM relations
+    WHERE agent_thread_id = @agentThreadId
+      AND from_entity = @from
+      AND to_entity = @to
+      AND relation_type = @relationType
+  `,
+
+  loadForEntity: `
+    SELECT from_entity as "from",
+           to_entity as "to",
+           relation_type as relationType,
+           agent_thread_id as agentThreadId,
+           timestamp,
+           confidence,
+           importance
+    FROM relations
+    WHERE agent_thread_id = @agentThreadId
+      AND (from_entity = @name OR to_entity = @name)
+    ORDER BY rowid
+  `,
+
+  upsert: `
+    INSERT INTO relations (agent_thread_id, from_entity, to_entity, relation_type, timestamp, confidence, importance)
+    VALUES (@agentThreadId, @from, @to, @relationType, @timestamp, @confidence, @importance)
+    ON CONFLICT (agent_thread_id, from_entity, to_entity, relation_type) DO UPDATE SET
+      timestamp = excluded.timestamp,
+      confidence = excluded.confidence,
+      importance = excluded.importance
+  `,
+
+  delete: `
+    DELETE FROM relations
+    WHERE agent_thread_id = @agentThreadId
+      AND from_entity = @from
+      AND to_entity = @to
+      AND relation_type = @relationType
+  `,
+
+  deleteForEntity: `
+    DELETE FROM relations
+    WHERE agent_thread_id = @agentThreadId
+      AND (from_entity = @name OR to_entity = @name)
+  `,
+
+  // Relations from an entity to itself are renamed at both ends
+  renameEntity: [
+    'UPDATE relations SET from_entity = @newName WHERE agent_thread_id = @agentThreadId AND from_entity = @name',
+    'UPDATE relations SET to_entity = @newName WHERE agent_thread_id = @agentThreadId AND to_entity = @name',
+  ],
+} as const;
+
+/**
+ * Embedding queries
+ */
+export const EMBEDDING_QUERIES = {
+  loadByThread: `
+    SELECT entity_name as entityName,
+           observation_id as observationId,
+           model,
+           content_hash as contentHash,
+           vector
+    FROM embeddings
+    WHERE agent_thread_id = @threadId
+  `,
+
+  deleteByThread: 'DELETE FROM embeddings WHERE agent_thread_id = @threadId',
+
+  insert: `
+    INSERT INTO embeddings (agent_thread_id, entity_name, observation_id, model, content_hash, vector)
+    VALUES (@threadId, @entityName, @observationId, @model, @contentHash, @vector)
+  `,
+} as const;
+
+/**
+ * Trash queries
+ */
+export const TRASH_QUERIES = {
+  loadByThread: 'SELECT item FROM trash WHERE agent_thread_id = @threadId ORDER BY rowid',
+
+  // REPLACE gives a re-added item a new rowid, so it moves to the end as with JSONL storage
+  insert: 'INSERT OR REPLACE INTO trash (agent_thread_id, id, item) VALUES (@threadId, @id, @item)',
+
+  delete: 'DELETE FROM trash WHERE agent_thread_id = @threadId AND id = @id',
+} as const;
+
+/**
+ * Audit log queries
+ * Timestamps are compared as strings, so filter bounds are normalized to the stored ISO 8601 format
+ */
+export const AUDIT_QUERIES = {
+  insert: `
+    INSERT INTO audit_log (id, timestamp, tool, thread_id, new_thread_id, entity_name, new_entity_name, relation_from, relation_to, entry)
+    VALUES (@id, @timestamp, @tool, @threadId, @newThreadId, @entityName, @newEntityName, @relationFrom, @relationTo, @entry)
+  `,
+
+  // A negative LIMIT returns every row
+  load: `
+    SELECT entry FROM audit_log
+    WHERE (@threadId IS NULL OR thread_id = @threadId OR new_thread_id = @threadId)
+      AND (@tool IS NULL OR tool = @tool)
+      AND (@entityName IS NULL OR entity_name = @entityName OR new_entity_name = @entityName
+           OR relation_from = @entityName OR relation_to = @entityName)
+      AND (@since IS NULL OR timestamp >= @since)
+      AND (@until IS NULL OR timestamp <= @until)
+    ORDER BY rowid DESC
+    LIMIT @limit
+  `,
+} as const;
+
+/**
+ * Thread queries
+ */
+export const THREAD_QUERIES = {
+  // UNION removes duplicates, so each thread is returned once
+  listIds: `
+    SELECT agent_thread_id as agentThreadId FROM entities
+    UNION
+    SELECT agent_thread_id as agentThreadId FROM relations
+  `,
+
+  listArchivedIds: `
+    SELECT agent_thread_id as agentThreadId FROM archived_entities
+    UNION
+    SELECT agent_thread_id as agentThreadId FROM archived_relations
+  `,
+
+  presence: `
+    SELECT EXISTS (SELECT 1 FROM entities WHERE agent_thread_id = @threadId)
+           OR EXISTS (SELECT 1 FROM relations WHERE agent_thread_id = @threadId) as active,
+           EXISTS (SELECT 1 FROM archived_entities WHERE agent_thread_id = @threadId)
+           OR EXISTS (SELECT 1 FROM archived_relations WHERE agent_thread_id = @threadId) as archived
+  `,
+
+  // Deleting the entities removes their observations by the ON DELETE CASCADE foreign key
+  clear: [
+    'DELETE FROM entities WHERE agent_thread_id = @threadId',
+    'DELETE FROM relations WHERE agent_thread_id = @threadId',
+  ],
+
+  // The observations' foreign key blocks changing the entities' key in place, so entities
+  // are copied to the new ID, their observations re-pointed, and the old rows deleted.
+  // Only observations the thread wrote get the new agent_thread_id.
+  rename: [
+    `INSERT INTO entities (agent_thread_id, name, entity_type, timestamp, confidence, importance, aliases)
+     SELECT @newThreadId, name, entity_type, timestamp, confidence, importance, aliases
+     FROM entities WHERE agent_thread_id = @threadId ORDER BY rowid`,
+    `UPDATE observations
+     SET entity_thread_id = @newThreadId,
+         agent_thread_id = CASE WHEN agent_thread_id = @threadId THEN @newThreadId ELSE agent_thread_id END
+     WHERE entity_thread_id = @threadId`,
+    'DELETE FROM entities WHERE agent_thread_id = @threadId',
+    'UPDATE relations SET agent_thread_id = @newThreadId WHERE agent_thread_id = @threadId',
+    'UPDATE embeddings SET agent_thread_id = @newThreadId WHERE agent_thread_id = @threadId',
+    // Items the new ID deleted earlier stay in its trash
+    'UPDATE OR REPLACE trash SET agent_thread_id = @newThreadId WHERE agent_thread_id = @threadId',
+  ],
+
+  // Deleting the entities removes their observations by the ON DELETE CASCADE foreign key
+  archive: [
+    'INSERT INTO archived_entities SELECT * FROM entities WHERE agent_thread_id = @threadId ORDER BY rowid',
+    'INSERT INTO archived_observations SELECT * FROM observations WHERE entity_thread_id = @threadId',
+    'INSERT INTO archived_relations SELECT * FROM relations WHERE agent_thread_id = @threadId ORDER BY rowid',
+    'DELETE FROM entities WHERE agent_thread_id = @threadId',
+    'DELETE FROM relations WHERE agent_thread_id = @threadId',
+    'DELETE FROM embeddings WHERE agent_thread_id = @threadId',
+  ],
+
+  // Entities go first, so the observations' foreign key is satisfied
+  restore: [
+    'INSERT INTO entities SELECT * FROM archived_entities WHERE agent_thread_id = @threadId ORDER BY rowid',
+    'INSERT INTO observations SELECT * FROM archived_observations WHERE entity_thread_id = @threadId',
+    'INSERT INTO relations SELECT * FROM archived_relations WHERE agent_thread_id = @threadId ORDER BY rowid',
+    'DELETE FROM archived_entities WHERE agent_thread_id = @threadId',
+    'DELETE FROM archived_observations WHERE entity_thread_id = @threadId',
+    'DELETE FROM archived_relations WHERE agent_thread_id = @threadId',
+  ],
+
+  delete: [
+    'DELETE FROM entities WHERE agent_thread_id = @threadId',
+    'DELETE FROM relations WHERE agent_thread_id = @threadId',
+    'DELETE FROM embeddings WHERE agent_thread_id = @threadId',
+    'DELETE FROM archived_entities WHERE agent_thread_id = @threadId',
+    'DELETE FROM archived_observations WHERE entity_thread_id = @threadId',
+    'DELETE FROM archived_relations WHERE agent_thread_id = @threadId',
+    'DELETE FROM trash WHERE agent_thread_id = @threadId',
+  ],
+} as const;
+
+/**
+ * Maintenance queries
+ */
+export const MAINTENANCE_QUERIES = {
+  // Observations are removed by the ON DELETE CASCADE foreign key
+  deleteAll: ['DELETE FROM entities', 'DELETE FROM relations'],
+} as const;
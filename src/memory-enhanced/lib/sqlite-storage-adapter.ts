@@ -0,0 +1,676 @@
+/**
+ * SQLite Storage Adapter
+ *
+ * Stores the knowledge graph in a single embedded SQLite database file.
+ * Every write runs in a transaction, and WAL mode with a busy timeout lets
+ * several server processes share the same file safely.
+ *
+ * SOLID Principles Applied:
+ * - Single Responsibility: Adapter only handles SQLite storage operations
+ * - Open/Closed: Can be extended without modification through IStorageAdapter
+ * - Liskov Substitution: Can replace any IStorageAdapter implementation
+ * - Dependency Inversion: Depends on IStorageAdapter abstraction
+ *
+ * Example usage:
+ * ```typescript
+ * import { SqliteStorageAdapter } from './sqlite-storage-adapter.js';
+ * import { KnowledgeGraphManager } from './knowledge-graph-manager.js';
+ *
+ * const sqliteAdapter = new SqliteStorageAdapter('/path/to/memory.db');
+ * await sqliteAdapter.initialize();
+ * const manager = new KnowledgeGraphManager('', sqliteAdapter);
+ * ```
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import {
+  Entity,
+  Relation,
+  KnowledgeGraph,
+  Observation,
+  EmbeddingRecord,
+  TrashItem,
+  AuditEntry,
+  AuditLogFilter,
+  ThreadPresence
+} from './types.js';
+import { IStorageAdapter } from './storage-interface.js';
+import {
+  PRAGMA_QUERIES,
+  SCHEMA_QUERIES,
+  MIGRATION_QUERIES,
+  ENTITY_QUERIES,
+  OBSERVATION_QUERIES,
+  RELATION_QUERIES,
+  EMBEDDING_QUERIES,
+  TRASH_QUERIES,
+  AUDIT_QUERIES,
+  THREAD_QUERIES,
+  MAINTENANCE_QUERIES
+} from './sqlite-queries.js';
+import { SQLITE_ERROR_MESSAGES } from './storage-config.js';
+import {
+  checkCanRename,
+  checkCanArchive,
+  checkCanRestore,
+  checkCanDelete,
+  checkCanReplace
+} from './utils/thread-lifecycle.js';
+import { isRecordingAudit } from './audit/audit-log.js';
+import {
+  entityAuditEntries,
+  entityRenameAuditEntries,
+  relationAuditEntries,
+  graphAuditEntries,
+  threadAuditEntries
+} from './audit/audit-entries.js';
+import { checkCanRenameEntity } from './utils/entity-finder.js';
+
+/**
+ * Row shapes returned by the SQLite queries
+ */
+type EntityRow = Omit<Entity, 'observations' | 'status' | 'aliases'> & { aliases: string | null };
+type RelationRow = Omit<Relation, 'status'>;
+interface EmbeddingRow {
+  entityName: string;
+  observationId: string;
+  model: string;
+  contentHash: string;
+  vector: string;
+}
+interface ObservationRow {
+  entityThreadId: string;
+  entityName: string;
+  id: string;
+  content: string;
+  timestamp: string;
+  version: number;
+  supersedes: string | null;
+  supersededBy: string | null;
+  agentThreadId: string;
+  confidence: number | null;
+  importance: number | null;
+}
+
+/**
+ * SQLite-based storage adapter for the knowledge graph.
+ * Follows Single Responsibility Principle - only handles SQLite storage operations.
+ */
+export class SqliteStorageAdapter implements IStorageAdapter {
+  private readonly dbPath: string;
+  private db: Database.Database | null = null;
+
+  constructor(dbPath: string) {
+    this.dbPath = dbPath;
+  }
+
+  /**
+   * Open the database file and create the schema.
+   */
+  async initialize(): Promise<void> {
+    try {
+      await fs.mkdir(path.dirname(this.dbPath), { recursive: true });
+      this.db = new Database(this.dbPath);
+      this.db.pragma(PRAGMA_QUERIES.journalMode);
+      this.db.pragma(PRAGMA_QUERIES.foreignKeys);
+      this.initializeSchema();
+    } catch (error) {
+      throw new Error(`${SQLITE_ERROR_MESSAGES.OPEN_FAILED}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * Create tables and indexes.
+   * Extracted for Single Responsibility Principle.
+   */
+  private initializeSchema(): void {
+    const db = this.getDatabase();
+    db.transaction(() => {
+      for (const query of Object.values(SCHEMA_QUERIES)) {
+        db.exec(query);
+      }
+      this.addMissingColumns('entities', MIGRATION_QUERIES.addedEntityColumns);
+      this.addMissingColumns('archived_entities', MIGRATION_QUERIES.addedEntityColumns);
+      this.addMissingColumns('audit_log', MIGRATION_QUERIES.addedAuditLogColumns);
+    })();
+  }
+
+  /**
+   * Add the columns a table created by an earlier version lacks.
+   * Must run inside a transaction.
+   */
+  private addMissingColumns(table: string, columns: { [name: string]: string }): void {
+    const db = this.getDatabase();
+    const existing = new Set(
+      (db.prepare(MIGRATION_QUERIES.tableColumns).all({ table }) as { name: string }[]).map(row => row.name)
+    );
+    for (const [name, definition] of Object.entries(columns)) {
+      if (!existing.has(name)) {
+        db.exec(`ALTER TABLE ${table} ADD COLUMN ${definition}`);
+      }
+    }
+  }
+
+  /**
+   * Return the open database.
+   * Guard clause for better error handling.
+   */
+  private getDatabase(): Database.Database {
+    if (!this.db) {
+      throw new Error(SQLITE_ERROR_MESSAGES.NOT_INITIALIZED);
+    }
+    return this.db;
+  }
+
+  /**
+   * Map an observation row to an Observation object.
+   * Optional fields are left out when NULL so the result matches the other adapters.
+   */
+  private mapRowToObservation(row: ObservationRow): Observation {
+    const observation: Observation = {
+      id: row.id,
+      content: row.content,
+      timestamp: row.timestamp,
+      version: row.version,
+      agentThreadId: row.agentThreadId
+    };
+    if (row.supersedes !== null) observation.supersedes = row.supersedes;
+    if (row.supersededBy !== null) observation.superseded_by = row.supersededBy;
+    if (row.confidence !== null) observation.confidence = row.confidence;
+    if (row.importance !== null) observation.importance = row.importance;
+    return observation;
+  }
+
+  /**
+   * Load entities and attach their observations.
+   * Observations are fetched in one query and grouped in memory to avoid N+1 queries.
+   */
+  private loadEntities(
+    entityQuery: string,
+    observationQuery: string,
+    params: { [key: string]: unknown } = {}
+  ): Entity[] {
+    const db = this.getDatabase();
+    const entityRows = db.prepare(entityQuery).all(params) as EntityRow[];
+    const observationRows = db.prepare(observationQuery).all(params) as ObservationRow[];
+
+    const observationsByEntity = new Map<string, Observation[]>();
+    for (const row of observationRows) {
+      const key = JSON.stringify([row.entityThreadId, row.entityName]);
+      if (!observationsByEntity.has(key)) {
+        observationsByEntity.set(key, []);
+      }
+      observationsByEntity.get(key)!.push(this.mapRowToObservation(row));
+    }
+
+    return entityRows.map(({ aliases, ...row }) => ({
+      ...row,
+      observations: observationsByEntity.get(JSON.stringify([row.agentThreadId, row.name])) ?? [],
+      ...(aliases !== null && { aliases: JSON.parse(aliases) as string[] })
+    }));
+  }
+
+  /**
+   * Load relations.
+   * Extracted for Single Responsibility Principle.
+   */
+  private loadRelations(query: string, params: { [key: string]: unknown } = {}): Relation[] {
+    return this.getDatabase().prepare(query).all(params) as RelationRow[];
+  }
+
+  /**
+   * Read the complete knowledge graph. Must run inside a transaction.
+   */
+  private readGraph(): KnowledgeGraph {
+    return {
+      entities: this.loadEntities(ENTITY_QUERIES.loadAll, OBSERVATION_QUERIES.loadAll),
+      relations: this.loadRelations(RELATION_QUERIES.loadAll)
+    };
+  }
+
+  /**
+   * Load the complete knowledge graph.
+   */
+  async loadGraph(): Promise<KnowledgeGraph> {
+    // Read inside one transaction so entities, observations and relations form a consistent snapshot
+    return this.getDatabase().transaction(() => this.readGraph())();
+  }
+
+  /**
+   * Load a single entity with its observations. Must run inside a transaction.
+   */
+  private findEntity(threadId: string, entityName: string): Entity | undefined {
+    const key = { agentThreadId: threadId, name: entityName };
+    return this.loadEntities(ENTITY_QUERIES.loadOne, OBSERVATION_QUERIES.loadForEntity, key)[0];
+  }
+
+  /**
+   * Load the stored version of a relation. Must run inside a transaction.
+   */
+  private findRelation(relation: Relation): Relation | undefined {
+    return this.loadRelations(RELATION_QUERIES.loadOne, this.toRelationKey(relation))[0];
+  }
+
+  /**
+   * Map a relation to the parameters that identify its row.
+   */
+  private toRelationKey(relation: Relation): { [key: string]: unknown } {
+    return {
+      agentThreadId: relation.agentThreadId,
+      from: relation.from,
+      to: relation.to,
+      relationType: relation.relationType
+    };
+  }
+
+  /**
+   * Read the entities and relations of a single thread. Must run inside a transaction.
+   */
+  private readThreadGraph(threadId: string): KnowledgeGraph {
+    const params = { threadId };
+    return {
+      entities: this.loadEntities(ENTITY_QUERIES.loadByThread, OBSERVATION_QUERIES.loadByThread, params),
+      relations: this.loadRelations(RELATION_QUERIES.loadByThread, params)
+    };
+  }
+
+  /**
+   * Load the entities and relations of a single thread.
+   */
+  async loadThreadGraph(threadId: string): Promise<KnowledgeGraph> {
+    return this.getDatabase().transaction(() => this.readThreadGraph(threadId))();
+  }
+
+  /**
+   * List the IDs of all threads that own entities or relations.
+   */
+  async listThreadIds(): Promise<string[]> {
+    const rows = this.getDatabase().prepare(THREAD_QUERIES.listIds).all() as { agentThreadId: string }[];
+    return rows.map(row => row.agentThreadId);
+  }
+
+  /**
+   * Run a unit of work in a write transaction.
+   * BEGIN IMMEDIATE takes the write lock up front, so a concurrent process waits
+   * for the busy timeout instead of failing when it later tries to upgrade a read lock.
+   */
+  private executeWrite(work: () => void): void {
+    this.getDatabase().transaction(work).immediate();
+  }
+
+  /**
+   * Replace the complete knowledge graph in one transaction.
+   * The graph it replaces is only read when the changes are logged.
+   */
+  async saveGraph(graph: KnowledgeGraph): Promise<void> {
+    const db = this.getDatabase();
+    this.executeWrite(() => {
+      const before = isRecordingAudit() ? this.readGraph() : { entities: [], relations: [] };
+      for (const query of MAINTENANCE_QUERIES.deleteAll) {
+        db.prepare(query).run();
+      }
+      for (const entity of graph.entities) {
+        this.writeEntity(entity);
+      }
+      for (const relation of graph.relations) {
+        this.writeRelation(relation);
+      }
+      this.writeAuditEntries(graphAuditEntries(before, graph));
+    });
+  }
+
+  /**
+   * Write an entity row and replace its observations.
+   * Shared by full saves and upserts (DRY). Must run inside a transaction.
+   */
+  private writeEntity(entity: Entity): void {
+    const db = this.getDatabase();
+    const key = { agentThreadId: entity.agentThreadId, name: entity.name };
+    db.prepare(ENTITY_QUERIES.upsert).run({
+      ...key,
+      entityType: entity.entityType,
+      timestamp: entity.timestamp,
+      confidence: entity.confidence,
+      importance: entity.importance,
+      aliases: entity.aliases !== undefined ? JSON.stringify(entity.aliases) : null
+    });
+    db.prepare(OBSERVATION_QUERIES.deleteForEntity).run(key);
+    entity.observations.forEach((observation, position) => {
+      this.writeObservation(entity.agentThreadId, entity.name, observation, position);
+    });
+  }
+
+  /**
+   * Write a single observation row at the given position.
+   */
+  private writeObservation(threadId: string, entityName: string, observation: Observation, position: number): void {
+    this.getDatabase().prepare(OBSERVATION_QUERIES.insert).run({
+      entityThreadId: threadId,
+      entityName,
+      position,
+      id: observation.id,
+      content: observation.content,
+      timestamp: observation.timestamp,
+      version: observation.version,
+      supersedes: observation.supersedes ?? null,
+      supersededBy: observation.superseded_by ?? null,
+      agentThreadId: observation.agentThreadId,
+      confidence: observation.confidence ?? null,
+      importance: observation.importance ?? null
+    });
+  }
+
+  /**
+   * Write a relation row.
+   * Shared by full saves and upserts (DRY).
+   */
+  private writeRelation(relation: Relation): void {
+    this.getDatabase().prepare(RELATION_QUERIES.upsert).run({
+      agentThreadId: relation.agentThreadId,
+      from: relation.from,
+      to: relation.to,
+      relationType: relation.relationType,
+      timestamp: relation.timestamp,
+      confidence: relation.confidence,
+      importance: relation.importance
+    });
+  }
+
+  /**
+   * Replace the rows of a single thread in one transaction.
+   * The thread it replaces is only read when the changes are logged.
+   */
+  async saveThreadGraph(threadId: string, graph: KnowledgeGraph): Promise<void> {
+    this.executeWrite(() => {
+      checkCanReplace(threadId, this.getThreadPresence(threadId), graph);
+      const before = isRecordingAudit() ? this.readThreadGraph(threadId) : { entities: [], relations: [] };
+      this.runAll(THREAD_QUERIES.clear, { threadId });
+      for (const entity of graph.entities) {
+        this.writeEntity(entity);
+      }
+      for (const relation of graph.relations) {
+        this.writeRelation(relation);
+      }
+      this.writeAuditEntries(graphAuditEntries(before, graph));
+    });
+  }
+
+  /**
+   * Insert or update a single entity together with its observations.
+   */
+  async upsertEntity(entity: Entity): Promise<void> {
+    this.executeWrite(() => {
+      const before = this.findEntity(entity.agentThreadId, entity.name);
+      this.writeEntity(entity);
+      this.writeAuditEntries(entityAuditEntries(entity.agentThreadId, entity.name, before, entity));
+    });
+  }
+
+  /**
+   * Delete a single entity and the relations of its thread that reference it.
+   */
+  async deleteEntity(threadId: string, entityName: string): Promise<void> {
+    const db = this.getDatabase();
+    const key = { agentThreadId: threadId, name: entityName };
+    this.executeWrite(() => {
+      const before = this.findEntity(threadId, entityName);
+      const relationsBefore = this.loadRelations(RELATION_QUERIES.loadForEntity, key);
+      db.prepare(ENTITY_QUERIES.delete).run(key);
+      db.prepare(RELATION_QUERIES.deleteForEntity).run(key);
+      this.writeAuditEntries(entityAuditEntries(threadId, entityName, before, undefined, relationsBefore));
+    });
+  }
+
+  /**
+   * Rename an entity and the relations of its thread that reference it in one transaction.
+   */
+  async renameEntity(threadId: string, entityName: string, renamed: Entity): Promise<void> {
+    const db = this.getDatabase();
+    const key = { agentThreadId: threadId, name: entityName };
+    this.executeWrite(() => {
+      const before = this.findEntity(threadId, entityName);
+      checkCanRenameEntity(threadId, entityName, renamed.name, before, this.findEntity(threadId, renamed.name) !== undefined);
+      this.writeEntity(renamed);
+      db.prepare(ENTITY_QUERIES.delete).run(key);
+      this.runAll(RELATION_QUERIES.renameEntity, { ...key, newName: renamed.name });
+      this.writeAuditEntries(entityRenameAuditEntries(threadId, before, renamed));
+    });
+  }
+
+
+  /**
+   * Append an observation to an entity.
+   * The position lookup and insert share one transaction so concurrent appends are not lost.
+   */
+  async appendObservation(threadId: string, entityName: string, observation: Observation): Promise<void> {
+    const db = this.getDatabase();
+    const key = { agentThreadId: threadId, name: entityName };
+    this.executeWrite(() => {
+      const before = this.findEntity(threadId, entityName);
+      if (!before) {
+        throw new Error(`Entity with name ${entityName} not found in thread ${threadId}`);
+      }
+      const { position } = db.prepare(OBSERVATION_QUERIES.nextPosition).get(key) as { position: number };
+      this.writeObservation(threadId, entityName, observation, position);
+      db.prepare(ENTITY_QUERIES.setTimestamp).run({ ...key, timestamp: observation.timestamp });
+      const after = { ...before, observations: [...before.observations, observation], timestamp: observation.timestamp };
+      this.writeAuditEntries(entityAuditEntries(threadId, entityName, before, after));
+    });
+  }
+
+  /**
+   * Insert or update a single relation.
+   */
+  async upsertRelation(relation: Relation): Promise<void> {
+    this.executeWrite(() => {
+      const before = this.findRelation(relation);
+      this.writeRelation(relation);
+      this.writeAuditEntries(relationAuditEntries(before, relation));
+    });
+  }
+
+  /**
+   * Delete a single relation.
+   */
+  async deleteRelation(relation: Relation): Promise<void> {
+    this.executeWrite(() => {
+      const before = this.findRelation(relation);
+      this.getDatabase().prepare(RELATION_QUERIES.delete).run(this.toRelationKey(relation));
+      this.writeAuditEntries(relationAuditEntries(before));
+    });
+  }
+
+  /**
+   * Load the embedding vectors of a thread.
+   */
+  async loadEmbeddings(threadId: string): Promise<EmbeddingRecord[]> {
+    const rows = this.getDatabase().prepare(EMBEDDING_QUERIES.loadByThread).all({ threadId }) as EmbeddingRow[];
+    return rows.map(row => ({
+      entityName: row.entityName,
+      ...(row.observationId ? { observationId: row.observationId } : {}),
+      model: row.model,
+      contentHash: row.contentHash,
+      vector: JSON.parse(row.vector)
+    }));
+  }
+
+  /**
+   * Replace the embedding vectors of a thread in one transaction.
+   */
+  async saveEmbeddings(threadId: string, records: EmbeddingRecord[]): Promise<void> {
+    const db = this.getDatabase();
+    this.executeWrite(() => {
+      db.prepare(EMBEDDING_QUERIES.deleteByThread).run({ threadId });
+      const insert = db.prepare(EMBEDDING_QUERIES.insert);
+      for (const record of records) {
+        insert.run({
+          threadId,
+          entityName: record.entityName,
+          observationId: record.observationId ?? '',
+          model: record.model,
+          contentHash: record.contentHash,
+          vector: JSON.stringify(record.vector)
+        });
+      }
+    });
+  }
+
+  /**
+   * Load the trash items of a thread.
+   */
+  async loadTrash(threadId: string): Promise<TrashItem[]> {
+    const rows = this.getDatabase().prepare(TRASH_QUERIES.loadByThread).all({ threadId }) as { item: string }[];
+    return rows.map(row => JSON.parse(row.item));
+  }
+
+  /**
+   * Add items to the trash of a thread in one transaction.
+   */
+  async addToTrash(threadId: string, items: TrashItem[]): Promise<void> {
+    const insert = this.getDatabase().prepare(TRASH_QUERIES.insert);
+    this.executeWrite(() => {
+      for (const item of items) {
+        insert.run({ threadId, id: item.id, item: JSON.stringify(item) });
+      }
+    });
+  }
+
+  /**
+   * Remove items from the trash of a thread in one transaction.
+   */
+  async removeFromTrash(threadId: string, itemIds: string[]): Promise<void> {
+    const remove = this.getDatabase().prepare(TRASH_QUERIES.delete);
+    this.executeWrite(() => {
+      for (const id of itemIds) {
+        remove.run({ threadId, id });
+      }
+    });
+  }
+
+  /**
+   * Append entries to the audit log in one transaction.
+   */
+  async appendAuditEntries(entries: AuditEntry[]): Promise<void> {
+    this.executeWrite(() => this.writeAuditEntries(entries));
+  }
+
+  /**
+   * Insert audit log rows, in the transaction of the change they describe.
+   * Must run inside a transaction.
+   */
+  private writeAuditEntries(entries: AuditEntry[]): void {
+    const insert = this.getDatabase().prepare(AUDIT_QUERIES.insert);
+    for (const entry of entries) {
+      insert.run({
+        id: entry.id,
+        timestamp: entry.timestamp,
+        tool: entry.tool ?? null,
+        threadId: entry.threadId,
+        newThreadId: entry.newThreadId ?? null,
+        entityName: entry.entityName ?? null,
+        newEntityName: entry.newEntityName ?? null,
+        relationFrom: entry.relation?.from ?? null,
+        relationTo: entry.relation?.to ?? null,
+        entry: JSON.stringify(entry)
+      });
+    }
+  }
+
+  /**
+   * Load audit log entries, most recent first, filtered in the query.
+   */
+  async loadAuditLog(filter: AuditLogFilter = {}): Promise<AuditEntry[]> {
+    const rows = this.getDatabase().prepare(AUDIT_QUERIES.load).all({
+      threadId: filter.threadId ?? null,
+      tool: filter.tool ?? null,
+      entityName: filter.entityName ?? null,
+      since: filter.since !== undefined ? new Date(filter.since).toISOString() : null,
+      until: filter.until !== undefined ? new Date(filter.until).toISOString() : null,
+      limit: filter.limit ?? -1
+    }) as { entry: string }[];
+    return rows.map(row => JSON.parse(row.entry));
+  }
+
+  /**
+   * List the IDs of archived threads.
+   */
+  async listArchivedThreadIds(): Promise<string[]> {
+    const rows = this.getDatabase().prepare(THREAD_QUERIES.listArchivedIds).all() as { agentThreadId: string }[];
+    return rows.map(row => row.agentThreadId);
+  }
+
+  /**
+   * Check whether a thread has active and archived rows. Must run inside a transaction.
+   */
+  private getThreadPresence(threadId: string): ThreadPresence {
+    const row = this.getDatabase().prepare(THREAD_QUERIES.presence).get({ threadId }) as { active: number; archived: number };
+    return { active: row.active === 1, archived: row.archived === 1 };
+  }
+
+  /**
+   * Run a list of statements in order. Must run inside a transaction.
+   */
+  private runAll(queries: readonly string[], params: { [key: string]: unknown }): void {
+    const db = this.getDatabase();
+    for (const query of queries) {
+      db.prepare(query).run(params);
+    }
+  }
+
+  /**
+   * Move a thread's rows, including its embeddings and trash, to a new thread ID in one transaction.
+   */
+  async renameThread(threadId: string, newThreadId: string): Promise<void> {
+    this.executeWrite(() => {
+      checkCanRename(threadId, this.getThreadPresence(threadId), newThreadId, this.getThreadPresence(newThreadId));
+      this.runAll(THREAD_QUERIES.rename, { threadId, newThreadId });
+      this.writeAuditEntries(threadAuditEntries(threadId, 'rename_thread', { newThreadId }));
+    });
+  }
+
+  /**
+   * Move a thread's rows to the archive tables in one transaction.
+   */
+  async archiveThread(threadId: string): Promise<void> {
+    this.executeWrite(() => {
+      checkCanArchive(threadId, this.getThreadPresence(threadId));
+      this.runAll(THREAD_QUERIES.archive, { threadId });
+      this.writeAuditEntries(threadAuditEntries(threadId, 'archive_thread'));
+    });
+  }
+
+  /**
+   * Move a thread's rows back from the archive tables in one transaction.
+   */
+  async restoreThread(threadId: string): Promise<void> {
+    this.executeWrite(() => {
+      checkCanRestore(threadId, this.getThreadPresence(threadId));
+      this.runAll(THREAD_QUERIES.restore, { threadId });
+      this.writeAuditEntries(threadAuditEntries(threadId, 'restore_thread'));
+    });
+  }
+
+  /**
+   * Delete a thread's active, archived and trash rows in one transaction.
+   */
+  async deleteThread(threadId: string): Promise<void> {
+    this.executeWrite(() => {
+      checkCanDelete(threadId, this.getThreadPresence(threadId));
+      this.runAll(THREAD_QUERIES.delete, { threadId });
+      this.writeAuditEntries(threadAuditEntries(threadId, 'delete_thread'));
+    });
+  }
+
+  /**
+   * Close the database file.
+   * Properly cleans up resources.
+   */
+  async close(): Promise<void> {
+    if (this.db) {
+      this.db.close();
+      this.db = null;
+    }
+  }
+}
@@ -33,6 +33,93 @@ export const NEO4J_ERROR_MESSAGES = {
   NOT_CONFIGURED: 'Neo4j not configured (NEO4J_URI, NEO4J_USERNAME, NEO4J_PASSWORD), using JSONL storage',
 } as const;
 
+/**
+ * Environment variable names for SQLite configuration
+ */
+export const SQLITE_ENV_VARS = {
+  PATH: 'SQLITE_DB_PATH',
+} as const;
+
+/**
+ * Error messages for SQLite storage
+ */
+export const SQLITE_ERROR_MESSAGES = {
+  NOT_INITIALIZED: 'SQLite database not initialized. Call initialize() first.',
+  OPEN_FAILED: 'Failed to open SQLite database',
+} as const;
+
+/**
+ * Environment variable for the storage cache
+ */
+export const CACHE_ENV_VARS = {
+  TTL_MS: 'MEMORY_CACHE_TTL_MS',
+} as const;
+
+/**
+ * Storage cache settings
+ */
+export const CACHE_DEFAULTS = {
+  // How long cached threads and search indexes of storages without change tracking (Neo4j, SQLite) are trusted
+  TTL_MS: 5_000,
+} as const;
+
+/**
+ * Environment variable for the thread retention policy applied on startup
+ */
+export const RETENTION_ENV_VARS = {
+  ARCHIVE_AFTER_DAYS: 'MEMORY_ARCHIVE_AFTER_DAYS',
+  TRASH_RETENTION_DAYS: 'MEMORY_TRASH_RETENTION_DAYS',
+} as const;
+
+/**
+ * Trash settings
+ */
+export const TRASH_DEFAULTS = {
+  // Deleted items older than this are purged from the trash; 0 keeps them until the trash is emptied
+  RETENTION_DAYS: 30,
+} as const;
+
+/**
+ * Lock settings for JSONL storage shared by several processes
+ */
+export const JSONL_LOCK_DEFAULTS = {
+  TIMEOUT_MS: 30_000,  // Give up waiting for the lock after this long
+  STALE_MS: 20_000,    // A lock of another host not refreshed for this long is considered abandoned
+  RETRY_MS: 25,        // Poll interval while the lock is held elsewhere
+} as const;
+
+/**
+ * Error messages for JSONL storage
+ */
+export const JSONL_ERROR_MESSAGES = {
+  LOCK_TIMEOUT: 'Timed out waiting for the memory directory lock',
+  REVISION_CONFLICT: 'was modified by another process',
+  RETRIES_EXHAUSTED: 'Giving up after repeated concurrent modifications',
+  CONFLICT_AFTER_WRITE: 'Stopped by a concurrent modification after some of the changes were written',
+} as const;
+
+/**
+ * Error messages for thread lifecycle operations, shared by all adapters
+ */
+export const THREAD_ERROR_MESSAGES = {
+  NOT_FOUND: 'not found',
+  NOT_ARCHIVED: 'is not archived',
+  ALREADY_EXISTS: 'already exists',
+  ALREADY_ARCHIVED: 'is already archived',
+  FOREIGN_DATA: 'cannot hold entities or relations of another thread',
+} as const;
+
+/**
+ * Error messages for storage migration
+ */
+export const MIGRATION_ERROR_MESSAGES = {
+  NEO4J_NOT_CONFIGURED: 'Neo4j is not configured (set NEO4J_URI, NEO4J_USERNAME and NEO4J_PASSWORD)',
+  SQLITE_NOT_CONFIGURED: 'SQLite is not configured (set SQLITE_DB_PATH)',
+  SAME_BACKEND: 'Source and target are the same storage',
+  CHECKPOINT_MISMATCH: 'Checkpoint belongs to a different migration',
+  UNSUPPORTED_TARGET: 'The active storage is a custom adapter and cannot be a migration target',
+} as const;
+
 /**
  * Log messages for storage selection
  */
@@ -40,5 +127,10 @@ export const STORAGE_LOG_MESSAGES = {
   ATTEMPTING_NEO4J: 'Attempting to connect to Neo4j at',
   NEO4J_SUCCESS: 'Successfully connected to Neo4j storage',
   NEO4J_FALLBACK: 'Failed to connect to Neo4j, falling back to JSONL storage:',
+  ATTEMPTING_SQLITE: 'Opening SQLite database at',
+  SQLITE_SUCCESS: 'Successfully opened SQLite storage',
+  SQLITE_FALLBACK: 'Failed to open SQLite database, falling back to JSONL storage:',
   USING_JSONL: 'Using JSONL storage at',
+  JSONL_RECOVERED: 'Recovered JSONL storage after an unclean shutdown:',
+  RETENTION_APPLIED: 'Retention policy archived inactive threads:',
 } as const;
@@ -0,0 +1,95 @@
+/**
+ * Storage configuration read from environment variables
+ * Shared by the MCP server and the migration CLI so both resolve the same locations.
+ */
+
+import path from 'path';
+import { NEO4J_ENV_VARS, SQLITE_ENV_VARS, CACHE_ENV_VARS, CACHE_DEFAULTS, RETENTION_ENV_VARS, TRASH_DEFAULTS } from './storage-config.js';
+import { Neo4jConfig } from './neo4j-storage-adapter.js';
+
+export const MEMORY_DIR_ENV_VAR = 'MEMORY_DIR_PATH';
+
+/**
+ * Resolve the memory directory from MEMORY_DIR_PATH
+ * Relative paths are resolved against baseDir; the default is baseDir/memory-data
+ */
+export function resolveMemoryDir(baseDir: string): string {
+  const memoryDir = process.env[MEMORY_DIR_ENV_VAR];
+  if (!memoryDir) {
+    return path.join(baseDir, 'memory-data');
+  }
+  return path.isAbsolute(memoryDir) ? memoryDir : path.join(baseDir, memoryDir);
+}
+
+/**
+ * Get Neo4j configuration from environment variables.
+ * Returns null unless the URI, username and password are all set.
+ */
+export function getNeo4jConfig(): Neo4jConfig | null {
+  const uri = process.env[NEO4J_ENV_VARS.URI];
+  const username = process.env[NEO4J_ENV_VARS.USERNAME];
+  const password = process.env[NEO4J_ENV_VARS.PASSWORD];
+  const database = process.env[NEO4J_ENV_VARS.DATABASE];
+
+  if (!uri || !username || !password) {
+    return null;
+  }
+
+  return { uri, username, password, database };
+}
+
+/**
+ * Get the SQLite database path from environment variables.
+ * Relative paths are resolved against the memory directory.
+ */
+export function getSqlitePath(memoryDirPath: string): string | null {
+  const sqlitePath = process.env[SQLITE_ENV_VARS.PATH];
+  if (!sqlitePath) {
+    return null;
+  }
+  return path.isAbsolute(sqlitePath) ? sqlitePath : path.join(memoryDirPath, sqlitePath);
+}
+
+/**
+ * Get the storage cache TTL from environment variables.
+ * Returns 0, meaning no cache, when MEMORY_CACHE_TTL_MS is set to 0.
+ */
+export function getCacheTtlMs(): number {
+  const value = process.env[CACHE_ENV_VARS.TTL_MS];
+  if (value === undefined || value.trim() === '') {
+    return CACHE_DEFAULTS.TTL_MS;
+  }
+  const ttlMs = Number(value);
+  return Number.isFinite(ttlMs) && ttlMs >= 0 ? ttlMs : CACHE_DEFAULTS.TTL_MS;
+}
+
+/**
+ * Get the retention policy from environment variables.
+ * Returns null, meaning threads are never archived automatically, unless
+ * MEMORY_ARCHIVE_AFTER_DAYS is a positive number.
+ */
+export function getArchiveAfterDays(): number | null {
+  const value = process.env[RETENTION_ENV_VARS.ARCHIVE_AFTER_DAYS];
+  if (value === undefined || value.trim() === '') {
+    return null;
+  }
+  const days = Number(value);
+  return Number.isFinite(days) && days > 0 ? days : null;
+}
+
+/**
+ * Get how long deleted items stay in the trash from environment variables.
+ * Returns null, meaning the trash is never purged automatically, when
+ * MEMORY_TRASH_RETENTION_DAYS is set to 0.
+ */
+export function getTrashRetentionDays(): number | null {
+  const value = process.env[RETENTION_ENV_VARS.TRASH_RETENTION_DAYS];
+  if (value === undefined || value.trim() === '') {
+    return TRASH_DEFAULTS.RETENTION_DAYS;
+  }
+  const days = Number(value);
+  if (!Number.isFinite(days) || days < 0) {
+    return TRASH_DEFAULTS.RETENTION_DAYS;
+  }
+  return days === 0 ? null : days;
+}
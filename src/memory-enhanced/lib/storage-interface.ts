@@ -3,10 +3,26 @@
  * This allows for different storage backends (JSONL, Neo4j, etc.)
  */
 
-import { KnowledgeGraph } from './types.js';
+import {
+  Entity,
+  Relation,
+  Observation,
+  KnowledgeGraph,
+  EmbeddingRecord,
+  TrashItem,
+  AuditEntry,
+  AuditLogFilter,
+  RelationPath,
+  SearchResult,
+  GetAnalyticsOutput
+} from './types.js';
 
 /**
  * Interface for storage operations on the knowledge graph
+ *
+ * Graph and thread writes log their changes: inside an audit recording scope, a write
+ * builds its audit entries with the builders of audit/audit-entries.ts from the stored
+ * state it replaces, and stores them in the same commit or transaction as the change.
  */
 export interface IStorageAdapter {
   /**
@@ -21,8 +37,276 @@ export interface IStorageAdapter {
    */
   saveGraph(graph: KnowledgeGraph): Promise<void>;
 
+  /**
+   * Load the entities and relations that belong to a single thread
+   * @param threadId The thread to load
+   * @returns Promise resolving to the thread's part of the knowledge graph
+   */
+  loadThreadGraph(threadId: string): Promise<KnowledgeGraph>;
+
+  /**
+   * Replace the entities and relations of a single thread in one commit, leaving other threads untouched
+   * An empty graph empties the thread; its embedding vectors and trash are kept
+   * @param threadId The thread to replace
+   * @param graph The thread's new entities and relations, all with the thread's agentThreadId
+   * @throws Error if the thread is archived or the graph holds data of another thread
+   */
+  saveThreadGraph(threadId: string, graph: KnowledgeGraph): Promise<void>;
+
+  /**
+   * List the IDs of all threads that hold entities or relations
+   * @returns Promise resolving to the thread IDs
+   */
+  listThreadIds(): Promise<string[]>;
+
+  /**
+   * Insert an entity, or replace the entity with the same name in its thread
+   * @param entity The entity to write (its agentThreadId selects the thread)
+   */
+  upsertEntity(entity: Entity): Promise<void>;
+
+  /**
+   * Delete an entity together with the relations of its thread that reference it
+   * @param threadId The thread that owns the entity
+   * @param entityName Name of the entity to delete
+   */
+  deleteEntity(threadId: string, entityName: string): Promise<void>;
+
+  /**
+   * Rename an entity in one commit: the entity is replaced by its renamed version and the
+   * relations of its thread from or to it are changed to the new name
+   * @param threadId The thread that owns the entity
+   * @param entityName Current name of the entity
+   * @param renamed The entity as stored under its new name
+   * @throws Error if the entity does not exist in the thread or the new name is taken
+   */
+  renameEntity(threadId: string, entityName: string, renamed: Entity): Promise<void>;
+
+  /**
+   * Append an observation to an existing entity and bump the entity timestamp
+   * @param threadId The thread that owns the entity
+   * @param entityName Name of the entity to append to
+   * @param observation The observation to append
+   * @throws Error if the entity does not exist in the thread
+   */
+  appendObservation(threadId: string, entityName: string, observation: Observation): Promise<void>;
+
+  /**
+   * Insert a relation, or replace the relation with the same (from, to, relationType) in its thread
+   * @param relation The relation to write (its agentThreadId selects the thread)
+   */
+  upsertRelation(relation: Relation): Promise<void>;
+
+  /**
+   * Delete the relation matching (from, to, relationType) in its thread
+   * @param relation The relation to delete (its agentThreadId selects the thread)
+   */
+  deleteRelation(relation: Relation): Promise<void>;
+
+  /**
+   * Load the stored embedding vectors of a thread
+   * @param threadId The thread to load
+   * @returns Promise resolving to the thread's embedding records (empty if none were saved)
+   */
+  loadEmbeddings(threadId: string): Promise<EmbeddingRecord[]>;
+
+  /**
+   * Replace the stored embedding vectors of a thread
+   * @param threadId The thread that owns the vectors
+   * @param records The complete set of records for the thread
+   */
+  saveEmbeddings(threadId: string, records: EmbeddingRecord[]): Promise<void>;
+
+  /**
+   * Load the trash of a thread: entities, relations and observations it deleted
+   * @param threadId The thread to load
+   * @returns Promise resolving to the thread's trash items (empty if nothing was deleted)
+   */
+  loadTrash(threadId: string): Promise<TrashItem[]>;
+
+  /**
+   * Add items to the trash of a thread; items with the ID of an item already in the trash replace it
+   * @param threadId The thread that deleted the items
+   * @param items The items to add
+   */
+  addToTrash(threadId: string, items: TrashItem[]): Promise<void>;
+
+  /**
+   * Permanently remove items from the trash of a thread; unknown IDs are ignored
+   * @param threadId The thread that owns the trash
+   * @param itemIds IDs of the items to remove
+   */
+  removeFromTrash(threadId: string, itemIds: string[]): Promise<void>;
+
+  /**
+   * Append entries to the audit log
+   * The log is append-only: entries are never changed or removed, and they outlive the
+   * threads they describe (renamed and deleted threads keep their entries)
+   * @param entries The entries to append, in the order the changes were made
+   */
+  appendAuditEntries(entries: AuditEntry[]): Promise<void>;
+
+  /**
+   * Load audit log entries, most recent first
+   * @param filter Restricts the entries returned (see AuditLogFilter); all entries when omitted
+   */
+  loadAuditLog(filter?: AuditLogFilter): Promise<AuditEntry[]>;
+
+  /**
+   * List the IDs of archived threads
+   * Archived threads are kept in storage but are not listed by listThreadIds() or read by any load
+   * @returns Promise resolving to the archived thread IDs
+   */
+  listArchivedThreadIds(): Promise<string[]>;
+
+  /**
+   * Move a thread's entities, relations, embedding vectors and trash to a new thread ID
+   * Observations the thread wrote move with it; observations written by other threads keep their agentThreadId
+   * @param threadId The thread to rename
+   * @param newThreadId The new ID
+   * @throws Error if the thread does not exist, or an active or archived thread already uses the new ID
+   */
+  renameThread(threadId: string, newThreadId: string): Promise<void>;
+
+  /**
+   * Move a thread to archive storage; its embedding vectors are dropped and its trash is kept
+   * @param threadId The thread to archive
+   * @throws Error if the thread does not exist or is already archived
+   */
+  archiveThread(threadId: string): Promise<void>;
+
+  /**
+   * Move an archived thread back to active storage
+   * @param threadId The thread to restore
+   * @throws Error if the thread is not archived, or an active thread uses its ID
+   */
+  restoreThread(threadId: string): Promise<void>;
+
+  /**
+   * Delete a thread, active or archived, with its embedding vectors and trash
+   * @param threadId The thread to delete
+   * @throws Error if the thread neither exists nor is archived
+   */
+  deleteThread(threadId: string): Promise<void>;
+
   /**
    * Initialize the storage (create directories, connections, etc.)
    */
   initialize(): Promise<void>;
 }
+
+/**
+ * Optional capability: cheap change detection, used by CachingStorageAdapter
+ * Storages without it are cached for a fixed time instead
+ */
+export interface IChangeTrackingStorage {
+  /**
+   * Get a token that changes whenever the thread's stored data changes
+   * Must be much cheaper than loading the thread
+   * @param threadId The thread to check
+   */
+  getThreadVersion(threadId: string): Promise<string>;
+
+  /**
+   * Get a token that changes whenever a thread is created or removed
+   */
+  getThreadListVersion(): Promise<string>;
+}
+
+/**
+ * Check whether a storage adapter can report changes cheaply
+ */
+export function supportsChangeTracking(storage: IStorageAdapter): storage is IStorageAdapter & IChangeTrackingStorage {
+  const candidate = storage as Partial<IChangeTrackingStorage>;
+  return typeof candidate.getThreadVersion === 'function' && typeof candidate.getThreadListVersion === 'function';
+}
+
+/**
+ * Optional capability: graph queries answered by the storage itself
+ * Storages without it are queried by loading the thread graph and traversing it in memory.
+ * Implementations must return the same results as the in-memory services in lib/analysis and lib/queries.
+ */
+export interface IGraphQueryStorage {
+  /**
+   * Find the shortest path between two entities, following relations in either direction
+   * @param threadId Only relations of this thread are followed
+   * @param from Start entity name or alias
+   * @param to End entity name or alias
+   * @param maxDepth Maximum number of relations on the path
+   */
+  findRelationPath(threadId: string, from: string, to: string, maxDepth: number): Promise<RelationPath>;
+
+  /**
+   * Get the entities within a number of relations of the given entities, and the relations between them
+   * @param threadId Only this thread's entities and relations are returned
+   * @param entityNames Names or aliases of the entities to start from
+   * @param depth Maximum number of relations from a start entity
+   */
+  getContext(threadId: string, entityNames: string[], depth: number): Promise<KnowledgeGraph>;
+
+  /**
+   * Compute the get_analytics metrics of a thread
+   * @param threadId The thread to analyze
+   */
+  getAnalytics(threadId: string): Promise<GetAnalyticsOutput>;
+
+  /**
+   * Ranked full-text search over entity names, aliases, types and observation content
+   * @param threadId The thread to search
+   * @param query Query in the search_nodes syntax (see search/query-parser.ts)
+   */
+  searchNodes(threadId: string, query: string): Promise<SearchResult>;
+}
+
+/**
+ * Check whether a storage adapter answers graph queries natively
+ */
+export function supportsGraphQueries(storage: IStorageAdapter): storage is IStorageAdapter & IGraphQueryStorage {
+  const candidate = storage as Partial<IGraphQueryStorage>;
+  return typeof candidate.findRelationPath === 'function' &&
+         typeof candidate.getContext === 'function' &&
+         typeof candidate.getAnalytics === 'function' &&
+         typeof candidate.searchNodes === 'function';
+}
+
+/**
+ * Implemented by adapters that wrap another adapter (cache, search index),
+ * so optional capabilities of the wrapped adapter can still be found
+ */
+export interface IStorageDecorator {
+  getWrappedStorage(): IStorageAdapter;
+}
+
+function isStorageDecorator(storage: IStorageAdapter): storage is IStorageAdapter & IStorageDecorator {
+  return typeof (storage as Partial<IStorageDecorator>).getWrappedStorage === 'function';
+}
+
+/**
+ * Find the adapter that answers graph queries natively, looking through decorators
+ * Returns null if no adapter in the chain supports them
+ */
+export function findGraphQueryStorage(storage: IStorageAdapter): IGraphQueryStorage | null {
+  let current: IStorageAdapter | null = storage;
+  while (current) {
+    if (supportsGraphQueries(current)) {
+      return current;
+    }
+    current = isStorageDecorator(current) ? current.getWrappedStorage() : null;
+  }
+  return null;
+}
+
+/**
+ * Find the adapter that reports changes cheaply, looking through decorators
+ * Returns null if no adapter in the chain supports change tracking
+ */
+export function findChangeTrackingStorage(storage: IStorageAdapter): IChangeTrackingStorage | null {
+  let current: IStorageAdapter | null = storage;
+  while (current) {
+    if (supportsChangeTracking(current)) {
+      return current;
+    }
+    current = isStorageDecorator(current) ? current.getWrappedStorage() : null;
+  }
+  return null;
+}
@@ -25,7 +25,9 @@ export interface Entity {
   timestamp: string;
   confidence: number;
   importance: number; // 0-1: importance for memory integrity (0=not important, 1=critical)
+  aliases?: string[];      // Alternate names the entity is also known by (e.g. names of entities merged into it)
   status?: 'ARCHIVED';     // Status indicator - set to 'ARCHIVED' for low-importance items
+  workspace?: string;      // Shared workspace the entity was read from (set by read tools, never stored)
 }
 
 // Enhanced relation with metadata
@@ -38,6 +40,7 @@ export interface Relation {
   confidence: number;
   importance: number; // 0-1: importance for memory integrity (0=not important, 1=critical)
   status?: 'ARCHIVED';     // Status indicator - set to 'ARCHIVED' for low-importance items
+  workspace?: string;      // Shared workspace the relation was read from (set by read tools, never stored)
 }
 
 export interface KnowledgeGraph {
@@ -45,6 +48,248 @@ export interface KnowledgeGraph {
   relations: Relation[];
 }
 
+// Types for ranked search_nodes results
+export interface ObservationMatch {
+  observationId: string;
+  snippet: string;        // Excerpt of the observation around the first matched term
+}
+
+export interface SearchHit extends Entity {
+  score: number;          // Relevance score (higher is better, not normalized)
+  matches: ObservationMatch[];
+}
+
+export interface SearchResult {
+  entities: SearchHit[];  // Ordered by descending score
+  relations: Relation[];
+}
+
+// Result of find_relation_path
+export interface RelationPath {
+  found: boolean;
+  path: string[];         // Entity names from start to end
+  relations: Relation[];  // Relations along the path, in their stored direction
+}
+
+// Stored embedding vector for an entity header (name and type) or one observation
+export interface EmbeddingRecord {
+  entityName: string;
+  observationId?: string;  // Omitted for the entity header
+  model: string;           // ID of the embedding provider that produced the vector
+  contentHash: string;     // Hash of the embedded text, used to detect stale vectors
+  vector: number[];
+}
+
+// Types for semantic_search tool
+export interface SemanticObservationMatch {
+  id: string;
+  content: string;
+  similarity: number;
+  status?: 'ARCHIVED';
+}
+
+export interface SemanticEntityMatch {
+  name: string;
+  entityType: string;
+  similarity: number;      // Best similarity of the entity header or any of its observations
+  status?: 'ARCHIVED';
+  observations: SemanticObservationMatch[];  // Ordered by descending similarity
+}
+
+export interface SemanticSearchResult {
+  entities: SemanticEntityMatch[];  // Ordered by descending similarity
+}
+
+// Types for export_graph / import_graph tools
+export interface GraphExport {
+  format: string;
+  entityCount: number;
+  relationCount: number;
+  data: string;            // The serialized graph
+}
+
+export interface GraphImportResult {
+  format: string;
+  importedEntities: number;
+  importedRelations: number;
+  threadIds: string[];     // Threads that received data
+}
+
+// Types for storage migration (migrate_storage tool and migration CLI)
+export interface MigrationCounts {
+  entities: number;
+  relations: number;
+  observations: number;
+}
+
+export interface ThreadMigrationReport {
+  threadId: string;
+  // planned: dry run; skipped: completed by an earlier run; failed: verification found items missing
+  status: 'planned' | 'migrated' | 'skipped' | 'failed';
+  source: MigrationCounts;
+  target?: MigrationCounts;   // Source items found in the target after copying
+  existingEntities?: number;  // Dry run: source entities already in the target thread (would be replaced)
+}
+
+export interface MigrationReport {
+  dryRun: boolean;
+  resumed: boolean;           // True if threads completed by an earlier run were skipped
+  verified: boolean;          // True if every copied thread passed verification
+  totals: MigrationCounts;    // Source counts over all threads
+  threads: ThreadMigrationReport[];
+}
+
+export interface CacheStats {
+  hits: number;
+  misses: number;
+  hitRate: number;        // hits / (hits + misses), 0 before the first read
+  invalidations: number;  // Cached threads dropped because they were written, changed or expired
+  cachedThreads: number;
+}
+
+// Types for shared workspaces (publish_memory, subscribe_workspace, list_workspaces tools)
+export interface PublishResult {
+  workspace: string;
+  publishedEntities: number;
+  publishedRelations: number;  // Relations of the thread between published entities
+}
+
+export interface WorkspaceSummary {
+  name: string;
+  entityCount: number;
+  relationCount: number;
+  subscribers: string[];      // Threads that read the workspace
+}
+
+// Types for fork_thread, merge_threads and copy_entities_to_thread
+export interface EntityNameClash {
+  entityName: string;
+  targetEntityType: string;
+  sourceEntityType: string;  // Differs from targetEntityType when the clash is a likely mismatch
+  addedObservations: number;
+  skippedObservations: number;  // Already in the target (same ID or same content)
+}
+
+export interface ThreadMergeReport {
+  sourceThreadId: string;
+  targetThreadId: string;
+  createdEntities: string[];   // Entities that did not exist in the target
+  clashes: EntityNameClash[];  // Entities that existed in both threads and were combined
+  addedRelations: number;
+  duplicateRelations: number;  // Source relations the target already had
+  sourceDeleted: boolean;
+}
+
+// Types for thread lifecycle tools (rename_thread, archive_thread, restore_thread, delete_thread, apply_retention_policy)
+export interface ThreadPresence {
+  active: boolean;    // The thread holds entities or relations
+  archived: boolean;  // The thread is in archive storage
+}
+
+export interface InactiveThread {
+  threadId: string;
+  lastUpdated: string;        // Latest entity, observation or relation timestamp of the thread
+}
+
+export interface RetentionReport {
+  archiveAfterDays: number;
+  cutoff: string;              // Threads with no writes since this time were selected
+  archivedThreads: InactiveThread[];
+  dryRun: boolean;             // Threads were only selected, not archived
+}
+
+// Types for the trash (list_trash, restore_from_trash, empty_trash tools)
+export interface TrashItem {
+  id: string;                  // Derived from the deleted data, so a re-run deletion does not trash it twice
+  kind: 'entity' | 'relation' | 'observation';
+  deletedAt: string;           // ISO 8601 timestamp
+  reason: string;              // Given by the caller, or the name of the tool that deleted the item
+  entity?: Entity;             // kind 'entity': the entity with its observations
+  relations?: Relation[];      // kind 'entity': relations of the thread deleted with the entity
+  relation?: Relation;         // kind 'relation'
+  entityName?: string;         // kind 'observation': entity the observation was deleted from
+  observation?: Observation;   // kind 'observation'
+}
+
+export interface TrashRestoreResult {
+  restoredItems: string[];     // IDs of the restored trash items
+  restoredEntities: number;
+  restoredRelations: number;
+  restoredObservations: number;
+}
+
+// Types for snapshots (create_snapshot, list_snapshots, diff_snapshot, restore_snapshot tools)
+export interface SnapshotInfo {
+  id: string;
+  label: string;
+  createdAt: string;           // ISO 8601 timestamp
+  threadId?: string;           // Thread the snapshot covers; omitted for the full graph
+  entityCount: number;
+  relationCount: number;
+}
+
+export interface EntityChange {
+  name: string;
+  agentThreadId: string;
+  changedFields: string[];        // Entity fields with a different value (entityType, confidence, ...)
+  addedObservations: string[];    // IDs of observations added since the snapshot
+  removedObservations: string[];  // IDs of observations removed since the snapshot
+  changedObservations: string[];  // IDs of observations stored with different content or version links
+}
+
+export interface SnapshotDiff {
+  snapshot: SnapshotInfo;
+  addedEntities: { name: string; agentThreadId: string }[];    // Entities created since the snapshot
+  removedEntities: { name: string; agentThreadId: string }[];  // Entities deleted since the snapshot
+  changedEntities: EntityChange[];
+  addedRelations: Relation[];
+  removedRelations: Relation[];
+}
+
+// Types for the audit log (get_audit_log tool)
+export type AuditOperation =
+  | 'create_entity' | 'update_entity' | 'delete_entity' | 'rename_entity'
+  | 'create_relation' | 'update_relation' | 'delete_relation'
+  | 'rename_thread' | 'archive_thread' | 'restore_thread' | 'delete_thread';
+
+export interface AuditEntry {
+  id: string;
+  timestamp: string;            // ISO 8601 time of the change
+  tool?: string;                // Tool whose call made the change; omitted for changes outside a tool call
+  threadId: string;             // Thread whose data changed
+  operation: AuditOperation;
+  entityName?: string;          // Entity operations; rename_entity: the name before the rename
+  newEntityName?: string;       // rename_entity; the relations of the thread from or to the entity follow it
+  relation?: { from: string; to: string; relationType: string };  // Relation operations
+  before?: Entity | Relation;   // Stored state before the change; omitted when the item was created
+  after?: Entity | Relation;    // Stored state after the change; omitted when the item was deleted
+  changedFields?: string[];     // Updates: fields that differ between before and after
+  newThreadId?: string;         // rename_thread
+}
+
+export interface AuditLogFilter {
+  threadId?: string;
+  tool?: string;
+  entityName?: string;          // Matches entity operations and relations from or to the entity; a renamed entity also matches its new name
+  since?: string;               // ISO 8601 timestamps, inclusive
+  until?: string;
+  limit?: number;               // Most recent entries first
+}
+
+export interface CorruptLine {
+  file: string;               // Thread file, relative to the memory directory
+  line: number;               // 1-based line number
+  reason: 'malformed-json' | 'missing-fields';
+  content: string;            // The line, shortened for the report; the full line is quarantined
+}
+
+export interface StorageRecoveryReport {
+  walBatchesReplayed: number;   // Writes interrupted by a crash and completed on startup
+  walRecordsDiscarded: number;  // Log records torn by a crash; their writes never started
+  tempFilesRemoved: number;     // Leftovers of interrupted atomic writes
+  corruptLines: CorruptLine[];  // Lines skipped when reading thread files
+}
+
 // Types for save_memory tool (Section 1 of spec)
 export interface SaveMemoryEntity {
   name: string;
@@ -57,6 +302,7 @@ export interface SaveMemoryEntity {
   }>;
   confidence?: number;
   importance?: number;
+  aliases?: string[];
 }
 
 export interface SaveMemoryInput {
@@ -128,6 +374,35 @@ export interface GetAnalyticsOutput {
   }>;
 }
 
+// Types for find_duplicate_entities tool
+export interface DuplicatePair {
+  entityNames: [string, string];
+  score: number;               // 0-1: name similarity, raised by observation overlap
+  nameSimilarity: number;      // 0-1: best match between the names and aliases of the two entities
+  observationOverlap: number;  // 0-1: share of observation words in common; 0 when either has no observations
+}
+
+export interface DuplicateGroup {
+  entityNames: string[];   // Likely duplicates of each other, suggested canonical entity first
+  pairs: DuplicatePair[];  // Pairs that linked the group, highest score first
+}
+
+// Types for rename_entity tool
+export interface RenameEntityResult {
+  entity: Entity;              // The entity under its new name
+  previousName: string;
+  updatedRelations: number;    // Relations whose from or to was changed to the new name
+}
+
+// Types for merge_entities tool
+export interface MergeEntitiesResult {
+  entity: Entity;              // The canonical entity after the merge
+  mergedEntities: string[];    // Names now kept as its aliases
+  movedObservations: number;
+  rewiredRelations: number;
+  droppedRelations: number;    // Relations that would have become self-references or duplicates
+}
+
 // Types for get_observation_history tool (Observation Versioning section of spec)
 export interface GetObservationHistoryInput {
   entityName: string;
@@ -137,3 +412,39 @@ export interface GetObservationHistoryInput {
 export interface GetObservationHistoryOutput {
   history: Observation[];  // Full version chain
 }
+
+// Types for diff_observation_versions tool
+export interface WordDiffSegment {
+  type: 'equal' | 'added' | 'removed';
+  text: string;  // Words of the segment, separated by single spaces
+}
+
+export interface ObservationVersionDiff {
+  from: Observation;
+  to: Observation;
+  changes: WordDiffSegment[];  // Word-level diff from the content of `from` to that of `to`
+}
+
+// Types for get_entity_history tool
+export type EntityHistoryChange =
+  | 'entity_created' | 'entity_updated' | 'entity_deleted' | 'entity_renamed'
+  | 'observation_added' | 'observation_updated' | 'observation_deleted'
+  | 'relation_created' | 'relation_updated' | 'relation_removed';
+
+export interface FieldChange {
+  field: string;
+  before?: string | number | string[];
+  after?: string | number | string[];
+}
+
+export interface EntityHistoryEvent {
+  timestamp: string;                 // ISO 8601 time of the change
+  tool?: string;                     // Tool whose call made the change
+  change: EntityHistoryChange;
+  version: number;                   // Version of the entity or relation after the change, starting at 1
+  entity?: Entity;                   // entity_created / entity_deleted: the entity as created or deleted
+  fieldChanges?: FieldChange[];      // entity_updated / entity_renamed / relation_updated
+  observation?: Observation;         // Observation added or deleted, or the new version of an updated one
+  previousObservation?: Observation; // observation_updated: the version it replaced
+  relation?: Relation;               // Relation changes: the relation as created, updated or removed
+}
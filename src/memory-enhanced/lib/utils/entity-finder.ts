@@ -19,6 +19,30 @@ export function findEntity(graph: KnowledgeGraph, entityName: string): Entity {
   return entity;
 }
 
+/**
+ * Check, inside the write that renames it, that an entity can be renamed.
+ * @param threadId - Thread that owns the entity
+ * @param entityName - Current name of the entity
+ * @param newName - Name to rename it to
+ * @param entity - The stored entity with the current name, if any
+ * @param newNameTaken - Whether an entity with the new name is stored in the thread
+ * @throws Error if the entity is not found or the new name is taken
+ */
+export function checkCanRenameEntity(
+  threadId: string,
+  entityName: string,
+  newName: string,
+  entity: Entity | undefined,
+  newNameTaken: boolean
+): asserts entity is Entity {
+  if (!entity) {
+    throw new Error(`Entity '${entityName}' not found`);
+  }
+  if (newNameTaken) {
+    throw new Error(`Entity '${newName}' already exists in thread '${threadId}'`);
+  }
+}
+
 /**
  * Find an observation by ID within an entity.
  * @param entity - The entity containing the observation
@@ -33,3 +57,56 @@ export function findObservation(entity: Entity, observationId: string): Observat
   }
   return observation;
 }
+
+/**
+ * Map the aliases of entities to the names of the entities they belong to.
+ * Names take precedence: an alias that is also the name of one of the entities is left out,
+ * so it never hides that entity. If several entities share an alias, the first one keeps it.
+ * @param entities - Entities whose aliases to index
+ * @returns Map from alias to entity name
+ */
+export function buildAliasIndex(entities: Array<{ name: string; aliases?: string[] }>): Map<string, string> {
+  const names = new Set(entities.map(e => e.name));
+  const index = new Map<string, string>();
+  for (const entity of entities) {
+    for (const alias of entity.aliases ?? []) {
+      if (!names.has(alias) && !index.has(alias)) {
+        index.set(alias, entity.name);
+      }
+    }
+  }
+  return index;
+}
+
+/**
+ * Add the aliases of more entities to an alias index, keeping the existing mappings.
+ * The names of the added entities take precedence over any alias, as in buildAliasIndex.
+ * @param index - Alias index to extend (not modified)
+ * @param entities - Entities whose names and aliases to add
+ * @returns The extended alias index
+ */
+export function extendAliasIndex(
+  index: Map<string, string>,
+  entities: Array<{ name: string; aliases?: string[] }>
+): Map<string, string> {
+  const extended = new Map(index);
+  for (const [alias, name] of buildAliasIndex(entities)) {
+    if (!extended.has(alias)) {
+      extended.set(alias, name);
+    }
+  }
+  entities.forEach(e => extended.delete(e.name));
+  return extended;
+}
+
+/**
+ * Resolve names that may be aliases to the names of the entities they belong to.
+ * Entity names and unknown names are returned unchanged.
+ * @param entities - Entities to resolve against
+ * @param names - Entity names or aliases
+ * @returns The resolved names, in the same order
+ */
+export function resolveEntityNames(entities: Array<{ name: string; aliases?: string[] }>, names: string[]): string[] {
+  const aliases = buildAliasIndex(entities);
+  return names.map(name => aliases.get(name) ?? name);
+}
@@ -0,0 +1,17 @@
+/**
+ * Type guard for errors raised by file system calls
+ */
+
+/**
+ * Represents a file system error with a code property
+ */
+export interface FileSystemError extends Error {
+  code: string;
+}
+
+/**
+ * Type guard to check if an error is a FileSystemError
+ */
+export function isFileSystemError(error: unknown): error is FileSystemError {
+  return error instanceof Error && 'code' in error;
+}
@@ -0,0 +1,120 @@
+/**
+ * Optimistic concurrency for read-modify-write operations
+ *
+ * Operations run inside a revision scope. Storage adapters that version their threads
+ * record the revision a thread had when the operation first read it, and check it again
+ * before each write. If another process wrote the thread in between, the write fails with
+ * a revision conflict and the whole operation runs again from a fresh read, unless it has
+ * already committed a write: re-running it would apply those changes twice, so the conflict
+ * is reported instead. Adapters without revisions ignore the scope.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { JSONL_ERROR_MESSAGES } from '../storage-config.js';
+
+/**
+ * Attempts after the first one before a conflict is reported to the caller
+ */
+export const MAX_CONFLICT_RETRIES = 3;
+const RETRY_BACKOFF_MS = 20;
+
+export const REVISION_CONFLICT_CODE = 'EREVISIONCONFLICT';
+
+/**
+ * Error thrown when a thread changed since the current operation read it
+ */
+export interface RevisionConflictError extends Error {
+  code: typeof REVISION_CONFLICT_CODE;
+  threadId: string;
+}
+
+export function isRevisionConflictError(error: unknown): error is RevisionConflictError {
+  return error instanceof Error && 'code' in error && error.code === REVISION_CONFLICT_CODE;
+}
+
+interface RevisionScope {
+  revisions: Map<string, number>;
+  committed: boolean;  // Whether the operation has written anything yet
+}
+
+const scopes = new AsyncLocalStorage<RevisionScope>();
+
+/**
+ * Check whether the caller runs inside a write operation's revision scope
+ * Caches must read through to storage there, so the revision is recorded
+ */
+export function isInRevisionScope(): boolean {
+  return scopes.getStore() !== undefined;
+}
+
+/**
+ * Record the revision of a thread read by the current operation
+ * Only the first read counts: later writes must still be based on what the operation saw first
+ */
+export function observeRevision(threadId: string, revision: number): void {
+  const scope = scopes.getStore();
+  if (scope && !scope.revisions.has(threadId)) {
+    scope.revisions.set(threadId, revision);
+  }
+}
+
+/**
+ * Throw a revision conflict if the thread changed since the current operation read it
+ */
+export function checkRevision(threadId: string, currentRevision: number): void {
+  const expected = scopes.getStore()?.revisions.get(threadId);
+  if (expected !== undefined && expected !== currentRevision) {
+    const error = new Error(
+      `Thread ${threadId} ${JSONL_ERROR_MESSAGES.REVISION_CONFLICT} (expected revision ${expected}, found ${currentRevision})`
+    ) as RevisionConflictError;
+    error.code = REVISION_CONFLICT_CODE;
+    error.threadId = threadId;
+    throw error;
+  }
+}
+
+/**
+ * Record the revision written by the current operation, so its next write to the thread is accepted
+ */
+export function advanceRevision(threadId: string, revision: number): void {
+  scopes.getStore()?.revisions.set(threadId, revision);
+}
+
+/**
+ * Record that the current operation committed a write, so it is no longer re-run on conflicts
+ */
+export function recordCommit(): void {
+  const scope = scopes.getStore();
+  if (scope) {
+    scope.committed = true;
+  }
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Run an operation in a revision scope, re-running it on revision conflicts that happen
+ * before its first write
+ * Nested calls join the outer scope, which owns the retries
+ */
+export async function withRevisionCheck<T>(operation: () => Promise<T>): Promise<T> {
+  if (scopes.getStore()) {
+    return operation();
+  }
+
+  for (let attempt = 0; ; attempt++) {
+    const scope: RevisionScope = { revisions: new Map(), committed: false };
+    try {
+      return await scopes.run(scope, operation);
+    } catch (error) {
+      if (!isRevisionConflictError(error)) throw error;
+      if (scope.committed) {
+        throw new Error(`${JSONL_ERROR_MESSAGES.CONFLICT_AFTER_WRITE}: ${error.message}`);
+      }
+      if (attempt >= MAX_CONFLICT_RETRIES) {
+        throw new Error(`${JSONL_ERROR_MESSAGES.RETRIES_EXHAUSTED}: ${error.message}`);
+      }
+      await sleep(RETRY_BACKOFF_MS * (attempt + 1) * (1 + Math.random()));
+    }
+  }
+}
@@ -0,0 +1,89 @@
+/**
+ * Preconditions of the thread lifecycle methods of IStorageAdapter
+ * Every adapter checks them inside its own write (lock or transaction), so they all fail
+ * with the same messages.
+ */
+
+import { KnowledgeGraph, ThreadPresence } from '../types.js';
+import { THREAD_ERROR_MESSAGES } from '../storage-config.js';
+
+function threadError(threadId: string, message: string): Error {
+  return new Error(`Thread ${threadId} ${message}`);
+}
+
+/**
+ * @throws Error unless the thread is active and the new ID is unused
+ */
+export function checkCanRename(threadId: string, source: ThreadPresence, newThreadId: string, target: ThreadPresence): void {
+  if (!source.active) {
+    throw threadError(threadId, THREAD_ERROR_MESSAGES.NOT_FOUND);
+  }
+  if (target.active) {
+    throw threadError(newThreadId, THREAD_ERROR_MESSAGES.ALREADY_EXISTS);
+  }
+  if (target.archived) {
+    throw threadError(newThreadId, THREAD_ERROR_MESSAGES.ALREADY_ARCHIVED);
+  }
+}
+
+/**
+ * @throws Error unless the thread is active and has no archived copy
+ */
+export function checkCanArchive(threadId: string, presence: ThreadPresence): void {
+  if (!presence.active) {
+    throw threadError(threadId, THREAD_ERROR_MESSAGES.NOT_FOUND);
+  }
+  if (presence.archived) {
+    throw threadError(threadId, THREAD_ERROR_MESSAGES.ALREADY_ARCHIVED);
+  }
+}
+
+/**
+ * @throws Error unless the thread is archived and its ID is not in active use
+ */
+export function checkCanRestore(threadId: string, presence: ThreadPresence): void {
+  if (!presence.archived) {
+    throw threadError(threadId, THREAD_ERROR_MESSAGES.NOT_ARCHIVED);
+  }
+  if (presence.active) {
+    throw threadError(threadId, THREAD_ERROR_MESSAGES.ALREADY_EXISTS);
+  }
+}
+
+/**
+ * @throws Error if there is nothing to delete
+ */
+export function checkCanDelete(threadId: string, presence: ThreadPresence): void {
+  if (!presence.active && !presence.archived) {
+    throw threadError(threadId, THREAD_ERROR_MESSAGES.NOT_FOUND);
+  }
+}
+
+/**
+ * @throws Error if the thread is archived, or the new graph holds data of another thread
+ */
+export function checkCanReplace(threadId: string, presence: ThreadPresence, graph: KnowledgeGraph): void {
+  if (presence.archived) {
+    throw threadError(threadId, THREAD_ERROR_MESSAGES.ALREADY_ARCHIVED);
+  }
+  if (graph.entities.some(e => e.agentThreadId !== threadId) || graph.relations.some(r => r.agentThreadId !== threadId)) {
+    throw threadError(threadId, THREAD_ERROR_MESSAGES.FOREIGN_DATA);
+  }
+}
+
+/**
+ * Copy of a thread's graph under a new thread ID, for adapters that rewrite the data on rename
+ * Observations written by other threads keep their agentThreadId
+ */
+export function renameThreadGraph(graph: KnowledgeGraph, threadId: string, newThreadId: string): KnowledgeGraph {
+  return {
+    entities: graph.entities.map(entity => ({
+      ...entity,
+      agentThreadId: newThreadId,
+      observations: entity.observations.map(observation => observation.agentThreadId === threadId
+        ? { ...observation, agentThreadId: newThreadId }
+        : observation)
+    })),
+    relations: graph.relations.map(relation => ({ ...relation, agentThreadId: newThreadId }))
+  };
+}
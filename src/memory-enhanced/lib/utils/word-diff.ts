@@ -0,0 +1,52 @@
+/**
+ * Word-level diff of two texts
+ */
+
+import { WordDiffSegment } from '../types.js';
+
+/**
+ * Diff two texts word by word, using the longest common subsequence of their words.
+ * Whitespace is not significant: words are compared as whitespace-separated tokens and
+ * consecutive words of a segment are joined with single spaces.
+ * @param before - Original text
+ * @param after - Changed text
+ * @returns Segments in order; removed words come before the words added in their place
+ */
+export function diffWords(before: string, after: string): WordDiffSegment[] {
+  const a = before.match(/\S+/g) ?? [];
+  const b = after.match(/\S+/g) ?? [];
+
+  // common[i][j] = length of the longest common subsequence of a[i..] and b[j..]
+  const common = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      common[i][j] = a[i] === b[j] ? common[i + 1][j + 1] + 1 : Math.max(common[i + 1][j], common[i][j + 1]);
+    }
+  }
+
+  const segments: WordDiffSegment[] = [];
+  const push = (type: WordDiffSegment['type'], word: string) => {
+    const last = segments[segments.length - 1];
+    if (last && last.type === type) {
+      last.text += ` ${word}`;
+    } else {
+      segments.push({ type, text: word });
+    }
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      push('equal', a[i]);
+      i++;
+      j++;
+    } else if (i < a.length && (j === b.length || common[i + 1][j] >= common[i][j + 1])) {
+      push('removed', a[i++]);
+    } else {
+      push('added', b[j++]);
+    }
+  }
+
+  return segments;
+}
@@ -7,6 +7,7 @@
 export { validateObservation } from './validation/observation-validator.js';
 export { normalizeEntityType } from './validation/entity-type-validator.js';
 export { validateEntityRelations, validateRelationTargets } from './validation/relation-validator.js';
+export { validateEntityAliases } from './validation/alias-validator.js';
 export { calculateQualityScore } from './validation/quality-scorer.js';
 export { validateSaveMemoryRequest } from './validation/request-validator.js';
 export type { SaveMemoryValidationResult } from './validation/request-validator.js';
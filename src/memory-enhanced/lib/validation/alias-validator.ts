@@ -0,0 +1,44 @@
+/**
+ * Entity alias validation
+ */
+
+import { ValidationResult, SaveMemoryEntity } from '../types.js';
+
+/**
+ * Validates that the aliases of an entity do not name another entity
+ * An alias must not be the name of another entity in the request or the thread,
+ * nor an alias another entity already has: either would make it ambiguous.
+ * @param entity The entity whose aliases to validate
+ * @param allEntityNames Set of entity names in the current request
+ * @param aliasIndex Aliases of the request and existing entities, mapped to the entity they resolve to
+ * @param existingEntityNames Optional set of entity names that already exist in storage
+ */
+export function validateEntityAliases(
+  entity: SaveMemoryEntity,
+  allEntityNames: Set<string>,
+  aliasIndex: Map<string, string>,
+  existingEntityNames?: Set<string>
+): ValidationResult {
+  for (const alias of entity.aliases ?? []) {
+    if (alias === entity.name) continue;
+
+    if (allEntityNames.has(alias) || existingEntityNames?.has(alias)) {
+      return {
+        valid: false,
+        error: `Alias '${alias}' is the name of another entity`,
+        suggestion: `Connect the two entities with a relation, or use merge_entities if they are the same thing`
+      };
+    }
+
+    const owner = aliasIndex.get(alias);
+    if (owner !== undefined && owner !== entity.name) {
+      return {
+        valid: false,
+        error: `Alias '${alias}' already refers to entity '${owner}'`,
+        suggestion: `Choose an alias that is not used by another entity`
+      };
+    }
+  }
+
+  return { valid: true };
+}
@@ -21,24 +21,28 @@ export function validateEntityRelations(entity: SaveMemoryEntity): ValidationRes
 
 /**
  * Validates that relation targets exist in the same request or in existing entities
+ * A target may also be an alias of one of those entities.
  * @param entity The entity whose relations to validate
  * @param allEntityNames Set of entity names in the current request
  * @param existingEntityNames Optional set of entity names that already exist in storage (for cross-thread references)
+ * @param aliasIndex Optional aliases of the request and existing entities, mapped to the entity they resolve to
  */
 export function validateRelationTargets(
   entity: SaveMemoryEntity, 
   allEntityNames: Set<string>,
-  existingEntityNames?: Set<string>
+  existingEntityNames?: Set<string>,
+  aliasIndex?: Map<string, string>
 ): ValidationResult {
   for (const relation of entity.relations) {
     const targetInCurrentBatch = allEntityNames.has(relation.targetEntity);
     const targetInExisting = existingEntityNames?.has(relation.targetEntity) ?? false;
+    const targetIsAlias = aliasIndex?.has(relation.targetEntity) ?? false;
     
-    if (!targetInCurrentBatch && !targetInExisting) {
+    if (!targetInCurrentBatch && !targetInExisting && !targetIsAlias) {
       return {
         valid: false,
         error: `Target entity '${relation.targetEntity}' not found in request or existing entities`,
-        suggestion: `targetEntity must reference another entity in the same save_memory call or an existing entity`
+        suggestion: `targetEntity must reference another entity in the same save_memory call or an existing entity, by name or alias`
       };
     }
   }
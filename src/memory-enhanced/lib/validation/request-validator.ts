@@ -6,6 +6,8 @@ import { SaveMemoryEntity } from '../types.js';
 import { validateObservation } from './observation-validator.js';
 import { normalizeEntityType } from './entity-type-validator.js';
 import { validateEntityRelations, validateRelationTargets } from './relation-validator.js';
+import { validateEntityAliases } from './alias-validator.js';
+import { extendAliasIndex } from '../utils/entity-finder.js';
 
 /**
  * Maximum length for observation preview in error messages
@@ -37,12 +39,14 @@ export interface SaveMemoryValidationResult {
  * @param entity Entity to validate (will be mutated to normalize entityType)
  * @param entityIndex Index of the entity in the request
  * @param entityNames Set of all entity names in the request
+ * @param aliasIndex Aliases of the request and existing entities, mapped to the entity they resolve to
  * @param existingEntityNames Optional set of existing entity names
  */
 function validateEntity(
   entity: SaveMemoryEntity,
   entityIndex: number,
   entityNames: Set<string>,
+  aliasIndex: Map<string, string>,
   existingEntityNames?: Set<string>
 ): {
   errors: Array<{
@@ -101,7 +105,7 @@ function validateEntity(
   }
   
   // Validate relation targets (now supports cross-thread references)
-  const targetResult = validateRelationTargets(entity, entityNames, existingEntityNames);
+  const targetResult = validateRelationTargets(entity, entityNames, existingEntityNames, aliasIndex);
   if (!targetResult.valid) {
     errors.push({
       entity: entity.name,
@@ -112,6 +116,18 @@ function validateEntity(
     });
   }
 
+  // Validate that aliases do not name other entities
+  const aliasResult = validateEntityAliases(entity, entityNames, aliasIndex, existingEntityNames);
+  if (!aliasResult.valid) {
+    errors.push({
+      entity: entity.name,
+      entityIndex: entityIndex,
+      entityType: entity.entityType,
+      error: aliasResult.error || 'Invalid alias',
+      suggestion: aliasResult.suggestion
+    });
+  }
+
   return { errors, warnings };
 }
 
@@ -119,10 +135,12 @@ function validateEntity(
  * Validates all aspects of a save_memory request
  * @param entities The entities to validate
  * @param existingEntityNames Optional set of entity names that already exist in storage (for cross-thread references)
+ * @param existingAliases Optional aliases of existing entities, mapped to the entity they resolve to
  */
 export function validateSaveMemoryRequest(
   entities: SaveMemoryEntity[],
-  existingEntityNames?: Set<string>
+  existingEntityNames?: Set<string>,
+  existingAliases?: Map<string, string>
 ): SaveMemoryValidationResult {
   const errors: Array<{ 
     entity: string; 
@@ -136,10 +154,11 @@ export function validateSaveMemoryRequest(
   
   // Collect all entity names for relation validation
   const entityNames = new Set(entities.map(e => e.name));
+  const aliasIndex = extendAliasIndex(existingAliases ?? new Map(), entities);
   
   // Validate each entity
   for (let entityIndex = 0; entityIndex < entities.length; entityIndex++) {
-    const result = validateEntity(entities[entityIndex], entityIndex, entityNames, existingEntityNames);
+    const result = validateEntity(entities[entityIndex], entityIndex, entityNames, aliasIndex, existingEntityNames);
     errors.push(...result.errors);
     warnings.push(...result.warnings);
   }
@@ -0,0 +1,177 @@
+/**
+ * Entity history: a timeline of every change to an entity, built from the audit log
+ *
+ * Each audit entry for the entity is one version of it; each entry for a relation from
+ * or to it is one version of that relation. Entity updates are split into the metadata
+ * and observation changes they made. History follows renames of the thread and of the entity.
+ * Changes made before the audit log was introduced are not recorded; the observation
+ * version chains (get_observation_history) still cover those.
+ */
+
+import {
+  Entity,
+  Relation,
+  AuditEntry,
+  EntityHistoryEvent,
+  EntityHistoryChange,
+  FieldChange
+} from '../types.js';
+import { IStorageAdapter } from '../storage-interface.js';
+import { createRelationKey } from '../utils/relation-key.js';
+
+// Entity and relation fields reported by entity_updated and relation_updated
+const ENTITY_METADATA_FIELDS = ['entityType', 'confidence', 'importance', 'aliases'] as const;
+const RELATION_METADATA_FIELDS = ['confidence', 'importance'] as const;
+
+function fieldChanges<T extends Entity | Relation>(before: T, after: T, fields: readonly (keyof T)[]): FieldChange[] {
+  return fields
+    .filter(field => JSON.stringify(before[field]) !== JSON.stringify(after[field]))
+    .map(field => ({
+      field: String(field),
+      before: before[field] as FieldChange['before'],
+      after: after[field] as FieldChange['after']
+    }));
+}
+
+/**
+ * The observation changes of an entity update: versions added by update_observation
+ * are reported as updates of the version they replace
+ */
+function observationEvents(before: Entity, after: Entity): Pick<EntityHistoryEvent, 'change' | 'observation' | 'previousObservation'>[] {
+  const previous = new Map(before.observations.map(o => [o.id, o]));
+  const current = new Set(after.observations.map(o => o.id));
+
+  const changes: Pick<EntityHistoryEvent, 'change' | 'observation' | 'previousObservation'>[] = after.observations
+    .filter(o => !previous.has(o.id))
+    .map(o => {
+      const replaced = o.supersedes !== undefined ? previous.get(o.supersedes) : undefined;
+      return replaced
+        ? { change: 'observation_updated' as const, observation: o, previousObservation: replaced }
+        : { change: 'observation_added' as const, observation: o };
+    });
+  before.observations
+    .filter(o => !current.has(o.id))
+    .forEach(o => changes.push({ change: 'observation_deleted', observation: o }));
+  return changes;
+}
+
+/**
+ * Load the audit entries of an entity, oldest first, following it back through the renames
+ * of its thread and of the entity itself
+ * Entries under an earlier thread ID are only taken up to the rename, so a new thread that
+ * reuses the ID later is not mixed in; likewise, entries of an entity that was renamed away
+ * before this one took its name are left out.
+ */
+async function loadEntityEntries(storage: IStorageAdapter, threadId: string, entityName: string): Promise<AuditEntry[]> {
+  const entries: AuditEntry[] = [];
+  const pending: { threadId: string; entityName: string; until?: string }[] = [{ threadId, entityName }];
+  const visited = new Set<string>();
+
+  while (pending.length > 0) {
+    const thread = pending.pop()!;
+    if (visited.has(thread.threadId)) continue;
+    visited.add(thread.threadId);
+
+    // Most recent first, so the name is known at every entry
+    let name = thread.entityName;
+    const threadEntries = await storage.loadAuditLog({ threadId: thread.threadId, until: thread.until });
+    for (const entry of threadEntries) {
+      if (entry.operation === 'rename_thread' && entry.newThreadId === thread.threadId) {
+        pending.push({ threadId: entry.threadId, entityName: name, until: entry.timestamp });
+      } else if (entry.threadId !== thread.threadId) {
+        continue;
+      } else if (entry.operation === 'rename_entity' && entry.newEntityName === name) {
+        entries.push(entry);
+        name = entry.entityName!;
+      } else if (entry.operation === 'rename_entity' && entry.entityName === name) {
+        break;
+      } else if (entry.entityName === name || entry.relation?.from === name || entry.relation?.to === name) {
+        entries.push(entry);
+      }
+    }
+  }
+
+  // Collected most recent first; reversed first so entries with the same timestamp keep their order
+  return entries.reverse().sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+}
+
+/**
+ * Get the chronological timeline of every change to an entity and its relations
+ * @throws Error if the entity does not exist in the thread and has no recorded history
+ */
+export async function getEntityHistory(
+  storage: IStorageAdapter,
+  threadId: string,
+  entityName: string
+): Promise<EntityHistoryEvent[]> {
+  const entries = await loadEntityEntries(storage, threadId, entityName);
+  if (entries.length === 0) {
+    const graph = await storage.loadThreadGraph(threadId);
+    if (!graph.entities.some(e => e.name === entityName)) {
+      throw new Error(`Entity '${entityName}' not found in thread '${threadId}'`);
+    }
+    return [];
+  }
+
+  let entityVersion = 0;
+  const relationVersions = new Map<string, number>();
+  const events: EntityHistoryEvent[] = [];
+  const add = (entry: AuditEntry, change: EntityHistoryChange, version: number, fields: Partial<EntityHistoryEvent> = {}) => {
+    events.push({
+      timestamp: entry.timestamp,
+      ...(entry.tool !== undefined && { tool: entry.tool }),
+      change,
+      version,
+      ...fields
+    });
+  };
+
+  for (const entry of entries) {
+    if (entry.relation) {
+      const relation = (entry.after ?? entry.before) as Relation;
+      const key = createRelationKey(relation);
+      const fields = entry.operation === 'update_relation'
+        ? fieldChanges(entry.before as Relation, relation, RELATION_METADATA_FIELDS)
+        : [];
+      if (entry.operation === 'update_relation' && fields.length === 0) continue;
+
+      const version = (relationVersions.get(key) ?? 0) + 1;
+      relationVersions.set(key, version);
+      if (entry.operation === 'create_relation') {
+        add(entry, 'relation_created', version, { relation });
+      } else if (entry.operation === 'delete_relation') {
+        add(entry, 'relation_removed', version, { relation });
+      } else {
+        add(entry, 'relation_updated', version, { relation, fieldChanges: fields });
+      }
+      continue;
+    }
+
+    if (entry.operation === 'rename_entity') {
+      const before = entry.before as Entity;
+      const after = entry.after as Entity;
+      add(entry, 'entity_renamed', ++entityVersion, {
+        fieldChanges: [{ field: 'name', before: before.name, after: after.name }, ...fieldChanges(before, after, ENTITY_METADATA_FIELDS)]
+      });
+    } else if (entry.operation === 'create_entity') {
+      add(entry, 'entity_created', ++entityVersion, { entity: entry.after as Entity });
+    } else if (entry.operation === 'delete_entity') {
+      add(entry, 'entity_deleted', ++entityVersion, { entity: entry.before as Entity });
+    } else {
+      // Updates that only moved the timestamp are not a new version
+      const before = entry.before as Entity;
+      const after = entry.after as Entity;
+      const fields = fieldChanges(before, after, ENTITY_METADATA_FIELDS);
+      const changes = [
+        ...(fields.length > 0 ? [{ change: 'entity_updated' as const, fieldChanges: fields }] : []),
+        ...observationEvents(before, after)
+      ];
+      if (changes.length > 0) {
+        entityVersion++;
+        changes.forEach(event => add(entry, event.change, entityVersion, event));
+      }
+    }
+  }
+
+  return events;
+}
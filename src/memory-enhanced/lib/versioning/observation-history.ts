@@ -2,8 +2,9 @@
  * Observation history and versioning service
  */
 
-import { Observation } from '../types.js';
+import { Observation, ObservationVersionDiff } from '../types.js';
 import { IStorageAdapter } from '../storage-interface.js';
+import { diffWords } from '../utils/word-diff.js';
 
 /**
  * Get full history chain for an observation
@@ -16,10 +17,10 @@ export async function getObservationHistory(
   entityName: string,
   observationId: string
 ): Promise<Observation[]> {
-  const graph = await storage.loadGraph();
+  const graph = await storage.loadThreadGraph(threadId);
   
   // Find the entity - only in the specified thread
-  const entity = graph.entities.find(e => e.name === entityName && e.agentThreadId === threadId);
+  const entity = graph.entities.find(e => e.name === entityName);
   if (!entity) {
     throw new Error(`Entity '${entityName}' not found in thread '${threadId}'`);
   }
@@ -74,3 +75,28 @@ export async function getObservationHistory(
   
   return history;
 }
+
+/**
+ * Get a word-level diff between two versions of an observation
+ * The versions may be given in either order; the diff goes from the first to the second
+ * @throws Error if the entity or either observation is not found in the thread
+ * @throws Error if the observations are not versions in the same chain
+ */
+export async function diffObservationVersions(
+  storage: IStorageAdapter,
+  threadId: string,
+  entityName: string,
+  fromObservationId: string,
+  toObservationId: string
+): Promise<ObservationVersionDiff> {
+  const history = await getObservationHistory(storage, threadId, entityName, fromObservationId);
+  const from = history.find(o => o.id === fromObservationId)!;
+  const to = history.find(o => o.id === toObservationId);
+  if (!to) {
+    throw new Error(
+      `Observations '${fromObservationId}' and '${toObservationId}' are not versions of the same observation in entity '${entityName}'`
+    );
+  }
+
+  return { from, to, changes: diffWords(from.content, to.content) };
+}
@@ -0,0 +1,225 @@
+/**
+ * Point-in-time reads: rebuild a thread as it was at a given instant
+ *
+ * Every change logged in the audit log since the instant is undone, most recent first:
+ * each entry holds the stored entity or relation it replaced, so this brings back deleted
+ * items, earlier names and aliases of renamed entities, and the type, confidence and
+ * importance items had then. Observations are never edited in place: update_observation
+ * adds a new version and links the old one through superseded_by, so the observation
+ * timestamps and version chains tell which versions existed at any time. Changes that were
+ * not logged are covered by the item timestamps and the thread's trash, which records when
+ * each item was deleted; items restored from the trash, emptied from it or purged after
+ * the retention period are only known in their current state.
+ */
+
+import { Entity, Relation, Observation, KnowledgeGraph, TrashItem, AuditEntry } from '../types.js';
+import { IStorageAdapter } from '../storage-interface.js';
+import { createRelationKey } from '../utils/relation-key.js';
+
+/**
+ * Parse an asOf timestamp
+ * @throws Error if the timestamp is not a valid date
+ */
+function parseAsOf(asOf: string): number {
+  const time = new Date(asOf).getTime();
+  if (Number.isNaN(time)) {
+    throw new Error(`Invalid asOf timestamp: ${asOf}`);
+  }
+  return time;
+}
+
+function timeOf(timestamp: string): number {
+  return new Date(timestamp).getTime();
+}
+
+/**
+ * The observations of an entity that existed at the given time, with version links
+ * to later versions removed (those versions were the current ones then)
+ */
+function observationsAt(observations: Observation[], time: number): Observation[] {
+  const existing = observations.filter(o => timeOf(o.timestamp) <= time);
+  const ids = new Set(existing.map(o => o.id));
+  return existing.map(o => {
+    if (o.superseded_by === undefined || ids.has(o.superseded_by)) return o;
+    const { superseded_by: _later, ...current } = o;
+    return current;
+  });
+}
+
+/**
+ * An entity as it was at the given time, or null if it did not exist yet
+ * Entity timestamps move forward with every write, so an entity written since then
+ * counts as existing if one of its observations already did.
+ */
+function entityAt(entity: Entity, deletedObservations: Observation[], time: number): Entity | null {
+  const known = [
+    ...entity.observations,
+    ...deletedObservations.filter(o => !entity.observations.some(existing => existing.id === o.id))
+  ];
+  const observations = observationsAt(known, time);
+  const existed = timeOf(entity.timestamp) <= time || observations.length > 0;
+  if (!existed) {
+    return null;
+  }
+
+  const timestamp = timeOf(entity.timestamp) <= time
+    ? entity.timestamp
+    : observations.reduce((latest, o) => (timeOf(o.timestamp) > timeOf(latest) ? o.timestamp : latest), observations[0].timestamp);
+  return { ...entity, timestamp, observations };
+}
+
+/**
+ * The name an entity had before the given renames (rename_entity entries, most recent first)
+ */
+function nameBefore(name: string, renames: AuditEntry[]): string {
+  return renames.reduce((current, entry) => (current === entry.newEntityName ? entry.entityName! : current), name);
+}
+
+function relationBefore(relation: Relation, renames: AuditEntry[]): Relation {
+  return { ...relation, from: nameBefore(relation.from, renames), to: nameBefore(relation.to, renames) };
+}
+
+/**
+ * An entity as it was before the given renames, with the name and aliases it had then
+ */
+function entityBefore(entity: Entity, renames: AuditEntry[]): Entity {
+  return renames.reduce((current, entry) => {
+    if (current.name !== entry.newEntityName) return current;
+    const { aliases: _later, ...fields } = current;
+    const { aliases } = entry.before as Entity;
+    return { ...fields, name: entry.entityName!, ...(aliases !== undefined && { aliases }) };
+  }, entity);
+}
+
+/**
+ * An entity as stored before an update, keeping the observations of the later state
+ * Observations are never edited in place, so their timestamps decide which versions existed
+ * at the time, and later versions of an observation only add the link to its successor.
+ */
+function entityBeforeUpdate(before: Entity, later: Entity | undefined): Entity {
+  const laterObservations = new Map((later?.observations ?? []).map(o => [o.id, o]));
+  const observations = before.observations.map(o => laterObservations.get(o.id) ?? o);
+  const ids = new Set(observations.map(o => o.id));
+  observations.push(...(later?.observations ?? []).filter(o => !ids.has(o.id)));
+  return { ...before, observations };
+}
+
+function renameRelations(relations: Map<string, Relation>, entry: AuditEntry): Map<string, Relation> {
+  const renamed = Array.from(relations.values(), relation => relationBefore(relation, [entry]));
+  return new Map(renamed.map(relation => [createRelationKey(relation), relation]));
+}
+
+/**
+ * A thread graph with the given changes undone (audit entries, most recent first)
+ * Thread-level entries (rename, archive, restore, delete) leave the graph as it is.
+ */
+function graphBefore(graph: KnowledgeGraph, changes: AuditEntry[]): KnowledgeGraph {
+  if (changes.length === 0) return graph;
+  const entities = new Map(graph.entities.map(e => [e.name, e]));
+  let relations = new Map(graph.relations.map(r => [createRelationKey(r), r]));
+
+  for (const entry of changes) {
+    switch (entry.operation) {
+      case 'create_entity':
+        entities.delete(entry.entityName!);
+        break;
+      case 'update_entity':
+        entities.set(entry.entityName!, entityBeforeUpdate(entry.before as Entity, entities.get(entry.entityName!)));
+        break;
+      case 'delete_entity':
+        entities.set(entry.entityName!, entry.before as Entity);
+        break;
+      case 'rename_entity':
+        entities.delete(entry.newEntityName!);
+        entities.set(entry.entityName!, entry.before as Entity);
+        relations = renameRelations(relations, entry);
+        break;
+      case 'create_relation':
+      case 'update_relation':
+      case 'delete_relation': {
+        const key = createRelationKey(entry.relation as Relation);
+        if (entry.before) relations.set(key, entry.before as Relation);
+        else relations.delete(key);
+        break;
+      }
+    }
+  }
+  return { entities: Array.from(entities.values()), relations: Array.from(relations.values()) };
+}
+
+/**
+ * A trash item with the renames made before its deletion undone; items deleted earlier
+ * already carry the names of that time
+ */
+function trashItemBefore(item: TrashItem, renames: AuditEntry[]): TrashItem {
+  const applied = renames.filter(entry => timeOf(entry.timestamp) < timeOf(item.deletedAt));
+  if (applied.length === 0) return item;
+  return {
+    ...item,
+    ...(item.entity && { entity: entityBefore(item.entity, applied) }),
+    ...(item.relations && { relations: item.relations.map(r => relationBefore(r, applied)) }),
+    ...(item.relation && { relation: relationBefore(item.relation, applied) }),
+    ...(item.entityName !== undefined && { entityName: nameBefore(item.entityName, applied) })
+  };
+}
+
+/**
+ * Rebuild a thread graph as it was at the given time from its state then, as far as the
+ * audit log tells, and its trash
+ * @param time Milliseconds since the epoch
+ */
+export function rebuildGraphAt(current: KnowledgeGraph, trash: TrashItem[], time: number): KnowledgeGraph {
+  // Items deleted after the instant existed then; the earliest deletion is the closest state
+  const deletedLater = trash
+    .filter(item => timeOf(item.deletedAt) > time)
+    .sort((a, b) => timeOf(a.deletedAt) - timeOf(b.deletedAt));
+
+  const deletedObservations = new Map<string, Observation[]>();
+  deletedLater.filter(item => item.kind === 'observation').forEach(item => {
+    deletedObservations.set(item.entityName!, [...(deletedObservations.get(item.entityName!) ?? []), item.observation!]);
+  });
+
+  const entityCandidates = [
+    ...deletedLater.filter(item => item.kind === 'entity').map(item => item.entity!),
+    ...current.entities
+  ];
+  const entities = new Map<string, Entity>();
+  for (const candidate of entityCandidates) {
+    if (entities.has(candidate.name)) continue;
+    const entity = entityAt(candidate, deletedObservations.get(candidate.name) ?? [], time);
+    if (entity) {
+      entities.set(entity.name, entity);
+    }
+  }
+
+  const relationCandidates: Relation[] = [
+    ...deletedLater.flatMap(item => item.kind === 'entity' ? item.relations! : item.kind === 'relation' ? [item.relation!] : []),
+    ...current.relations
+  ];
+  const relations = new Map<string, Relation>();
+  for (const relation of relationCandidates) {
+    const key = createRelationKey(relation);
+    if (!relations.has(key) && timeOf(relation.timestamp) <= time) {
+      relations.set(key, relation);
+    }
+  }
+
+  return { entities: Array.from(entities.values()), relations: Array.from(relations.values()) };
+}
+
+/**
+ * Load a thread as it was at the given time
+ * @param asOf ISO 8601 timestamp
+ * @throws Error if asOf is not a valid timestamp
+ */
+export async function loadThreadGraphAsOf(storage: IStorageAdapter, threadId: string, asOf: string): Promise<KnowledgeGraph> {
+  const time = parseAsOf(asOf);
+  const [current, trash, changes] = await Promise.all([
+    storage.loadThreadGraph(threadId),
+    storage.loadTrash(threadId),
+    storage.loadAuditLog({ threadId, since: new Date(time + 1).toISOString() })
+  ]);
+  const threadChanges = changes.filter(entry => entry.threadId === threadId);
+  const renames = threadChanges.filter(entry => entry.operation === 'rename_entity');
+  return rebuildGraphAt(graphBefore(current, threadChanges), trash.map(item => trashItemBefore(item, renames)), time);
+}
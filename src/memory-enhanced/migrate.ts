@@ -0,0 +1,130 @@
+#!/usr/bin/env node
+
+/**
+ * Storage migration CLI
+ * Copies the full knowledge graph between the JSONL, SQLite and Neo4j backends.
+ *
+ * Backends are configured the same way as the server: MEMORY_DIR_PATH, SQLITE_DB_PATH
+ * and NEO4J_URI / NEO4J_USERNAME / NEO4J_PASSWORD / NEO4J_DATABASE.
+ */
+
+import path from 'path';
+import { parseArgs } from 'util';
+import { fileURLToPath } from 'url';
+import { MigrationReport } from './lib/types.js';
+import { SQLITE_ENV_VARS, MIGRATION_ERROR_MESSAGES } from './lib/storage-config.js';
+import { resolveMemoryDir } from './lib/storage-env.js';
+import { migrateStorage, CHECKPOINT_FILE_NAME } from './lib/migration/storage-migrator.js';
+import {
+  STORAGE_BACKENDS,
+  StorageBackend,
+  describeStorageBackend,
+  openStorageBackend,
+  closeStorage
+} from './lib/migration/storage-backends.js';
+
+const USAGE = `Usage: mcp-server-memory-enhanced-migrate --from <backend> --to <backend> [options]
+
+Backends: ${STORAGE_BACKENDS.join(', ')}
+
+Options:
+  --dry-run             Report what would be copied without writing anything
+  --checkpoint <file>   Progress file used to resume an interrupted run
+                        (default: <memory dir>/${CHECKPOINT_FILE_NAME})
+  --memory-dir <dir>    JSONL memory directory (default: MEMORY_DIR_PATH)
+  --sqlite-path <file>  SQLite database file (default: SQLITE_DB_PATH)
+  --json                Print the report as JSON
+  --help                Show this help`;
+
+function isStorageBackend(value: string | undefined): value is StorageBackend {
+  return STORAGE_BACKENDS.includes(value as StorageBackend);
+}
+
+function formatReport(report: MigrationReport): string {
+  const lines = report.threads.map(thread => {
+    const { entities, relations, observations } = thread.source;
+    const counts = `${entities} entities, ${relations} relations, ${observations} observations`;
+    const details = thread.target
+      ? ` (found ${thread.target.entities}/${thread.target.relations}/${thread.target.observations} in target)`
+      : thread.existingEntities ? ` (${thread.existingEntities} entities already in target)` : '';
+    return `  ${thread.status.padEnd(8)} ${thread.threadId}: ${counts}${thread.status === 'failed' || thread.status === 'planned' ? details : ''}`;
+  });
+
+  const { entities, relations, observations } = report.totals;
+  const summary = report.dryRun
+    ? 'Dry run: nothing was written'
+    : report.verified ? 'Migration complete and verified' : 'Verification failed; run again to retry failed threads';
+  return [
+    ...lines,
+    `Total: ${report.threads.length} threads, ${entities} entities, ${relations} relations, ${observations} observations`,
+    summary
+  ].join('\n');
+}
+
+async function main(): Promise<number> {
+  const { values } = parseArgs({
+    args: process.argv.slice(2),
+    options: {
+      from: { type: 'string' },
+      to: { type: 'string' },
+      'dry-run': { type: 'boolean', default: false },
+      checkpoint: { type: 'string' },
+      'memory-dir': { type: 'string' },
+      'sqlite-path': { type: 'string' },
+      json: { type: 'boolean', default: false },
+      help: { type: 'boolean', default: false }
+    }
+  });
+
+  if (values.help) {
+    console.log(USAGE);
+    return 0;
+  }
+  if (!isStorageBackend(values.from) || !isStorageBackend(values.to)) {
+    console.error(USAGE);
+    return 2;
+  }
+
+  // Paths given on the command line are relative to the working directory
+  const memoryDirPath = values['memory-dir']
+    ? path.resolve(values['memory-dir'])
+    : resolveMemoryDir(path.dirname(fileURLToPath(import.meta.url)));
+  if (values['sqlite-path']) {
+    process.env[SQLITE_ENV_VARS.PATH] = path.resolve(values['sqlite-path']);
+  }
+
+  const sourceId = describeStorageBackend(values.from, memoryDirPath);
+  const targetId = describeStorageBackend(values.to, memoryDirPath);
+  if (sourceId === targetId) {
+    console.error(`${MIGRATION_ERROR_MESSAGES.SAME_BACKEND}: ${sourceId}`);
+    return 2;
+  }
+
+  const source = await openStorageBackend(values.from, memoryDirPath);
+  try {
+    const target = await openStorageBackend(values.to, memoryDirPath);
+    try {
+      const report = await migrateStorage(source, target, {
+        dryRun: values['dry-run'],
+        checkpointPath: values.checkpoint
+          ? path.resolve(values.checkpoint)
+          : path.join(memoryDirPath, CHECKPOINT_FILE_NAME),
+        migrationId: `${sourceId} -> ${targetId}`
+      });
+      console.log(values.json ? JSON.stringify(report, null, 2) : formatReport(report));
+      return report.verified ? 0 : 1;
+    } finally {
+      await closeStorage(target);
+    }
+  } finally {
+    await closeStorage(source);
+  }
+}
+
+main().then(
+  code => process.exit(code),
+  error => {
+    console.error('Migration failed:', error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+);